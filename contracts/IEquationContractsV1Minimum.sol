@@ -6,6 +6,8 @@ import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 import "@openzeppelin/contracts/token/ERC721/IERC721.sol";
 
 interface IMultiMinter {
+    function minters(address minter) external view returns (bool);
+
     function setMinter(address minter, bool enabled) external;
 }
 
@@ -0,0 +1,75 @@
+// SPDX-License-Identifier: BUSL-1.1
+pragma solidity =0.8.23;
+
+import "./MockPriceFeed.sol";
+import "../libraries/FundingRateUtil.sol";
+
+/// @notice Exposes FundingRateUtil over the state of a single market, so that the funding rate calculator of the scripts
+/// can be compared with the library on a local chain
+contract FundingRateUtilHarness {
+    IMarketManager.State private state;
+    IConfigurable.MarketConfig private marketConfig;
+    MockPriceFeed public immutable priceFeed;
+
+    constructor() {
+        priceFeed = new MockPriceFeed();
+    }
+
+    function setFeeRateConfig(IConfigurable.MarketFeeRateConfig calldata _feeRateConfig) external {
+        marketConfig.feeRateConfig = _feeRateConfig;
+    }
+
+    function setGlobalPosition(uint128 _longSize, uint128 _shortSize, uint128 _liquidity) external {
+        state.globalPosition.longSize = _longSize;
+        state.globalPosition.shortSize = _shortSize;
+        state.globalLiquidityPosition.liquidity = _liquidity;
+    }
+
+    function setPrices(uint128 _premiumRateX96, uint160 _basisIndexPriceX96, uint160 _indexPriceX96) external {
+        state.priceState.premiumRateX96 = _premiumRateX96;
+        state.priceState.basisIndexPriceX96 = _basisIndexPriceX96;
+        priceFeed.setMaxPriceX96(_indexPriceX96);
+    }
+
+    function settleFundingFee() external {
+        FundingRateUtil.settleFundingFee(
+            state,
+            marketConfig,
+            IPriceFeed(address(priceFeed)),
+            IMarketDescriptor(address(0))
+        );
+    }
+
+    function calculateFundingRateX96(
+        IConfigurable.MarketFeeRateConfig memory _feeRateConfig,
+        uint64 _timeDelta
+    ) external pure returns (uint256 longFundingRateX96, uint256 shortFundingRateX96) {
+        return FundingRateUtil.calculateFundingRateX96(_feeRateConfig, _timeDelta);
+    }
+
+    function calculateBaseRateX96(
+        IConfigurable.MarketFeeRateConfig memory _feeRateConfig,
+        uint128 _longSize,
+        uint128 _shortSize,
+        uint128 _premiumRateX96,
+        uint64 _timeDelta
+    ) external pure returns (int192) {
+        return FundingRateUtil.calculateBaseRateX96(_feeRateConfig, _longSize, _shortSize, _premiumRateX96, _timeDelta);
+    }
+
+    function globalPosition() external view returns (IMarketManager.GlobalPosition memory) {
+        return state.globalPosition;
+    }
+
+    function globalLiquidityPosition() external view returns (IMarketManager.GlobalLiquidityPosition memory) {
+        return state.globalLiquidityPosition;
+    }
+
+    function priceState() external view returns (IMarketManager.PriceState memory) {
+        return state.priceState;
+    }
+
+    function protocolFee() external view returns (uint128) {
+        return state.protocolFee;
+    }
+}
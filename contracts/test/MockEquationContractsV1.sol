@@ -0,0 +1,62 @@
+// SPDX-License-Identifier: BUSL-1.1
+pragma solidity =0.8.23;
+
+import "../../contracts/IEquationContractsV1Minimum.sol";
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+
+/// @notice Stand-ins for the Equation Contracts V1 contracts called by the deployment script,
+/// used to rehearse the deployment on a chain where Equation Contracts V1 is not deployed
+abstract contract MockGovernable {
+    address public gov;
+
+    error Forbidden();
+
+    modifier onlyGov() {
+        if (msg.sender != gov) revert Forbidden();
+        _;
+    }
+
+    constructor() {
+        gov = msg.sender;
+    }
+}
+
+contract MockMultiMinterToken is ERC20, IMultiMinter, MockGovernable {
+    mapping(address => bool) public minters;
+
+    constructor(string memory _name, string memory _symbol) ERC20(_name, _symbol) {}
+
+    function setMinter(address _minter, bool _enabled) external override onlyGov {
+        minters[_minter] = _enabled;
+    }
+}
+
+contract MockRouterV1 is MockGovernable {
+    mapping(address => bool) public registeredPlugins;
+
+    function registerPlugin(address _plugin) external onlyGov {
+        registeredPlugins[_plugin] = true;
+    }
+}
+
+contract MockFarmRewardDistributorV2 is MockGovernable {
+    IEFC public EFC;
+    address public signer;
+    mapping(address => bool) public collectors;
+    mapping(uint16 => string) public rewardTypesDescriptions;
+
+    event CollectorUpdated(address indexed collector, bool enabled);
+
+    constructor(IEFC _EFC, address _signer) {
+        (EFC, signer) = (_EFC, _signer);
+    }
+
+    function setCollector(address _collector, bool _enabled) external onlyGov {
+        collectors[_collector] = _enabled;
+        emit CollectorUpdated(_collector, _enabled);
+    }
+
+    function setRewardType(uint16 _rewardType, string calldata _description) external onlyGov {
+        rewardTypesDescriptions[_rewardType] = _description;
+    }
+}
@@ -0,0 +1,75 @@
+// SPDX-License-Identifier: BUSL-1.1
+pragma solidity =0.8.23;
+
+import "../types/Side.sol";
+import "../oracle/interfaces/IPriceFeed.sol";
+
+/// @notice Stands in for the router, price feed, order book, liquidator and market manager of MixedExecutorUpgradeable,
+/// recording the arguments each packed entry point was decoded to
+contract MockMixedExecutorTargets {
+    bool public failing;
+
+    event PriceX96sSet(IPriceFeed.MarketPrice[] marketPrices, uint64 timestamp);
+    event FundingFeeSettled(IMarketDescriptor market);
+    event ProtocolFeeCollected(IMarketDescriptor market);
+    event IncreaseOrderExecuted(uint256 orderIndex, address feeReceiver);
+    event DecreaseOrderExecuted(uint256 orderIndex, address feeReceiver);
+    event LiquidityPositionLiquidated(IMarketDescriptor market, address account, address feeReceiver);
+    event PositionLiquidated(IMarketDescriptor market, address account, Side side, address feeReceiver);
+
+    error Failed();
+
+    modifier failable() {
+        if (failing) revert Failed();
+        _;
+    }
+
+    function setFailing(bool _failing) external {
+        failing = _failing;
+    }
+
+    function isEnabledMarket(IMarketDescriptor /* _market */) external pure returns (bool) {
+        return true;
+    }
+
+    function setPriceX96s(IPriceFeed.MarketPrice[] calldata _marketPrices, uint64 _timestamp) external {
+        emit PriceX96sSet(_marketPrices, _timestamp);
+    }
+
+    function pluginSettleFundingFee(IMarketDescriptor _market) external {
+        emit FundingFeeSettled(_market);
+    }
+
+    function collectProtocolFee(IMarketDescriptor _market) external {
+        emit ProtocolFeeCollected(_market);
+    }
+
+    function executeIncreaseOrder(uint256 _orderIndex, address payable _feeReceiver) external failable {
+        emit IncreaseOrderExecuted(_orderIndex, _feeReceiver);
+    }
+
+    function executeDecreaseOrder(uint256 _orderIndex, address payable _feeReceiver) external failable {
+        emit DecreaseOrderExecuted(_orderIndex, _feeReceiver);
+    }
+
+    function cancelIncreaseOrder(uint256 /* _orderIndex */, address payable /* _feeReceiver */) external failable {}
+
+    function cancelDecreaseOrder(uint256 /* _orderIndex */, address payable /* _feeReceiver */) external failable {}
+
+    function liquidateLiquidityPosition(
+        IMarketDescriptor _market,
+        address _account,
+        address _feeReceiver
+    ) external failable {
+        emit LiquidityPositionLiquidated(_market, _account, _feeReceiver);
+    }
+
+    function liquidatePosition(
+        IMarketDescriptor _market,
+        address _account,
+        Side _side,
+        address _feeReceiver
+    ) external failable {
+        emit PositionLiquidated(_market, _account, _side, _feeReceiver);
+    }
+}
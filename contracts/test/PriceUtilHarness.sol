@@ -0,0 +1,58 @@
+// SPDX-License-Identifier: BUSL-1.1
+pragma solidity =0.8.23;
+
+import "../libraries/MarketUtil.sol";
+import "../libraries/PriceUtil.sol";
+
+/// @notice Exposes PriceUtil.updatePriceState over the state of a single market, so that the price simulation of the
+/// scripts can be compared with the library on a local chain
+contract PriceUtilHarness {
+    using MarketUtil for IMarketManager.State;
+
+    IMarketManager.State private state;
+    IConfigurable.MarketPriceConfig private priceConfig;
+    uint160 private maxPriceX96;
+
+    function setPriceConfig(IConfigurable.MarketPriceConfig calldata _priceConfig, uint160 _maxPriceX96) external {
+        priceConfig.maxPriceImpactLiquidity = _priceConfig.maxPriceImpactLiquidity;
+        priceConfig.liquidationVertexIndex = _priceConfig.liquidationVertexIndex;
+        priceConfig.dynamicDepthMode = _priceConfig.dynamicDepthMode;
+        priceConfig.dynamicDepthLevel = _priceConfig.dynamicDepthLevel;
+        for (uint8 i; i < Constants.VERTEX_NUM; ++i) priceConfig.vertices[i] = _priceConfig.vertices[i];
+        maxPriceX96 = _maxPriceX96;
+    }
+
+    /// @notice Change the liquidity and recalculate the price vertices, as the liquidity position updates do
+    function setLiquidity(uint128 _liquidity) external {
+        state.globalLiquidityPosition.liquidity = _liquidity;
+        state.changePriceVertices(priceConfig, IMarketDescriptor(address(0)), maxPriceX96);
+    }
+
+    function updatePriceState(
+        PriceUtil.UpdatePriceStateParameter memory _parameter
+    ) external returns (uint160 tradePriceX96) {
+        return PriceUtil.updatePriceState(state.globalLiquidityPosition, state.priceState, _parameter);
+    }
+
+    /// @dev Called back by PriceUtil.updatePriceState, as MarketManagerUpgradeable.changePriceVertex
+    function changePriceVertex(IMarketDescriptor _market, uint8 _startExclusive, uint8 _endInclusive) external {
+        require(msg.sender == address(this));
+
+        IMarketManager.PriceState storage _priceState = state.priceState;
+        if (_endInclusive < Constants.LATEST_VERTEX) {
+            IMarketManager.PriceVertex memory previous = _priceState.priceVertices[_endInclusive];
+            IMarketManager.PriceVertex memory next = _priceState.priceVertices[_endInclusive + 1];
+            if (previous.size >= next.size || previous.premiumRateX96 >= next.premiumRateX96)
+                _endInclusive = Constants.LATEST_VERTEX;
+        }
+        state.changePriceVertex(priceConfig, _market, maxPriceX96, _startExclusive, _endInclusive);
+    }
+
+    function priceState() external view returns (IMarketManager.PriceState memory) {
+        return state.priceState;
+    }
+
+    function globalLiquidityPosition() external view returns (IMarketManager.GlobalLiquidityPosition memory) {
+        return state.globalLiquidityPosition;
+    }
+}
@@ -42,6 +42,10 @@ const config: HardhatUserConfig = {
     networks: {
         hardhat: {
             allowUnlimitedContractSize: false,
+            forking: {
+                url: `${process.env.FORK_URL}`,
+                enabled: process.env.FORK_URL != undefined,
+            },
         },
         "arbitrum-sepolia": {
             url: "https://sepolia-rollup.arbitrum.io/rpc",
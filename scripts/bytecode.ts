@@ -0,0 +1,90 @@
+import {artifacts, ethers} from "hardhat";
+import {keccak256} from "@ethersproject/keccak256";
+import {Deployments, LibraryName, libraryNames} from "./manifest";
+
+export interface CodeComparison {
+    ok: boolean;
+    // keccak256 of the runtime code, with immutables and the library call protection address zeroed
+    actualHash: string;
+    expectedHash: string;
+}
+
+// Compares the runtime code deployed at `address` with the locally compiled artifact of `contractName`,
+// linking `libraries` into the artifact first
+export async function compareDeployedCode(
+    contractName: string,
+    address: string,
+    libraries: Record<string, string> = {},
+): Promise<CodeComparison> {
+    const expected = await expectedRuntimeCode(contractName, libraries);
+    const actual = await ethers.provider.getCode(address);
+    if (actual === "0x") {
+        return {ok: false, actualHash: "no code", expectedHash: keccak256(expected)};
+    }
+    const masked = await maskRuntimeCode(contractName, actual);
+    return {ok: masked === expected, actualHash: keccak256(masked), expectedHash: keccak256(expected)};
+}
+
+// Resolves the libraries `contractName` links against from the deployment manifest
+export async function linkedLibraries(contractName: string, deployments: Deployments) {
+    const artifact = await artifacts.readArtifact(contractName);
+    const libraries: Record<string, string> = {};
+    for (const fileReferences of Object.values(artifact.linkReferences)) {
+        for (const libraryName of Object.keys(fileReferences)) {
+            if (!(libraryNames as readonly string[]).includes(libraryName)) {
+                throw new Error(`library ${libraryName} of ${contractName} is not recorded in the manifest`);
+            }
+            libraries[libraryName] = deployments[libraryName as LibraryName];
+        }
+    }
+    return libraries;
+}
+
+// Finds the libraries whose deployed bytecode differs from the local artifacts
+export async function changedLibraries(deployments: Deployments) {
+    const changed: LibraryName[] = [];
+    for (const name of libraryNames) {
+        if (!(await compareDeployedCode(name, deployments[name])).ok) {
+            changed.push(name);
+        }
+    }
+    return changed;
+}
+
+export async function expectedRuntimeCode(contractName: string, libraries: Record<string, string> = {}) {
+    const artifact = await artifacts.readArtifact(contractName);
+    let code = artifact.deployedBytecode.slice(2);
+    for (const [, fileReferences] of Object.entries(artifact.deployedLinkReferences)) {
+        for (const [libraryName, references] of Object.entries(fileReferences)) {
+            const library = libraries[libraryName];
+            if (library == undefined) {
+                throw new Error(`library ${libraryName} of ${contractName} is not provided`);
+            }
+            for (const {start, length} of references) {
+                code = splice(code, start, length, library.slice(2).toLowerCase());
+            }
+        }
+    }
+    return maskRuntimeCode(contractName, "0x" + code);
+}
+
+async function maskRuntimeCode(contractName: string, runtimeCode: string) {
+    const artifact = await artifacts.readArtifact(contractName);
+    let code = runtimeCode.slice(2).toLowerCase();
+    const buildInfo = await artifacts.getBuildInfo(`${artifact.sourceName}:${artifact.contractName}`);
+    const output = buildInfo?.output.contracts[artifact.sourceName][artifact.contractName];
+    for (const references of Object.values(output?.evm.deployedBytecode.immutableReferences ?? {})) {
+        for (const {start, length} of references) {
+            code = splice(code, start, length, "00".repeat(length));
+        }
+    }
+    // libraries start with `PUSH20 <address>`, the address is the library itself and is checked by the caller
+    if ((libraryNames as readonly string[]).includes(contractName)) {
+        code = splice(code, 1, 20, "00".repeat(20));
+    }
+    return "0x" + code;
+}
+
+function splice(code: string, start: number, length: number, replacement: string) {
+    return code.slice(0, start * 2) + replacement + code.slice((start + length) * 2);
+}
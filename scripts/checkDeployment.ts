@@ -0,0 +1,79 @@
+import {ethers, hardhatArguments, upgrades} from "hardhat";
+import {networks} from "./networks";
+import {contractNames, loadManifest, ProxyName} from "./manifest";
+import {compareDeployedCode, linkedLibraries} from "./bytecode";
+import {Check, checkWiring, printChecks} from "./wiring";
+import {logBlockRange} from "./util";
+
+export async function checkDeployment(chainId: bigint) {
+    const network = networks[hardhatArguments.network as keyof typeof networks];
+    if (network == undefined) {
+        throw new Error(`network ${hardhatArguments.network} is not defined`);
+    }
+    const document = loadManifest(chainId);
+
+    const checks: Check[] = [];
+    for (const name of contractNames) {
+        const address = document.deployments[name];
+        if (!name.endsWith("Upgradeable")) {
+            const res = await compareDeployedCode(name, address);
+            checks.push({name: `${name} code`, ok: res.ok, actual: res.actualHash, expected: res.expectedHash});
+            continue;
+        }
+
+        const code = await ethers.provider.getCode(address);
+        checks.push({
+            name: `${name} proxy code`,
+            ok: code !== "0x",
+            actual: `${code.length / 2 - 1} bytes`,
+            expected: "code",
+        });
+        if (code === "0x") {
+            continue;
+        }
+        const implementation = await upgrades.erc1967.getImplementationAddress(address);
+        const recorded = document.implementations?.[name as ProxyName];
+        if (recorded != undefined) {
+            checks.push({
+                name: `${name} implementation`,
+                ok: recorded === implementation,
+                actual: implementation,
+                expected: recorded,
+            });
+        }
+        const res = await compareDeployedCode(name, implementation, await linkedLibraries(name, document.deployments));
+        checks.push({
+            name: `${name} implementation ${implementation} code`,
+            ok: res.ok,
+            actual: res.actualHash,
+            expected: res.expectedHash,
+        });
+    }
+
+    for (const market of document.deployments.registerMarkets ?? []) {
+        const res = await compareDeployedCode("MarketDescriptor", market.address);
+        checks.push({
+            name: `${market.name} market descriptor code`,
+            ok: res.ok,
+            actual: res.actualHash,
+            expected: res.expectedHash,
+        });
+    }
+
+    checks.push(...(await checkWiring(network, document.deployments, document.block, logBlockRange())));
+    return checks;
+}
+
+async function main() {
+    const failed = printChecks(await checkDeployment((await ethers.provider.getNetwork()).chainId));
+    if (failed > 0) {
+        throw new Error(`deployment drifted from the manifest, ${failed} check(s) failed`);
+    }
+}
+
+main()
+    .then(() => process.exit(0))
+    .catch((error) => {
+        console.error(error);
+        process.exit(1);
+    });
@@ -0,0 +1,160 @@
+import {ethers, hardhatArguments} from "hardhat";
+import {keccak256} from "@ethersproject/keccak256";
+import {AddressZero} from "@ethersproject/constants";
+import {networks} from "./networks";
+import {loadManifest, marketAddress, RegisteredMarket} from "./manifest";
+import {Check, printChecks} from "./wiring";
+
+interface IndexedMarket {
+    index: number;
+    address: string;
+    symbol: string;
+}
+
+// Checks that the listed markets, their CREATE2 descriptor addresses, their MarketIndexer indexes and the
+// registerMarkets entries of the manifest agree with each other. The listing order must follow the index order, with
+// the markets not registered yet at the end. Indexed markets that are no longer listed are reported as warnings, as a
+// retired market keeps its index.
+export async function checkMarketIndexes(chainId: bigint) {
+    const network = networks[hardhatArguments.network as keyof typeof networks];
+    if (network == undefined) {
+        throw new Error(`network ${hardhatArguments.network} is not defined`);
+    }
+    const document = loadManifest(chainId);
+    const marketIndexer = await ethers.getContractAt("MarketIndexer", document.deployments.MarketIndexer);
+    const deployer = await ethers.getContractAt(
+        "MarketDescriptorDeployer",
+        document.deployments.MarketDescriptorDeployer,
+    );
+
+    const checks: Check[] = [];
+    const expect = (name: string, actual: unknown, expected: unknown) =>
+        checks.push({
+            name: name,
+            ok: String(actual).toLowerCase() === String(expected).toLowerCase(),
+            actual: String(actual),
+            expected: String(expected),
+        });
+
+    const MarketDescriptor = await ethers.getContractFactory("MarketDescriptor");
+    expect("marketDescriptorInitCodeHash", document.marketDescriptorInitCodeHash, keccak256(MarketDescriptor.bytecode));
+
+    // the markets indexed on chain, each mapped back to its index and derived from its symbol
+    const indexed: IndexedMarket[] = [];
+    const count = Number(await marketIndexer.marketIndex());
+    for (let index = 1; index <= count; index++) {
+        const address: string = await marketIndexer.indexMarkets(index);
+        const symbol: string = await (await ethers.getContractAt("MarketDescriptor", address)).symbol();
+        indexed.push({index, address, symbol});
+        expect(`index ${index} ${symbol} marketIndexes`, await marketIndexer.marketIndexes(address), index);
+        expect(`index ${index} ${symbol} CREATE2 address`, address, marketAddress(document, symbol));
+    }
+
+    // the listed markets, in the listing order
+    const registered = document.deployments.registerMarkets ?? [];
+    let lastIndex = 0;
+    let unregistered: string | undefined;
+    for (const [position, listing] of network.markets.entries()) {
+        const address = marketAddress(document, listing.name);
+        const deployed: string = await deployer.descriptors(listing.name);
+        if (deployed !== AddressZero) {
+            expect(`${listing.name} descriptor address`, deployed, address);
+        }
+        const index = Number(await marketIndexer.marketIndexes(address));
+        const entry = registered.find((market) => market.name === listing.name);
+        if (index == 0) {
+            expect(
+                `${listing.name} registerMarkets entry`,
+                entry == undefined ? "none" : `index ${entry.index}`,
+                "none",
+            );
+            unregistered = unregistered ?? listing.name;
+            continue;
+        }
+        expect(
+            `${listing.name} registerMarkets entry`,
+            entry == undefined ? "none" : `index ${entry.index} at ${entry.address}`,
+            `index ${index} at ${address}`,
+        );
+        // registerMarkets assigns the indexes in the listing order
+        expect(
+            `${listing.name} listed at position ${position + 1} in index order`,
+            unregistered != undefined
+                ? `listed after ${unregistered}, which is not registered`
+                : index > lastIndex
+                  ? "in order"
+                  : `index ${index} listed after index ${lastIndex}`,
+            "in order",
+        );
+        lastIndex = Math.max(lastIndex, index);
+    }
+
+    // duplicates and stale entries of the manifest
+    for (const key of ["name", "index", "address"] as const) {
+        const seen = new Set<string>();
+        for (const market of registered) {
+            const value = String(market[key]).toLowerCase();
+            if (seen.has(value)) {
+                expect(`registerMarkets ${key} ${market[key]}`, "duplicated", "unique");
+            }
+            seen.add(value);
+        }
+    }
+    for (const market of registered) {
+        const onChain = indexed.find((item) => item.index === market.index);
+        expect(
+            `registerMarkets ${market.name} index ${market.index}`,
+            onChain == undefined ? "not assigned" : `${onChain.symbol} at ${onChain.address}`,
+            `${market.name} at ${market.address}`,
+        );
+    }
+
+    const warnings = unlistedMarkets(network.markets, indexed, registered);
+    return {checks, warnings};
+}
+
+// Reports the indexed markets that are not listed, with the unregistered listings in their place that may be renamed
+// symbols of them
+function unlistedMarkets(listings: {name: string}[], indexed: IndexedMarket[], registered: RegisteredMarket[]) {
+    const warnings: string[] = [];
+    const positions = new Map(listings.map((listing, position) => [listing.name, position]));
+    for (const market of indexed) {
+        if (positions.has(market.symbol)) {
+            continue;
+        }
+        const before = indexed.filter((item) => item.index < market.index && positions.has(item.symbol)).pop();
+        const after = indexed.find((item) => item.index > market.index && positions.has(item.symbol));
+        const candidates = listings
+            .slice(
+                before == undefined ? 0 : positions.get(before.symbol)! + 1,
+                after == undefined ? listings.length : positions.get(after.symbol)!,
+            )
+            .filter((listing) => !indexed.some((item) => item.symbol === listing.name))
+            .map((listing) => listing.name);
+        const recorded = registered.find((item) => item.index === market.index)?.name;
+        warnings.push(
+            `index ${market.index} ${market.symbol}${
+                recorded != undefined && recorded !== market.symbol ? ` (recorded as ${recorded})` : ""
+            } is not listed` + (candidates.length > 0 ? `, renamed to ${candidates.join(" or ")}?` : ", retired?"),
+        );
+    }
+    return warnings;
+}
+
+async function main() {
+    const {checks, warnings} = await checkMarketIndexes((await ethers.provider.getNetwork()).chainId);
+    for (const warning of warnings) {
+        console.warn(`👿👿${warning}👿👿`);
+    }
+    const failed = printChecks(checks);
+    if (failed > 0) {
+        throw new Error(`market indexes are inconsistent, ${failed} check(s) failed`);
+    }
+}
+
+main()
+    .then(() => process.exit(0))
+    .catch((error) => {
+        console.error(error);
+        process.exit(1);
+    });
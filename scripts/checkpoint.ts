@@ -0,0 +1,143 @@
+import {ethers} from "hardhat";
+
+export interface StepRecord {
+    txHash?: string;
+    block?: number;
+    address?: string;
+    confirmed: boolean;
+}
+
+export interface Checkpoint {
+    chainId: string;
+    deployer: string;
+    // the deployer nonce from which the proxy and contract addresses are predicted
+    nonce?: number;
+    steps: Record<string, StepRecord>;
+}
+
+export interface StepResult {
+    tx?: {hash: string};
+    address?: string;
+}
+
+export function checkpointPath(chainId: bigint) {
+    return `deployments/${chainId}.checkpoint.json`;
+}
+
+export function newCheckpoint(chainId: bigint, deployer: string): Checkpoint {
+    return {chainId: chainId.toString(), deployer: deployer, steps: {}};
+}
+
+export function loadCheckpoint(chainId: bigint, deployer: string): Checkpoint {
+    const fs = require("fs");
+    const path = checkpointPath(chainId);
+    if (!fs.existsSync(path)) {
+        return newCheckpoint(chainId, deployer);
+    }
+    const checkpoint = JSON.parse(fs.readFileSync(path, "utf8")) as Checkpoint;
+    if (checkpoint.deployer !== deployer) {
+        throw new Error(`checkpoint ${path} was created by ${checkpoint.deployer}, not by ${deployer}`);
+    }
+    console.log(`📂 resuming deployment from ${path}`);
+    return checkpoint;
+}
+
+export function saveCheckpoint(checkpoint: Checkpoint) {
+    const fs = require("fs");
+    if (!fs.existsSync("deployments")) {
+        fs.mkdirSync("deployments");
+    }
+    fs.writeFileSync(checkpointPath(BigInt(checkpoint.chainId)), JSON.stringify(checkpoint, null, 4));
+}
+
+// Runs a step which sends at most one transaction, unless the step is already confirmed on-chain.
+// The transaction hash is persisted before waiting for the receipt, so a rerun keeps waiting on a transaction
+// that was sent but not yet mined, and sends it again only if it reverted or the node no longer knows it.
+// `skip` returns true if the effect of the step is already on-chain.
+export async function runStep(
+    checkpoint: Checkpoint,
+    name: string,
+    send: () => Promise<StepResult>,
+    skip?: () => Promise<boolean>,
+): Promise<StepRecord> {
+    const existing = checkpoint.steps[name];
+    if (existing != undefined) {
+        if (existing.confirmed) {
+            await expectConfirmed(name, existing);
+            console.log(`⏭️ ${name} already confirmed at block ${existing.block}`);
+            return existing;
+        }
+        if (existing.txHash != undefined) {
+            console.log(`⏳ ${name} waiting for transaction ${existing.txHash}`);
+            const receipt = await waitForReceipt(existing.txHash);
+            if (receipt != null && receipt.status === 1) {
+                return confirm(checkpoint, name, existing, receipt);
+            }
+            const reason = receipt == null ? "is not known to the node" : "reverted";
+            console.warn(`👿👿${name} transaction ${existing.txHash} ${reason}, sending again👿👿`);
+        }
+    }
+
+    if (skip != undefined && (await skip())) {
+        const record = {block: await ethers.provider.getBlockNumber(), confirmed: true};
+        checkpoint.steps[name] = record;
+        saveCheckpoint(checkpoint);
+        console.log(`⏭️ ${name} already applied on-chain`);
+        return record;
+    }
+
+    const result = await send();
+    const record: StepRecord = {txHash: result.tx?.hash, address: result.address, confirmed: false};
+    checkpoint.steps[name] = record;
+    saveCheckpoint(checkpoint);
+    if (result.tx == undefined) {
+        // nothing was sent, e.g. the implementation is reused from a previous deployment
+        record.block = await ethers.provider.getBlockNumber();
+        record.confirmed = true;
+        saveCheckpoint(checkpoint);
+        return record;
+    }
+
+    const receipt = await waitForReceipt(result.tx.hash);
+    if (receipt == null || receipt.status !== 1) {
+        throw new Error(`${name} transaction ${result.tx.hash} failed`);
+    }
+    return confirm(checkpoint, name, record, receipt);
+}
+
+// Waits for the receipt of a transaction for as long as it is pending, or returns null if the node does not know it
+async function waitForReceipt(txHash: string) {
+    const tx = await ethers.provider.getTransaction(txHash);
+    if (tx == null) {
+        return null;
+    }
+    // a reverted transaction throws, its receipt is read below
+    await tx.wait().catch(() => undefined);
+    return ethers.provider.getTransactionReceipt(txHash);
+}
+
+function confirm(
+    checkpoint: Checkpoint,
+    name: string,
+    record: StepRecord,
+    receipt: {blockNumber: number; contractAddress: string | null},
+) {
+    record.block = receipt.blockNumber;
+    record.address = record.address ?? receipt.contractAddress ?? undefined;
+    record.confirmed = true;
+    saveCheckpoint(checkpoint);
+    console.log(`✅ ${name} confirmed at block ${record.block}`);
+    return record;
+}
+
+async function expectConfirmed(name: string, record: StepRecord) {
+    if (record.txHash != undefined) {
+        const receipt = await ethers.provider.getTransactionReceipt(record.txHash);
+        if (receipt == null || receipt.status !== 1) {
+            throw new Error(`checkpoint is stale: ${name} transaction ${record.txHash} is not on-chain`);
+        }
+    }
+    if (record.address != undefined && (await ethers.provider.getCode(record.address)) === "0x") {
+        throw new Error(`checkpoint is stale: ${name} address ${record.address} has no code`);
+    }
+}
@@ -0,0 +1,96 @@
+import {ethers, hardhatArguments} from "hardhat";
+import {networks} from "./networks";
+import {loadManifest, marketAddress} from "./manifest";
+import {ConfigDiff, diffMarketConfigs, MarketConfig, readMarketConfig} from "./marketConfig";
+
+export interface MarketDiff {
+    market: string;
+    // set if the market is configured on one side only
+    only?: "from" | "to";
+    fields: ConfigDiff[];
+}
+
+type MarketConfigs = Map<string, MarketConfig>;
+
+function networkMarketConfigs(name: string): MarketConfigs {
+    const network = networks[name as keyof typeof networks];
+    if (network == undefined) {
+        throw new Error(`network ${name} is not defined`);
+    }
+    return new Map(network.markets.map((market) => [market.name, market.marketCfg]));
+}
+
+// Reads the configs of the enabled markets of the network config from the market manager
+async function chainMarketConfigs(chainId: bigint, names: string[]): Promise<MarketConfigs> {
+    const document = loadManifest(chainId);
+    const marketManager = await ethers.getContractAt(
+        "MarketManagerUpgradeable",
+        document.deployments.MarketManagerUpgradeable,
+    );
+    const configs: MarketConfigs = new Map();
+    for (const name of names) {
+        const market = marketAddress(document, name);
+        if (await marketManager.isEnabledMarket(market)) {
+            configs.set(name, await readMarketConfig(marketManager, market));
+        }
+    }
+    return configs;
+}
+
+export function diffMarkets(from: MarketConfigs, to: MarketConfigs): MarketDiff[] {
+    const diffs: MarketDiff[] = [];
+    for (const [market, cfg] of from) {
+        const other = to.get(market);
+        if (other == undefined) {
+            diffs.push({market, only: "from", fields: []});
+            continue;
+        }
+        const fields = diffMarketConfigs(cfg, other);
+        if (fields.length > 0) {
+            diffs.push({market, fields});
+        }
+    }
+    for (const market of to.keys()) {
+        if (!from.has(market)) {
+            diffs.push({market, only: "to", fields: []});
+        }
+    }
+    return diffs;
+}
+
+// Compares the market configs of the DIFF_FROM network, the --network one by default, with the DIFF_TO network, or
+// with the live configs of the --network chain if DIFF_TO is `chain`
+async function main() {
+    const fromName = process.env.DIFF_FROM ?? hardhatArguments.network!;
+    const toName = process.env.DIFF_TO ?? "chain";
+    const from = networkMarketConfigs(fromName);
+    const to =
+        toName === "chain"
+            ? await chainMarketConfigs((await ethers.provider.getNetwork()).chainId, [...from.keys()])
+            : networkMarketConfigs(toName);
+    const diffs = diffMarkets(from, to);
+
+    if (process.env.DIFF_FORMAT === "json") {
+        console.log(JSON.stringify({from: fromName, to: toName, markets: diffs}, null, 4));
+        return;
+    }
+    console.log(`--- ${fromName}\n+++ ${toName}`);
+    for (const diff of diffs) {
+        if (diff.only != undefined) {
+            console.log(`${diff.market}: only in ${diff.only === "from" ? fromName : toName}`);
+            continue;
+        }
+        console.log(`${diff.market}:`);
+        for (const field of diff.fields) {
+            console.log(`    ${field.field}: ${field.fromText} -> ${field.toText}`);
+        }
+    }
+    console.log(`${diffs.length} market(s) differ`);
+}
+
+main()
+    .then(() => process.exit(0))
+    .catch((error) => {
+        console.error(error);
+        process.exit(1);
+    });
@@ -0,0 +1,105 @@
+import {ethers, hardhatArguments} from "hardhat";
+import {networks} from "./networks";
+import {loadManifest} from "./manifest";
+import {MarketConfig, readMarketConfig} from "./marketConfig";
+import {MarketListing, writeMarketListings} from "./marketListings";
+import {closestRiskTier, riskTier, tierOverrides} from "./riskTiers";
+
+export interface ExportedMarket {
+    name: string;
+    index: number;
+    address: string;
+    chainLinkPriceFeed?: string;
+    refHeartbeatDuration: number;
+    maxCumulativeDeltaDiff: bigint;
+    minProfitDuration: number;
+    marketCfg: MarketConfig;
+}
+
+// Reads the enabled markets in the order of their market indexes, with their live configs
+export async function readEnabledMarkets(chainId: bigint): Promise<ExportedMarket[]> {
+    const document = loadManifest(chainId);
+    const marketIndexer = await ethers.getContractAt("MarketIndexer", document.deployments.MarketIndexer);
+    const marketManager = await ethers.getContractAt(
+        "MarketManagerUpgradeable",
+        document.deployments.MarketManagerUpgradeable,
+    );
+    const priceFeed = await ethers.getContractAt("PriceFeedUpgradeable", document.deployments.PriceFeedUpgradeable);
+
+    const markets: ExportedMarket[] = [];
+    const count = Number(await marketIndexer.marketIndex());
+    for (let index = 1; index <= count; index++) {
+        const address = await marketIndexer.indexMarkets(index);
+        if (!(await marketManager.isEnabledMarket(address))) {
+            continue;
+        }
+        const descriptor = await ethers.getContractAt("MarketDescriptor", address);
+        const [name, marketCfg, minProfitDuration, priceFeedCfg] = await Promise.all([
+            descriptor.symbol(),
+            readMarketConfig(marketManager, address),
+            marketManager.marketMinProfitDuration(address),
+            priceFeed.marketConfig(address),
+        ]);
+        markets.push({
+            name: name,
+            index: index,
+            address: address,
+            chainLinkPriceFeed:
+                priceFeedCfg.refPriceFeed === ethers.ZeroAddress ? undefined : priceFeedCfg.refPriceFeed,
+            refHeartbeatDuration: Number(priceFeedCfg.refHeartbeatDuration),
+            maxCumulativeDeltaDiff: BigInt(priceFeedCfg.maxCumulativeDeltaDiff),
+            minProfitDuration: Number(minProfitDuration),
+            marketCfg: marketCfg,
+        });
+    }
+    return markets;
+}
+
+// Regenerates the market listings of the network from the live configs of the enabled markets, in the order of their
+// market indexes, each market declared as its closest risk tier and the overrides of the fields deviating from it.
+// Listed markets that are not enabled on chain yet are kept as they are at the end.
+export async function exportMarketConfigs(chainId: bigint) {
+    const networkName = hardhatArguments.network!;
+    const network = networks[networkName as keyof typeof networks];
+    if (network == undefined) {
+        throw new Error(`network ${networkName} is not defined`);
+    }
+    const markets = await readEnabledMarkets(chainId);
+
+    const listings: MarketListing[] = markets.map((market) => {
+        const listed = network.markets.find((listing) => listing.name === market.name);
+        // a market being wound down keeps its tier, as the stages are derived from it
+        const {tier, overrides} =
+            listed?.windDown != undefined
+                ? {tier: listed.tier, overrides: tierOverrides(listed.tier, market.marketCfg)}
+                : closestRiskTier(market.marketCfg);
+        return {
+            name: market.name,
+            chainLinkPriceFeed: market.chainLinkPriceFeed,
+            refHeartbeatDuration: market.refHeartbeatDuration == 0 ? undefined : market.refHeartbeatDuration,
+            maxCumulativeDeltaDiff: market.maxCumulativeDeltaDiff,
+            minProfitDuration: market.minProfitDuration == 0 ? undefined : market.minProfitDuration,
+            // the wind-down stage is not on chain
+            windDown: listed?.windDown,
+            ...riskTier(tier, overrides),
+        };
+    });
+    for (const listing of network.markets) {
+        if (!markets.some((market) => market.name === listing.name)) {
+            console.warn(`⏭️ ${listing.name} is not enabled, kept as listed`);
+            listings.push(listing);
+        }
+    }
+    await writeMarketListings(networkName, listings);
+}
+
+async function main() {
+    await exportMarketConfigs((await ethers.provider.getNetwork()).chainId);
+}
+
+main()
+    .then(() => process.exit(0))
+    .catch((error) => {
+        console.error(error);
+        process.exit(1);
+    });
@@ -0,0 +1,406 @@
+import {BASIS_POINTS_DIVISOR, MarketFeeRateConfig} from "./marketConfig";
+import {mulDiv, Q96} from "./units";
+import type {IMarketLiquidityPosition, IMarketManager, IMarketPosition} from "../typechain-types";
+
+// Mirrors FundingRateUtil.settleFundingFee, so that the funding rates of a market, the funding fees paid by each side
+// and their split between the protocol, the LPs and the other side can be computed, and projected over a horizon, from
+// a snapshot of the market without a node. The arithmetic is exact on bigint, and the checks that revert on chain throw
+// a FundingRateUtilError.
+
+// Constants.FUNDING_RATE_SETTLE_CONFIG_INTERVAL, the period the funding rates of the fee rate config are given for
+export const FUNDING_RATE_SETTLE_CONFIG_INTERVAL = 8n * 3600n;
+const ONE_HOUR = 3600n;
+
+const UINT32_MODULUS = 1n << 32n;
+const UINT128_MODULUS = 1n << 128n;
+const UINT256_MODULUS = 1n << 256n;
+
+// What settleFundingFee reads and writes of a market
+export interface FundingState {
+    longSize: bigint;
+    shortSize: bigint;
+    longFundingRateGrowthX96: bigint;
+    shortFundingRateGrowthX96: bigint;
+    lastFundingFeeSettleTime: bigint;
+    liquidity: bigint;
+    unrealizedPnLGrowthX64: bigint;
+    premiumRateX96: bigint;
+    basisIndexPriceX96: bigint;
+    protocolFee: bigint;
+}
+
+export interface FundingSettlement {
+    timeDelta: bigint;
+    actualPremiumRateX96: bigint;
+    // the funding rate of the interval, paid by the longs to the shorts when positive and the other way when negative
+    baseRateX96: bigint;
+    // the protocol funding rates of the interval, paid by each side
+    longProtocolFundingRateX96: bigint;
+    shortProtocolFundingRateX96: bigint;
+    // the shares of the funding fees of the interval. The LPs receive their share of the protocol funding fee and the
+    // part of the funding fee paid for the size the other side does not have.
+    protocolFundingFee: bigint;
+    liquidityFundingFee: bigint;
+    // the funding fees received by each side, negative when paid
+    longFundingFee: bigint;
+    shortFundingFee: bigint;
+    longFundingRateGrowthDeltaX96: bigint;
+    shortFundingRateGrowthDeltaX96: bigint;
+    unrealizedPnLGrowthDeltaX64: bigint;
+    state: FundingState;
+}
+
+// The custom error, or the panic, the contracts revert with
+export class FundingRateUtilError extends Error {
+    constructor(readonly reason: string) {
+        super(`FundingRateUtil reverts with ${reason}`);
+        this.name = "FundingRateUtilError";
+    }
+}
+
+function toUint(value: bigint, bits: number) {
+    if (value < 0n) {
+        throw new FundingRateUtilError(`SafeCastOverflowedIntToUint(${value})`);
+    }
+    if (value >> BigInt(bits) != 0n) {
+        throw new FundingRateUtilError(`SafeCastOverflowedUintDowncast(${bits}, ${value})`);
+    }
+    return value;
+}
+
+function toInt(value: bigint, bits: number) {
+    const limit = 1n << BigInt(bits - 1);
+    if (value < -limit || value >= limit) {
+        throw new FundingRateUtilError(
+            bits == 256 ? `SafeCastOverflowedUintToInt(${value})` : `SafeCastOverflowedIntDowncast(${bits}, ${value})`,
+        );
+    }
+    return value;
+}
+
+// the checked arithmetic of Solidity on int192
+function checkedInt192(value: bigint) {
+    if (value < -(1n << 191n) || value >= 1n << 191n) {
+        throw new FundingRateUtilError("Panic(0x11)");
+    }
+    return value;
+}
+
+function ceilDiv(a: bigint, b: bigint) {
+    if (b == 0n) {
+        throw new FundingRateUtilError("Panic(0x12)");
+    }
+    return a == 0n ? 0n : (a - 1n) / b + 1n;
+}
+
+function mulDivChecked(x: bigint, y: bigint, denominator: bigint, up: boolean) {
+    try {
+        return mulDiv(x, y, denominator, up ? "up" : "down");
+    } catch (e) {
+        throw new FundingRateUtilError(denominator == 0n ? "Panic(0x12)" : "MathOverflowedMulDiv()");
+    }
+}
+
+// Calculates the protocol funding rates of `timeDelta` seconds, paid by each side
+export function calculateFundingRateX96(feeRateCfg: MarketFeeRateConfig, timeDelta: bigint) {
+    const protocolFundingCoeff = BigInt(feeRateCfg.protocolFundingCoeff);
+    // the calculation is unchecked on chain
+    const tempValueX96 = ceilDiv(
+        ((BigInt(feeRateCfg.protocolFundingFeeRate) * timeDelta) << 96n) % UINT256_MODULUS,
+        BASIS_POINTS_DIVISOR * FUNDING_RATE_SETTLE_CONFIG_INTERVAL,
+    );
+    const shortCoeff = (BASIS_POINTS_DIVISOR - protocolFundingCoeff + UINT32_MODULUS) % UINT32_MODULUS;
+    return {
+        longFundingRateX96: ceilDiv((tempValueX96 * protocolFundingCoeff) % UINT256_MODULUS, BASIS_POINTS_DIVISOR),
+        shortFundingRateX96: ceilDiv((tempValueX96 * shortCoeff) % UINT256_MODULUS, BASIS_POINTS_DIVISOR),
+    };
+}
+
+// Calculates the funding rate of `timeDelta` seconds from the premium rate, paid by the longs when positive and by the
+// shorts when negative, capped at `maxFundingRate` per hour
+export function calculateBaseRateX96(
+    feeRateCfg: MarketFeeRateConfig,
+    longSize: bigint,
+    shortSize: bigint,
+    premiumRateX96: bigint,
+    timeDelta: bigint,
+) {
+    let tempValueX96 = premiumRateX96 * BigInt(feeRateCfg.fundingCoeff);
+    // LP holds a short position, it is a positive number, otherwise it is a negative number
+    tempValueX96 = longSize >= shortSize ? tempValueX96 : -tempValueX96;
+    let fundingX96 = (BigInt(feeRateCfg.interestRate) << 96n) - tempValueX96;
+
+    const fundingBufferX96 = BigInt(feeRateCfg.fundingBuffer) << 96n;
+    if (fundingX96 > fundingBufferX96) fundingX96 = fundingBufferX96;
+    else if (fundingX96 < -fundingBufferX96) fundingX96 = -fundingBufferX96;
+
+    fundingX96 = tempValueX96 + fundingX96;
+
+    let baseRateX96 = toInt(
+        toInt(
+            mulDivChecked(
+                fundingX96 <= 0n ? -fundingX96 : fundingX96,
+                timeDelta,
+                BASIS_POINTS_DIVISOR * FUNDING_RATE_SETTLE_CONFIG_INTERVAL,
+                true,
+            ),
+            256,
+        ),
+        192,
+    );
+
+    const maxFundingRateX96 = toInt(ceilDiv(BigInt(feeRateCfg.maxFundingRate) << 96n, BASIS_POINTS_DIVISOR), 256);
+    if (timeDelta == 0n) {
+        throw new FundingRateUtilError("Panic(0x12)");
+    }
+    const oneHourBaseRateX96 = (baseRateX96 * ONE_HOUR) / timeDelta;
+    if (oneHourBaseRateX96 > maxFundingRateX96) {
+        baseRateX96 = toInt(toInt(mulDivChecked(maxFundingRateX96, timeDelta, ONE_HOUR, true), 256), 192);
+    }
+
+    return fundingX96 > 0n ? baseRateX96 : -baseRateX96;
+}
+
+// Calculates the change of the funding rate growth of a side of `size` receiving `fundingFee`, rounding in favor of the
+// protocol
+export function calculateFundingRateGrowthDeltaX96(fundingFee: bigint, size: bigint) {
+    if (size == 0n) return 0n;
+
+    const deltaX96 = toInt(
+        toInt(mulDivChecked(fundingFee >= 0n ? fundingFee : -fundingFee, Q96, size, fundingFee < 0n), 256),
+        192,
+    );
+    return fundingFee >= 0n ? deltaX96 : -deltaX96;
+}
+
+// Settles the funding fee of a market at `currentTimestamp` with the max index price `indexPriceX96`, leaving `state`
+// unchanged
+export function settleFundingFee(
+    state: FundingState,
+    feeRateCfg: MarketFeeRateConfig,
+    indexPriceX96: bigint,
+    currentTimestamp: bigint,
+): FundingSettlement {
+    const settlement: FundingSettlement = {
+        timeDelta: 0n,
+        actualPremiumRateX96: 0n,
+        baseRateX96: 0n,
+        longProtocolFundingRateX96: 0n,
+        shortProtocolFundingRateX96: 0n,
+        protocolFundingFee: 0n,
+        liquidityFundingFee: 0n,
+        longFundingFee: 0n,
+        shortFundingFee: 0n,
+        longFundingRateGrowthDeltaX96: 0n,
+        shortFundingRateGrowthDeltaX96: 0n,
+        unrealizedPnLGrowthDeltaX64: 0n,
+        state: {...state},
+    };
+    toUint(currentTimestamp, 64);
+    if (state.lastFundingFeeSettleTime == currentTimestamp) return settlement;
+
+    const {longSize, shortSize} = state;
+    // Ignore funding fees if there is no liquidity or no user position
+    if (state.liquidity == 0n || (longSize | shortSize) == 0n) {
+        settlement.state.lastFundingFeeSettleTime = currentTimestamp;
+        return settlement;
+    }
+
+    if (currentTimestamp < state.lastFundingFeeSettleTime) {
+        throw new FundingRateUtilError("Panic(0x11)");
+    }
+    const timeDelta = currentTimestamp - state.lastFundingFeeSettleTime;
+    settlement.timeDelta = timeDelta;
+    // actualPremiumRate = premiumRate * basisIndexPrice / indexPrice
+    const actualPremiumRateX96 = toUint(
+        mulDivChecked(state.premiumRateX96, state.basisIndexPriceX96, indexPriceX96, true),
+        128,
+    );
+    const baseRateX96 = calculateBaseRateX96(feeRateCfg, longSize, shortSize, actualPremiumRateX96, timeDelta);
+    settlement.actualPremiumRateX96 = actualPremiumRateX96;
+    settlement.baseRateX96 = baseRateX96;
+
+    // settleProtocolFundingFee
+    const {longFundingRateX96, shortFundingRateX96} = calculateFundingRateX96(feeRateCfg, timeDelta);
+    const longProtocolFundingFee = toInt(
+        mulDivChecked(mulDivChecked(longSize, indexPriceX96, Q96, true), longFundingRateX96, Q96, true),
+        256,
+    );
+    const shortProtocolFundingFee = toInt(
+        mulDivChecked(mulDivChecked(shortSize, indexPriceX96, Q96, true), shortFundingRateX96, Q96, true),
+        256,
+    );
+    const totalProtocolFundingFee = longProtocolFundingFee + shortProtocolFundingFee;
+    let liquidityFundingFee = mulDivChecked(
+        totalProtocolFundingFee,
+        BigInt(feeRateCfg.liquidityFundingFeeRate),
+        BASIS_POINTS_DIVISOR,
+        false,
+    );
+    const protocolFeeDelta = toUint(
+        (totalProtocolFundingFee - liquidityFundingFee + UINT256_MODULUS) % UINT256_MODULUS,
+        128,
+    );
+    // overflow is desired
+    settlement.state.protocolFee = (state.protocolFee + protocolFeeDelta) % UINT128_MODULUS;
+    settlement.longProtocolFundingRateX96 = longFundingRateX96;
+    settlement.shortProtocolFundingRateX96 = shortFundingRateX96;
+    settlement.protocolFundingFee = protocolFeeDelta;
+
+    // long and short funding fee should be non-positive
+    let longFundingFee = -longProtocolFundingFee;
+    let shortFundingFee = -shortProtocolFundingFee;
+
+    const [paidSize, receivedSize, paidFundingRateX96] =
+        baseRateX96 >= 0n ? [longSize, shortSize, baseRateX96] : [shortSize, longSize, -baseRateX96];
+
+    if (paidSize > 0n && baseRateX96 != 0n) {
+        const paidLiquidity = mulDivChecked(paidSize, indexPriceX96, Q96, true);
+        const paidFundingFee = toInt(mulDivChecked(paidLiquidity, paidFundingRateX96, Q96, true), 256);
+
+        let receivedFundingFee = paidFundingFee;
+        if (paidSize > receivedSize) {
+            const liquidityFundingFee2 = mulDivChecked(paidSize - receivedSize, paidFundingFee, paidSize, false);
+            receivedFundingFee = receivedSize == 0n ? 0n : paidFundingFee - liquidityFundingFee2;
+
+            liquidityFundingFee += liquidityFundingFee2;
+        }
+
+        if (baseRateX96 >= 0n) {
+            longFundingFee -= paidFundingFee;
+            shortFundingFee += receivedFundingFee;
+        } else {
+            longFundingFee += receivedFundingFee;
+            shortFundingFee -= paidFundingFee;
+        }
+    }
+    settlement.liquidityFundingFee = liquidityFundingFee;
+    settlement.longFundingFee = longFundingFee;
+    settlement.shortFundingFee = shortFundingFee;
+
+    const unrealizedPnLGrowthDeltaX64 = (toUint(liquidityFundingFee, 128) << 64n) / state.liquidity;
+    settlement.unrealizedPnLGrowthDeltaX64 = unrealizedPnLGrowthDeltaX64;
+    settlement.state.unrealizedPnLGrowthX64 = toInt(
+        state.unrealizedPnLGrowthX64 + toInt(unrealizedPnLGrowthDeltaX64, 256),
+        192,
+    );
+
+    settlement.longFundingRateGrowthDeltaX96 = calculateFundingRateGrowthDeltaX96(longFundingFee, longSize);
+    settlement.shortFundingRateGrowthDeltaX96 = calculateFundingRateGrowthDeltaX96(shortFundingFee, shortSize);
+    settlement.state.longFundingRateGrowthX96 = checkedInt192(
+        state.longFundingRateGrowthX96 + settlement.longFundingRateGrowthDeltaX96,
+    );
+    settlement.state.shortFundingRateGrowthX96 = checkedInt192(
+        state.shortFundingRateGrowthX96 + settlement.shortFundingRateGrowthDeltaX96,
+    );
+    settlement.state.lastFundingFeeSettleTime = currentTimestamp;
+    return settlement;
+}
+
+// A premium rate of the market from `timestamp` on, as recorded by the PremiumRateChanged events
+export interface PremiumRateSample {
+    timestamp: bigint;
+    premiumRateX96: bigint;
+    // the basis index price the premium rate applies to, unchanged when omitted
+    basisIndexPriceX96?: bigint;
+}
+
+export interface FundingProjectionParameter {
+    indexPriceX96: bigint;
+    // the seconds to project from the last settlement of `state`
+    horizon: bigint;
+    // the seconds between two settlements, e.g. of the funding fee settlement keeper
+    interval: bigint;
+    // the premium rates over the horizon, each settled at its timestamp as a trade would. Without samples, the premium
+    // rate of `state` is projected.
+    premiumRates?: PremiumRateSample[];
+}
+
+export interface FundingProjection {
+    settlements: FundingSettlement[];
+    protocolFundingFee: bigint;
+    liquidityFundingFee: bigint;
+    longFundingFee: bigint;
+    shortFundingFee: bigint;
+    longFundingRateGrowthDeltaX96: bigint;
+    shortFundingRateGrowthDeltaX96: bigint;
+    state: FundingState;
+}
+
+// Projects the funding fees of a market over `horizon` seconds from its last settlement, settling every `interval`
+// seconds and whenever the premium rate changes, with the sizes and the liquidity of `state` unchanged
+export function projectFunding(
+    state: FundingState,
+    feeRateCfg: MarketFeeRateConfig,
+    parameter: FundingProjectionParameter,
+): FundingProjection {
+    if (parameter.interval <= 0n) {
+        throw new Error(`interval ${parameter.interval} is not positive`);
+    }
+    const start = state.lastFundingFeeSettleTime;
+    const end = start + parameter.horizon;
+    const premiumRates = [...(parameter.premiumRates ?? [])].sort((a, b) =>
+        a.timestamp < b.timestamp ? -1 : a.timestamp > b.timestamp ? 1 : 0,
+    );
+
+    const projection: FundingProjection = {
+        settlements: [],
+        protocolFundingFee: 0n,
+        liquidityFundingFee: 0n,
+        longFundingFee: 0n,
+        shortFundingFee: 0n,
+        longFundingRateGrowthDeltaX96: 0n,
+        shortFundingRateGrowthDeltaX96: 0n,
+        state: {...state},
+    };
+    let next = 0;
+    for (let timestamp = start; timestamp < end; ) {
+        // the premium rate changed at or before the start of the interval is the one settled at its end
+        for (; next < premiumRates.length && premiumRates[next].timestamp <= timestamp; next++) {
+            const sample = premiumRates[next];
+            projection.state.premiumRateX96 = sample.premiumRateX96;
+            projection.state.basisIndexPriceX96 = sample.basisIndexPriceX96 ?? projection.state.basisIndexPriceX96;
+        }
+        let settleTime = timestamp + parameter.interval;
+        if (next < premiumRates.length && premiumRates[next].timestamp < settleTime) {
+            settleTime = premiumRates[next].timestamp;
+        }
+        if (settleTime > end) {
+            settleTime = end;
+        }
+
+        const settlement = settleFundingFee(projection.state, feeRateCfg, parameter.indexPriceX96, settleTime);
+        projection.settlements.push(settlement);
+        projection.protocolFundingFee += settlement.protocolFundingFee;
+        projection.liquidityFundingFee += settlement.liquidityFundingFee;
+        projection.longFundingFee += settlement.longFundingFee;
+        projection.shortFundingFee += settlement.shortFundingFee;
+        projection.longFundingRateGrowthDeltaX96 += settlement.longFundingRateGrowthDeltaX96;
+        projection.shortFundingRateGrowthDeltaX96 += settlement.shortFundingRateGrowthDeltaX96;
+        projection.state = {...settlement.state};
+        timestamp = settleTime;
+    }
+    return projection;
+}
+
+// Converts the results of `marketManager.globalPositions`, `marketManager.globalLiquidityPositions`,
+// `marketManager.priceStates` and `marketManager.protocolFees`
+export function toFundingState(
+    globalPosition: IMarketPosition.GlobalPositionStructOutput,
+    globalLiquidityPosition: IMarketLiquidityPosition.GlobalLiquidityPositionStructOutput,
+    priceState: IMarketManager.PriceStateStructOutput,
+    protocolFee: bigint,
+): FundingState {
+    return {
+        longSize: BigInt(globalPosition.longSize),
+        shortSize: BigInt(globalPosition.shortSize),
+        longFundingRateGrowthX96: BigInt(globalPosition.longFundingRateGrowthX96),
+        shortFundingRateGrowthX96: BigInt(globalPosition.shortFundingRateGrowthX96),
+        lastFundingFeeSettleTime: BigInt(globalPosition.lastFundingFeeSettleTime),
+        liquidity: BigInt(globalLiquidityPosition.liquidity),
+        unrealizedPnLGrowthX64: BigInt(globalLiquidityPosition.unrealizedPnLGrowthX64),
+        premiumRateX96: BigInt(priceState.premiumRateX96),
+        basisIndexPriceX96: BigInt(priceState.basisIndexPriceX96),
+        protocolFee: BigInt(protocolFee),
+    };
+}
@@ -52,3 +52,69 @@ ${functions.join(`\n`)}
 
 const fs = require("fs");
 fs.writeFileSync("./contracts/types/PackedValue.sol", template);
+
+let tsFunctions = [];
+for (let bits = 8; bits <= 248; bits += 8) {
+    tsFunctions.push(`
+export function packUint${bits}(self: PackedValue, value: bigint, position: number): PackedValue {
+    return pack(self, value, ${bits}, position);
+}
+
+export function unpackUint${bits}(self: PackedValue, position: number): bigint {
+    return unpack(self, ${bits}, position);
+}
+`);
+}
+
+const tsTemplate = `// This file was procedurally generated from scripts/generate/PackedValue.template.js, DO NOT MODIFY MANUALLY
+import {getAddress, toBeHex} from "ethers";
+
+// The bit layouts of contracts/types/PackedValue.sol over bigint, e.g. for the calldata of MixedExecutorUpgradeable
+export type PackedValue = bigint;
+
+const UINT256_MAX = (1n << 256n) - 1n;
+
+function checkUint(value: bigint, bits: number) {
+    if (value < 0n || value >> BigInt(bits) != 0n) {
+        throw new RangeError(\`value \${value} does not fit in uint\${bits}\`);
+    }
+}
+
+function checkPosition(position: number) {
+    if (!Number.isInteger(position) || position < 0 || position > 255) {
+        throw new RangeError(\`position \${position} does not fit in uint8\`);
+    }
+}
+
+// the bits shifted beyond 256 bits are dropped, as the shift in Solidity does
+function pack(self: PackedValue, value: bigint, bits: number, position: number): PackedValue {
+    checkUint(self, 256);
+    checkUint(value, bits);
+    checkPosition(position);
+    return (self | (value << BigInt(position))) & UINT256_MAX;
+}
+
+function unpack(self: PackedValue, bits: number, position: number): bigint {
+    checkUint(self, 256);
+    checkPosition(position);
+    return (self >> BigInt(position)) & ((1n << BigInt(bits)) - 1n);
+}
+
+export function packBool(self: PackedValue, value: boolean, position: number): PackedValue {
+    return packUint8(self, value ? 1n : 0n, position);
+}
+
+export function unpackBool(self: PackedValue, position: number): boolean {
+    return unpack(self, 1, position) == 1n;
+}
+
+export function packAddress(self: PackedValue, value: string, position: number): PackedValue {
+    return packUint160(self, BigInt(getAddress(value)), position);
+}
+
+export function unpackAddress(self: PackedValue, position: number): string {
+    return getAddress(toBeHex(unpackUint160(self, position), 20));
+}
+${tsFunctions.join(``)}`;
+
+fs.writeFileSync("./scripts/packedValue.ts", tsTemplate);
@@ -0,0 +1,124 @@
+import * as PackedValue from "../packedValue";
+
+// The vectors are computed by scripts/packedValue.ts from a fixed seed, so that regenerating the test is
+// reproducible, and the test asserts that contracts/types/PackedValue.sol packs and unpacks them to the same values
+let seed = 0x9e3779b97f4a7c15n;
+const UINT64_MAX = (1n << 64n) - 1n;
+
+// splitmix64
+function next64() {
+    seed = (seed + 0x9e3779b97f4a7c15n) & UINT64_MAX;
+    let z = seed;
+    z = ((z ^ (z >> 30n)) * 0xbf58476d1ce4e5b9n) & UINT64_MAX;
+    z = ((z ^ (z >> 27n)) * 0x94d049bb133111ebn) & UINT64_MAX;
+    return z ^ (z >> 31n);
+}
+
+function randomUint(bits: number) {
+    let value = 0n;
+    for (let i = 0; i < bits; i += 64) {
+        value = (value << 64n) | next64();
+    }
+    return value & ((1n << BigInt(bits)) - 1n);
+}
+
+function randomInt(min: number, max: number) {
+    return min + Number(next64() % BigInt(max - min + 1));
+}
+
+// padded to 32 bytes, as Solidity takes a hex literal of 39 to 41 digits for an address
+function hex(value: bigint) {
+    return `0x${value.toString(16).padStart(64, "0")}`;
+}
+
+// random bits around the field, which is also random in one of the vectors to cover packing over bits already set
+function randomSelf(bits: number, position: number, keepField: boolean) {
+    const self = randomUint(256);
+    return keepField ? self : self & ~(((1n << BigInt(bits)) - 1n) << BigInt(position)) & ((1n << 256n) - 1n);
+}
+
+// the lowest and the highest position the value fits at, two random byte-aligned positions, a random unaligned position
+// and a random position where the value is truncated
+function positions(bits: number) {
+    const fitting = 256 - bits;
+    const result = [
+        0,
+        fitting,
+        randomInt(0, fitting / 8) * 8,
+        randomInt(0, fitting / 8) * 8,
+        randomInt(0, fitting),
+        randomInt(fitting + 1, 255),
+    ];
+    return [...new Set(result)].sort((a, b) => a - b);
+}
+
+const functions: string[] = [];
+for (let bits = 8; bits <= 248; bits += 8) {
+    const lines: string[] = [];
+    for (const [i, position] of positions(bits).entries()) {
+        const self = randomSelf(bits, position, i == 1);
+        const value = i == 0 ? (1n << BigInt(bits)) - 1n : randomUint(bits);
+        const packed = PackedValue[`packUint${bits}` as "packUint8"](self, value, position);
+        const unpacked = PackedValue[`unpackUint${bits}` as "unpackUint8"](packed, position);
+        lines.push(`
+        packed = PackedValue.wrap(${hex(self)}).packUint${bits}(${value}, ${position});
+        assertEq(PackedValue.unwrap(packed), ${hex(packed)});
+        assertEq(uint256(packed.unpackUint${bits}(${position})), ${unpacked});`);
+    }
+    functions.push(`
+    function test_uint${bits}() public {
+        PackedValue packed;
+        ${lines.join(`\n`)}
+    }
+    `);
+}
+
+const boolLines: string[] = [];
+const addressLines: string[] = [];
+for (const [i, position] of positions(8).entries()) {
+    const self = randomSelf(8, position, i == 1);
+    const flag = randomUint(1) == 1n;
+    const packedBool = PackedValue.packBool(self, flag, position);
+    boolLines.push(`
+        packed = PackedValue.wrap(${hex(self)}).packBool(${flag}, ${position});
+        assertEq(PackedValue.unwrap(packed), ${hex(packedBool)});
+        assertEq(packed.unpackBool(${position}), ${PackedValue.unpackBool(packedBool, position)});`);
+}
+for (const [i, position] of positions(160).entries()) {
+    const self = randomSelf(160, position, i == 1);
+    const address = PackedValue.unpackAddress(randomUint(160), 0);
+    const packedAddress = PackedValue.packAddress(self, address, position);
+    addressLines.push(`
+        packed = PackedValue.wrap(${hex(self)}).packAddress(${address}, ${position});
+        assertEq(PackedValue.unwrap(packed), ${hex(packedAddress)});
+        assertEq(packed.unpackAddress(${position}), ${PackedValue.unpackAddress(packedAddress, position)});`);
+}
+functions.push(`
+    function test_bool() public {
+        PackedValue packed;
+        ${boolLines.join(`\n`)}
+    }
+
+    function test_address() public {
+        PackedValue packed;
+        ${addressLines.join(`\n`)}
+    }
+`);
+
+const template = `
+// This file was procedurally generated from scripts/generate/PackedValueDifferential.g.t.template.ts, DO NOT MODIFY MANUALLY
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.21;
+
+import "forge-std/Test.sol";
+import "../../contracts/types/PackedValue.sol";
+
+contract PackedValueDifferentialTest_Generated is Test {
+
+${functions.join(`\n`)}
+
+}
+`;
+
+const fs = require("fs");
+fs.writeFileSync("./test/foundry/PackedValueDifferential.g.t.sol", template);
@@ -4,4 +4,8 @@ node ./scripts/generate/PackedValue.template.js
 
 node ./scripts/generate/PackedValue.g.t.template.js
 
+npx ts-node ./scripts/generate/PackedValueDifferential.g.t.template.ts
+
 npx prettier --write --plugin=prettier-plugin-solidity 'contracts/**/*.sol' 'test/**/*.sol'
+
+npx prettier --write scripts/packedValue.ts
@@ -1,161 +1,260 @@
 import {ethers, hardhatArguments, upgrades} from "hardhat";
-import {networks} from "./networks";
-import {getContractAddress, getCreate2Address} from "@ethersproject/address";
+import {Network, networks} from "./networks";
+import {getContractAddress} from "@ethersproject/address";
 import {keccak256} from "@ethersproject/keccak256";
-import {encodePacked} from "web3-utils";
+import {BaseContract, ContractFactory} from "ethers";
+import {HardhatEthersSigner} from "@nomicfoundation/hardhat-ethers/signers";
+import {
+    checkpointPath,
+    loadCheckpoint,
+    newCheckpoint,
+    runStep,
+    saveCheckpoint,
+    StepRecord,
+    StepResult,
+} from "./checkpoint";
+import {PlannedStep, writePlan} from "./plan";
+import {prepareRehearsal} from "./rehearsal";
+import {
+    ContractName,
+    Deployments,
+    LibraryName,
+    libraryNames,
+    loadManifest,
+    MANIFEST_VERSION,
+    Manifest,
+    manifestExists,
+    ProxyName,
+    writeManifest,
+} from "./manifest";
+import {checkWiring, isCollectorV2, printChecks} from "./wiring";
+import {logBlockRange} from "./util";
+
+// contracts created by the deployer after the libraries and implementations are deployed, in nonce order
+const predictedContractNames: ContractName[] = [
+    "RouterUpgradeable",
+    "OrderBookUpgradeable",
+    "PositionRouterUpgradeable",
+    "PriceFeedUpgradeable",
+    "MarketDescriptorDeployer",
+    "MarketIndexer",
+    "MarketManagerUpgradeable",
+    "MixedExecutorUpgradeable",
+    "ExecutorAssistant",
+    "LiquidatorUpgradeable",
+    "FarmRewardDistributorUpgradeable",
+    "ProtocolFeeDistributorUpgradeable",
+    "RewardCollectorUpgradeable",
+];
 
 async function main() {
-    const network = networks[hardhatArguments.network as keyof typeof networks];
+    // DEPLOY_MODE=plan prints what would be deployed and called without sending any transaction.
+    // DEPLOY_MODE=rehearsal deploys the config of REHEARSAL_NETWORK to the in-process hardhat network
+    // and asserts the final wiring.
+    const planning = process.env.DEPLOY_MODE === "plan";
+    const rehearsing = process.env.DEPLOY_MODE === "rehearsal";
+    const networkName = rehearsing ? process.env.REHEARSAL_NETWORK ?? "arbitrum-mainnet" : hardhatArguments.network;
+    let network: Network = networks[networkName as keyof typeof networks];
     if (network == undefined) {
-        throw new Error(`network ${hardhatArguments.network} is not defined`);
+        throw new Error(`network ${networkName} is not defined`);
     }
 
-    const deployments = new Map<string, string | {name: string; index: number; market: string}[]>();
+    let [deployer, contractsV1Gov] = await ethers.getSigners();
+    if (rehearsing) {
+        ({network, contractsV1Gov} = await prepareRehearsal(network));
+    }
+    const chainId = (await ethers.provider.getNetwork()).chainId;
+    // the state of the in-process hardhat network never outlives a rehearsal, so neither does its checkpoint
+    const checkpoint = rehearsing
+        ? newCheckpoint(chainId, deployer.address)
+        : loadCheckpoint(chainId, deployer.address);
+
+    const planned: PlannedStep[] = [];
+    let planNonce = await deployer.getNonce();
+    const step = async (
+        name: string,
+        description: Omit<PlannedStep, "step" | "status">,
+        send: () => Promise<StepResult>,
+        skip?: () => Promise<boolean>,
+    ): Promise<StepRecord> => {
+        if (!planning) {
+            return runStep(checkpoint, name, send, skip);
+        }
+        const record = checkpoint.steps[name];
+        const status = record?.confirmed ? "confirmed" : "pending";
+        planned.push({step: name, status: status, ...description, address: record?.address ?? description.address});
+        return record?.confirmed ? record : {address: description.address, confirmed: false};
+    };
+    const call = (
+        name: string,
+        contract: BaseContract,
+        method: string,
+        args: unknown[],
+        skip?: () => Promise<boolean>,
+        signer: HardhatEthersSigner = deployer,
+    ) =>
+        step(
+            name,
+            {from: signer.address, target: contract.target as string, call: method, args: args},
+            async () => ({tx: await contract.connect(signer).getFunction(method)(...args)}),
+            skip,
+        );
+
     // deploy libraries
-    const {configurableUtil, fundingRateUtil, liquidityPositionUtil, marketUtil, positionUtil} =
-        await deployLibraries();
-    const txReceipt = await configurableUtil.runner!.provider!.getTransactionReceipt(
-        (await configurableUtil.deploymentTransaction())!.hash,
-    );
-    console.log(`First contract deployed at block ${txReceipt!.blockNumber}`);
-    deployments.set("ConfigurableUtil", await configurableUtil.getAddress());
-    deployments.set("FundingRateUtil", await fundingRateUtil.getAddress());
-    deployments.set("LiquidityPositionUtil", await liquidityPositionUtil.getAddress());
-    deployments.set("MarketUtil", await marketUtil.getAddress());
-    deployments.set("PositionUtil", await positionUtil.getAddress());
+    const libraries = {} as Record<LibraryName, string>;
+    for (const name of libraryNames) {
+        const pending = !checkpoint.steps[`deploy ${name}`]?.confirmed;
+        const predicted = pending ? getContractAddress({from: deployer.address, nonce: planNonce++}) : undefined;
+        const record = await step(
+            `deploy ${name}`,
+            {from: deployer.address, target: name, call: "deploy", args: [], address: predicted},
+            async () => {
+                const Library = await ethers.getContractFactory(name);
+                const library = await Library.deploy();
+                return {tx: library.deploymentTransaction()!, address: await library.getAddress()};
+            },
+        );
+        libraries[name] = record.address!;
+        console.log(`${name} deployed to: ${record.address}`);
+    }
+    const firstBlock = checkpoint.steps[`deploy ${libraryNames[0]}`]?.block;
+    console.log(`First contract deployed at block ${firstBlock}`);
+
+    // deploy implementations, so that each proxy deployment below consumes exactly one nonce
+    const factories = {
+        RouterUpgradeable: await ethers.getContractFactory("RouterUpgradeable"),
+        OrderBookUpgradeable: await ethers.getContractFactory("OrderBookUpgradeable"),
+        PositionRouterUpgradeable: await ethers.getContractFactory("PositionRouterUpgradeable"),
+        PriceFeedUpgradeable: await ethers.getContractFactory("PriceFeedUpgradeable"),
+        MarketManagerUpgradeable: await ethers.getContractFactory("MarketManagerUpgradeable", {libraries}),
+        MixedExecutorUpgradeable: await ethers.getContractFactory("MixedExecutorUpgradeable"),
+        LiquidatorUpgradeable: await ethers.getContractFactory("LiquidatorUpgradeable"),
+        FarmRewardDistributorUpgradeable: await ethers.getContractFactory("FarmRewardDistributorUpgradeable"),
+        ProtocolFeeDistributorUpgradeable: await ethers.getContractFactory("ProtocolFeeDistributorUpgradeable"),
+        RewardCollectorUpgradeable: await ethers.getContractFactory("RewardCollectorUpgradeable"),
+    };
+    const implementations = {} as Record<ProxyName, string>;
+    for (const [name, factory] of Object.entries(factories) as [ProxyName, ContractFactory][]) {
+        // implementations already recorded in the OpenZeppelin manifest are reused and consume no nonce,
+        // the plan assumes every implementation is deployed anew
+        const pending = !checkpoint.steps[`deploy ${name} implementation`]?.confirmed;
+        const predicted = pending ? getContractAddress({from: deployer.address, nonce: planNonce++}) : undefined;
+        const record = await step(
+            `deploy ${name} implementation`,
+            {
+                from: deployer.address,
+                target: name,
+                call: "deployImplementation",
+                args: name === "MarketManagerUpgradeable" ? [libraries] : [],
+                address: predicted,
+            },
+            async () => {
+                const res = await upgrades.deployImplementation(factory, {getTxResponse: true});
+                return typeof res === "string" ? {address: res} : {tx: res};
+            },
+        );
+        implementations[name] = record.address!;
+        console.log(`${name} implementation deployed to: ${record.address}`);
+    }
 
-    const [deployer] = await ethers.getSigners();
-    let nonce = await deployer.getNonce();
+    // predict proxy and contract addresses
+    if (checkpoint.nonce == undefined && !planning) {
+        checkpoint.nonce = await deployer.getNonce();
+        saveCheckpoint(checkpoint);
+    }
+    const nonce = checkpoint.nonce ?? planNonce;
     console.log(`deployer address: ${deployer.address}, nonce: ${nonce}`);
-
-    // plugin addresses
-    nonce += 1; // skip the implementation contract
-    const routerAddr = getContractAddress({from: deployer.address, nonce: nonce++});
-    nonce += 1; // skip the implementation contract
-    const orderBookAddr = getContractAddress({from: deployer.address, nonce: nonce++});
-    nonce += 1; // skip the implementation contract
-    const positionRouterAddr = getContractAddress({from: deployer.address, nonce: nonce++});
-    // price feed address
-    nonce += 1; // skip the implementation contract
-    const priceFeedAddr = getContractAddress({from: deployer.address, nonce: nonce++});
-    // market manager address
-    const marketDescriptorDeployerAddr = getContractAddress({from: deployer.address, nonce: nonce++});
-    const marketIndexerAddr = getContractAddress({from: deployer.address, nonce: nonce++});
-    nonce += 1; // skip the implementation contract
-    const marketManagerAddr = getContractAddress({from: deployer.address, nonce: nonce++});
-    // mixed executor address
-    nonce += 1; // skip the implementation contract
-    const mixedExecutorAddr = getContractAddress({from: deployer.address, nonce: nonce++});
-    // executor assistant address
-    const executorAssistantAddr = getContractAddress({from: deployer.address, nonce: nonce++});
-    // liquidator address
-    nonce += 1; // skip the implementation contract
-    const liquidatorAddr = getContractAddress({from: deployer.address, nonce: nonce++});
-    // farm reward distributor address
-    nonce += 1; // skip the implementation contract
-    const farmRewardDistributorAddr = getContractAddress({from: deployer.address, nonce: nonce++});
-    // protocol fee distributor address
-    nonce += 1; // skip the implementation contract
-    const protocolFeeDistributorAddr = getContractAddress({from: deployer.address, nonce: nonce++});
-    // farm reward collector address
-    nonce += 1; // skip the implementation contract
-    const rewardCollectorAddr = getContractAddress({from: deployer.address, nonce: nonce++});
-
-    deployments.set("RouterUpgradeable", routerAddr);
-    deployments.set("OrderBookUpgradeable", orderBookAddr);
-    deployments.set("PositionRouterUpgradeable", positionRouterAddr);
-    deployments.set("LiquidatorUpgradeable", liquidatorAddr);
-    deployments.set("PriceFeedUpgradeable", priceFeedAddr);
-    deployments.set("MarketDescriptorDeployer", marketDescriptorDeployerAddr);
-    deployments.set("MarketIndexer", marketIndexerAddr);
-    deployments.set("MarketManagerUpgradeable", marketManagerAddr);
-    deployments.set("MixedExecutorUpgradeable", mixedExecutorAddr);
-    deployments.set("ExecutorAssistant", executorAssistantAddr);
-    deployments.set("FarmRewardDistributorUpgradeable", farmRewardDistributorAddr);
-    deployments.set("ProtocolFeeDistributorUpgradeable", protocolFeeDistributorAddr);
-    deployments.set("RewardCollectorUpgradeable", rewardCollectorAddr);
+    const addrs = {} as Record<ContractName, string>;
+    predictedContractNames.forEach((name, i) => {
+        addrs[name] = getContractAddress({from: deployer.address, nonce: nonce + i});
+    });
+    const routerAddr = addrs.RouterUpgradeable;
+    const orderBookAddr = addrs.OrderBookUpgradeable;
+    const positionRouterAddr = addrs.PositionRouterUpgradeable;
+    const priceFeedAddr = addrs.PriceFeedUpgradeable;
+    const marketDescriptorDeployerAddr = addrs.MarketDescriptorDeployer;
+    const marketIndexerAddr = addrs.MarketIndexer;
+    const marketManagerAddr = addrs.MarketManagerUpgradeable;
+    const mixedExecutorAddr = addrs.MixedExecutorUpgradeable;
+    const executorAssistantAddr = addrs.ExecutorAssistant;
+    const liquidatorAddr = addrs.LiquidatorUpgradeable;
+    const farmRewardDistributorAddr = addrs.FarmRewardDistributorUpgradeable;
+    const protocolFeeDistributorAddr = addrs.ProtocolFeeDistributorUpgradeable;
+    const rewardCollectorAddr = addrs.RewardCollectorUpgradeable;
+
+    const deployPredicted = async (name: ContractName, args: unknown[]) => {
+        const expected = addrs[name];
+        const factory = factories[name as keyof typeof factories];
+        const record = await step(
+            `deploy ${name}`,
+            {
+                from: deployer.address,
+                target: name,
+                call: factory != undefined ? "deployProxy" : "deploy",
+                args: args,
+                address: expected,
+            },
+            async () => {
+                const expectedNonce = nonce + predictedContractNames.indexOf(name);
+                const currentNonce = await deployer.getNonce();
+                if (currentNonce != expectedNonce) {
+                    throw new Error(
+                        `deployer nonce ${currentNonce} is not equal to planned nonce ${expectedNonce} of ${name}, ` +
+                            `predicted addresses are no longer reachable, remove ${checkpointPath(chainId)} to restart`,
+                    );
+                }
+                const contract =
+                    factory != undefined
+                        ? await upgrades.deployProxy(factory, args)
+                        : await (await ethers.getContractFactory(name)).deploy(...args);
+                return {tx: contract.deploymentTransaction() ?? undefined, address: expected};
+            },
+            // the contract was deployed by a previous run, but the checkpoint was not saved
+            async () => (await ethers.provider.getCode(expected)) !== "0x",
+        );
+        expectAddr(record.address ?? expected, expected);
+        console.log(`${name} deployed to: ${expected}`);
+    };
 
     // deploy plugins
-    const Router = await ethers.getContractFactory("RouterUpgradeable");
-    const router = await upgrades.deployProxy(Router, [marketManagerAddr]);
-    await router.waitForDeployment();
-    expectAddr(await router.getAddress(), routerAddr);
-    console.log(`Router deployed to: ${await router.getAddress()}`);
-
-    const OrderBook = await ethers.getContractFactory("OrderBookUpgradeable");
-    const orderBook = await upgrades.deployProxy(OrderBook, [
+    await deployPredicted("RouterUpgradeable", [marketManagerAddr]);
+    await deployPredicted("OrderBookUpgradeable", [
         network.usd,
         routerAddr,
         marketManagerAddr,
         network.minOrderBookExecutionFee,
     ]);
-    await orderBook.waitForDeployment();
-    expectAddr(await orderBook.getAddress(), orderBookAddr);
-    console.log(`OrderBook deployed to: ${await orderBook.getAddress()}`);
-
-    const PositionRouter = await ethers.getContractFactory("PositionRouterUpgradeable");
-    const positionRouter = await upgrades.deployProxy(PositionRouter, [
+    await deployPredicted("PositionRouterUpgradeable", [
         network.usd,
         routerAddr,
         marketManagerAddr,
         network.minPositionRouterExecutionFee,
     ]);
-    await positionRouter.waitForDeployment();
-    expectAddr(await positionRouter.getAddress(), positionRouterAddr);
-    console.log(`PositionRouter deployed to: ${await positionRouter.getAddress()}`);
 
     // deploy price feed
-    const PriceFeed = await ethers.getContractFactory("PriceFeedUpgradeable");
     if (network.ignoreReferencePriceFeedError) {
         console.warn(
             "👿👿ignoreReferencePriceFeedError is set to true, reference price feed error will be ignored👿👿",
         );
     }
-    const priceFeed = await upgrades.deployProxy(PriceFeed, [
+    await deployPredicted("PriceFeedUpgradeable", [
         network.usdChainLinkPriceFeed,
         0,
         network.ignoreReferencePriceFeedError,
     ]);
-    await priceFeed.waitForDeployment();
-    expectAddr(await priceFeed.getAddress(), priceFeedAddr);
-    console.log(`PriceFeed deployed to: ${await priceFeed.getAddress()}`);
 
     // deploy market manager
-    const MarketDescriptorDeployer = await ethers.getContractFactory("MarketDescriptorDeployer");
-    const marketDescriptorDeployer = await MarketDescriptorDeployer.deploy();
-    await marketDescriptorDeployer.waitForDeployment();
-    expectAddr(await marketDescriptorDeployer.getAddress(), marketDescriptorDeployerAddr);
-    console.log(`MarketDescriptorDeployer deployed to: ${await marketDescriptorDeployer.getAddress()}`);
-
-    const MarketIndexer = await ethers.getContractFactory("MarketIndexer");
-    const marketIndexer = await MarketIndexer.deploy(marketManagerAddr);
-    await marketIndexer.waitForDeployment();
-    expectAddr(await marketIndexer.getAddress(), marketIndexerAddr);
-    console.log(`MarketIndexer deployed to: ${await marketIndexer.getAddress()}`);
-
-    const MarketManager = await ethers.getContractFactory("MarketManagerUpgradeable", {
-        libraries: {
-            ConfigurableUtil: await configurableUtil.getAddress(),
-            FundingRateUtil: await fundingRateUtil.getAddress(),
-            LiquidityPositionUtil: await liquidityPositionUtil.getAddress(),
-            MarketUtil: await marketUtil.getAddress(),
-            PositionUtil: await positionUtil.getAddress(),
-        },
-    });
-    const marketManager = await upgrades.deployProxy(MarketManager, [
+    await deployPredicted("MarketDescriptorDeployer", []);
+    await deployPredicted("MarketIndexer", [marketManagerAddr]);
+    await deployPredicted("MarketManagerUpgradeable", [
         network.usd,
         protocolFeeDistributorAddr,
         routerAddr,
         network.efc,
     ]);
-    await marketManager.waitForDeployment();
-    expectAddr(await marketManager.getAddress(), marketManagerAddr);
-    console.log(`MarketManager deployed to: ${await marketManager.getAddress()}`);
 
     // deploy mixed executor
-    const MixedExecutor = await ethers.getContractFactory("MixedExecutorUpgradeable");
-
-    const mixedExecutor = await upgrades.deployProxy(MixedExecutor, [
+    await deployPredicted("MixedExecutorUpgradeable", [
         routerAddr,
         marketIndexerAddr,
         liquidatorAddr,
@@ -164,165 +263,268 @@ async function main() {
         orderBookAddr,
         marketManagerAddr,
     ]);
-    await mixedExecutor.waitForDeployment();
-    expectAddr(await mixedExecutor.getAddress(), mixedExecutorAddr);
-    console.log(`MixedExecutor deployed to: ${await mixedExecutor.getAddress()}`);
 
     // deploy executor assistant
-    const ExecutorAssistant = await ethers.getContractFactory("ExecutorAssistant");
-    const executorAssistant = await ExecutorAssistant.deploy(positionRouterAddr);
-    await executorAssistant.waitForDeployment();
-    expectAddr(await executorAssistant.getAddress(), executorAssistantAddr);
-    console.log(`ExecutorAssistant deployed to: ${await executorAssistant.getAddress()}`);
+    await deployPredicted("ExecutorAssistant", [positionRouterAddr]);
 
     // deploy liquidator
-    const Liquidator = await ethers.getContractFactory("LiquidatorUpgradeable");
-    const liquidator = await upgrades.deployProxy(Liquidator, [routerAddr, marketManagerAddr, network.usd]);
-    await liquidator.waitForDeployment();
-    expectAddr(await liquidator.getAddress(), liquidatorAddr);
-    console.log(`Liquidator deployed to: ${await liquidator.getAddress()}`);
+    await deployPredicted("LiquidatorUpgradeable", [routerAddr, marketManagerAddr, network.usd]);
 
     // deploy farm reward distributor
-    const FarmRewardDistributor = await ethers.getContractFactory("FarmRewardDistributorUpgradeable");
-    const farmRewardDistributor = await upgrades.deployProxy(FarmRewardDistributor, [
+    await deployPredicted("FarmRewardDistributorUpgradeable", [
         network.equ,
         network.feeDistributor,
         network.farmRewardDistributorV2,
         network.efc,
     ]);
-    await farmRewardDistributor.waitForDeployment();
-    expectAddr(await farmRewardDistributor.getAddress(), farmRewardDistributorAddr);
-    console.log(`FarmRewardDistributor deployed to: ${await farmRewardDistributor.getAddress()}`);
 
     // deploy protocol fee distributor
-    const ProtocolFeeDistributor = await ethers.getContractFactory("ProtocolFeeDistributorUpgradeable");
-    const protocolFeeDistributor = await upgrades.deployProxy(ProtocolFeeDistributor, [
+    await deployPredicted("ProtocolFeeDistributorUpgradeable", [
         network.feeDistributor,
         network.efc,
         network.usd,
-        await (await ethers.getContractAt("IFarmRewardDistributorV2", network.farmRewardDistributorV2)).signer(),
+        await (
+            await ethers.getContractAt("IFarmRewardDistributorV2", network.farmRewardDistributorV2)
+        ).getFunction("signer")(),
     ]);
-    await protocolFeeDistributor.waitForDeployment();
-    expectAddr(await protocolFeeDistributor.getAddress(), protocolFeeDistributorAddr);
-    console.log(`ProtocolFeeDistributor deployed to: ${await protocolFeeDistributor.getAddress()}`);
 
     // deploy reward collector
-    const RewardCollector = await ethers.getContractFactory("RewardCollectorUpgradeable");
-    const rewardCollector = await upgrades.deployProxy(RewardCollector, [
+    await deployPredicted("RewardCollectorUpgradeable", [
         network.routerV1,
         farmRewardDistributorAddr,
         network.farmRewardDistributorV2,
         protocolFeeDistributorAddr,
     ]);
-    await rewardCollector.waitForDeployment();
-    expectAddr(await rewardCollector.getAddress(), rewardCollectorAddr);
-    console.log(`RewardCollector deployed to: ${await rewardCollector.getAddress()}`);
+
+    const router = await ethers.getContractAt("RouterUpgradeable", routerAddr);
+    const orderBook = await ethers.getContractAt("OrderBookUpgradeable", orderBookAddr);
+    const positionRouter = await ethers.getContractAt("PositionRouterUpgradeable", positionRouterAddr);
+    const priceFeed = await ethers.getContractAt("PriceFeedUpgradeable", priceFeedAddr);
+    const marketManager = await ethers.getContractAt("MarketManagerUpgradeable", marketManagerAddr);
+    const mixedExecutor = await ethers.getContractAt("MixedExecutorUpgradeable", mixedExecutorAddr);
+    const liquidator = await ethers.getContractAt("LiquidatorUpgradeable", liquidatorAddr);
+    const farmRewardDistributor = await ethers.getContractAt(
+        "FarmRewardDistributorUpgradeable",
+        farmRewardDistributorAddr,
+    );
+    const protocolFeeDistributor = await ethers.getContractAt(
+        "ProtocolFeeDistributorUpgradeable",
+        protocolFeeDistributorAddr,
+    );
 
     // initialize plugins
-    await router.registerLiquidator(liquidatorAddr);
-    await router.registerPlugin(liquidator); // liquidator is also a plugin
-    await router.registerPlugin(orderBookAddr);
-    await router.registerPlugin(positionRouterAddr);
-    await router.registerPlugin(rewardCollectorAddr);
-    await router.registerPlugin(mixedExecutorAddr); // mixed executor is also a plugin
-    await orderBook.updateOrderExecutor(mixedExecutorAddr, true);
-    await positionRouter.updatePositionExecutor(mixedExecutorAddr, true);
-    await liquidator.updateExecutor(mixedExecutorAddr, true);
+    await call("Router.registerLiquidator(LiquidatorUpgradeable)", router, "registerLiquidator", [liquidatorAddr], () =>
+        router.isRegisteredLiquidator(liquidatorAddr),
+    );
+    // liquidator and mixed executor are also plugins
+    for (const name of [
+        "LiquidatorUpgradeable",
+        "OrderBookUpgradeable",
+        "PositionRouterUpgradeable",
+        "RewardCollectorUpgradeable",
+        "MixedExecutorUpgradeable",
+    ] as const) {
+        await call(`Router.registerPlugin(${name})`, router, "registerPlugin", [addrs[name]], () =>
+            router.registeredPlugins(addrs[name]),
+        );
+    }
+    await call(
+        "OrderBook.updateOrderExecutor(MixedExecutorUpgradeable)",
+        orderBook,
+        "updateOrderExecutor",
+        [mixedExecutorAddr, true],
+        () => orderBook.orderExecutors(mixedExecutorAddr),
+    );
+    await call(
+        "PositionRouter.updatePositionExecutor(MixedExecutorUpgradeable)",
+        positionRouter,
+        "updatePositionExecutor",
+        [mixedExecutorAddr, true],
+        () => positionRouter.positionExecutors(mixedExecutorAddr),
+    );
+    await call(
+        "Liquidator.updateExecutor(MixedExecutorUpgradeable)",
+        liquidator,
+        "updateExecutor",
+        [mixedExecutorAddr, true],
+        () => liquidator.executors(mixedExecutorAddr),
+    );
     console.log("Initialize plugins finished");
 
     // register markets
     const MarketDescriptor = await ethers.getContractFactory("MarketDescriptor");
     const marketDescriptorInitCodeHash = keccak256(MarketDescriptor.bytecode);
-    // let markets = [];
-    // let index = 1;
-    // for (let item of network.markets) {
-    //     await marketDescriptorDeployer.deploy(item.name);
-    //     const marketAddr = getCreate2Address(
-    //         marketDescriptorDeployerAddr,
-    //         keccak256(encodePacked(item.name)!),
-    //         marketDescriptorInitCodeHash,
-    //     );
-    //     await marketManager.enableMarket(marketAddr, {
-    //         baseConfig: item.marketCfg.baseCfg,
-    //         feeRateConfig: item.marketCfg.feeRateCfg,
-    //         priceConfig: item.marketCfg.priceCfg,
-    //     });
-    //     await marketIndexer.assignMarketIndex(marketAddr);
-    //     if (item.chainLinkPriceFeed != undefined) {
-    //         await priceFeed.setRefPriceFeed(marketAddr, item.chainLinkPriceFeed);
-    //         await priceFeed.setMaxCumulativeDeltaDiffs(marketAddr, item.maxCumulativeDeltaDiff);
-    //     } else {
-    //         console.warn(`👿👿${item.name} chainLinkPriceFeed is not set👿👿`);
-    //     }
-
-    //     markets.push({
-    //         name: item.name,
-    //         index: index++,
-    //         market: marketAddr,
-    //     });
-    // }
-    // deployments.set("registerMarkets", markets);
+    // the markets themselves, including their price feed configs, are onboarded by scripts/registerMarkets.ts
 
     // initialize price feed
-    await priceFeed.setUpdater(mixedExecutorAddr, true);
+    await call(
+        "PriceFeed.setUpdater(MixedExecutorUpgradeable)",
+        priceFeed,
+        "setUpdater",
+        [mixedExecutorAddr, true],
+        () => priceFeed.isUpdater(mixedExecutorAddr),
+    );
     if (network.sequencerUptimeFeed != undefined) {
-        await priceFeed.setSequencerUptimeFeed(network.sequencerUptimeFeed);
+        const sequencerUptimeFeed = network.sequencerUptimeFeed;
+        await call(
+            "PriceFeed.setSequencerUptimeFeed",
+            priceFeed,
+            "setSequencerUptimeFeed",
+            [sequencerUptimeFeed],
+            async () => (await priceFeed.sequencerUptimeFeed()) === sequencerUptimeFeed,
+        );
     } else {
         console.warn("👿👿sequencerUptimeFeed is not set👿👿");
     }
-    await marketManager.setPriceFeed(priceFeedAddr);
+    await call(
+        "MarketManager.setPriceFeed(PriceFeedUpgradeable)",
+        marketManager,
+        "setPriceFeed",
+        [priceFeedAddr],
+        async () => (await marketManager.priceFeed()) === priceFeedAddr,
+    );
     console.log("Initialize price feed finished");
 
     // initialize liquidator
-    await liquidator.updatePriceFeed();
+    await call(
+        "Liquidator.updatePriceFeed",
+        liquidator,
+        "updatePriceFeed",
+        [],
+        async () => (await liquidator.priceFeed()) === priceFeedAddr,
+    );
     console.log("Initialize liquidator finished");
 
     // initialize mixed executor
     for (let item of network.mixedExecutors) {
-        await mixedExecutor.setExecutor(item, true);
+        await call(`MixedExecutor.setExecutor(${item})`, mixedExecutor, "setExecutor", [item, true], () =>
+            mixedExecutor.executors(item),
+        );
     }
     console.log("Initialize mixed executor finished");
 
-    const [contractsV2Gov, contractsV1Gov] = await ethers.getSigners();
-
     // initialize farm reward distributor
     const multiMinter = await ethers.getContractAt("IMultiMinter", network.equ);
-    await multiMinter.connect(contractsV1Gov).setMinter(farmRewardDistributorAddr, true);
+    await call(
+        "MultiMinter.setMinter(FarmRewardDistributorUpgradeable)",
+        multiMinter,
+        "setMinter",
+        [farmRewardDistributorAddr, true],
+        () => multiMinter.minters(farmRewardDistributorAddr),
+        contractsV1Gov,
+    );
     console.log("Initialize farm reward distributor finished");
 
     // initialize reward collector
-    await farmRewardDistributor.setCollector(rewardCollectorAddr, true);
+    await call(
+        "FarmRewardDistributor.setCollector(RewardCollectorUpgradeable)",
+        farmRewardDistributor,
+        "setCollector",
+        [rewardCollectorAddr, true],
+        () => farmRewardDistributor.collectors(rewardCollectorAddr),
+    );
     const routerV1 = await ethers.getContractAt("IPluginManager", network.routerV1);
-    await routerV1.connect(contractsV1Gov).registerPlugin(rewardCollectorAddr);
+    await call(
+        "RouterV1.registerPlugin(RewardCollectorUpgradeable)",
+        routerV1,
+        "registerPlugin",
+        [rewardCollectorAddr],
+        () => routerV1.registeredPlugins(rewardCollectorAddr),
+        contractsV1Gov,
+    );
     const farmRewardDistributorV2 = await ethers.getContractAt(
         "IFarmRewardDistributorV2",
         network.farmRewardDistributorV2,
     );
-    await farmRewardDistributorV2.connect(contractsV1Gov).setCollector(rewardCollector, true);
-    await farmRewardDistributorV2.connect(contractsV1Gov).setRewardType(21, "LiquidityV3");
-    await farmRewardDistributorV2.connect(contractsV1Gov).setRewardType(22, "ProfitMarginV3");
-    await farmRewardDistributorV2.connect(contractsV1Gov).setRewardType(23, "ReferralProfitMarginV3");
+    await call(
+        "FarmRewardDistributorV2.setCollector(RewardCollectorUpgradeable)",
+        farmRewardDistributorV2,
+        "setCollector",
+        [rewardCollectorAddr, true],
+        () => isCollectorV2(network, rewardCollectorAddr, firstBlock!, logBlockRange()),
+        contractsV1Gov,
+    );
+    for (const [rewardType, description] of [
+        [21, "LiquidityV3"],
+        [22, "ProfitMarginV3"],
+        [23, "ReferralProfitMarginV3"],
+    ] as const) {
+        await call(
+            `FarmRewardDistributorV2.setRewardType(${rewardType})`,
+            farmRewardDistributorV2,
+            "setRewardType",
+            [rewardType, description],
+            async () => (await farmRewardDistributorV2.rewardTypesDescriptions(rewardType)) === description,
+            contractsV1Gov,
+        );
+    }
     console.log("Initialize reward collector finished");
 
     // initialize protocol fee distributor
-    await protocolFeeDistributor.setCollector(rewardCollectorAddr, true);
-    await protocolFeeDistributor.setCampaignRate(network.campaignRate);
+    await call(
+        "ProtocolFeeDistributor.setCollector(RewardCollectorUpgradeable)",
+        protocolFeeDistributor,
+        "setCollector",
+        [rewardCollectorAddr, true],
+        () => protocolFeeDistributor.collectors(rewardCollectorAddr),
+    );
+    await call(
+        "ProtocolFeeDistributor.setCampaignRate",
+        protocolFeeDistributor,
+        "setCampaignRate",
+        [network.campaignRate],
+        async () => (await protocolFeeDistributor.campaignRate()) === network.campaignRate,
+    );
 
-    // write deployments to file
-    const deploymentsOutput = {
-        block: txReceipt!.blockNumber,
+    if (planning) {
+        const labels: Record<string, string> = {
+            [deployer.address]: "deployer",
+            [contractsV1Gov.address]: "contracts V1 gov",
+            [network.usd]: "USD",
+            [network.equ]: "EQU",
+            [network.efc]: "EFC",
+            [network.routerV1]: "RouterV1",
+            [network.feeDistributor]: "FeeDistributor",
+            [network.farmRewardDistributorV2]: "FarmRewardDistributorV2",
+            [network.usdChainLinkPriceFeed]: "USD ChainLink price feed",
+        };
+        for (const [name, address] of Object.entries({...libraries, ...addrs})) {
+            labels[address] = name;
+        }
+        writePlan({
+            network: networkName!,
+            chainId: chainId.toString(),
+            deployer: deployer.address,
+            nonce: await deployer.getNonce(),
+            steps: planned,
+            labels: labels,
+        });
+        return;
+    }
+
+    // write deployments to file, keeping the markets registered by registerMarkets for the same deployment
+    const existing = manifestExists(chainId) ? loadManifest(chainId) : undefined;
+    const manifest: Manifest = {
+        version: MANIFEST_VERSION,
+        block: firstBlock!,
         usd: network.usd,
         efc: network.efc,
         marketDescriptorInitCodeHash: marketDescriptorInitCodeHash,
-        deployments: Object.fromEntries(deployments),
+        deployments: {...libraries, ...addrs} as Deployments,
+        implementations: implementations,
     };
-    const fs = require("fs");
-    if (!fs.existsSync("deployments")) {
-        fs.mkdirSync("deployments");
+    if (existing?.deployments.MarketIndexer === marketIndexerAddr) {
+        manifest.deployments.registerMarkets = existing.deployments.registerMarkets;
+    }
+    writeManifest(chainId, manifest);
+
+    if (rehearsing) {
+        const failed = printChecks(await checkWiring(network, manifest.deployments, firstBlock));
+        if (failed > 0) {
+            throw new Error(`rehearsal finished with ${failed} wiring check(s) failed`);
+        }
+        console.log("🎉 rehearsal finished, all wiring checks passed");
     }
-    const chainId = (await configurableUtil.runner!.provider!.getNetwork()).chainId;
-    fs.writeFileSync(`deployments/${chainId}.json`, JSON.stringify(deploymentsOutput, null, 4));
-    console.log(`💾 deployments output to deployments/${chainId}.json`);
 }
 
 function expectAddr(actual: string, expected: string) {
@@ -331,36 +533,6 @@ function expectAddr(actual: string, expected: string) {
     }
 }
 
-async function deployLibraries() {
-    const ConfigurableUtil = await ethers.getContractFactory("ConfigurableUtil");
-    const configurableUtil = await ConfigurableUtil.deploy();
-    await configurableUtil.waitForDeployment();
-
-    const FundingRateUtil = await ethers.getContractFactory("FundingRateUtil");
-    const fundingRateUtil = await FundingRateUtil.deploy();
-    await fundingRateUtil.waitForDeployment();
-
-    const LiquidityPositionUtil = await ethers.getContractFactory("LiquidityPositionUtil");
-    const liquidityPositionUtil = await LiquidityPositionUtil.deploy();
-    await liquidityPositionUtil.waitForDeployment();
-
-    const MarketUtil = await ethers.getContractFactory("MarketUtil");
-    const marketUtil = await MarketUtil.deploy();
-    await marketUtil.waitForDeployment();
-
-    const PositionUtil = await ethers.getContractFactory("PositionUtil");
-    const positionUtil = await PositionUtil.deploy();
-    await positionUtil.waitForDeployment();
-
-    console.log(`ConfigurableUtil deployed to: ${await configurableUtil.getAddress()}`);
-    console.log(`FundingRateUtil deployed to: ${await fundingRateUtil.getAddress()}`);
-    console.log(`LiquidityPositionUtil deployed to: ${await liquidityPositionUtil.getAddress()}`);
-    console.log(`MarketUtil deployed to: ${await marketUtil.getAddress()}`);
-    console.log(`PositionUtil deployed to: ${await positionUtil.getAddress()}`);
-
-    return {configurableUtil, fundingRateUtil, liquidityPositionUtil, marketUtil, positionUtil};
-}
-
 main()
     .then(() => process.exit(0))
     .catch((error) => {
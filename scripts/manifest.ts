@@ -0,0 +1,346 @@
+import {getAddress} from "ethers";
+import {getCreate2Address} from "@ethersproject/address";
+import {keccak256} from "@ethersproject/keccak256";
+import {encodePacked} from "web3-utils";
+import {isRecord} from "./util";
+
+// Version 0 manifests were written before the version field was introduced, and registerMarkets entries
+// may carry the market address in `market` instead of `address`. Version 1 manifests record neither the
+// implementations of the proxies nor their upgrade history, nor the previous addresses of redeployed libraries.
+export const MANIFEST_VERSION = 2;
+
+export const libraryNames = [
+    "ConfigurableUtil",
+    "FundingRateUtil",
+    "LiquidityPositionUtil",
+    "MarketUtil",
+    "PositionUtil",
+] as const;
+
+export const contractNames = [
+    ...libraryNames,
+    "RouterUpgradeable",
+    "OrderBookUpgradeable",
+    "PositionRouterUpgradeable",
+    "LiquidatorUpgradeable",
+    "PriceFeedUpgradeable",
+    "MarketDescriptorDeployer",
+    "MarketIndexer",
+    "MarketManagerUpgradeable",
+    "MixedExecutorUpgradeable",
+    "ExecutorAssistant",
+    "FarmRewardDistributorUpgradeable",
+    "ProtocolFeeDistributorUpgradeable",
+    "RewardCollectorUpgradeable",
+] as const;
+
+export type LibraryName = (typeof libraryNames)[number];
+export type ContractName = (typeof contractNames)[number];
+export type ProxyName = Extract<ContractName, `${string}Upgradeable`>;
+
+export const proxyNames = contractNames.filter((name): name is ProxyName => name.endsWith("Upgradeable"));
+
+export interface RegisteredMarket {
+    name: string;
+    index: number;
+    address: string;
+}
+
+export type Deployments = Record<ContractName, string> & {
+    registerMarkets?: RegisteredMarket[];
+};
+
+export interface UpgradeRecord {
+    contract: ProxyName;
+    previousImplementation: string;
+    implementation: string;
+    // the libraries linked into the new implementation, if any
+    libraries?: Partial<Record<LibraryName, string>>;
+    txHash: string;
+    block: number;
+}
+
+export interface Manifest {
+    version: number;
+    // the block at which the first contract was deployed
+    block: number;
+    usd: string;
+    efc: string;
+    marketDescriptorInitCodeHash: string;
+    deployments: Deployments;
+    // the current implementation of each proxy
+    implementations?: Partial<Record<ProxyName, string>>;
+    // upgrades of the proxies, oldest first
+    upgrades?: UpgradeRecord[];
+    // the addresses libraries were deployed to before being redeployed, oldest first
+    previousLibraries?: Partial<Record<LibraryName, string[]>>;
+    // the libraries redeployed for upgrades that were proposed but not executed yet, which only the proposed
+    // implementations link against
+    pendingLibraries?: Partial<Record<LibraryName, string>>;
+}
+
+export class ManifestError extends Error {
+    constructor(
+        readonly path: string,
+        readonly problems: string[],
+    ) {
+        super(`invalid deployment manifest ${path}:\n  - ${problems.join("\n  - ")}`);
+    }
+}
+
+// Computes the address of the market descriptor deployed by MarketDescriptorDeployer for the market name
+export function marketAddress(manifest: Manifest, name: string) {
+    return getCreate2Address(
+        manifest.deployments.MarketDescriptorDeployer,
+        keccak256(encodePacked(name)!),
+        manifest.marketDescriptorInitCodeHash,
+    );
+}
+
+export function manifestPath(chainId: bigint) {
+    return `deployments/${chainId}.json`;
+}
+
+export function manifestExists(chainId: bigint) {
+    const fs = require("fs");
+    return fs.existsSync(manifestPath(chainId));
+}
+
+export function loadManifest(chainId: bigint): Manifest {
+    const fs = require("fs");
+    const path = manifestPath(chainId);
+    if (!fs.existsSync(path)) {
+        throw new Error(`deployment manifest ${path} does not exist`);
+    }
+    return validateManifest(JSON.parse(fs.readFileSync(path, "utf8")), path);
+}
+
+// Writes the manifest after validating it. This is the only place the manifest files are written.
+export function writeManifest(chainId: bigint, manifest: Manifest) {
+    const fs = require("fs");
+    const path = manifestPath(chainId);
+    const validated = validateManifest(manifest, path);
+    if (!fs.existsSync("deployments")) {
+        fs.mkdirSync("deployments");
+    }
+    fs.writeFileSync(path, JSON.stringify(validated, null, 4) + "\n");
+    console.log(`💾 deployments output to ${path}`);
+}
+
+// Validates a parsed manifest, upgrading it to the current version. All problems are reported at once.
+export function validateManifest(document: unknown, path: string = "<memory>"): Manifest {
+    const problems: string[] = [];
+    if (!isRecord(document)) {
+        throw new ManifestError(path, ["manifest is not an object"]);
+    }
+    const version = document.version ?? 0;
+    if (typeof version !== "number" || version > MANIFEST_VERSION) {
+        throw new ManifestError(path, [`unsupported version ${version}, latest is ${MANIFEST_VERSION}`]);
+    }
+
+    const expectAddress = (field: string, value: unknown) => {
+        if (typeof value !== "string") {
+            problems.push(`${field} is missing`);
+            return value as string;
+        }
+        let address: string;
+        try {
+            address = getAddress(value);
+        } catch {
+            address = "";
+        }
+        // lower-case addresses are rejected as well, every address of the manifest is checksummed
+        if (address !== value) {
+            problems.push(`${field} ${value} is not a valid checksummed address`);
+        }
+        return value;
+    };
+    const expectBlock = (field: string, value: unknown) => {
+        if (typeof value !== "number" || !Number.isInteger(value) || value < 0) {
+            problems.push(`${field} ${value} is not a block number`);
+        }
+        return value as number;
+    };
+    const expectHash = (field: string, value: unknown, kind: string) => {
+        if (typeof value !== "string" || !/^0x[0-9a-fA-F]{64}$/.test(value)) {
+            problems.push(`${field} ${value} is not a ${kind}`);
+        }
+        return value as string;
+    };
+
+    const block = expectBlock("block", document.block);
+    const usd = expectAddress("usd", document.usd);
+    const efc = expectAddress("efc", document.efc);
+    const marketDescriptorInitCodeHash = expectHash(
+        "marketDescriptorInitCodeHash",
+        document.marketDescriptorInitCodeHash,
+        "bytes32 hash",
+    );
+
+    const source = document.deployments ?? {};
+    const deployments = {} as Deployments;
+    if (!isRecord(source)) {
+        problems.push("deployments is not an object");
+    } else {
+        for (const name of contractNames) {
+            deployments[name] = expectAddress(`deployments.${name}`, source[name]);
+        }
+        for (const key of Object.keys(source)) {
+            if (key !== "registerMarkets" && !(contractNames as readonly string[]).includes(key)) {
+                problems.push(`deployments.${key} is not a known contract`);
+            }
+        }
+        if (source.registerMarkets != undefined) {
+            if (!Array.isArray(source.registerMarkets)) {
+                problems.push("deployments.registerMarkets is not an array");
+            } else {
+                const names = new Set<string>();
+                const registerMarkets: RegisteredMarket[] = [];
+                source.registerMarkets.forEach((item: unknown, i: number) => {
+                    const field = `deployments.registerMarkets[${i}]`;
+                    if (!isRecord(item)) {
+                        problems.push(`${field} is not an object`);
+                        return;
+                    }
+                    const {name, index} = item;
+                    if (typeof name !== "string" || name.length == 0) {
+                        problems.push(`${field}.name is missing`);
+                    } else if (names.has(name)) {
+                        problems.push(`${field}.name ${name} is registered more than once`);
+                    } else {
+                        names.add(name);
+                    }
+                    if (typeof index !== "number" || !Number.isInteger(index) || index <= 0 || index >= 1 << 24) {
+                        problems.push(`${field}.index ${index} is not a uint24 market index`);
+                    }
+                    const address = expectAddress(`${field}.address`, item.address ?? item.market);
+                    registerMarkets.push({name: name as string, index: index as number, address: address});
+                });
+                deployments.registerMarkets = registerMarkets;
+            }
+        }
+    }
+
+    let implementations: Partial<Record<ProxyName, string>> | undefined;
+    if (document.implementations != undefined) {
+        implementations = {};
+        if (!isRecord(document.implementations)) {
+            problems.push("implementations is not an object");
+        } else {
+            for (const [name, address] of Object.entries(document.implementations)) {
+                if (!(proxyNames as readonly string[]).includes(name)) {
+                    problems.push(`implementations.${name} is not a known proxy`);
+                    continue;
+                }
+                implementations[name as ProxyName] = expectAddress(`implementations.${name}`, address);
+            }
+        }
+    }
+    let upgrades: UpgradeRecord[] | undefined;
+    if (document.upgrades != undefined) {
+        if (!Array.isArray(document.upgrades)) {
+            problems.push("upgrades is not an array");
+        } else {
+            upgrades = [];
+            document.upgrades.forEach((item: unknown, i: number) => {
+                const field = `upgrades[${i}]`;
+                if (!isRecord(item)) {
+                    problems.push(`${field} is not an object`);
+                    return;
+                }
+                if (typeof item.contract !== "string" || !(proxyNames as readonly string[]).includes(item.contract)) {
+                    problems.push(`${field}.contract ${item.contract} is not a known proxy`);
+                }
+                const record: UpgradeRecord = {
+                    contract: item.contract as ProxyName,
+                    previousImplementation: expectAddress(
+                        `${field}.previousImplementation`,
+                        item.previousImplementation,
+                    ),
+                    implementation: expectAddress(`${field}.implementation`, item.implementation),
+                    txHash: expectHash(`${field}.txHash`, item.txHash, "transaction hash"),
+                    block: expectBlock(`${field}.block`, item.block),
+                };
+                if (item.libraries != undefined) {
+                    record.libraries = {};
+                    if (!isRecord(item.libraries)) {
+                        problems.push(`${field}.libraries is not an object`);
+                    } else {
+                        for (const [name, address] of Object.entries(item.libraries)) {
+                            if (!(libraryNames as readonly string[]).includes(name)) {
+                                problems.push(`${field}.libraries.${name} is not a known library`);
+                                continue;
+                            }
+                            record.libraries[name as LibraryName] = expectAddress(
+                                `${field}.libraries.${name}`,
+                                address,
+                            );
+                        }
+                    }
+                }
+                upgrades!.push(record);
+            });
+        }
+    }
+
+    let previousLibraries: Partial<Record<LibraryName, string[]>> | undefined;
+    if (document.previousLibraries != undefined) {
+        previousLibraries = {};
+        if (!isRecord(document.previousLibraries)) {
+            problems.push("previousLibraries is not an object");
+        } else {
+            for (const [name, addresses] of Object.entries(document.previousLibraries)) {
+                if (!(libraryNames as readonly string[]).includes(name)) {
+                    problems.push(`previousLibraries.${name} is not a known library`);
+                } else if (!Array.isArray(addresses)) {
+                    problems.push(`previousLibraries.${name} is not an array`);
+                } else {
+                    previousLibraries[name as LibraryName] = addresses.map((address, i) =>
+                        expectAddress(`previousLibraries.${name}[${i}]`, address),
+                    );
+                }
+            }
+        }
+    }
+
+    let pendingLibraries: Partial<Record<LibraryName, string>> | undefined;
+    if (document.pendingLibraries != undefined) {
+        pendingLibraries = {};
+        if (!isRecord(document.pendingLibraries)) {
+            problems.push("pendingLibraries is not an object");
+        } else {
+            for (const [name, address] of Object.entries(document.pendingLibraries)) {
+                if (!(libraryNames as readonly string[]).includes(name)) {
+                    problems.push(`pendingLibraries.${name} is not a known library`);
+                    continue;
+                }
+                pendingLibraries[name as LibraryName] = expectAddress(`pendingLibraries.${name}`, address);
+            }
+        }
+    }
+
+    if (problems.length > 0) {
+        throw new ManifestError(path, problems);
+    }
+    const manifest: Manifest = {
+        version: MANIFEST_VERSION,
+        block: block,
+        usd: usd,
+        efc: efc,
+        marketDescriptorInitCodeHash: marketDescriptorInitCodeHash,
+        deployments: deployments,
+    };
+    if (implementations != undefined) {
+        manifest.implementations = implementations;
+    }
+    if (upgrades != undefined) {
+        manifest.upgrades = upgrades;
+    }
+    if (previousLibraries != undefined) {
+        manifest.previousLibraries = previousLibraries;
+    }
+    if (pendingLibraries != undefined && Object.keys(pendingLibraries).length > 0) {
+        manifest.pendingLibraries = pendingLibraries;
+    }
+    return manifest;
+}
@@ -0,0 +1,419 @@
+import Decimal from "decimal.js";
+import type {IConfigurable} from "../typechain-types";
+
+// Mirrors the market config structs of IConfigurable and the checks of ConfigurableUtil, so that market configs can be
+// validated before any transaction is sent
+
+export const BASIS_POINTS_DIVISOR = 100_000_000n;
+export const VERTEX_NUM = 10;
+export const LATEST_VERTEX = VERTEX_NUM - 1;
+
+// config values are written either as bigint or as number literals
+export type Numeric = bigint | number;
+
+// wide enough for the uint128 fields, which lose digits at the default precision of 20 significant digits
+const Precise = Decimal.clone({precision: 64});
+
+export interface MarketBaseConfig {
+    minMarginPerLiquidityPosition: Numeric;
+    maxLeveragePerLiquidityPosition: Numeric;
+    liquidationFeeRatePerLiquidityPosition: Numeric;
+    minMarginPerPosition: Numeric;
+    maxLeveragePerPosition: Numeric;
+    liquidationFeeRatePerPosition: Numeric;
+    maxPositionLiquidity: Numeric;
+    maxPositionValueRate: Numeric;
+    maxSizeRatePerPosition: Numeric;
+    liquidationExecutionFee: Numeric;
+}
+
+export interface MarketFeeRateConfig {
+    protocolFundingFeeRate: Numeric;
+    fundingCoeff: Numeric;
+    protocolFundingCoeff: Numeric;
+    interestRate: Numeric;
+    fundingBuffer: Numeric;
+    liquidityFundingFeeRate: Numeric;
+    maxFundingRate: Numeric;
+}
+
+export interface VertexConfig {
+    balanceRate: Numeric;
+    premiumRate: Numeric;
+}
+
+export interface MarketPriceConfig {
+    maxPriceImpactLiquidity: Numeric;
+    liquidationVertexIndex: Numeric;
+    dynamicDepthMode: Numeric;
+    dynamicDepthLevel: Numeric;
+    vertices: VertexConfig[];
+}
+
+export interface MarketConfig {
+    baseCfg: MarketBaseConfig;
+    feeRateCfg: MarketFeeRateConfig;
+    priceCfg: MarketPriceConfig;
+}
+
+// the Solidity integer width of each field
+export const baseConfigBits: Record<keyof MarketBaseConfig, number> = {
+    minMarginPerLiquidityPosition: 64,
+    maxLeveragePerLiquidityPosition: 32,
+    liquidationFeeRatePerLiquidityPosition: 32,
+    minMarginPerPosition: 64,
+    maxLeveragePerPosition: 32,
+    liquidationFeeRatePerPosition: 32,
+    maxPositionLiquidity: 128,
+    maxPositionValueRate: 32,
+    maxSizeRatePerPosition: 32,
+    liquidationExecutionFee: 64,
+};
+
+export const feeRateConfigBits: Record<keyof MarketFeeRateConfig, number> = {
+    protocolFundingFeeRate: 32,
+    fundingCoeff: 32,
+    protocolFundingCoeff: 32,
+    interestRate: 32,
+    fundingBuffer: 32,
+    liquidityFundingFeeRate: 32,
+    maxFundingRate: 32,
+};
+
+export const priceConfigBits: Record<Exclude<keyof MarketPriceConfig, "vertices">, number> = {
+    maxPriceImpactLiquidity: 128,
+    liquidationVertexIndex: 8,
+    dynamicDepthMode: 8,
+    dynamicDepthLevel: 32,
+};
+
+export const vertexConfigBits: Record<keyof VertexConfig, number> = {
+    balanceRate: 32,
+    premiumRate: 32,
+};
+
+export interface ConfigViolation {
+    // the path of the field, e.g. `priceCfg.vertices[3].premiumRate`
+    field: string;
+    // the IConfigurable error the contract would revert with, or the kind of the violation
+    error: string;
+    message: string;
+}
+
+// Validates a market config, reporting every violation instead of stopping at the first one as the contract does
+export function validateMarketConfig(cfg: MarketConfig): ConfigViolation[] {
+    const violations: ConfigViolation[] = [];
+    const fail = (field: string, error: string, message: string) => violations.push({field, error, message});
+
+    // a field that is not a valid unsigned integer of its width is reported once, and skipped by the checks below
+    const values = new Map<string, bigint>();
+    const expectUint = (field: string, value: unknown, bits: number) => {
+        if (typeof value === "number" && !Number.isInteger(value)) {
+            fail(field, "InvalidUnit", `${value} is not an integer, rates are in units of 1e-8`);
+        } else if (typeof value !== "number" && typeof value !== "bigint") {
+            fail(field, "MissingField", `${field} is missing`);
+        } else if (BigInt(value) < 0n || BigInt(value) >= 1n << BigInt(bits)) {
+            fail(field, "OutOfRange", `${value} does not fit in uint${bits}`);
+        } else {
+            values.set(field, BigInt(value));
+        }
+    };
+    // the configs may come from untyped JSON, so every field is checked as unknown
+    for (const name of Object.keys(baseConfigBits) as (keyof MarketBaseConfig)[]) {
+        expectUint(`baseCfg.${name}`, cfg.baseCfg?.[name], baseConfigBits[name]);
+    }
+    for (const name of Object.keys(feeRateConfigBits) as (keyof MarketFeeRateConfig)[]) {
+        expectUint(`feeRateCfg.${name}`, cfg.feeRateCfg?.[name], feeRateConfigBits[name]);
+    }
+    for (const name of Object.keys(priceConfigBits) as (keyof typeof priceConfigBits)[]) {
+        expectUint(`priceCfg.${name}`, cfg.priceCfg?.[name], priceConfigBits[name]);
+    }
+    const vertices = cfg.priceCfg?.vertices ?? [];
+    vertices.forEach((vertex, i) => {
+        for (const name of Object.keys(vertexConfigBits) as (keyof VertexConfig)[]) {
+            expectUint(`priceCfg.vertices[${i}].${name}`, vertex?.[name], vertexConfigBits[name]);
+        }
+    });
+
+    const expect = (field: string, error: string, invalid: (value: bigint) => boolean, requirement: string) => {
+        const value = values.get(field);
+        if (value != undefined && invalid(value)) {
+            fail(field, `${error}(${value})`, `${value} ${requirement}`);
+        }
+    };
+
+    // _validateBaseConfig
+    expect(
+        "baseCfg.maxLeveragePerLiquidityPosition",
+        "InvalidMaxLeveragePerLiquidityPosition",
+        (value) => value == 0n,
+        "must be positive",
+    );
+    expect(
+        "baseCfg.liquidationFeeRatePerLiquidityPosition",
+        "InvalidLiquidationFeeRatePerLiquidityPosition",
+        (value) => value > BASIS_POINTS_DIVISOR,
+        "must not exceed 100%",
+    );
+    expect(
+        "baseCfg.maxLeveragePerPosition",
+        "InvalidMaxLeveragePerPosition",
+        (value) => value == 0n,
+        "must be positive",
+    );
+    expect(
+        "baseCfg.liquidationFeeRatePerPosition",
+        "InvalidLiquidationFeeRatePerPosition",
+        (value) => value > BASIS_POINTS_DIVISOR,
+        "must not exceed 100%",
+    );
+    expect("baseCfg.maxPositionLiquidity", "InvalidMaxPositionLiquidity", (value) => value == 0n, "must be positive");
+    expect("baseCfg.maxPositionValueRate", "InvalidMaxPositionValueRate", (value) => value == 0n, "must be positive");
+    expect(
+        "baseCfg.maxSizeRatePerPosition",
+        "InvalidMaxSizeRatePerPosition",
+        (value) => value > BASIS_POINTS_DIVISOR,
+        "must not exceed 100%",
+    );
+
+    // _validateFeeRateConfig
+    for (const [name, error] of [
+        ["protocolFundingFeeRate", "InvalidProtocolFundingFeeRate"],
+        ["protocolFundingCoeff", "InvalidProtocolFundingCoeff"],
+        ["interestRate", "InvalidInterestRate"],
+        ["fundingBuffer", "InvalidFundingBuffer"],
+        ["liquidityFundingFeeRate", "InvalidLiquidityFundingFeeRate"],
+        ["maxFundingRate", "InvalidMaxFundingRate"],
+    ]) {
+        expect(`feeRateCfg.${name}`, error, (value) => value > BASIS_POINTS_DIVISOR, "must not exceed 100%");
+    }
+    expect(
+        "feeRateCfg.fundingCoeff",
+        "InvalidFundingCoeff",
+        (value) => value > BASIS_POINTS_DIVISOR * 10n,
+        "must not exceed 1000%",
+    );
+
+    // _validatePriceConfig
+    expect(
+        "priceCfg.maxPriceImpactLiquidity",
+        "InvalidMaxPriceImpactLiquidity",
+        (value) => value == 0n,
+        "must be positive",
+    );
+    if (vertices.length != VERTEX_NUM) {
+        fail(
+            "priceCfg.vertices",
+            `InvalidVerticesLength(${vertices.length}, ${VERTEX_NUM})`,
+            `${vertices.length} vertices are configured, ${VERTEX_NUM} are required`,
+        );
+    }
+    expect(
+        "priceCfg.liquidationVertexIndex",
+        "InvalidLiquidationVertexIndex",
+        (value) => value >= BigInt(LATEST_VERTEX),
+        `must be less than ${LATEST_VERTEX}`,
+    );
+    expect(
+        "priceCfg.dynamicDepthLevel",
+        "InvalidDynamicDepthLevel",
+        (value) => value > BASIS_POINTS_DIVISOR,
+        "must not exceed 100%",
+    );
+    if (vertices.length == VERTEX_NUM) {
+        const vertex = (i: number) => ({
+            balanceRate: values.get(`priceCfg.vertices[${i}].balanceRate`),
+            premiumRate: values.get(`priceCfg.vertices[${i}].premiumRate`),
+        });
+        const first = vertex(0);
+        if (first.balanceRate != 0n || first.premiumRate != 0n) {
+            fail("priceCfg.vertices[0]", "InvalidVertex(0)", "the first vertex must be (0, 0)");
+        }
+        // as in the contract, the second vertex is not compared with the first one
+        for (let i = 2; i < VERTEX_NUM; i++) {
+            const previous = vertex(i - 1);
+            const current = vertex(i);
+            if (
+                (previous.balanceRate != undefined &&
+                    current.balanceRate != undefined &&
+                    previous.balanceRate > current.balanceRate) ||
+                (previous.premiumRate != undefined &&
+                    current.premiumRate != undefined &&
+                    previous.premiumRate > current.premiumRate)
+            ) {
+                fail(`priceCfg.vertices[${i}]`, `InvalidVertex(${i})`, `vertex ${i} is below vertex ${i - 1}`);
+            }
+        }
+        const last = vertex(LATEST_VERTEX);
+        if ((last.balanceRate ?? 0n) > BASIS_POINTS_DIVISOR || (last.premiumRate ?? 0n) > BASIS_POINTS_DIVISOR) {
+            fail(
+                `priceCfg.vertices[${LATEST_VERTEX}]`,
+                `InvalidVertex(${LATEST_VERTEX})`,
+                "rates must not exceed 100%",
+            );
+        }
+    }
+    return violations;
+}
+
+// Validates the configs of the markets, throwing with every violation of every market
+export function assertValidMarketConfigs(markets: readonly {name: string; marketCfg: MarketConfig}[]) {
+    const problems: string[] = [];
+    for (const market of markets) {
+        for (const violation of validateMarketConfig(market.marketCfg)) {
+            problems.push(`${market.name} ${violation.field}: ${violation.error}, ${violation.message}`);
+        }
+    }
+    if (problems.length > 0) {
+        throw new Error(`invalid market configs:\n  - ${problems.join("\n  - ")}`);
+    }
+}
+
+// Rates are in units of 1e-8, where 1e8 is 100%, and USD amounts have the 6 decimals of the USD token
+export type ConfigUnit = "rate" | "usd" | "leverage" | "count";
+
+export type ConfigFieldName =
+    | keyof MarketBaseConfig
+    | keyof MarketFeeRateConfig
+    | Exclude<keyof MarketPriceConfig, "vertices">
+    | keyof VertexConfig;
+
+export const configUnits: Record<ConfigFieldName, ConfigUnit> = {
+    minMarginPerLiquidityPosition: "usd",
+    maxLeveragePerLiquidityPosition: "leverage",
+    liquidationFeeRatePerLiquidityPosition: "rate",
+    minMarginPerPosition: "usd",
+    maxLeveragePerPosition: "leverage",
+    liquidationFeeRatePerPosition: "rate",
+    maxPositionLiquidity: "usd",
+    maxPositionValueRate: "rate",
+    maxSizeRatePerPosition: "rate",
+    liquidationExecutionFee: "usd",
+    protocolFundingFeeRate: "rate",
+    fundingCoeff: "rate",
+    protocolFundingCoeff: "rate",
+    interestRate: "rate",
+    fundingBuffer: "rate",
+    liquidityFundingFeeRate: "rate",
+    maxFundingRate: "rate",
+    maxPriceImpactLiquidity: "usd",
+    liquidationVertexIndex: "count",
+    dynamicDepthMode: "count",
+    dynamicDepthLevel: "rate",
+    balanceRate: "rate",
+    premiumRate: "rate",
+};
+
+// Formats a config value in human units, e.g. `0.4%`, `30000000 USD` or `100x`
+export function formatConfigValue(name: ConfigFieldName, value: Numeric) {
+    switch (configUnits[name]) {
+        case "rate":
+            return `${new Precise(value.toString()).div(1e6).toFixed()}%`;
+        case "usd":
+            return `${new Precise(value.toString()).div(1e6).toFixed()} USD`;
+        case "leverage":
+            return `${value}x`;
+        default:
+            return value.toString();
+    }
+}
+
+// Parses a config value written in human units by `formatConfigValue`, e.g. `0.4%`, `30000000 USD` or `100x`. Count
+// fields are plain numbers.
+export function parseConfigValue(name: ConfigFieldName, value: unknown): Numeric {
+    const unit = configUnits[name];
+    if (unit === "count") {
+        if (typeof value !== "number" || !Number.isInteger(value) || value < 0) {
+            throw new Error(`${name} ${value} is not a non-negative integer`);
+        }
+        return value;
+    }
+    const suffix = {rate: "%", usd: " USD", leverage: "x"}[unit];
+    if (typeof value !== "string" || !value.endsWith(suffix)) {
+        throw new Error(`${name} ${value} is not in ${unit} units, e.g. \`1${suffix}\``);
+    }
+    let amount: Decimal;
+    try {
+        amount = new Precise(value.slice(0, -suffix.length));
+    } catch {
+        throw new Error(`${name} ${value} is not a number`);
+    }
+    const scaled = unit === "leverage" ? amount : amount.mul(1e6);
+    if (!scaled.isInteger() || scaled.isNegative()) {
+        throw new Error(`${name} ${value} is not a non-negative multiple of the smallest ${unit} unit`);
+    }
+    return BigInt(scaled.toFixed(0));
+}
+
+export interface ConfigDiff {
+    // the path of the field, e.g. `priceCfg.vertices[3].premiumRate`
+    field: string;
+    // undefined if the field is missing on that side
+    from?: string;
+    to?: string;
+    // the values in human units
+    fromText: string;
+    toText: string;
+}
+
+// Lists the fields that differ between two market configs
+export function diffMarketConfigs(from: MarketConfig, to: MarketConfig): ConfigDiff[] {
+    const diffs: ConfigDiff[] = [];
+    const compare = (path: string, a: object, b: object) => {
+        const fieldsA = new Map<string, unknown>(Object.entries(a));
+        const fieldsB = new Map<string, unknown>(Object.entries(b));
+        for (const name of new Set([...fieldsA.keys(), ...fieldsB.keys()])) {
+            if (name === "vertices") {
+                const verticesA = (fieldsA.get(name) ?? []) as VertexConfig[];
+                const verticesB = (fieldsB.get(name) ?? []) as VertexConfig[];
+                const length = Math.max(verticesA.length, verticesB.length);
+                for (let i = 0; i < length; i++) {
+                    compare(`${path}.vertices[${i}]`, verticesA[i] ?? {}, verticesB[i] ?? {});
+                }
+                continue;
+            }
+            const value = (field: unknown) => (field == undefined ? undefined : BigInt(field as Numeric));
+            const x = value(fieldsA.get(name));
+            const y = value(fieldsB.get(name));
+            if (x !== y) {
+                const format = (value?: bigint) =>
+                    value == undefined ? "missing" : formatConfigValue(name as ConfigFieldName, value);
+                diffs.push({
+                    field: `${path}.${name}`,
+                    from: x?.toString(),
+                    to: y?.toString(),
+                    fromText: format(x),
+                    toText: format(y),
+                });
+            }
+        }
+    };
+    compare("baseCfg", from.baseCfg, to.baseCfg);
+    compare("feeRateCfg", from.feeRateCfg, to.feeRateCfg);
+    compare("priceCfg", from.priceCfg, to.priceCfg);
+    return diffs;
+}
+
+// Reads the config of a market from the market manager, as plain objects of bigint values
+export async function readMarketConfig(
+    marketManager: Pick<IConfigurable, "marketBaseConfigs" | "marketFeeRateConfigs" | "marketPriceConfigs">,
+    market: string,
+): Promise<MarketConfig> {
+    const [baseCfg, feeRateCfg, priceCfg] = await Promise.all([
+        marketManager.marketBaseConfigs(market),
+        marketManager.marketFeeRateConfigs(market),
+        marketManager.marketPriceConfigs(market),
+    ]);
+    const pick = <K extends string>(result: Record<K, bigint>, names: readonly K[]) =>
+        Object.fromEntries(names.map((name) => [name, BigInt(result[name])])) as Record<K, bigint>;
+    return {
+        baseCfg: pick(baseCfg, Object.keys(baseConfigBits) as (keyof MarketBaseConfig)[]),
+        feeRateCfg: pick(feeRateCfg, Object.keys(feeRateConfigBits) as (keyof MarketFeeRateConfig)[]),
+        priceCfg: {
+            ...pick(priceCfg, Object.keys(priceConfigBits) as Exclude<keyof MarketPriceConfig, "vertices">[]),
+            vertices: priceCfg.vertices.map((vertex) =>
+                pick(vertex, Object.keys(vertexConfigBits) as (keyof VertexConfig)[]),
+            ),
+        },
+    };
+}
@@ -0,0 +1,268 @@
+import Decimal from "decimal.js";
+import {getAddress} from "ethers";
+import {
+    baseConfigBits,
+    ConfigFieldName,
+    configUnits,
+    feeRateConfigBits,
+    formatConfigValue,
+    MarketConfig,
+    Numeric,
+    parseConfigValue,
+    priceConfigBits,
+    VERTEX_NUM,
+    VertexConfig,
+    vertexConfigBits,
+} from "./marketConfig";
+import {MarketConfigOverrides, riskTier, RiskTierName, riskTiers} from "./riskTiers";
+import {isRecord} from "./util";
+
+// Market listings are kept per network in `scripts/markets/<network>.json`, with the values in human units, e.g.
+// `"maxLeveragePerPosition": "150x"` or `"maxPositionLiquidity": "35000000 USD"`, so that tools can rewrite them
+
+// the price feed expresses the maximum cumulative delta difference in units of 1e-6
+const DELTA_PRECISION = 1_000_000n;
+
+export interface MarketListing {
+    name: string;
+    chainLinkPriceFeed?: string;
+    // in seconds, left unchanged on chain if undefined
+    refHeartbeatDuration?: number;
+    maxCumulativeDeltaDiff: bigint;
+    // in seconds, left unchanged on chain if undefined
+    minProfitDuration?: number;
+    // the wind-down stage the config was tightened to by scripts/windDownMarket.ts, if the market is being retired
+    windDown?: number;
+    tier: RiskTierName;
+    overrides: MarketConfigOverrides;
+    // derived from the risk tier and the overrides
+    marketCfg: MarketConfig;
+}
+
+export class MarketListingError extends Error {
+    constructor(
+        readonly path: string,
+        readonly problems: string[],
+    ) {
+        super(`invalid market listings ${path}:\n  - ${problems.join("\n  - ")}`);
+    }
+}
+
+const listingFields = [
+    "name",
+    "chainLinkPriceFeed",
+    "refHeartbeatDuration",
+    "maxCumulativeDeltaDiff",
+    "minProfitDuration",
+    "windDown",
+    "tier",
+    "overrides",
+];
+
+const overridableFields: Record<keyof MarketConfigOverrides, string[]> = {
+    baseCfg: Object.keys(baseConfigBits),
+    feeRateCfg: Object.keys(feeRateConfigBits),
+    priceCfg: [...Object.keys(priceConfigBits), "vertices"],
+};
+
+export function marketListingsPath(network: string) {
+    return `scripts/markets/${network}.json`;
+}
+
+export function loadMarketListings(network: string): MarketListing[] {
+    const fs = require("fs");
+    const path = marketListingsPath(network);
+    if (!fs.existsSync(path)) {
+        throw new MarketListingError(path, ["file not found"]);
+    }
+    return parseMarketListings(JSON.parse(fs.readFileSync(path, "utf8")), path);
+}
+
+// Writes the market listings in human units, formatted the way prettier formats the file
+export async function writeMarketListings(network: string, listings: MarketListing[]) {
+    const fs = require("fs");
+    const prettier = require("prettier");
+    const path = marketListingsPath(network);
+    const source = JSON.stringify(listings.map(formatMarketListing));
+    const options = await prettier.resolveConfig(path);
+    fs.writeFileSync(path, await prettier.format(source, {...options, filepath: path}));
+    console.log(`💾 ${listings.length} market listing(s) output to ${path}`);
+}
+
+// Parses the market listings of a network, reporting every problem found instead of stopping at the first one
+export function parseMarketListings(document: unknown, path: string = "<memory>"): MarketListing[] {
+    if (!Array.isArray(document)) {
+        throw new MarketListingError(path, ["market listings are not an array"]);
+    }
+    const problems: string[] = [];
+    const parse = <T>(field: string, parser: () => T): T | undefined => {
+        try {
+            return parser();
+        } catch (e) {
+            problems.push(`${field}: ${(e as Error).message}`);
+            return undefined;
+        }
+    };
+
+    const listings: MarketListing[] = [];
+    const names = new Set<string>();
+    document.forEach((item: unknown, i: number) => {
+        if (!isRecord(item)) {
+            problems.push(`[${i}]: listing is not an object`);
+            return;
+        }
+        const name = item.name;
+        if (typeof name !== "string" || name.length == 0) {
+            problems.push(`[${i}]: name is missing`);
+            return;
+        }
+        const at = `[${i}] ${name}`;
+        if (names.has(name)) {
+            problems.push(`${at}: market is listed more than once`);
+        }
+        names.add(name);
+        for (const key of Object.keys(item)) {
+            if (!listingFields.includes(key)) {
+                problems.push(`${at}: unknown field ${key}`);
+            }
+        }
+        const chainLinkPriceFeed =
+            item.chainLinkPriceFeed == undefined
+                ? undefined
+                : parse(`${at} chainLinkPriceFeed`, () => {
+                      try {
+                          return getAddress(item.chainLinkPriceFeed as string);
+                      } catch {
+                          throw new Error(`${item.chainLinkPriceFeed} is not a valid checksummed address`);
+                      }
+                  });
+        const maxCumulativeDeltaDiff = parse(`${at} maxCumulativeDeltaDiff`, () =>
+            parseDeltaDiff(item.maxCumulativeDeltaDiff),
+        );
+        const seconds = (field: "refHeartbeatDuration" | "minProfitDuration", bits: number) => {
+            const value = item[field];
+            if (value == undefined) {
+                return undefined;
+            }
+            if (typeof value !== "number" || !Number.isInteger(value) || value < 0 || value >= 2 ** bits) {
+                problems.push(`${at}: ${field} ${value} is not a uint${bits} number of seconds`);
+                return undefined;
+            }
+            return value;
+        };
+        const refHeartbeatDuration = seconds("refHeartbeatDuration", 32);
+        const minProfitDuration = seconds("minProfitDuration", 16);
+        const windDown = item.windDown;
+        if (windDown != undefined && (typeof windDown !== "number" || !Number.isInteger(windDown) || windDown < 1)) {
+            problems.push(`${at}: windDown ${windDown} is not a wind-down stage`);
+        }
+        const tier = item.tier;
+        if (typeof tier !== "string" || !Object.keys(riskTiers).includes(tier)) {
+            problems.push(`${at}: tier ${tier} is not one of ${Object.keys(riskTiers).join(", ")}`);
+            return;
+        }
+
+        const overrides: Record<string, Record<string, unknown>> = {};
+        const overrideStructs = item.overrides ?? {};
+        if (!isRecord(overrideStructs)) {
+            problems.push(`${at}: overrides is not an object`);
+            return;
+        }
+        for (const [struct, fields] of Object.entries(overrideStructs)) {
+            const known = overridableFields[struct as keyof MarketConfigOverrides];
+            if (known == undefined) {
+                problems.push(`${at}: unknown config ${struct}`);
+                continue;
+            }
+            if (!isRecord(fields)) {
+                problems.push(`${at} ${struct}: overrides are not an object`);
+                continue;
+            }
+            overrides[struct] = {};
+            for (const [name, value] of Object.entries(fields)) {
+                const field = `${at} ${struct}.${name}`;
+                if (!known.includes(name)) {
+                    problems.push(`${field}: unknown field`);
+                } else if (name === "vertices") {
+                    overrides[struct][name] = parse(field, () => parseVertices(value));
+                } else {
+                    overrides[struct][name] = parse(field, () => parseConfigValue(name as ConfigFieldName, value));
+                }
+            }
+        }
+        listings.push({
+            name: name,
+            chainLinkPriceFeed: chainLinkPriceFeed,
+            refHeartbeatDuration: refHeartbeatDuration,
+            maxCumulativeDeltaDiff: maxCumulativeDeltaDiff!,
+            minProfitDuration: minProfitDuration,
+            windDown: windDown as number | undefined,
+            // the fields of every struct were parsed above, and the problems thrown below if any
+            ...riskTier(tier as RiskTierName, overrides as MarketConfigOverrides),
+        });
+    });
+    if (problems.length > 0) {
+        throw new MarketListingError(path, problems);
+    }
+    return listings;
+}
+
+function parseVertices(value: unknown) {
+    if (!Array.isArray(value) || value.length != VERTEX_NUM) {
+        throw new Error(`${VERTEX_NUM} vertices are required`);
+    }
+    return value.map((vertex: unknown, i) => {
+        if (!isRecord(vertex)) {
+            throw new Error(`vertex ${i} is not an object`);
+        }
+        const unknown = Object.keys(vertex).filter((name) => !(name in vertexConfigBits));
+        if (unknown.length > 0) {
+            throw new Error(`vertex ${i} has unknown fields ${unknown.join(", ")}`);
+        }
+        return {
+            balanceRate: parseConfigValue("balanceRate", vertex.balanceRate),
+            premiumRate: parseConfigValue("premiumRate", vertex.premiumRate),
+        };
+    });
+}
+
+function parseDeltaDiff(value: unknown) {
+    if (typeof value !== "string" || !value.endsWith("%")) {
+        throw new Error(`${value} is not a percentage`);
+    }
+    const scaled = new Decimal(value.slice(0, -1)).mul(DELTA_PRECISION.toString()).div(100);
+    if (!scaled.isInteger() || scaled.isNegative()) {
+        throw new Error(`${value} is not a non-negative multiple of 0.0001%`);
+    }
+    return BigInt(scaled.toFixed(0));
+}
+
+function formatMarketListing(listing: MarketListing) {
+    const format = (struct: object): Record<string, unknown> =>
+        Object.fromEntries(
+            Object.entries(struct).map(([name, value]) => [
+                name,
+                name === "vertices"
+                    ? (value as VertexConfig[]).map(format)
+                    : configUnits[name as ConfigFieldName] === "count"
+                      ? Number(value)
+                      : formatConfigValue(name as ConfigFieldName, value as Numeric),
+            ]),
+        );
+    const overrides = Object.fromEntries(
+        Object.entries(listing.overrides).map(([struct, fields]) => [struct, format(fields)]),
+    );
+    return {
+        name: listing.name,
+        chainLinkPriceFeed: listing.chainLinkPriceFeed,
+        refHeartbeatDuration: listing.refHeartbeatDuration,
+        maxCumulativeDeltaDiff: `${new Decimal(listing.maxCumulativeDeltaDiff.toString())
+            .mul(100)
+            .div(DELTA_PRECISION.toString())
+            .toFixed()}%`,
+        minProfitDuration: listing.minProfitDuration,
+        windDown: listing.windDown,
+        tier: listing.tier,
+        overrides: Object.keys(overrides).length == 0 ? undefined : overrides,
+    };
+}
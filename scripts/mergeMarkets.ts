@@ -1,4 +1,5 @@
 import {networks} from "./networks";
+import {writeMarketListings} from "./marketListings";
 
 export async function mergeMarkets() {
     const sourceNetworkStr = "arbitrum-sepolia";
@@ -37,14 +38,11 @@ export async function mergeMarkets() {
         targetMarketsNew.push(targetMarketNew);
     }
 
-    const util = require("node:util");
-    const output = util.inspect(targetMarketsNew, {depth: null});
-    const fs = require("fs");
-    fs.writeFileSync(`cache/merge.txt`, output);
+    await writeMarketListings(targetNetworkStr, targetMarketsNew);
 }
 
 async function main() {
-    mergeMarkets();
+    await mergeMarkets();
 }
 
 main()
@@ -0,0 +1,220 @@
+import {ethers} from "hardhat";
+import {getAddress, Interface, isAddress} from "ethers";
+import {loadManifest, Manifest, marketAddress} from "./manifest";
+import * as PackedValue from "./packedValue";
+import {requireValidSide, Side} from "./side";
+
+// the maximum count of markets packed in a settleFundingFeeBatch or collectProtocolFeeBatch call
+export const MAX_BATCH_MARKETS = 10;
+
+export interface MarketPrice {
+    marketIndex: number;
+    priceX96: bigint;
+}
+
+export interface OrderExecution {
+    orderIndex: bigint;
+    requireSuccess: boolean;
+}
+
+export interface LiquidityPositionLiquidation {
+    marketIndex: number;
+    account: string;
+    requireSuccess: boolean;
+}
+
+export interface PositionLiquidation extends LiquidityPositionLiquidation {
+    side: Side;
+}
+
+export type DecodedExecutorCall =
+    | {method: "setPriceX96s"; prices: MarketPrice[]; timestamp: bigint}
+    | {method: "settleFundingFeeBatch" | "collectProtocolFeeBatch"; marketIndexes: number[]}
+    | ({method: "executeIncreaseOrder" | "executeDecreaseOrder"} & OrderExecution)
+    | ({method: "liquidateLiquidityPosition"} & LiquidityPositionLiquidation)
+    | ({method: "liquidatePosition"} & PositionLiquidation);
+
+export interface ExecutorCall {
+    to: string;
+    data: string;
+}
+
+// a market name, or the address of its descriptor
+export type MarketRef = string;
+
+// bit 0-23 represent the market index, and bit 24-183 represent the priceX96
+export function encodeMarketPrice(price: MarketPrice) {
+    return PackedValue.packUint160(PackedValue.packUint24(0n, BigInt(price.marketIndex), 0), price.priceX96, 24);
+}
+
+export function decodeMarketPrice(packed: PackedValue.PackedValue): MarketPrice {
+    return {
+        marketIndex: Number(PackedValue.unpackUint24(packed, 0)),
+        priceX96: PackedValue.unpackUint160(packed, 24),
+    };
+}
+
+// bit 0-23 represent the market index 1, bit 24-47 represent the market index 2, and so on, and bit 240-247 represent
+// the packed markets count
+export function encodeMarketIndexes(marketIndexes: number[]) {
+    if (marketIndexes.length > MAX_BATCH_MARKETS) {
+        throw new RangeError(`${marketIndexes.length} markets exceed the batch limit of ${MAX_BATCH_MARKETS}`);
+    }
+    const packed = marketIndexes.reduce(
+        (packed, marketIndex, i) => PackedValue.packUint24(packed, BigInt(marketIndex), i * 24),
+        0n,
+    );
+    return PackedValue.packUint8(packed, BigInt(marketIndexes.length), 240);
+}
+
+export function decodeMarketIndexes(packed: PackedValue.PackedValue) {
+    const count = Number(PackedValue.unpackUint8(packed, 240));
+    if (count > MAX_BATCH_MARKETS) {
+        throw new RangeError(`packed markets count ${count} exceeds the batch limit of ${MAX_BATCH_MARKETS}`);
+    }
+    return Array.from({length: count}, (_, i) => Number(PackedValue.unpackUint24(packed, i * 24)));
+}
+
+// bit 0-247 represent the order index, and bit 248 represent the require success flag
+export function encodeOrderExecution(execution: OrderExecution) {
+    return PackedValue.packBool(PackedValue.packUint248(0n, execution.orderIndex, 0), execution.requireSuccess, 248);
+}
+
+export function decodeOrderExecution(packed: PackedValue.PackedValue): OrderExecution {
+    return {
+        orderIndex: PackedValue.unpackUint248(packed, 0),
+        requireSuccess: PackedValue.unpackBool(packed, 248),
+    };
+}
+
+// bit 0-23 represent the market index, bit 24-183 represent the account, and bit 184 represent the require success
+// flag
+export function encodeLiquidityPositionLiquidation(liquidation: LiquidityPositionLiquidation) {
+    let packed = PackedValue.packUint24(0n, BigInt(liquidation.marketIndex), 0);
+    packed = PackedValue.packAddress(packed, liquidation.account, 24);
+    return PackedValue.packBool(packed, liquidation.requireSuccess, 184);
+}
+
+export function decodeLiquidityPositionLiquidation(packed: PackedValue.PackedValue): LiquidityPositionLiquidation {
+    return {
+        marketIndex: Number(PackedValue.unpackUint24(packed, 0)),
+        account: PackedValue.unpackAddress(packed, 24),
+        requireSuccess: PackedValue.unpackBool(packed, 184),
+    };
+}
+
+// bit 0-23 represent the market index, bit 24-183 represent the account, bit 184-191 represent the side, and bit 192
+// represent the require success flag
+export function encodePositionLiquidation(liquidation: PositionLiquidation) {
+    requireValidSide(liquidation.side);
+    let packed = PackedValue.packUint24(0n, BigInt(liquidation.marketIndex), 0);
+    packed = PackedValue.packAddress(packed, liquidation.account, 24);
+    packed = PackedValue.packUint8(packed, BigInt(liquidation.side), 184);
+    return PackedValue.packBool(packed, liquidation.requireSuccess, 192);
+}
+
+export function decodePositionLiquidation(packed: PackedValue.PackedValue): PositionLiquidation {
+    const side = Number(PackedValue.unpackUint8(packed, 184));
+    requireValidSide(side);
+    return {
+        marketIndex: Number(PackedValue.unpackUint24(packed, 0)),
+        account: PackedValue.unpackAddress(packed, 24),
+        side: side,
+        requireSuccess: PackedValue.unpackBool(packed, 192),
+    };
+}
+
+// Decodes the calldata of a packed entry point of MixedExecutorUpgradeable
+export function decodeExecutorCall(executorInterface: Interface, data: string): DecodedExecutorCall {
+    const tx = executorInterface.parseTransaction({data});
+    if (tx == null) {
+        throw new Error(`calldata ${data.slice(0, 10)} is not a MixedExecutorUpgradeable call`);
+    }
+    switch (tx.name) {
+        case "setPriceX96s":
+            return {
+                method: tx.name,
+                prices: (tx.args[0] as bigint[]).map(decodeMarketPrice),
+                timestamp: tx.args[1],
+            };
+        case "settleFundingFeeBatch":
+        case "collectProtocolFeeBatch":
+            return {method: tx.name, marketIndexes: decodeMarketIndexes(tx.args[0])};
+        case "executeIncreaseOrder":
+        case "executeDecreaseOrder":
+            return {method: tx.name, ...decodeOrderExecution(tx.args[0])};
+        case "liquidateLiquidityPosition":
+            return {method: tx.name, ...decodeLiquidityPositionLiquidation(tx.args[0])};
+        case "liquidatePosition":
+            return {method: tx.name, ...decodePositionLiquidation(tx.args[0])};
+        default:
+            throw new Error(`${tx.name} does not take packed values`);
+    }
+}
+
+// Builds the calls of the packed entry points of the MixedExecutorUpgradeable recorded in the manifest, resolving the
+// markets through MarketIndexer. The batch calls are split into chunks of MAX_BATCH_MARKETS markets.
+export async function mixedExecutorClient(chainId: bigint, document: Manifest = loadManifest(chainId)) {
+    const executor = await ethers.getContractAt(
+        "MixedExecutorUpgradeable",
+        document.deployments.MixedExecutorUpgradeable,
+    );
+    const marketIndexer = await ethers.getContractAt("MarketIndexer", document.deployments.MarketIndexer);
+
+    const indexes = new Map<string, number>();
+    const marketIndex = async (market: MarketRef) => {
+        const address = getAddress(isAddress(market) ? market : marketAddress(document, market));
+        let index = indexes.get(address);
+        if (index == undefined) {
+            index = Number(await marketIndexer.marketIndexes(address));
+            if (index == 0) {
+                throw new Error(`market ${market} at ${address} has no index`);
+            }
+            indexes.set(address, index);
+        }
+        return index;
+    };
+    // the entry points are encoded by name through the untyped interface, their arguments are built by the encoders
+    const executorInterface: Interface = executor.interface;
+    const call = (method: string, args: unknown[]): ExecutorCall => ({
+        to: document.deployments.MixedExecutorUpgradeable,
+        data: executorInterface.encodeFunctionData(method, args),
+    });
+    const batches = async (method: string, markets: MarketRef[]) => {
+        const marketIndexes = [...new Set(await Promise.all(markets.map(marketIndex)))];
+        const calls: ExecutorCall[] = [];
+        for (let i = 0; i < marketIndexes.length; i += MAX_BATCH_MARKETS) {
+            calls.push(call(method, [encodeMarketIndexes(marketIndexes.slice(i, i + MAX_BATCH_MARKETS))]));
+        }
+        return calls;
+    };
+
+    return {
+        executor,
+        marketIndex,
+        setPriceX96s: async (prices: {market: MarketRef; priceX96: bigint}[], timestamp: bigint) =>
+            call("setPriceX96s", [
+                await Promise.all(
+                    prices.map(async (price) =>
+                        encodeMarketPrice({marketIndex: await marketIndex(price.market), priceX96: price.priceX96}),
+                    ),
+                ),
+                timestamp,
+            ]),
+        settleFundingFeeBatch: (markets: MarketRef[]) => batches("settleFundingFeeBatch", markets),
+        collectProtocolFeeBatch: (markets: MarketRef[]) => batches("collectProtocolFeeBatch", markets),
+        executeIncreaseOrder: (orderIndex: bigint, requireSuccess = false) =>
+            call("executeIncreaseOrder", [encodeOrderExecution({orderIndex, requireSuccess})]),
+        executeDecreaseOrder: (orderIndex: bigint, requireSuccess = false) =>
+            call("executeDecreaseOrder", [encodeOrderExecution({orderIndex, requireSuccess})]),
+        liquidateLiquidityPosition: async (market: MarketRef, account: string, requireSuccess = false) =>
+            call("liquidateLiquidityPosition", [
+                encodeLiquidityPositionLiquidation({marketIndex: await marketIndex(market), account, requireSuccess}),
+            ]),
+        liquidatePosition: async (market: MarketRef, account: string, side: Side, requireSuccess = false) =>
+            call("liquidatePosition", [
+                encodePositionLiquidation({marketIndex: await marketIndex(market), account, side, requireSuccess}),
+            ]),
+        decode: (data: string) => decodeExecutorCall(executor.interface, data),
+    };
+}
@@ -1,137 +1,6 @@
 import {ethers} from "hardhat";
 import {parsePercent} from "./util";
-
-const defaultBaseCfg = {
-    minMarginPerLiquidityPosition: 10n * 10n ** 6n,
-    maxLeveragePerLiquidityPosition: 100n,
-    liquidationFeeRatePerLiquidityPosition: parsePercent("0.05%"),
-    minMarginPerPosition: 10n * 10n ** 6n,
-    maxLeveragePerPosition: 200n,
-    liquidationFeeRatePerPosition: parsePercent("0.5%"),
-    maxPositionLiquidity: 10_000_000n * 10n ** 6n,
-    maxPositionValueRate: parsePercent("100%"),
-    maxSizeRatePerPosition: parsePercent("20%"),
-    liquidationExecutionFee: 800_000n, // 0.8 USD
-};
-
-const defaultFeeRateCfg = {
-    protocolFundingFeeRate: parsePercent("0.016%"),
-    fundingCoeff: parsePercent("100%"),
-    protocolFundingCoeff: parsePercent("75%"),
-    interestRate: parsePercent("0.01%"),
-    fundingBuffer: parsePercent("0.05%"),
-    liquidityFundingFeeRate: parsePercent("25%"),
-    maxFundingRate: parsePercent("4%"),
-};
-
-const defaultPriceCfg = {
-    maxPriceImpactLiquidity: (1n << 128n) - 1n,
-    liquidationVertexIndex: 6,
-    dynamicDepthMode: 0,
-    dynamicDepthLevel: parsePercent("100%"),
-    vertices: [
-        {balanceRate: 0, premiumRate: 0},
-        {balanceRate: parsePercent("0.5%"), premiumRate: parsePercent("0.05%")},
-        {balanceRate: parsePercent("2.5%"), premiumRate: parsePercent("0.1%")},
-        {balanceRate: parsePercent("5%"), premiumRate: parsePercent("0.15%")},
-        {balanceRate: parsePercent("6%"), premiumRate: parsePercent("0.2%")},
-        {balanceRate: parsePercent("7%"), premiumRate: parsePercent("0.3%")},
-        {balanceRate: parsePercent("8%"), premiumRate: parsePercent("0.4%")},
-        {balanceRate: parsePercent("9%"), premiumRate: parsePercent("0.5%")},
-        {balanceRate: parsePercent("10%"), premiumRate: parsePercent("0.6%")},
-        {balanceRate: parsePercent("50%"), premiumRate: parsePercent("10%")},
-    ],
-};
-
-const _100xCfg = {
-    baseCfg: {
-        ...defaultBaseCfg,
-        maxLeveragePerLiquidityPosition: 200n,
-        maxLeveragePerPosition: 100n,
-        liquidationFeeRatePerPosition: parsePercent("0.4%"),
-        maxPositionLiquidity: 30_000_000n * 10n ** 6n,
-        maxPositionValueRate: parsePercent("3000%"),
-        maxSizeRatePerPosition: parsePercent("0.667%"),
-    },
-    feeRateCfg: {
-        ...defaultFeeRateCfg,
-        maxFundingRate: parsePercent("1%"),
-    },
-    priceCfg: {
-        ...defaultPriceCfg,
-        liquidationVertexIndex: 6,
-        maxPriceImpactLiquidity: 30_000_000n * 10n ** 6n,
-        dynamicDepthLevel: parsePercent("100%"),
-    },
-};
-
-const _20xCfg = {
-    baseCfg: {
-        ...defaultBaseCfg,
-        maxLeveragePerLiquidityPosition: 200n,
-        maxLeveragePerPosition: 20n,
-        liquidationFeeRatePerPosition: parsePercent("1%"),
-        maxPositionLiquidity: 1_500_000n * 10n ** 6n,
-        maxPositionValueRate: parsePercent("1000%"),
-        maxSizeRatePerPosition: parsePercent("2%"),
-    },
-    feeRateCfg: {
-        ...defaultFeeRateCfg,
-    },
-    priceCfg: {
-        ...defaultPriceCfg,
-        maxPriceImpactLiquidity: 1_500_000n * 10n ** 6n,
-        liquidationVertexIndex: 6,
-        dynamicDepthLevel: parsePercent("100%"),
-        vertices: [
-            {balanceRate: 0, premiumRate: 0},
-            {balanceRate: parsePercent("1%"), premiumRate: parsePercent("0.05%")},
-            {balanceRate: parsePercent("3%"), premiumRate: parsePercent("0.1%")},
-            {balanceRate: parsePercent("5%"), premiumRate: parsePercent("0.15%")},
-            {balanceRate: parsePercent("6%"), premiumRate: parsePercent("0.2%")},
-            {balanceRate: parsePercent("9%"), premiumRate: parsePercent("0.6%")},
-            {balanceRate: parsePercent("12%"), premiumRate: parsePercent("1%")},
-            {balanceRate: parsePercent("20%"), premiumRate: parsePercent("2.5%")},
-            {balanceRate: parsePercent("28%"), premiumRate: parsePercent("4%")},
-            {balanceRate: parsePercent("50%"), premiumRate: parsePercent("10%")},
-        ],
-    },
-};
-
-const _10xCfg = {
-    baseCfg: {
-        ...defaultBaseCfg,
-        maxLeveragePerLiquidityPosition: 200n,
-        maxLeveragePerPosition: 10n,
-        liquidationFeeRatePerPosition: parsePercent("2.5%"),
-        maxPositionLiquidity: 1_000_000n * 10n ** 6n,
-        maxPositionValueRate: parsePercent("400%"),
-        maxSizeRatePerPosition: parsePercent("5%"),
-    },
-    feeRateCfg: {
-        ...defaultFeeRateCfg,
-    },
-    priceCfg: {
-        ...defaultPriceCfg,
-        liquidationVertexIndex: 7,
-        maxPriceImpactLiquidity: 1_000_000n * 10n ** 6n,
-        dynamicDepthLevel: parsePercent("100%"),
-        vertices: [
-            {balanceRate: 0, premiumRate: 0},
-            {balanceRate: parsePercent("1%"), premiumRate: parsePercent("0.05%")},
-            {balanceRate: parsePercent("3%"), premiumRate: parsePercent("0.1%")},
-            {balanceRate: parsePercent("5%"), premiumRate: parsePercent("0.15%")},
-            {balanceRate: parsePercent("6%"), premiumRate: parsePercent("0.2%")},
-            {balanceRate: parsePercent("9%"), premiumRate: parsePercent("0.6%")},
-            {balanceRate: parsePercent("12%"), premiumRate: parsePercent("1%")},
-            {balanceRate: parsePercent("20%"), premiumRate: parsePercent("2.5%")},
-            {balanceRate: parsePercent("28%"), premiumRate: parsePercent("4%")},
-            {balanceRate: parsePercent("50%"), premiumRate: parsePercent("10%")},
-        ],
-    },
-};
-
-const defaultMaxCumulativeDeltaDiff = 100n * 1000n; // 10%
+import {loadMarketListings} from "./marketListings";
 
 export const networks = {
     "arbitrum-sepolia": {
@@ -147,809 +16,9 @@ export const networks = {
         feeDistributor: "0x01D588a5F7f67f02F68f750e2C4d10A791C6F035",
         farmRewardDistributorV2: "0x616806f08789628C8aA61Ab4f7c0f0c903ECFF7a",
         campaignRate: parsePercent("33.33%"),
-        markets: [
-            {
-                name: "ETH",
-                chainLinkPriceFeed: "0xd30e2101a97dcbAeBCBC04F14C3f624E67A35165",
-                maxCumulativeDeltaDiff: defaultMaxCumulativeDeltaDiff,
-                marketCfg: {
-                    baseCfg: _100xCfg.baseCfg,
-                    feeRateCfg: _100xCfg.feeRateCfg,
-                    priceCfg: _100xCfg.priceCfg,
-                },
-            },
-            {
-                name: "BTC",
-                chainLinkPriceFeed: undefined,
-                maxCumulativeDeltaDiff: defaultMaxCumulativeDeltaDiff,
-                marketCfg: {
-                    baseCfg: {
-                        ..._100xCfg.baseCfg,
-                        maxLeveragePerPosition: 150,
-                        liquidationFeeRatePerPosition: parsePercent("0.25%"),
-                        maxPositionLiquidity: 35_000_000n * 10n ** 6n,
-                    },
-                    feeRateCfg: {
-                        ..._100xCfg.feeRateCfg,
-                        maxFundingRate: parsePercent("0.6%"),
-                    },
-                    priceCfg: {
-                        ..._100xCfg.priceCfg,
-                        liquidationVertexIndex: 4,
-                        maxPriceImpactLiquidity: 35_000_000n * 10n ** 6n,
-                        dynamicDepthLevel: parsePercent("100%"),
-                    },
-                },
-            },
-            {
-                name: "SOL",
-                chainLinkPriceFeed: undefined,
-                maxCumulativeDeltaDiff: defaultMaxCumulativeDeltaDiff,
-                marketCfg: {
-                    baseCfg: {
-                        ..._20xCfg.baseCfg,
-                        maxPositionLiquidity: 3_500_000n * 10n ** 6n,
-                    },
-                    feeRateCfg: _20xCfg.feeRateCfg,
-                    priceCfg: {
-                        ..._20xCfg.priceCfg,
-                        maxPriceImpactLiquidity: 3_500_000n * 10n ** 6n,
-                    },
-                },
-            },
-            {
-                name: "ARB",
-                chainLinkPriceFeed: "0xD1092a65338d049DB68D7Be6bD89d17a0929945e",
-                maxCumulativeDeltaDiff: defaultMaxCumulativeDeltaDiff,
-                marketCfg: {
-                    baseCfg: {
-                        ..._20xCfg.baseCfg,
-                        maxPositionLiquidity: 1_500_000n * 10n ** 6n,
-                    },
-                    feeRateCfg: _20xCfg.feeRateCfg,
-                    priceCfg: {
-                        ..._20xCfg.priceCfg,
-                        maxPriceImpactLiquidity: 1_500_000n * 10n ** 6n,
-                    },
-                },
-            },
-            {
-                name: "OP",
-                chainLinkPriceFeed: undefined,
-                maxCumulativeDeltaDiff: defaultMaxCumulativeDeltaDiff,
-                marketCfg: {
-                    baseCfg: {
-                        ..._20xCfg.baseCfg,
-                        maxPositionLiquidity: 1_500_000n * 10n ** 6n,
-                    },
-                    feeRateCfg: _20xCfg.feeRateCfg,
-                    priceCfg: {
-                        ..._20xCfg.priceCfg,
-                        maxPriceImpactLiquidity: 1_500_000n * 10n ** 6n,
-                    },
-                },
-            },
-            {
-                name: "MATIC",
-                chainLinkPriceFeed: undefined,
-                maxCumulativeDeltaDiff: defaultMaxCumulativeDeltaDiff,
-                marketCfg: {
-                    baseCfg: {
-                        ..._20xCfg.baseCfg,
-                        maxPositionLiquidity: 1_500_000n * 10n ** 6n,
-                    },
-                    feeRateCfg: _20xCfg.feeRateCfg,
-                    priceCfg: {
-                        ..._20xCfg.priceCfg,
-                        maxPriceImpactLiquidity: 1_500_000n * 10n ** 6n,
-                    },
-                },
-            },
-            {
-                name: "AVAX",
-                chainLinkPriceFeed: undefined,
-                maxCumulativeDeltaDiff: defaultMaxCumulativeDeltaDiff,
-                marketCfg: {
-                    baseCfg: {
-                        ..._20xCfg.baseCfg,
-                        maxPositionLiquidity: 1_500_000n * 10n ** 6n,
-                    },
-                    feeRateCfg: _20xCfg.feeRateCfg,
-                    priceCfg: {
-                        ..._20xCfg.priceCfg,
-                        maxPriceImpactLiquidity: 1_500_000n * 10n ** 6n,
-                    },
-                },
-            },
-            {
-                name: "LINK",
-                chainLinkPriceFeed: "0x0FB99723Aee6f420beAD13e6bBB79b7E6F034298",
-                maxCumulativeDeltaDiff: defaultMaxCumulativeDeltaDiff,
-                marketCfg: {
-                    baseCfg: {
-                        ..._20xCfg.baseCfg,
-                        maxPositionLiquidity: 1_500_000n * 10n ** 6n,
-                    },
-                    feeRateCfg: _20xCfg.feeRateCfg,
-                    priceCfg: {
-                        ..._20xCfg.priceCfg,
-                        maxPriceImpactLiquidity: 1_500_000n * 10n ** 6n,
-                    },
-                },
-            },
-            {
-                name: "ORDI",
-                chainLinkPriceFeed: undefined,
-                maxCumulativeDeltaDiff: defaultMaxCumulativeDeltaDiff,
-                marketCfg: {
-                    baseCfg: {
-                        ..._10xCfg.baseCfg,
-                        maxPositionLiquidity: 1_000_000n * 10n ** 6n,
-                    },
-                    feeRateCfg: _10xCfg.feeRateCfg,
-                    priceCfg: {
-                        ..._10xCfg.priceCfg,
-                        maxPriceImpactLiquidity: 1_000_000n * 10n ** 6n,
-                    },
-                },
-            },
-            {
-                name: "DOGE",
-                chainLinkPriceFeed: undefined,
-                maxCumulativeDeltaDiff: defaultMaxCumulativeDeltaDiff,
-                marketCfg: {
-                    baseCfg: {
-                        ..._20xCfg.baseCfg,
-                        maxPositionLiquidity: 1_500_000n * 10n ** 6n,
-                    },
-                    feeRateCfg: _20xCfg.feeRateCfg,
-                    priceCfg: {
-                        ..._20xCfg.priceCfg,
-                        maxPriceImpactLiquidity: 1_500_000n * 10n ** 6n,
-                    },
-                },
-            },
-            {
-                name: "XRP",
-                chainLinkPriceFeed: undefined,
-                maxCumulativeDeltaDiff: defaultMaxCumulativeDeltaDiff,
-                marketCfg: {
-                    baseCfg: {
-                        ..._20xCfg.baseCfg,
-                        maxPositionLiquidity: 1_500_000n * 10n ** 6n,
-                    },
-                    feeRateCfg: _20xCfg.feeRateCfg,
-                    priceCfg: {
-                        ..._20xCfg.priceCfg,
-                        maxPriceImpactLiquidity: 1_500_000n * 10n ** 6n,
-                    },
-                },
-            },
-            {
-                name: "ADA",
-                chainLinkPriceFeed: undefined,
-                maxCumulativeDeltaDiff: defaultMaxCumulativeDeltaDiff,
-                marketCfg: {
-                    baseCfg: {
-                        ..._20xCfg.baseCfg,
-                        maxPositionLiquidity: 1_500_000n * 10n ** 6n,
-                    },
-                    feeRateCfg: _20xCfg.feeRateCfg,
-                    priceCfg: {
-                        ..._20xCfg.priceCfg,
-                        maxPriceImpactLiquidity: 1_500_000n * 10n ** 6n,
-                    },
-                },
-            },
-            {
-                name: "BNB",
-                chainLinkPriceFeed: undefined,
-                maxCumulativeDeltaDiff: defaultMaxCumulativeDeltaDiff,
-                marketCfg: {
-                    baseCfg: {
-                        ..._20xCfg.baseCfg,
-                        maxPositionLiquidity: 1_500_000n * 10n ** 6n,
-                    },
-                    feeRateCfg: _20xCfg.feeRateCfg,
-                    priceCfg: {
-                        ..._20xCfg.priceCfg,
-                        maxPriceImpactLiquidity: 1_500_000n * 10n ** 6n,
-                    },
-                },
-            },
-            {
-                name: "LTC",
-                chainLinkPriceFeed: undefined,
-                maxCumulativeDeltaDiff: defaultMaxCumulativeDeltaDiff,
-                marketCfg: {
-                    baseCfg: {
-                        ..._20xCfg.baseCfg,
-                        maxPositionLiquidity: 1_500_000n * 10n ** 6n,
-                    },
-                    feeRateCfg: _20xCfg.feeRateCfg,
-                    priceCfg: {
-                        ..._20xCfg.priceCfg,
-                        maxPriceImpactLiquidity: 1_500_000n * 10n ** 6n,
-                    },
-                },
-            },
-            {
-                name: "ETC",
-                chainLinkPriceFeed: undefined,
-                maxCumulativeDeltaDiff: defaultMaxCumulativeDeltaDiff,
-                marketCfg: {
-                    baseCfg: {
-                        ..._20xCfg.baseCfg,
-                        maxPositionLiquidity: 1_500_000n * 10n ** 6n,
-                    },
-                    feeRateCfg: _20xCfg.feeRateCfg,
-                    priceCfg: {
-                        ..._20xCfg.priceCfg,
-                        maxPriceImpactLiquidity: 1_500_000n * 10n ** 6n,
-                    },
-                },
-            },
-            {
-                name: "WIF",
-                chainLinkPriceFeed: undefined,
-                maxCumulativeDeltaDiff: defaultMaxCumulativeDeltaDiff,
-                marketCfg: _10xCfg,
-            },
-            {
-                name: "TON",
-                chainLinkPriceFeed: undefined,
-                maxCumulativeDeltaDiff: defaultMaxCumulativeDeltaDiff,
-                marketCfg: _10xCfg,
-            },
-            {
-                name: "AR",
-                chainLinkPriceFeed: undefined,
-                maxCumulativeDeltaDiff: defaultMaxCumulativeDeltaDiff,
-                marketCfg: {
-                    baseCfg: {
-                        ..._10xCfg.baseCfg,
-                        maxPositionLiquidity: 900_000n * 10n ** 6n,
-                    },
-                    feeRateCfg: _10xCfg.feeRateCfg,
-                    priceCfg: {
-                        ..._10xCfg.priceCfg,
-                        maxPriceImpactLiquidity: 900_000n * 10n ** 6n,
-                    },
-                },
-            },
-            {
-                name: "ENA",
-                chainLinkPriceFeed: undefined,
-                maxCumulativeDeltaDiff: defaultMaxCumulativeDeltaDiff,
-                marketCfg: _10xCfg,
-            },
-            {
-                name: "W",
-                chainLinkPriceFeed: undefined,
-                maxCumulativeDeltaDiff: defaultMaxCumulativeDeltaDiff,
-                marketCfg: _10xCfg,
-            },
-            {
-                name: "JUP",
-                chainLinkPriceFeed: undefined,
-                maxCumulativeDeltaDiff: defaultMaxCumulativeDeltaDiff,
-                marketCfg: {
-                    baseCfg: {
-                        ..._10xCfg.baseCfg,
-                        maxPositionLiquidity: 900_000n * 10n ** 6n,
-                    },
-                    feeRateCfg: _10xCfg.feeRateCfg,
-                    priceCfg: {
-                        ..._10xCfg.priceCfg,
-                        maxPriceImpactLiquidity: 900_000n * 10n ** 6n,
-                    },
-                },
-            },
-            {
-                name: "FIL",
-                chainLinkPriceFeed: undefined,
-                maxCumulativeDeltaDiff: defaultMaxCumulativeDeltaDiff,
-                marketCfg: _10xCfg,
-            },
-            {
-                name: "SUI",
-                chainLinkPriceFeed: undefined,
-                maxCumulativeDeltaDiff: defaultMaxCumulativeDeltaDiff,
-                marketCfg: _10xCfg,
-            },
-            {
-                name: "TIA",
-                chainLinkPriceFeed: undefined,
-                maxCumulativeDeltaDiff: defaultMaxCumulativeDeltaDiff,
-                marketCfg: _10xCfg,
-            },
-            {
-                name: "DOT",
-                chainLinkPriceFeed: undefined,
-                maxCumulativeDeltaDiff: defaultMaxCumulativeDeltaDiff,
-                marketCfg: {
-                    baseCfg: {
-                        ..._10xCfg.baseCfg,
-                        maxPositionLiquidity: 900_000n * 10n ** 6n,
-                    },
-                    feeRateCfg: _10xCfg.feeRateCfg,
-                    priceCfg: {
-                        ..._10xCfg.priceCfg,
-                        maxPriceImpactLiquidity: 900_000n * 10n ** 6n,
-                    },
-                },
-            },
-            {
-                name: "BLUR",
-                chainLinkPriceFeed: undefined,
-                maxCumulativeDeltaDiff: defaultMaxCumulativeDeltaDiff,
-                marketCfg: {
-                    baseCfg: {
-                        ..._10xCfg.baseCfg,
-                        maxPositionLiquidity: 700_000n * 10n ** 6n,
-                    },
-                    feeRateCfg: _10xCfg.feeRateCfg,
-                    priceCfg: {
-                        ..._10xCfg.priceCfg,
-                        maxPriceImpactLiquidity: 700_000n * 10n ** 6n,
-                    },
-                },
-            },
-            {
-                name: "INJ",
-                chainLinkPriceFeed: undefined,
-                maxCumulativeDeltaDiff: defaultMaxCumulativeDeltaDiff,
-                marketCfg: {
-                    baseCfg: {
-                        ..._10xCfg.baseCfg,
-                        maxPositionLiquidity: 900_000n * 10n ** 6n,
-                    },
-                    feeRateCfg: _10xCfg.feeRateCfg,
-                    priceCfg: {
-                        ..._10xCfg.priceCfg,
-                        maxPriceImpactLiquidity: 900_000n * 10n ** 6n,
-                    },
-                },
-            },
-            {
-                name: "SEI",
-                chainLinkPriceFeed: undefined,
-                maxCumulativeDeltaDiff: defaultMaxCumulativeDeltaDiff,
-                marketCfg: {
-                    baseCfg: {
-                        ..._10xCfg.baseCfg,
-                        maxPositionLiquidity: 900_000n * 10n ** 6n,
-                    },
-                    feeRateCfg: _10xCfg.feeRateCfg,
-                    priceCfg: {
-                        ..._10xCfg.priceCfg,
-                        maxPriceImpactLiquidity: 900_000n * 10n ** 6n,
-                    },
-                },
-            },
-            {
-                name: "TRB",
-                chainLinkPriceFeed: undefined,
-                maxCumulativeDeltaDiff: defaultMaxCumulativeDeltaDiff,
-                marketCfg: {
-                    baseCfg: {
-                        ..._10xCfg.baseCfg,
-                        maxPositionLiquidity: 900_000n * 10n ** 6n,
-                    },
-                    feeRateCfg: _10xCfg.feeRateCfg,
-                    priceCfg: {
-                        ..._10xCfg.priceCfg,
-                        maxPriceImpactLiquidity: 900_000n * 10n ** 6n,
-                    },
-                },
-            },
-            {
-                name: "ATOM",
-                chainLinkPriceFeed: undefined,
-                maxCumulativeDeltaDiff: defaultMaxCumulativeDeltaDiff,
-                marketCfg: {
-                    baseCfg: {
-                        ..._10xCfg.baseCfg,
-                        maxPositionLiquidity: 900_000n * 10n ** 6n,
-                    },
-                    feeRateCfg: _10xCfg.feeRateCfg,
-                    priceCfg: {
-                        ..._10xCfg.priceCfg,
-                        maxPriceImpactLiquidity: 900_000n * 10n ** 6n,
-                    },
-                },
-            },
-            {
-                name: "APT",
-                chainLinkPriceFeed: undefined,
-                maxCumulativeDeltaDiff: defaultMaxCumulativeDeltaDiff,
-                marketCfg: {
-                    baseCfg: {
-                        ..._10xCfg.baseCfg,
-                        maxPositionLiquidity: 900_000n * 10n ** 6n,
-                    },
-                    feeRateCfg: _10xCfg.feeRateCfg,
-                    priceCfg: {
-                        ..._10xCfg.priceCfg,
-                        maxPriceImpactLiquidity: 900_000n * 10n ** 6n,
-                    },
-                },
-            },
-            {
-                name: "NEAR",
-                chainLinkPriceFeed: undefined,
-                maxCumulativeDeltaDiff: defaultMaxCumulativeDeltaDiff,
-                marketCfg: {
-                    baseCfg: {
-                        ..._10xCfg.baseCfg,
-                        maxPositionLiquidity: 900_000n * 10n ** 6n,
-                    },
-                    feeRateCfg: _10xCfg.feeRateCfg,
-                    priceCfg: {
-                        ..._10xCfg.priceCfg,
-                        maxPriceImpactLiquidity: 900_000n * 10n ** 6n,
-                    },
-                },
-            },
-            {
-                name: "LDO",
-                chainLinkPriceFeed: undefined,
-                maxCumulativeDeltaDiff: defaultMaxCumulativeDeltaDiff,
-                marketCfg: {
-                    baseCfg: {
-                        ..._10xCfg.baseCfg,
-                        maxPositionLiquidity: 800_000n * 10n ** 6n,
-                    },
-                    feeRateCfg: _10xCfg.feeRateCfg,
-                    priceCfg: {
-                        ..._10xCfg.priceCfg,
-                        maxPriceImpactLiquidity: 800_000n * 10n ** 6n,
-                    },
-                },
-            },
-            {
-                name: "DYDX",
-                chainLinkPriceFeed: undefined,
-                maxCumulativeDeltaDiff: defaultMaxCumulativeDeltaDiff,
-                marketCfg: {
-                    baseCfg: {
-                        ..._10xCfg.baseCfg,
-                        maxPositionLiquidity: 900_000n * 10n ** 6n,
-                    },
-                    feeRateCfg: _10xCfg.feeRateCfg,
-                    priceCfg: {
-                        ..._10xCfg.priceCfg,
-                        maxPriceImpactLiquidity: 900_000n * 10n ** 6n,
-                    },
-                },
-            },
-            {
-                name: "MKR",
-                chainLinkPriceFeed: undefined,
-                maxCumulativeDeltaDiff: defaultMaxCumulativeDeltaDiff,
-                marketCfg: {
-                    baseCfg: {
-                        ..._10xCfg.baseCfg,
-                        maxPositionLiquidity: 900_000n * 10n ** 6n,
-                    },
-                    feeRateCfg: _10xCfg.feeRateCfg,
-                    priceCfg: {
-                        ..._10xCfg.priceCfg,
-                        maxPriceImpactLiquidity: 900_000n * 10n ** 6n,
-                    },
-                },
-            },
-            {
-                name: "STX",
-                chainLinkPriceFeed: undefined,
-                maxCumulativeDeltaDiff: defaultMaxCumulativeDeltaDiff,
-                marketCfg: {
-                    baseCfg: {
-                        ..._10xCfg.baseCfg,
-                        maxPositionLiquidity: 900_000n * 10n ** 6n,
-                    },
-                    feeRateCfg: _10xCfg.feeRateCfg,
-                    priceCfg: {
-                        ..._10xCfg.priceCfg,
-                        maxPriceImpactLiquidity: 900_000n * 10n ** 6n,
-                    },
-                },
-            },
-            {
-                name: "FTM",
-                chainLinkPriceFeed: undefined,
-                maxCumulativeDeltaDiff: defaultMaxCumulativeDeltaDiff,
-                marketCfg: {
-                    baseCfg: {
-                        ..._10xCfg.baseCfg,
-                        maxPositionLiquidity: 900_000n * 10n ** 6n,
-                    },
-                    feeRateCfg: _10xCfg.feeRateCfg,
-                    priceCfg: {
-                        ..._10xCfg.priceCfg,
-                        maxPriceImpactLiquidity: 900_000n * 10n ** 6n,
-                    },
-                },
-            },
-            {
-                name: "RUNE",
-                chainLinkPriceFeed: undefined,
-                maxCumulativeDeltaDiff: defaultMaxCumulativeDeltaDiff,
-                marketCfg: {
-                    baseCfg: {
-                        ..._10xCfg.baseCfg,
-                        maxPositionLiquidity: 900_000n * 10n ** 6n,
-                    },
-                    feeRateCfg: _10xCfg.feeRateCfg,
-                    priceCfg: {
-                        ..._10xCfg.priceCfg,
-                        maxPriceImpactLiquidity: 900_000n * 10n ** 6n,
-                    },
-                },
-            },
-            {
-                name: "UNI",
-                chainLinkPriceFeed: undefined,
-                maxCumulativeDeltaDiff: defaultMaxCumulativeDeltaDiff,
-                marketCfg: {
-                    baseCfg: {
-                        ..._10xCfg.baseCfg,
-                        maxPositionLiquidity: 900_000n * 10n ** 6n,
-                    },
-                    feeRateCfg: _10xCfg.feeRateCfg,
-                    priceCfg: {
-                        ..._10xCfg.priceCfg,
-                        maxPriceImpactLiquidity: 900_000n * 10n ** 6n,
-                    },
-                },
-            },
-            {
-                name: "CRV",
-                chainLinkPriceFeed: undefined,
-                maxCumulativeDeltaDiff: defaultMaxCumulativeDeltaDiff,
-                marketCfg: {
-                    baseCfg: {
-                        ..._10xCfg.baseCfg,
-                        maxPositionLiquidity: 800_000n * 10n ** 6n,
-                    },
-                    feeRateCfg: _10xCfg.feeRateCfg,
-                    priceCfg: {
-                        ..._10xCfg.priceCfg,
-                        maxPriceImpactLiquidity: 800_000n * 10n ** 6n,
-                    },
-                },
-            },
-            {
-                name: "1000BONK",
-                chainLinkPriceFeed: undefined,
-                maxCumulativeDeltaDiff: defaultMaxCumulativeDeltaDiff,
-                marketCfg: _10xCfg,
-            },
-            {
-                name: "ENS",
-                chainLinkPriceFeed: undefined,
-                maxCumulativeDeltaDiff: defaultMaxCumulativeDeltaDiff,
-                marketCfg: {
-                    baseCfg: {
-                        ..._10xCfg.baseCfg,
-                        maxPositionLiquidity: 700_000n * 10n ** 6n,
-                    },
-                    feeRateCfg: _10xCfg.feeRateCfg,
-                    priceCfg: {
-                        ..._10xCfg.priceCfg,
-                        maxPriceImpactLiquidity: 700_000n * 10n ** 6n,
-                    },
-                },
-            },
-            {
-                name: "AAVE",
-                chainLinkPriceFeed: undefined,
-                maxCumulativeDeltaDiff: defaultMaxCumulativeDeltaDiff,
-                marketCfg: {
-                    baseCfg: {
-                        ..._10xCfg.baseCfg,
-                        maxPositionLiquidity: 800_000n * 10n ** 6n,
-                    },
-                    feeRateCfg: _10xCfg.feeRateCfg,
-                    priceCfg: {
-                        ..._10xCfg.priceCfg,
-                        maxPriceImpactLiquidity: 800_000n * 10n ** 6n,
-                    },
-                },
-            },
-            {
-                name: "1000PEPE",
-                chainLinkPriceFeed: undefined,
-                maxCumulativeDeltaDiff: defaultMaxCumulativeDeltaDiff,
-                marketCfg: {
-                    baseCfg: {
-                        ..._20xCfg.baseCfg,
-                        maxPositionLiquidity: 1_500_000n * 10n ** 6n,
-                    },
-                    feeRateCfg: _20xCfg.feeRateCfg,
-                    priceCfg: {
-                        ..._20xCfg.priceCfg,
-                        maxPriceImpactLiquidity: 1_500_000n * 10n ** 6n,
-                    },
-                },
-            },
-            {
-                name: "WLD",
-                chainLinkPriceFeed: undefined,
-                maxCumulativeDeltaDiff: defaultMaxCumulativeDeltaDiff,
-                marketCfg: {
-                    baseCfg: {
-                        ..._20xCfg.baseCfg,
-                        maxPositionLiquidity: 1_500_000n * 10n ** 6n,
-                    },
-                    feeRateCfg: _20xCfg.feeRateCfg,
-                    priceCfg: {
-                        ..._20xCfg.priceCfg,
-                        maxPriceImpactLiquidity: 1_500_000n * 10n ** 6n,
-                    },
-                },
-            },
-            {
-                name: "MINA",
-                chainLinkPriceFeed: undefined,
-                maxCumulativeDeltaDiff: defaultMaxCumulativeDeltaDiff,
-                marketCfg: {
-                    baseCfg: {
-                        ..._10xCfg.baseCfg,
-                        maxPositionLiquidity: 700_000n * 10n ** 6n,
-                    },
-                    feeRateCfg: _10xCfg.feeRateCfg,
-                    priceCfg: {
-                        ..._10xCfg.priceCfg,
-                        maxPriceImpactLiquidity: 700_000n * 10n ** 6n,
-                    },
-                },
-            },
-            {
-                name: "JTO",
-                chainLinkPriceFeed: undefined,
-                maxCumulativeDeltaDiff: defaultMaxCumulativeDeltaDiff,
-                marketCfg: {
-                    baseCfg: {
-                        ..._10xCfg.baseCfg,
-                        maxPositionLiquidity: 800_000n * 10n ** 6n,
-                    },
-                    feeRateCfg: _10xCfg.feeRateCfg,
-                    priceCfg: {
-                        ..._10xCfg.priceCfg,
-                        maxPriceImpactLiquidity: 800_000n * 10n ** 6n,
-                    },
-                },
-            },
-            {
-                name: "RDNT",
-                chainLinkPriceFeed: undefined,
-                maxCumulativeDeltaDiff: defaultMaxCumulativeDeltaDiff,
-                marketCfg: {
-                    baseCfg: {
-                        ..._10xCfg.baseCfg,
-                        maxPositionLiquidity: 700_000n * 10n ** 6n,
-                    },
-                    feeRateCfg: _10xCfg.feeRateCfg,
-                    priceCfg: {
-                        ..._10xCfg.priceCfg,
-                        maxPriceImpactLiquidity: 700_000n * 10n ** 6n,
-                    },
-                },
-            },
-            {
-                name: "SUSHI",
-                chainLinkPriceFeed: undefined,
-                maxCumulativeDeltaDiff: defaultMaxCumulativeDeltaDiff,
-                marketCfg: {
-                    baseCfg: {
-                        ..._10xCfg.baseCfg,
-                        maxPositionLiquidity: 700_000n * 10n ** 6n,
-                    },
-                    feeRateCfg: _10xCfg.feeRateCfg,
-                    priceCfg: {
-                        ..._10xCfg.priceCfg,
-                        maxPriceImpactLiquidity: 700_000n * 10n ** 6n,
-                    },
-                },
-            },
-            {
-                name: "1INCH",
-                chainLinkPriceFeed: undefined,
-                maxCumulativeDeltaDiff: defaultMaxCumulativeDeltaDiff,
-                marketCfg: {
-                    baseCfg: {
-                        ..._10xCfg.baseCfg,
-                        maxPositionLiquidity: 700_000n * 10n ** 6n,
-                    },
-                    feeRateCfg: _10xCfg.feeRateCfg,
-                    priceCfg: {
-                        ..._10xCfg.priceCfg,
-                        maxPriceImpactLiquidity: 700_000n * 10n ** 6n,
-                    },
-                },
-            },
-            {
-                name: "SNX",
-                chainLinkPriceFeed: undefined,
-                maxCumulativeDeltaDiff: defaultMaxCumulativeDeltaDiff,
-                marketCfg: {
-                    baseCfg: {
-                        ..._10xCfg.baseCfg,
-                        maxPositionLiquidity: 700_000n * 10n ** 6n,
-                    },
-                    feeRateCfg: _10xCfg.feeRateCfg,
-                    priceCfg: {
-                        ..._10xCfg.priceCfg,
-                        maxPriceImpactLiquidity: 700_000n * 10n ** 6n,
-                    },
-                },
-            },
-            {
-                name: "PENDLE",
-                chainLinkPriceFeed: undefined,
-                maxCumulativeDeltaDiff: defaultMaxCumulativeDeltaDiff,
-                marketCfg: {
-                    baseCfg: {
-                        ..._10xCfg.baseCfg,
-                        maxPositionLiquidity: 800_000n * 10n ** 6n,
-                    },
-                    feeRateCfg: _10xCfg.feeRateCfg,
-                    priceCfg: {
-                        ..._10xCfg.priceCfg,
-                        maxPriceImpactLiquidity: 800_000n * 10n ** 6n,
-                    },
-                },
-            },
-            {
-                name: "NTRN",
-                chainLinkPriceFeed: undefined,
-                maxCumulativeDeltaDiff: defaultMaxCumulativeDeltaDiff,
-                marketCfg: {
-                    baseCfg: {
-                        ..._10xCfg.baseCfg,
-                        maxPositionLiquidity: 700_000n * 10n ** 6n,
-                    },
-                    feeRateCfg: _10xCfg.feeRateCfg,
-                    priceCfg: {
-                        ..._10xCfg.priceCfg,
-                        maxPriceImpactLiquidity: 700_000n * 10n ** 6n,
-                    },
-                },
-            },
-            {
-                name: "PYTH",
-                chainLinkPriceFeed: undefined,
-                maxCumulativeDeltaDiff: defaultMaxCumulativeDeltaDiff,
-                marketCfg: {
-                    baseCfg: {
-                        ..._10xCfg.baseCfg,
-                        maxPositionLiquidity: 800_000n * 10n ** 6n,
-                    },
-                    feeRateCfg: _10xCfg.feeRateCfg,
-                    priceCfg: {
-                        ..._10xCfg.priceCfg,
-                        maxPriceImpactLiquidity: 800_000n * 10n ** 6n,
-                    },
-                },
-            },
-            {
-                name: "GMX",
-                chainLinkPriceFeed: undefined,
-                maxCumulativeDeltaDiff: defaultMaxCumulativeDeltaDiff,
-                marketCfg: {
-                    baseCfg: {
-                        ..._10xCfg.baseCfg,
-                        maxPositionLiquidity: 700_000n * 10n ** 6n,
-                    },
-                    feeRateCfg: _10xCfg.feeRateCfg,
-                    priceCfg: {
-                        ..._10xCfg.priceCfg,
-                        maxPriceImpactLiquidity: 700_000n * 10n ** 6n,
-                    },
-                },
-            },
-        ],
+        markets: loadMarketListings("arbitrum-sepolia"),
+        chainLinkReferenceData:
+            "https://reference-data-directory.vercel.app/feeds-ethereum-testnet-sepolia-arbitrum-1.json",
         mixedExecutors: ["0x8D2b663E72A8e29C771e9d0985d313bdd817BB28", "0xe78E0EC237996CF4965623ed6d474acE5Fd36301"],
     },
     "arbitrum-mainnet": {
@@ -965,2538 +34,10 @@ export const networks = {
         feeDistributor: "0x3C77EEB8eC4716a6389a522eD590FbbD261ABE8e",
         farmRewardDistributorV2: "0x93d4f6ADA5686eaf51bA78ECDAc34A9292B8D7d2",
         campaignRate: parsePercent("33.33%"),
-        markets: [
-            {
-                name: "ETH",
-                chainLinkPriceFeed: "0x639Fe6ab55C921f74e7fac1ee960C0B6293ba612",
-                maxCumulativeDeltaDiff: 100000n,
-                marketCfg: {
-                    baseCfg: {
-                        minMarginPerLiquidityPosition: 10000000n,
-                        maxLeveragePerLiquidityPosition: 200n,
-                        liquidationFeeRatePerLiquidityPosition: 50000n,
-                        minMarginPerPosition: 10000000n,
-                        maxLeveragePerPosition: 100n,
-                        liquidationFeeRatePerPosition: 400000n,
-                        maxPositionLiquidity: 30000000000000n,
-                        maxPositionValueRate: 3000000000n,
-                        maxSizeRatePerPosition: 667000n,
-                        liquidationExecutionFee: 800000n,
-                    },
-                    feeRateCfg: {
-                        protocolFundingFeeRate: 16000n,
-                        fundingCoeff: 100000000n,
-                        protocolFundingCoeff: 75000000n,
-                        interestRate: 10000n,
-                        fundingBuffer: 50000n,
-                        liquidityFundingFeeRate: 25000000n,
-                        maxFundingRate: 1000000n,
-                    },
-                    priceCfg: {
-                        maxPriceImpactLiquidity: 30000000000000n,
-                        liquidationVertexIndex: 6,
-                        dynamicDepthMode: 0,
-                        dynamicDepthLevel: 100000000n,
-                        vertices: [
-                            {balanceRate: 0, premiumRate: 0},
-                            {balanceRate: 500000n, premiumRate: 50000n},
-                            {balanceRate: 2500000n, premiumRate: 100000n},
-                            {balanceRate: 5000000n, premiumRate: 150000n},
-                            {balanceRate: 6000000n, premiumRate: 200000n},
-                            {balanceRate: 7000000n, premiumRate: 300000n},
-                            {balanceRate: 8000000n, premiumRate: 400000n},
-                            {balanceRate: 9000000n, premiumRate: 500000n},
-                            {balanceRate: 10000000n, premiumRate: 600000n},
-                            {balanceRate: 50000000n, premiumRate: 10000000n},
-                        ],
-                    },
-                },
-            },
-            {
-                name: "BTC",
-                chainLinkPriceFeed: "0x6ce185860a4963106506C203335A2910413708e9",
-                maxCumulativeDeltaDiff: 100000n,
-                marketCfg: {
-                    baseCfg: {
-                        minMarginPerLiquidityPosition: 10000000n,
-                        maxLeveragePerLiquidityPosition: 200n,
-                        liquidationFeeRatePerLiquidityPosition: 50000n,
-                        minMarginPerPosition: 10000000n,
-                        maxLeveragePerPosition: 150,
-                        liquidationFeeRatePerPosition: 250000n,
-                        maxPositionLiquidity: 35000000000000n,
-                        maxPositionValueRate: 3000000000n,
-                        maxSizeRatePerPosition: 667000n,
-                        liquidationExecutionFee: 800000n,
-                    },
-                    feeRateCfg: {
-                        protocolFundingFeeRate: 16000n,
-                        fundingCoeff: 100000000n,
-                        protocolFundingCoeff: 75000000n,
-                        interestRate: 10000n,
-                        fundingBuffer: 50000n,
-                        liquidityFundingFeeRate: 25000000n,
-                        maxFundingRate: 600000n,
-                    },
-                    priceCfg: {
-                        maxPriceImpactLiquidity: 35000000000000n,
-                        liquidationVertexIndex: 4,
-                        dynamicDepthMode: 0,
-                        dynamicDepthLevel: 100000000n,
-                        vertices: [
-                            {balanceRate: 0, premiumRate: 0},
-                            {balanceRate: 500000n, premiumRate: 50000n},
-                            {balanceRate: 2500000n, premiumRate: 100000n},
-                            {balanceRate: 5000000n, premiumRate: 150000n},
-                            {balanceRate: 6000000n, premiumRate: 200000n},
-                            {balanceRate: 7000000n, premiumRate: 300000n},
-                            {balanceRate: 8000000n, premiumRate: 400000n},
-                            {balanceRate: 9000000n, premiumRate: 500000n},
-                            {balanceRate: 10000000n, premiumRate: 600000n},
-                            {balanceRate: 50000000n, premiumRate: 10000000n},
-                        ],
-                    },
-                },
-            },
-            {
-                name: "SOL",
-                chainLinkPriceFeed: "0x24ceA4b8ce57cdA5058b924B9B9987992450590c",
-                maxCumulativeDeltaDiff: 100000n,
-                marketCfg: {
-                    baseCfg: {
-                        minMarginPerLiquidityPosition: 10000000n,
-                        maxLeveragePerLiquidityPosition: 200n,
-                        liquidationFeeRatePerLiquidityPosition: 50000n,
-                        minMarginPerPosition: 10000000n,
-                        maxLeveragePerPosition: 20n,
-                        liquidationFeeRatePerPosition: 1000000n,
-                        maxPositionLiquidity: 3500000000000n,
-                        maxPositionValueRate: 1000000000n,
-                        maxSizeRatePerPosition: 2000000n,
-                        liquidationExecutionFee: 800000n,
-                    },
-                    feeRateCfg: {
-                        protocolFundingFeeRate: 16000n,
-                        fundingCoeff: 100000000n,
-                        protocolFundingCoeff: 75000000n,
-                        interestRate: 10000n,
-                        fundingBuffer: 50000n,
-                        liquidityFundingFeeRate: 25000000n,
-                        maxFundingRate: 4000000n,
-                    },
-                    priceCfg: {
-                        maxPriceImpactLiquidity: 3500000000000n,
-                        liquidationVertexIndex: 6,
-                        dynamicDepthMode: 0,
-                        dynamicDepthLevel: 100000000n,
-                        vertices: [
-                            {balanceRate: 0, premiumRate: 0},
-                            {balanceRate: 1000000n, premiumRate: 50000n},
-                            {balanceRate: 3000000n, premiumRate: 100000n},
-                            {balanceRate: 5000000n, premiumRate: 150000n},
-                            {balanceRate: 6000000n, premiumRate: 200000n},
-                            {balanceRate: 9000000n, premiumRate: 600000n},
-                            {balanceRate: 12000000n, premiumRate: 1000000n},
-                            {balanceRate: 20000000n, premiumRate: 2500000n},
-                            {balanceRate: 28000000n, premiumRate: 4000000n},
-                            {balanceRate: 50000000n, premiumRate: 10000000n},
-                        ],
-                    },
-                },
-            },
-            {
-                name: "ARB",
-                chainLinkPriceFeed: "0xb2A824043730FE05F3DA2efaFa1CBbe83fa548D6",
-                maxCumulativeDeltaDiff: 100000n,
-                marketCfg: {
-                    baseCfg: {
-                        minMarginPerLiquidityPosition: 10000000n,
-                        maxLeveragePerLiquidityPosition: 200n,
-                        liquidationFeeRatePerLiquidityPosition: 50000n,
-                        minMarginPerPosition: 10000000n,
-                        maxLeveragePerPosition: 20n,
-                        liquidationFeeRatePerPosition: 1000000n,
-                        maxPositionLiquidity: 1500000000000n,
-                        maxPositionValueRate: 1000000000n,
-                        maxSizeRatePerPosition: 2000000n,
-                        liquidationExecutionFee: 800000n,
-                    },
-                    feeRateCfg: {
-                        protocolFundingFeeRate: 16000n,
-                        fundingCoeff: 100000000n,
-                        protocolFundingCoeff: 75000000n,
-                        interestRate: 10000n,
-                        fundingBuffer: 50000n,
-                        liquidityFundingFeeRate: 25000000n,
-                        maxFundingRate: 4000000n,
-                    },
-                    priceCfg: {
-                        maxPriceImpactLiquidity: 1500000000000n,
-                        liquidationVertexIndex: 6,
-                        dynamicDepthMode: 0,
-                        dynamicDepthLevel: 100000000n,
-                        vertices: [
-                            {balanceRate: 0, premiumRate: 0},
-                            {balanceRate: 1000000n, premiumRate: 50000n},
-                            {balanceRate: 3000000n, premiumRate: 100000n},
-                            {balanceRate: 5000000n, premiumRate: 150000n},
-                            {balanceRate: 6000000n, premiumRate: 200000n},
-                            {balanceRate: 9000000n, premiumRate: 600000n},
-                            {balanceRate: 12000000n, premiumRate: 1000000n},
-                            {balanceRate: 20000000n, premiumRate: 2500000n},
-                            {balanceRate: 28000000n, premiumRate: 4000000n},
-                            {balanceRate: 50000000n, premiumRate: 10000000n},
-                        ],
-                    },
-                },
-            },
-            {
-                name: "OP",
-                chainLinkPriceFeed: "0x205aaD468a11fd5D34fA7211bC6Bad5b3deB9b98",
-                maxCumulativeDeltaDiff: 100000n,
-                marketCfg: {
-                    baseCfg: {
-                        minMarginPerLiquidityPosition: 10000000n,
-                        maxLeveragePerLiquidityPosition: 200n,
-                        liquidationFeeRatePerLiquidityPosition: 50000n,
-                        minMarginPerPosition: 10000000n,
-                        maxLeveragePerPosition: 20n,
-                        liquidationFeeRatePerPosition: 1000000n,
-                        maxPositionLiquidity: 1500000000000n,
-                        maxPositionValueRate: 1000000000n,
-                        maxSizeRatePerPosition: 2000000n,
-                        liquidationExecutionFee: 800000n,
-                    },
-                    feeRateCfg: {
-                        protocolFundingFeeRate: 16000n,
-                        fundingCoeff: 100000000n,
-                        protocolFundingCoeff: 75000000n,
-                        interestRate: 10000n,
-                        fundingBuffer: 50000n,
-                        liquidityFundingFeeRate: 25000000n,
-                        maxFundingRate: 4000000n,
-                    },
-                    priceCfg: {
-                        maxPriceImpactLiquidity: 1500000000000n,
-                        liquidationVertexIndex: 6,
-                        dynamicDepthMode: 0,
-                        dynamicDepthLevel: 100000000n,
-                        vertices: [
-                            {balanceRate: 0, premiumRate: 0},
-                            {balanceRate: 1000000n, premiumRate: 50000n},
-                            {balanceRate: 3000000n, premiumRate: 100000n},
-                            {balanceRate: 5000000n, premiumRate: 150000n},
-                            {balanceRate: 6000000n, premiumRate: 200000n},
-                            {balanceRate: 9000000n, premiumRate: 600000n},
-                            {balanceRate: 12000000n, premiumRate: 1000000n},
-                            {balanceRate: 20000000n, premiumRate: 2500000n},
-                            {balanceRate: 28000000n, premiumRate: 4000000n},
-                            {balanceRate: 50000000n, premiumRate: 10000000n},
-                        ],
-                    },
-                },
-            },
-            {
-                name: "MATIC",
-                chainLinkPriceFeed: "0x52099D4523531f678Dfc568a7B1e5038aadcE1d6",
-                maxCumulativeDeltaDiff: 100000n,
-                marketCfg: {
-                    baseCfg: {
-                        minMarginPerLiquidityPosition: 10000000n,
-                        maxLeveragePerLiquidityPosition: 200n,
-                        liquidationFeeRatePerLiquidityPosition: 50000n,
-                        minMarginPerPosition: 10000000n,
-                        maxLeveragePerPosition: 20n,
-                        liquidationFeeRatePerPosition: 1000000n,
-                        maxPositionLiquidity: 1500000000000n,
-                        maxPositionValueRate: 1000000000n,
-                        maxSizeRatePerPosition: 2000000n,
-                        liquidationExecutionFee: 800000n,
-                    },
-                    feeRateCfg: {
-                        protocolFundingFeeRate: 16000n,
-                        fundingCoeff: 100000000n,
-                        protocolFundingCoeff: 75000000n,
-                        interestRate: 10000n,
-                        fundingBuffer: 50000n,
-                        liquidityFundingFeeRate: 25000000n,
-                        maxFundingRate: 4000000n,
-                    },
-                    priceCfg: {
-                        maxPriceImpactLiquidity: 1500000000000n,
-                        liquidationVertexIndex: 6,
-                        dynamicDepthMode: 0,
-                        dynamicDepthLevel: 100000000n,
-                        vertices: [
-                            {balanceRate: 0, premiumRate: 0},
-                            {balanceRate: 1000000n, premiumRate: 50000n},
-                            {balanceRate: 3000000n, premiumRate: 100000n},
-                            {balanceRate: 5000000n, premiumRate: 150000n},
-                            {balanceRate: 6000000n, premiumRate: 200000n},
-                            {balanceRate: 9000000n, premiumRate: 600000n},
-                            {balanceRate: 12000000n, premiumRate: 1000000n},
-                            {balanceRate: 20000000n, premiumRate: 2500000n},
-                            {balanceRate: 28000000n, premiumRate: 4000000n},
-                            {balanceRate: 50000000n, premiumRate: 10000000n},
-                        ],
-                    },
-                },
-            },
-            {
-                name: "AVAX",
-                chainLinkPriceFeed: "0x8bf61728eeDCE2F32c456454d87B5d6eD6150208",
-                maxCumulativeDeltaDiff: 100000n,
-                marketCfg: {
-                    baseCfg: {
-                        minMarginPerLiquidityPosition: 10000000n,
-                        maxLeveragePerLiquidityPosition: 200n,
-                        liquidationFeeRatePerLiquidityPosition: 50000n,
-                        minMarginPerPosition: 10000000n,
-                        maxLeveragePerPosition: 20n,
-                        liquidationFeeRatePerPosition: 1000000n,
-                        maxPositionLiquidity: 1500000000000n,
-                        maxPositionValueRate: 1000000000n,
-                        maxSizeRatePerPosition: 2000000n,
-                        liquidationExecutionFee: 800000n,
-                    },
-                    feeRateCfg: {
-                        protocolFundingFeeRate: 16000n,
-                        fundingCoeff: 100000000n,
-                        protocolFundingCoeff: 75000000n,
-                        interestRate: 10000n,
-                        fundingBuffer: 50000n,
-                        liquidityFundingFeeRate: 25000000n,
-                        maxFundingRate: 4000000n,
-                    },
-                    priceCfg: {
-                        maxPriceImpactLiquidity: 1500000000000n,
-                        liquidationVertexIndex: 6,
-                        dynamicDepthMode: 0,
-                        dynamicDepthLevel: 100000000n,
-                        vertices: [
-                            {balanceRate: 0, premiumRate: 0},
-                            {balanceRate: 1000000n, premiumRate: 50000n},
-                            {balanceRate: 3000000n, premiumRate: 100000n},
-                            {balanceRate: 5000000n, premiumRate: 150000n},
-                            {balanceRate: 6000000n, premiumRate: 200000n},
-                            {balanceRate: 9000000n, premiumRate: 600000n},
-                            {balanceRate: 12000000n, premiumRate: 1000000n},
-                            {balanceRate: 20000000n, premiumRate: 2500000n},
-                            {balanceRate: 28000000n, premiumRate: 4000000n},
-                            {balanceRate: 50000000n, premiumRate: 10000000n},
-                        ],
-                    },
-                },
-            },
-            {
-                name: "LINK",
-                chainLinkPriceFeed: "0x86E53CF1B870786351Da77A57575e79CB55812CB",
-                maxCumulativeDeltaDiff: 100000n,
-                marketCfg: {
-                    baseCfg: {
-                        minMarginPerLiquidityPosition: 10000000n,
-                        maxLeveragePerLiquidityPosition: 200n,
-                        liquidationFeeRatePerLiquidityPosition: 50000n,
-                        minMarginPerPosition: 10000000n,
-                        maxLeveragePerPosition: 20n,
-                        liquidationFeeRatePerPosition: 1000000n,
-                        maxPositionLiquidity: 1500000000000n,
-                        maxPositionValueRate: 1000000000n,
-                        maxSizeRatePerPosition: 2000000n,
-                        liquidationExecutionFee: 800000n,
-                    },
-                    feeRateCfg: {
-                        protocolFundingFeeRate: 16000n,
-                        fundingCoeff: 100000000n,
-                        protocolFundingCoeff: 75000000n,
-                        interestRate: 10000n,
-                        fundingBuffer: 50000n,
-                        liquidityFundingFeeRate: 25000000n,
-                        maxFundingRate: 4000000n,
-                    },
-                    priceCfg: {
-                        maxPriceImpactLiquidity: 1500000000000n,
-                        liquidationVertexIndex: 6,
-                        dynamicDepthMode: 0,
-                        dynamicDepthLevel: 100000000n,
-                        vertices: [
-                            {balanceRate: 0, premiumRate: 0},
-                            {balanceRate: 1000000n, premiumRate: 50000n},
-                            {balanceRate: 3000000n, premiumRate: 100000n},
-                            {balanceRate: 5000000n, premiumRate: 150000n},
-                            {balanceRate: 6000000n, premiumRate: 200000n},
-                            {balanceRate: 9000000n, premiumRate: 600000n},
-                            {balanceRate: 12000000n, premiumRate: 1000000n},
-                            {balanceRate: 20000000n, premiumRate: 2500000n},
-                            {balanceRate: 28000000n, premiumRate: 4000000n},
-                            {balanceRate: 50000000n, premiumRate: 10000000n},
-                        ],
-                    },
-                },
-            },
-            {
-                name: "ORDI",
-                chainLinkPriceFeed: undefined,
-                maxCumulativeDeltaDiff: 100000n,
-                marketCfg: {
-                    baseCfg: {
-                        minMarginPerLiquidityPosition: 10000000n,
-                        maxLeveragePerLiquidityPosition: 200n,
-                        liquidationFeeRatePerLiquidityPosition: 50000n,
-                        minMarginPerPosition: 10000000n,
-                        maxLeveragePerPosition: 10n,
-                        liquidationFeeRatePerPosition: 2500000n,
-                        maxPositionLiquidity: 1000000000000n,
-                        maxPositionValueRate: 400000000n,
-                        maxSizeRatePerPosition: 5000000n,
-                        liquidationExecutionFee: 800000n,
-                    },
-                    feeRateCfg: {
-                        protocolFundingFeeRate: 16000n,
-                        fundingCoeff: 100000000n,
-                        protocolFundingCoeff: 75000000n,
-                        interestRate: 10000n,
-                        fundingBuffer: 50000n,
-                        liquidityFundingFeeRate: 25000000n,
-                        maxFundingRate: 4000000n,
-                    },
-                    priceCfg: {
-                        maxPriceImpactLiquidity: 1000000000000n,
-                        liquidationVertexIndex: 7,
-                        dynamicDepthMode: 0,
-                        dynamicDepthLevel: 100000000n,
-                        vertices: [
-                            {balanceRate: 0, premiumRate: 0},
-                            {balanceRate: 1000000n, premiumRate: 50000n},
-                            {balanceRate: 3000000n, premiumRate: 100000n},
-                            {balanceRate: 5000000n, premiumRate: 150000n},
-                            {balanceRate: 6000000n, premiumRate: 200000n},
-                            {balanceRate: 9000000n, premiumRate: 600000n},
-                            {balanceRate: 12000000n, premiumRate: 1000000n},
-                            {balanceRate: 20000000n, premiumRate: 2500000n},
-                            {balanceRate: 28000000n, premiumRate: 4000000n},
-                            {balanceRate: 50000000n, premiumRate: 10000000n},
-                        ],
-                    },
-                },
-            },
-            {
-                name: "DOGE",
-                chainLinkPriceFeed: "0x9A7FB1b3950837a8D9b40517626E11D4127C098C",
-                maxCumulativeDeltaDiff: 100000n,
-                marketCfg: {
-                    baseCfg: {
-                        minMarginPerLiquidityPosition: 10000000n,
-                        maxLeveragePerLiquidityPosition: 200n,
-                        liquidationFeeRatePerLiquidityPosition: 50000n,
-                        minMarginPerPosition: 10000000n,
-                        maxLeveragePerPosition: 20n,
-                        liquidationFeeRatePerPosition: 1000000n,
-                        maxPositionLiquidity: 1500000000000n,
-                        maxPositionValueRate: 1000000000n,
-                        maxSizeRatePerPosition: 2000000n,
-                        liquidationExecutionFee: 800000n,
-                    },
-                    feeRateCfg: {
-                        protocolFundingFeeRate: 16000n,
-                        fundingCoeff: 100000000n,
-                        protocolFundingCoeff: 75000000n,
-                        interestRate: 10000n,
-                        fundingBuffer: 50000n,
-                        liquidityFundingFeeRate: 25000000n,
-                        maxFundingRate: 4000000n,
-                    },
-                    priceCfg: {
-                        maxPriceImpactLiquidity: 1500000000000n,
-                        liquidationVertexIndex: 6,
-                        dynamicDepthMode: 0,
-                        dynamicDepthLevel: 100000000n,
-                        vertices: [
-                            {balanceRate: 0, premiumRate: 0},
-                            {balanceRate: 1000000n, premiumRate: 50000n},
-                            {balanceRate: 3000000n, premiumRate: 100000n},
-                            {balanceRate: 5000000n, premiumRate: 150000n},
-                            {balanceRate: 6000000n, premiumRate: 200000n},
-                            {balanceRate: 9000000n, premiumRate: 600000n},
-                            {balanceRate: 12000000n, premiumRate: 1000000n},
-                            {balanceRate: 20000000n, premiumRate: 2500000n},
-                            {balanceRate: 28000000n, premiumRate: 4000000n},
-                            {balanceRate: 50000000n, premiumRate: 10000000n},
-                        ],
-                    },
-                },
-            },
-            {
-                name: "XRP",
-                chainLinkPriceFeed: "0xB4AD57B52aB9141de9926a3e0C8dc6264c2ef205",
-                maxCumulativeDeltaDiff: 100000n,
-                marketCfg: {
-                    baseCfg: {
-                        minMarginPerLiquidityPosition: 10000000n,
-                        maxLeveragePerLiquidityPosition: 200n,
-                        liquidationFeeRatePerLiquidityPosition: 50000n,
-                        minMarginPerPosition: 10000000n,
-                        maxLeveragePerPosition: 20n,
-                        liquidationFeeRatePerPosition: 1000000n,
-                        maxPositionLiquidity: 1500000000000n,
-                        maxPositionValueRate: 1000000000n,
-                        maxSizeRatePerPosition: 2000000n,
-                        liquidationExecutionFee: 800000n,
-                    },
-                    feeRateCfg: {
-                        protocolFundingFeeRate: 16000n,
-                        fundingCoeff: 100000000n,
-                        protocolFundingCoeff: 75000000n,
-                        interestRate: 10000n,
-                        fundingBuffer: 50000n,
-                        liquidityFundingFeeRate: 25000000n,
-                        maxFundingRate: 4000000n,
-                    },
-                    priceCfg: {
-                        maxPriceImpactLiquidity: 1500000000000n,
-                        liquidationVertexIndex: 6,
-                        dynamicDepthMode: 0,
-                        dynamicDepthLevel: 100000000n,
-                        vertices: [
-                            {balanceRate: 0, premiumRate: 0},
-                            {balanceRate: 1000000n, premiumRate: 50000n},
-                            {balanceRate: 3000000n, premiumRate: 100000n},
-                            {balanceRate: 5000000n, premiumRate: 150000n},
-                            {balanceRate: 6000000n, premiumRate: 200000n},
-                            {balanceRate: 9000000n, premiumRate: 600000n},
-                            {balanceRate: 12000000n, premiumRate: 1000000n},
-                            {balanceRate: 20000000n, premiumRate: 2500000n},
-                            {balanceRate: 28000000n, premiumRate: 4000000n},
-                            {balanceRate: 50000000n, premiumRate: 10000000n},
-                        ],
-                    },
-                },
-            },
-            {
-                name: "ADA",
-                chainLinkPriceFeed: "0xD9f615A9b820225edbA2d821c4A696a0924051c6",
-                maxCumulativeDeltaDiff: 100000n,
-                marketCfg: {
-                    baseCfg: {
-                        minMarginPerLiquidityPosition: 10000000n,
-                        maxLeveragePerLiquidityPosition: 200n,
-                        liquidationFeeRatePerLiquidityPosition: 50000n,
-                        minMarginPerPosition: 10000000n,
-                        maxLeveragePerPosition: 20n,
-                        liquidationFeeRatePerPosition: 1000000n,
-                        maxPositionLiquidity: 1500000000000n,
-                        maxPositionValueRate: 1000000000n,
-                        maxSizeRatePerPosition: 2000000n,
-                        liquidationExecutionFee: 800000n,
-                    },
-                    feeRateCfg: {
-                        protocolFundingFeeRate: 16000n,
-                        fundingCoeff: 100000000n,
-                        protocolFundingCoeff: 75000000n,
-                        interestRate: 10000n,
-                        fundingBuffer: 50000n,
-                        liquidityFundingFeeRate: 25000000n,
-                        maxFundingRate: 4000000n,
-                    },
-                    priceCfg: {
-                        maxPriceImpactLiquidity: 1500000000000n,
-                        liquidationVertexIndex: 6,
-                        dynamicDepthMode: 0,
-                        dynamicDepthLevel: 100000000n,
-                        vertices: [
-                            {balanceRate: 0, premiumRate: 0},
-                            {balanceRate: 1000000n, premiumRate: 50000n},
-                            {balanceRate: 3000000n, premiumRate: 100000n},
-                            {balanceRate: 5000000n, premiumRate: 150000n},
-                            {balanceRate: 6000000n, premiumRate: 200000n},
-                            {balanceRate: 9000000n, premiumRate: 600000n},
-                            {balanceRate: 12000000n, premiumRate: 1000000n},
-                            {balanceRate: 20000000n, premiumRate: 2500000n},
-                            {balanceRate: 28000000n, premiumRate: 4000000n},
-                            {balanceRate: 50000000n, premiumRate: 10000000n},
-                        ],
-                    },
-                },
-            },
-            {
-                name: "BNB",
-                chainLinkPriceFeed: "0x6970460aabF80C5BE983C6b74e5D06dEDCA95D4A",
-                maxCumulativeDeltaDiff: 100000n,
-                marketCfg: {
-                    baseCfg: {
-                        minMarginPerLiquidityPosition: 10000000n,
-                        maxLeveragePerLiquidityPosition: 200n,
-                        liquidationFeeRatePerLiquidityPosition: 50000n,
-                        minMarginPerPosition: 10000000n,
-                        maxLeveragePerPosition: 20n,
-                        liquidationFeeRatePerPosition: 1000000n,
-                        maxPositionLiquidity: 1500000000000n,
-                        maxPositionValueRate: 1000000000n,
-                        maxSizeRatePerPosition: 2000000n,
-                        liquidationExecutionFee: 800000n,
-                    },
-                    feeRateCfg: {
-                        protocolFundingFeeRate: 16000n,
-                        fundingCoeff: 100000000n,
-                        protocolFundingCoeff: 75000000n,
-                        interestRate: 10000n,
-                        fundingBuffer: 50000n,
-                        liquidityFundingFeeRate: 25000000n,
-                        maxFundingRate: 4000000n,
-                    },
-                    priceCfg: {
-                        maxPriceImpactLiquidity: 1500000000000n,
-                        liquidationVertexIndex: 6,
-                        dynamicDepthMode: 0,
-                        dynamicDepthLevel: 100000000n,
-                        vertices: [
-                            {balanceRate: 0, premiumRate: 0},
-                            {balanceRate: 1000000n, premiumRate: 50000n},
-                            {balanceRate: 3000000n, premiumRate: 100000n},
-                            {balanceRate: 5000000n, premiumRate: 150000n},
-                            {balanceRate: 6000000n, premiumRate: 200000n},
-                            {balanceRate: 9000000n, premiumRate: 600000n},
-                            {balanceRate: 12000000n, premiumRate: 1000000n},
-                            {balanceRate: 20000000n, premiumRate: 2500000n},
-                            {balanceRate: 28000000n, premiumRate: 4000000n},
-                            {balanceRate: 50000000n, premiumRate: 10000000n},
-                        ],
-                    },
-                },
-            },
-            {
-                name: "LTC",
-                chainLinkPriceFeed: "0x5698690a7B7B84F6aa985ef7690A8A7288FBc9c8",
-                maxCumulativeDeltaDiff: 100000n,
-                marketCfg: {
-                    baseCfg: {
-                        minMarginPerLiquidityPosition: 10000000n,
-                        maxLeveragePerLiquidityPosition: 200n,
-                        liquidationFeeRatePerLiquidityPosition: 50000n,
-                        minMarginPerPosition: 10000000n,
-                        maxLeveragePerPosition: 20n,
-                        liquidationFeeRatePerPosition: 1000000n,
-                        maxPositionLiquidity: 1500000000000n,
-                        maxPositionValueRate: 1000000000n,
-                        maxSizeRatePerPosition: 2000000n,
-                        liquidationExecutionFee: 800000n,
-                    },
-                    feeRateCfg: {
-                        protocolFundingFeeRate: 16000n,
-                        fundingCoeff: 100000000n,
-                        protocolFundingCoeff: 75000000n,
-                        interestRate: 10000n,
-                        fundingBuffer: 50000n,
-                        liquidityFundingFeeRate: 25000000n,
-                        maxFundingRate: 4000000n,
-                    },
-                    priceCfg: {
-                        maxPriceImpactLiquidity: 1500000000000n,
-                        liquidationVertexIndex: 6,
-                        dynamicDepthMode: 0,
-                        dynamicDepthLevel: 100000000n,
-                        vertices: [
-                            {balanceRate: 0, premiumRate: 0},
-                            {balanceRate: 1000000n, premiumRate: 50000n},
-                            {balanceRate: 3000000n, premiumRate: 100000n},
-                            {balanceRate: 5000000n, premiumRate: 150000n},
-                            {balanceRate: 6000000n, premiumRate: 200000n},
-                            {balanceRate: 9000000n, premiumRate: 600000n},
-                            {balanceRate: 12000000n, premiumRate: 1000000n},
-                            {balanceRate: 20000000n, premiumRate: 2500000n},
-                            {balanceRate: 28000000n, premiumRate: 4000000n},
-                            {balanceRate: 50000000n, premiumRate: 10000000n},
-                        ],
-                    },
-                },
-            },
-            {
-                name: "ETC",
-                chainLinkPriceFeed: undefined,
-                maxCumulativeDeltaDiff: 100000n,
-                marketCfg: {
-                    baseCfg: {
-                        minMarginPerLiquidityPosition: 10000000n,
-                        maxLeveragePerLiquidityPosition: 200n,
-                        liquidationFeeRatePerLiquidityPosition: 50000n,
-                        minMarginPerPosition: 10000000n,
-                        maxLeveragePerPosition: 20n,
-                        liquidationFeeRatePerPosition: 1000000n,
-                        maxPositionLiquidity: 1500000000000n,
-                        maxPositionValueRate: 1000000000n,
-                        maxSizeRatePerPosition: 2000000n,
-                        liquidationExecutionFee: 800000n,
-                    },
-                    feeRateCfg: {
-                        protocolFundingFeeRate: 16000n,
-                        fundingCoeff: 100000000n,
-                        protocolFundingCoeff: 75000000n,
-                        interestRate: 10000n,
-                        fundingBuffer: 50000n,
-                        liquidityFundingFeeRate: 25000000n,
-                        maxFundingRate: 4000000n,
-                    },
-                    priceCfg: {
-                        maxPriceImpactLiquidity: 1500000000000n,
-                        liquidationVertexIndex: 6,
-                        dynamicDepthMode: 0,
-                        dynamicDepthLevel: 100000000n,
-                        vertices: [
-                            {balanceRate: 0, premiumRate: 0},
-                            {balanceRate: 1000000n, premiumRate: 50000n},
-                            {balanceRate: 3000000n, premiumRate: 100000n},
-                            {balanceRate: 5000000n, premiumRate: 150000n},
-                            {balanceRate: 6000000n, premiumRate: 200000n},
-                            {balanceRate: 9000000n, premiumRate: 600000n},
-                            {balanceRate: 12000000n, premiumRate: 1000000n},
-                            {balanceRate: 20000000n, premiumRate: 2500000n},
-                            {balanceRate: 28000000n, premiumRate: 4000000n},
-                            {balanceRate: 50000000n, premiumRate: 10000000n},
-                        ],
-                    },
-                },
-            },
-            {
-                name: "WIF",
-                chainLinkPriceFeed: undefined,
-                maxCumulativeDeltaDiff: 100000n,
-                marketCfg: {
-                    baseCfg: {
-                        minMarginPerLiquidityPosition: 10000000n,
-                        maxLeveragePerLiquidityPosition: 200n,
-                        liquidationFeeRatePerLiquidityPosition: 50000n,
-                        minMarginPerPosition: 10000000n,
-                        maxLeveragePerPosition: 10n,
-                        liquidationFeeRatePerPosition: 2500000n,
-                        maxPositionLiquidity: 1000000000000n,
-                        maxPositionValueRate: 400000000n,
-                        maxSizeRatePerPosition: 5000000n,
-                        liquidationExecutionFee: 800000n,
-                    },
-                    feeRateCfg: {
-                        protocolFundingFeeRate: 16000n,
-                        fundingCoeff: 100000000n,
-                        protocolFundingCoeff: 75000000n,
-                        interestRate: 10000n,
-                        fundingBuffer: 50000n,
-                        liquidityFundingFeeRate: 25000000n,
-                        maxFundingRate: 4000000n,
-                    },
-                    priceCfg: {
-                        maxPriceImpactLiquidity: 1000000000000n,
-                        liquidationVertexIndex: 7,
-                        dynamicDepthMode: 0,
-                        dynamicDepthLevel: 100000000n,
-                        vertices: [
-                            {balanceRate: 0, premiumRate: 0},
-                            {balanceRate: 1000000n, premiumRate: 50000n},
-                            {balanceRate: 3000000n, premiumRate: 100000n},
-                            {balanceRate: 5000000n, premiumRate: 150000n},
-                            {balanceRate: 6000000n, premiumRate: 200000n},
-                            {balanceRate: 9000000n, premiumRate: 600000n},
-                            {balanceRate: 12000000n, premiumRate: 1000000n},
-                            {balanceRate: 20000000n, premiumRate: 2500000n},
-                            {balanceRate: 28000000n, premiumRate: 4000000n},
-                            {balanceRate: 50000000n, premiumRate: 10000000n},
-                        ],
-                    },
-                },
-            },
-            {
-                name: "TON",
-                chainLinkPriceFeed: undefined,
-                maxCumulativeDeltaDiff: 100000n,
-                marketCfg: {
-                    baseCfg: {
-                        minMarginPerLiquidityPosition: 10000000n,
-                        maxLeveragePerLiquidityPosition: 200n,
-                        liquidationFeeRatePerLiquidityPosition: 50000n,
-                        minMarginPerPosition: 10000000n,
-                        maxLeveragePerPosition: 10n,
-                        liquidationFeeRatePerPosition: 2500000n,
-                        maxPositionLiquidity: 1000000000000n,
-                        maxPositionValueRate: 400000000n,
-                        maxSizeRatePerPosition: 5000000n,
-                        liquidationExecutionFee: 800000n,
-                    },
-                    feeRateCfg: {
-                        protocolFundingFeeRate: 16000n,
-                        fundingCoeff: 100000000n,
-                        protocolFundingCoeff: 75000000n,
-                        interestRate: 10000n,
-                        fundingBuffer: 50000n,
-                        liquidityFundingFeeRate: 25000000n,
-                        maxFundingRate: 4000000n,
-                    },
-                    priceCfg: {
-                        maxPriceImpactLiquidity: 1000000000000n,
-                        liquidationVertexIndex: 7,
-                        dynamicDepthMode: 0,
-                        dynamicDepthLevel: 100000000n,
-                        vertices: [
-                            {balanceRate: 0, premiumRate: 0},
-                            {balanceRate: 1000000n, premiumRate: 50000n},
-                            {balanceRate: 3000000n, premiumRate: 100000n},
-                            {balanceRate: 5000000n, premiumRate: 150000n},
-                            {balanceRate: 6000000n, premiumRate: 200000n},
-                            {balanceRate: 9000000n, premiumRate: 600000n},
-                            {balanceRate: 12000000n, premiumRate: 1000000n},
-                            {balanceRate: 20000000n, premiumRate: 2500000n},
-                            {balanceRate: 28000000n, premiumRate: 4000000n},
-                            {balanceRate: 50000000n, premiumRate: 10000000n},
-                        ],
-                    },
-                },
-            },
-            {
-                name: "AR",
-                chainLinkPriceFeed: undefined,
-                maxCumulativeDeltaDiff: 100000n,
-                marketCfg: {
-                    baseCfg: {
-                        minMarginPerLiquidityPosition: 10000000n,
-                        maxLeveragePerLiquidityPosition: 200n,
-                        liquidationFeeRatePerLiquidityPosition: 50000n,
-                        minMarginPerPosition: 10000000n,
-                        maxLeveragePerPosition: 10n,
-                        liquidationFeeRatePerPosition: 2500000n,
-                        maxPositionLiquidity: 900000000000n,
-                        maxPositionValueRate: 400000000n,
-                        maxSizeRatePerPosition: 5000000n,
-                        liquidationExecutionFee: 800000n,
-                    },
-                    feeRateCfg: {
-                        protocolFundingFeeRate: 16000n,
-                        fundingCoeff: 100000000n,
-                        protocolFundingCoeff: 75000000n,
-                        interestRate: 10000n,
-                        fundingBuffer: 50000n,
-                        liquidityFundingFeeRate: 25000000n,
-                        maxFundingRate: 4000000n,
-                    },
-                    priceCfg: {
-                        maxPriceImpactLiquidity: 900000000000n,
-                        liquidationVertexIndex: 7,
-                        dynamicDepthMode: 0,
-                        dynamicDepthLevel: 100000000n,
-                        vertices: [
-                            {balanceRate: 0, premiumRate: 0},
-                            {balanceRate: 1000000n, premiumRate: 50000n},
-                            {balanceRate: 3000000n, premiumRate: 100000n},
-                            {balanceRate: 5000000n, premiumRate: 150000n},
-                            {balanceRate: 6000000n, premiumRate: 200000n},
-                            {balanceRate: 9000000n, premiumRate: 600000n},
-                            {balanceRate: 12000000n, premiumRate: 1000000n},
-                            {balanceRate: 20000000n, premiumRate: 2500000n},
-                            {balanceRate: 28000000n, premiumRate: 4000000n},
-                            {balanceRate: 50000000n, premiumRate: 10000000n},
-                        ],
-                    },
-                },
-            },
-            {
-                name: "ENA",
-                chainLinkPriceFeed: undefined,
-                maxCumulativeDeltaDiff: 100000n,
-                marketCfg: {
-                    baseCfg: {
-                        minMarginPerLiquidityPosition: 10000000n,
-                        maxLeveragePerLiquidityPosition: 200n,
-                        liquidationFeeRatePerLiquidityPosition: 50000n,
-                        minMarginPerPosition: 10000000n,
-                        maxLeveragePerPosition: 10n,
-                        liquidationFeeRatePerPosition: 2500000n,
-                        maxPositionLiquidity: 1000000000000n,
-                        maxPositionValueRate: 400000000n,
-                        maxSizeRatePerPosition: 5000000n,
-                        liquidationExecutionFee: 800000n,
-                    },
-                    feeRateCfg: {
-                        protocolFundingFeeRate: 16000n,
-                        fundingCoeff: 100000000n,
-                        protocolFundingCoeff: 75000000n,
-                        interestRate: 10000n,
-                        fundingBuffer: 50000n,
-                        liquidityFundingFeeRate: 25000000n,
-                        maxFundingRate: 4000000n,
-                    },
-                    priceCfg: {
-                        maxPriceImpactLiquidity: 1000000000000n,
-                        liquidationVertexIndex: 7,
-                        dynamicDepthMode: 0,
-                        dynamicDepthLevel: 100000000n,
-                        vertices: [
-                            {balanceRate: 0, premiumRate: 0},
-                            {balanceRate: 1000000n, premiumRate: 50000n},
-                            {balanceRate: 3000000n, premiumRate: 100000n},
-                            {balanceRate: 5000000n, premiumRate: 150000n},
-                            {balanceRate: 6000000n, premiumRate: 200000n},
-                            {balanceRate: 9000000n, premiumRate: 600000n},
-                            {balanceRate: 12000000n, premiumRate: 1000000n},
-                            {balanceRate: 20000000n, premiumRate: 2500000n},
-                            {balanceRate: 28000000n, premiumRate: 4000000n},
-                            {balanceRate: 50000000n, premiumRate: 10000000n},
-                        ],
-                    },
-                },
-            },
-            {
-                name: "W",
-                chainLinkPriceFeed: undefined,
-                maxCumulativeDeltaDiff: 100000n,
-                marketCfg: {
-                    baseCfg: {
-                        minMarginPerLiquidityPosition: 10000000n,
-                        maxLeveragePerLiquidityPosition: 200n,
-                        liquidationFeeRatePerLiquidityPosition: 50000n,
-                        minMarginPerPosition: 10000000n,
-                        maxLeveragePerPosition: 10n,
-                        liquidationFeeRatePerPosition: 2500000n,
-                        maxPositionLiquidity: 1000000000000n,
-                        maxPositionValueRate: 400000000n,
-                        maxSizeRatePerPosition: 5000000n,
-                        liquidationExecutionFee: 800000n,
-                    },
-                    feeRateCfg: {
-                        protocolFundingFeeRate: 16000n,
-                        fundingCoeff: 100000000n,
-                        protocolFundingCoeff: 75000000n,
-                        interestRate: 10000n,
-                        fundingBuffer: 50000n,
-                        liquidityFundingFeeRate: 25000000n,
-                        maxFundingRate: 4000000n,
-                    },
-                    priceCfg: {
-                        maxPriceImpactLiquidity: 1000000000000n,
-                        liquidationVertexIndex: 7,
-                        dynamicDepthMode: 0,
-                        dynamicDepthLevel: 100000000n,
-                        vertices: [
-                            {balanceRate: 0, premiumRate: 0},
-                            {balanceRate: 1000000n, premiumRate: 50000n},
-                            {balanceRate: 3000000n, premiumRate: 100000n},
-                            {balanceRate: 5000000n, premiumRate: 150000n},
-                            {balanceRate: 6000000n, premiumRate: 200000n},
-                            {balanceRate: 9000000n, premiumRate: 600000n},
-                            {balanceRate: 12000000n, premiumRate: 1000000n},
-                            {balanceRate: 20000000n, premiumRate: 2500000n},
-                            {balanceRate: 28000000n, premiumRate: 4000000n},
-                            {balanceRate: 50000000n, premiumRate: 10000000n},
-                        ],
-                    },
-                },
-            },
-            {
-                name: "JUP",
-                chainLinkPriceFeed: undefined,
-                maxCumulativeDeltaDiff: 100000n,
-                marketCfg: {
-                    baseCfg: {
-                        minMarginPerLiquidityPosition: 10000000n,
-                        maxLeveragePerLiquidityPosition: 200n,
-                        liquidationFeeRatePerLiquidityPosition: 50000n,
-                        minMarginPerPosition: 10000000n,
-                        maxLeveragePerPosition: 10n,
-                        liquidationFeeRatePerPosition: 2500000n,
-                        maxPositionLiquidity: 900000000000n,
-                        maxPositionValueRate: 400000000n,
-                        maxSizeRatePerPosition: 5000000n,
-                        liquidationExecutionFee: 800000n,
-                    },
-                    feeRateCfg: {
-                        protocolFundingFeeRate: 16000n,
-                        fundingCoeff: 100000000n,
-                        protocolFundingCoeff: 75000000n,
-                        interestRate: 10000n,
-                        fundingBuffer: 50000n,
-                        liquidityFundingFeeRate: 25000000n,
-                        maxFundingRate: 4000000n,
-                    },
-                    priceCfg: {
-                        maxPriceImpactLiquidity: 900000000000n,
-                        liquidationVertexIndex: 7,
-                        dynamicDepthMode: 0,
-                        dynamicDepthLevel: 100000000n,
-                        vertices: [
-                            {balanceRate: 0, premiumRate: 0},
-                            {balanceRate: 1000000n, premiumRate: 50000n},
-                            {balanceRate: 3000000n, premiumRate: 100000n},
-                            {balanceRate: 5000000n, premiumRate: 150000n},
-                            {balanceRate: 6000000n, premiumRate: 200000n},
-                            {balanceRate: 9000000n, premiumRate: 600000n},
-                            {balanceRate: 12000000n, premiumRate: 1000000n},
-                            {balanceRate: 20000000n, premiumRate: 2500000n},
-                            {balanceRate: 28000000n, premiumRate: 4000000n},
-                            {balanceRate: 50000000n, premiumRate: 10000000n},
-                        ],
-                    },
-                },
-            },
-            {
-                name: "FIL",
-                chainLinkPriceFeed: undefined,
-                maxCumulativeDeltaDiff: 100000n,
-                marketCfg: {
-                    baseCfg: {
-                        minMarginPerLiquidityPosition: 10000000n,
-                        maxLeveragePerLiquidityPosition: 200n,
-                        liquidationFeeRatePerLiquidityPosition: 50000n,
-                        minMarginPerPosition: 10000000n,
-                        maxLeveragePerPosition: 10n,
-                        liquidationFeeRatePerPosition: 2500000n,
-                        maxPositionLiquidity: 1000000000000n,
-                        maxPositionValueRate: 400000000n,
-                        maxSizeRatePerPosition: 5000000n,
-                        liquidationExecutionFee: 800000n,
-                    },
-                    feeRateCfg: {
-                        protocolFundingFeeRate: 16000n,
-                        fundingCoeff: 100000000n,
-                        protocolFundingCoeff: 75000000n,
-                        interestRate: 10000n,
-                        fundingBuffer: 50000n,
-                        liquidityFundingFeeRate: 25000000n,
-                        maxFundingRate: 4000000n,
-                    },
-                    priceCfg: {
-                        maxPriceImpactLiquidity: 1000000000000n,
-                        liquidationVertexIndex: 7,
-                        dynamicDepthMode: 0,
-                        dynamicDepthLevel: 100000000n,
-                        vertices: [
-                            {balanceRate: 0, premiumRate: 0},
-                            {balanceRate: 1000000n, premiumRate: 50000n},
-                            {balanceRate: 3000000n, premiumRate: 100000n},
-                            {balanceRate: 5000000n, premiumRate: 150000n},
-                            {balanceRate: 6000000n, premiumRate: 200000n},
-                            {balanceRate: 9000000n, premiumRate: 600000n},
-                            {balanceRate: 12000000n, premiumRate: 1000000n},
-                            {balanceRate: 20000000n, premiumRate: 2500000n},
-                            {balanceRate: 28000000n, premiumRate: 4000000n},
-                            {balanceRate: 50000000n, premiumRate: 10000000n},
-                        ],
-                    },
-                },
-            },
-            {
-                name: "SUI",
-                chainLinkPriceFeed: undefined,
-                maxCumulativeDeltaDiff: 100000n,
-                marketCfg: {
-                    baseCfg: {
-                        minMarginPerLiquidityPosition: 10000000n,
-                        maxLeveragePerLiquidityPosition: 200n,
-                        liquidationFeeRatePerLiquidityPosition: 50000n,
-                        minMarginPerPosition: 10000000n,
-                        maxLeveragePerPosition: 10n,
-                        liquidationFeeRatePerPosition: 2500000n,
-                        maxPositionLiquidity: 1000000000000n,
-                        maxPositionValueRate: 400000000n,
-                        maxSizeRatePerPosition: 5000000n,
-                        liquidationExecutionFee: 800000n,
-                    },
-                    feeRateCfg: {
-                        protocolFundingFeeRate: 16000n,
-                        fundingCoeff: 100000000n,
-                        protocolFundingCoeff: 75000000n,
-                        interestRate: 10000n,
-                        fundingBuffer: 50000n,
-                        liquidityFundingFeeRate: 25000000n,
-                        maxFundingRate: 4000000n,
-                    },
-                    priceCfg: {
-                        maxPriceImpactLiquidity: 1000000000000n,
-                        liquidationVertexIndex: 7,
-                        dynamicDepthMode: 0,
-                        dynamicDepthLevel: 100000000n,
-                        vertices: [
-                            {balanceRate: 0, premiumRate: 0},
-                            {balanceRate: 1000000n, premiumRate: 50000n},
-                            {balanceRate: 3000000n, premiumRate: 100000n},
-                            {balanceRate: 5000000n, premiumRate: 150000n},
-                            {balanceRate: 6000000n, premiumRate: 200000n},
-                            {balanceRate: 9000000n, premiumRate: 600000n},
-                            {balanceRate: 12000000n, premiumRate: 1000000n},
-                            {balanceRate: 20000000n, premiumRate: 2500000n},
-                            {balanceRate: 28000000n, premiumRate: 4000000n},
-                            {balanceRate: 50000000n, premiumRate: 10000000n},
-                        ],
-                    },
-                },
-            },
-            {
-                name: "TIA",
-                chainLinkPriceFeed: "0x4096b9bfB4c34497B7a3939D4f629cf65EBf5634",
-                maxCumulativeDeltaDiff: 100000n,
-                marketCfg: {
-                    baseCfg: {
-                        minMarginPerLiquidityPosition: 10000000n,
-                        maxLeveragePerLiquidityPosition: 200n,
-                        liquidationFeeRatePerLiquidityPosition: 50000n,
-                        minMarginPerPosition: 10000000n,
-                        maxLeveragePerPosition: 10n,
-                        liquidationFeeRatePerPosition: 2500000n,
-                        maxPositionLiquidity: 1000000000000n,
-                        maxPositionValueRate: 400000000n,
-                        maxSizeRatePerPosition: 5000000n,
-                        liquidationExecutionFee: 800000n,
-                    },
-                    feeRateCfg: {
-                        protocolFundingFeeRate: 16000n,
-                        fundingCoeff: 100000000n,
-                        protocolFundingCoeff: 75000000n,
-                        interestRate: 10000n,
-                        fundingBuffer: 50000n,
-                        liquidityFundingFeeRate: 25000000n,
-                        maxFundingRate: 4000000n,
-                    },
-                    priceCfg: {
-                        maxPriceImpactLiquidity: 1000000000000n,
-                        liquidationVertexIndex: 7,
-                        dynamicDepthMode: 0,
-                        dynamicDepthLevel: 100000000n,
-                        vertices: [
-                            {balanceRate: 0, premiumRate: 0},
-                            {balanceRate: 1000000n, premiumRate: 50000n},
-                            {balanceRate: 3000000n, premiumRate: 100000n},
-                            {balanceRate: 5000000n, premiumRate: 150000n},
-                            {balanceRate: 6000000n, premiumRate: 200000n},
-                            {balanceRate: 9000000n, premiumRate: 600000n},
-                            {balanceRate: 12000000n, premiumRate: 1000000n},
-                            {balanceRate: 20000000n, premiumRate: 2500000n},
-                            {balanceRate: 28000000n, premiumRate: 4000000n},
-                            {balanceRate: 50000000n, premiumRate: 10000000n},
-                        ],
-                    },
-                },
-            },
-            {
-                name: "DOT",
-                chainLinkPriceFeed: "0xa6bC5bAF2000424e90434bA7104ee399dEe80DEc",
-                maxCumulativeDeltaDiff: 100000n,
-                marketCfg: {
-                    baseCfg: {
-                        minMarginPerLiquidityPosition: 10000000n,
-                        maxLeveragePerLiquidityPosition: 200n,
-                        liquidationFeeRatePerLiquidityPosition: 50000n,
-                        minMarginPerPosition: 10000000n,
-                        maxLeveragePerPosition: 10n,
-                        liquidationFeeRatePerPosition: 2500000n,
-                        maxPositionLiquidity: 900000000000n,
-                        maxPositionValueRate: 400000000n,
-                        maxSizeRatePerPosition: 5000000n,
-                        liquidationExecutionFee: 800000n,
-                    },
-                    feeRateCfg: {
-                        protocolFundingFeeRate: 16000n,
-                        fundingCoeff: 100000000n,
-                        protocolFundingCoeff: 75000000n,
-                        interestRate: 10000n,
-                        fundingBuffer: 50000n,
-                        liquidityFundingFeeRate: 25000000n,
-                        maxFundingRate: 4000000n,
-                    },
-                    priceCfg: {
-                        maxPriceImpactLiquidity: 900000000000n,
-                        liquidationVertexIndex: 7,
-                        dynamicDepthMode: 0,
-                        dynamicDepthLevel: 100000000n,
-                        vertices: [
-                            {balanceRate: 0, premiumRate: 0},
-                            {balanceRate: 1000000n, premiumRate: 50000n},
-                            {balanceRate: 3000000n, premiumRate: 100000n},
-                            {balanceRate: 5000000n, premiumRate: 150000n},
-                            {balanceRate: 6000000n, premiumRate: 200000n},
-                            {balanceRate: 9000000n, premiumRate: 600000n},
-                            {balanceRate: 12000000n, premiumRate: 1000000n},
-                            {balanceRate: 20000000n, premiumRate: 2500000n},
-                            {balanceRate: 28000000n, premiumRate: 4000000n},
-                            {balanceRate: 50000000n, premiumRate: 10000000n},
-                        ],
-                    },
-                },
-            },
-            {
-                name: "BLUR",
-                chainLinkPriceFeed: undefined,
-                maxCumulativeDeltaDiff: 100000n,
-                marketCfg: {
-                    baseCfg: {
-                        minMarginPerLiquidityPosition: 10000000n,
-                        maxLeveragePerLiquidityPosition: 200n,
-                        liquidationFeeRatePerLiquidityPosition: 50000n,
-                        minMarginPerPosition: 10000000n,
-                        maxLeveragePerPosition: 10n,
-                        liquidationFeeRatePerPosition: 2500000n,
-                        maxPositionLiquidity: 700000000000n,
-                        maxPositionValueRate: 400000000n,
-                        maxSizeRatePerPosition: 5000000n,
-                        liquidationExecutionFee: 800000n,
-                    },
-                    feeRateCfg: {
-                        protocolFundingFeeRate: 16000n,
-                        fundingCoeff: 100000000n,
-                        protocolFundingCoeff: 75000000n,
-                        interestRate: 10000n,
-                        fundingBuffer: 50000n,
-                        liquidityFundingFeeRate: 25000000n,
-                        maxFundingRate: 4000000n,
-                    },
-                    priceCfg: {
-                        maxPriceImpactLiquidity: 700000000000n,
-                        liquidationVertexIndex: 7,
-                        dynamicDepthMode: 0,
-                        dynamicDepthLevel: 100000000n,
-                        vertices: [
-                            {balanceRate: 0, premiumRate: 0},
-                            {balanceRate: 1000000n, premiumRate: 50000n},
-                            {balanceRate: 3000000n, premiumRate: 100000n},
-                            {balanceRate: 5000000n, premiumRate: 150000n},
-                            {balanceRate: 6000000n, premiumRate: 200000n},
-                            {balanceRate: 9000000n, premiumRate: 600000n},
-                            {balanceRate: 12000000n, premiumRate: 1000000n},
-                            {balanceRate: 20000000n, premiumRate: 2500000n},
-                            {balanceRate: 28000000n, premiumRate: 4000000n},
-                            {balanceRate: 50000000n, premiumRate: 10000000n},
-                        ],
-                    },
-                },
-            },
-            {
-                name: "INJ",
-                chainLinkPriceFeed: undefined,
-                maxCumulativeDeltaDiff: 100000n,
-                marketCfg: {
-                    baseCfg: {
-                        minMarginPerLiquidityPosition: 10000000n,
-                        maxLeveragePerLiquidityPosition: 200n,
-                        liquidationFeeRatePerLiquidityPosition: 50000n,
-                        minMarginPerPosition: 10000000n,
-                        maxLeveragePerPosition: 10n,
-                        liquidationFeeRatePerPosition: 2500000n,
-                        maxPositionLiquidity: 900000000000n,
-                        maxPositionValueRate: 400000000n,
-                        maxSizeRatePerPosition: 5000000n,
-                        liquidationExecutionFee: 800000n,
-                    },
-                    feeRateCfg: {
-                        protocolFundingFeeRate: 16000n,
-                        fundingCoeff: 100000000n,
-                        protocolFundingCoeff: 75000000n,
-                        interestRate: 10000n,
-                        fundingBuffer: 50000n,
-                        liquidityFundingFeeRate: 25000000n,
-                        maxFundingRate: 4000000n,
-                    },
-                    priceCfg: {
-                        maxPriceImpactLiquidity: 900000000000n,
-                        liquidationVertexIndex: 7,
-                        dynamicDepthMode: 0,
-                        dynamicDepthLevel: 100000000n,
-                        vertices: [
-                            {balanceRate: 0, premiumRate: 0},
-                            {balanceRate: 1000000n, premiumRate: 50000n},
-                            {balanceRate: 3000000n, premiumRate: 100000n},
-                            {balanceRate: 5000000n, premiumRate: 150000n},
-                            {balanceRate: 6000000n, premiumRate: 200000n},
-                            {balanceRate: 9000000n, premiumRate: 600000n},
-                            {balanceRate: 12000000n, premiumRate: 1000000n},
-                            {balanceRate: 20000000n, premiumRate: 2500000n},
-                            {balanceRate: 28000000n, premiumRate: 4000000n},
-                            {balanceRate: 50000000n, premiumRate: 10000000n},
-                        ],
-                    },
-                },
-            },
-            {
-                name: "SEI",
-                chainLinkPriceFeed: undefined,
-                maxCumulativeDeltaDiff: 100000n,
-                marketCfg: {
-                    baseCfg: {
-                        minMarginPerLiquidityPosition: 10000000n,
-                        maxLeveragePerLiquidityPosition: 200n,
-                        liquidationFeeRatePerLiquidityPosition: 50000n,
-                        minMarginPerPosition: 10000000n,
-                        maxLeveragePerPosition: 10n,
-                        liquidationFeeRatePerPosition: 2500000n,
-                        maxPositionLiquidity: 900000000000n,
-                        maxPositionValueRate: 400000000n,
-                        maxSizeRatePerPosition: 5000000n,
-                        liquidationExecutionFee: 800000n,
-                    },
-                    feeRateCfg: {
-                        protocolFundingFeeRate: 16000n,
-                        fundingCoeff: 100000000n,
-                        protocolFundingCoeff: 75000000n,
-                        interestRate: 10000n,
-                        fundingBuffer: 50000n,
-                        liquidityFundingFeeRate: 25000000n,
-                        maxFundingRate: 4000000n,
-                    },
-                    priceCfg: {
-                        maxPriceImpactLiquidity: 900000000000n,
-                        liquidationVertexIndex: 7,
-                        dynamicDepthMode: 0,
-                        dynamicDepthLevel: 100000000n,
-                        vertices: [
-                            {balanceRate: 0, premiumRate: 0},
-                            {balanceRate: 1000000n, premiumRate: 50000n},
-                            {balanceRate: 3000000n, premiumRate: 100000n},
-                            {balanceRate: 5000000n, premiumRate: 150000n},
-                            {balanceRate: 6000000n, premiumRate: 200000n},
-                            {balanceRate: 9000000n, premiumRate: 600000n},
-                            {balanceRate: 12000000n, premiumRate: 1000000n},
-                            {balanceRate: 20000000n, premiumRate: 2500000n},
-                            {balanceRate: 28000000n, premiumRate: 4000000n},
-                            {balanceRate: 50000000n, premiumRate: 10000000n},
-                        ],
-                    },
-                },
-            },
-            {
-                name: "TRB",
-                chainLinkPriceFeed: undefined,
-                maxCumulativeDeltaDiff: 100000n,
-                marketCfg: {
-                    baseCfg: {
-                        minMarginPerLiquidityPosition: 10000000n,
-                        maxLeveragePerLiquidityPosition: 200n,
-                        liquidationFeeRatePerLiquidityPosition: 50000n,
-                        minMarginPerPosition: 10000000n,
-                        maxLeveragePerPosition: 10n,
-                        liquidationFeeRatePerPosition: 2500000n,
-                        maxPositionLiquidity: 900000000000n,
-                        maxPositionValueRate: 400000000n,
-                        maxSizeRatePerPosition: 5000000n,
-                        liquidationExecutionFee: 800000n,
-                    },
-                    feeRateCfg: {
-                        protocolFundingFeeRate: 16000n,
-                        fundingCoeff: 100000000n,
-                        protocolFundingCoeff: 75000000n,
-                        interestRate: 10000n,
-                        fundingBuffer: 50000n,
-                        liquidityFundingFeeRate: 25000000n,
-                        maxFundingRate: 4000000n,
-                    },
-                    priceCfg: {
-                        maxPriceImpactLiquidity: 900000000000n,
-                        liquidationVertexIndex: 7,
-                        dynamicDepthMode: 0,
-                        dynamicDepthLevel: 100000000n,
-                        vertices: [
-                            {balanceRate: 0, premiumRate: 0},
-                            {balanceRate: 1000000n, premiumRate: 50000n},
-                            {balanceRate: 3000000n, premiumRate: 100000n},
-                            {balanceRate: 5000000n, premiumRate: 150000n},
-                            {balanceRate: 6000000n, premiumRate: 200000n},
-                            {balanceRate: 9000000n, premiumRate: 600000n},
-                            {balanceRate: 12000000n, premiumRate: 1000000n},
-                            {balanceRate: 20000000n, premiumRate: 2500000n},
-                            {balanceRate: 28000000n, premiumRate: 4000000n},
-                            {balanceRate: 50000000n, premiumRate: 10000000n},
-                        ],
-                    },
-                },
-            },
-            {
-                name: "ATOM",
-                chainLinkPriceFeed: "0xCDA67618e51762235eacA373894F0C79256768fa",
-                maxCumulativeDeltaDiff: 100000n,
-                marketCfg: {
-                    baseCfg: {
-                        minMarginPerLiquidityPosition: 10000000n,
-                        maxLeveragePerLiquidityPosition: 200n,
-                        liquidationFeeRatePerLiquidityPosition: 50000n,
-                        minMarginPerPosition: 10000000n,
-                        maxLeveragePerPosition: 10n,
-                        liquidationFeeRatePerPosition: 2500000n,
-                        maxPositionLiquidity: 900000000000n,
-                        maxPositionValueRate: 400000000n,
-                        maxSizeRatePerPosition: 5000000n,
-                        liquidationExecutionFee: 800000n,
-                    },
-                    feeRateCfg: {
-                        protocolFundingFeeRate: 16000n,
-                        fundingCoeff: 100000000n,
-                        protocolFundingCoeff: 75000000n,
-                        interestRate: 10000n,
-                        fundingBuffer: 50000n,
-                        liquidityFundingFeeRate: 25000000n,
-                        maxFundingRate: 4000000n,
-                    },
-                    priceCfg: {
-                        maxPriceImpactLiquidity: 900000000000n,
-                        liquidationVertexIndex: 7,
-                        dynamicDepthMode: 0,
-                        dynamicDepthLevel: 100000000n,
-                        vertices: [
-                            {balanceRate: 0, premiumRate: 0},
-                            {balanceRate: 1000000n, premiumRate: 50000n},
-                            {balanceRate: 3000000n, premiumRate: 100000n},
-                            {balanceRate: 5000000n, premiumRate: 150000n},
-                            {balanceRate: 6000000n, premiumRate: 200000n},
-                            {balanceRate: 9000000n, premiumRate: 600000n},
-                            {balanceRate: 12000000n, premiumRate: 1000000n},
-                            {balanceRate: 20000000n, premiumRate: 2500000n},
-                            {balanceRate: 28000000n, premiumRate: 4000000n},
-                            {balanceRate: 50000000n, premiumRate: 10000000n},
-                        ],
-                    },
-                },
-            },
-            {
-                name: "APT",
-                chainLinkPriceFeed: undefined,
-                maxCumulativeDeltaDiff: 100000n,
-                marketCfg: {
-                    baseCfg: {
-                        minMarginPerLiquidityPosition: 10000000n,
-                        maxLeveragePerLiquidityPosition: 200n,
-                        liquidationFeeRatePerLiquidityPosition: 50000n,
-                        minMarginPerPosition: 10000000n,
-                        maxLeveragePerPosition: 10n,
-                        liquidationFeeRatePerPosition: 2500000n,
-                        maxPositionLiquidity: 900000000000n,
-                        maxPositionValueRate: 400000000n,
-                        maxSizeRatePerPosition: 5000000n,
-                        liquidationExecutionFee: 800000n,
-                    },
-                    feeRateCfg: {
-                        protocolFundingFeeRate: 16000n,
-                        fundingCoeff: 100000000n,
-                        protocolFundingCoeff: 75000000n,
-                        interestRate: 10000n,
-                        fundingBuffer: 50000n,
-                        liquidityFundingFeeRate: 25000000n,
-                        maxFundingRate: 4000000n,
-                    },
-                    priceCfg: {
-                        maxPriceImpactLiquidity: 900000000000n,
-                        liquidationVertexIndex: 7,
-                        dynamicDepthMode: 0,
-                        dynamicDepthLevel: 100000000n,
-                        vertices: [
-                            {balanceRate: 0, premiumRate: 0},
-                            {balanceRate: 1000000n, premiumRate: 50000n},
-                            {balanceRate: 3000000n, premiumRate: 100000n},
-                            {balanceRate: 5000000n, premiumRate: 150000n},
-                            {balanceRate: 6000000n, premiumRate: 200000n},
-                            {balanceRate: 9000000n, premiumRate: 600000n},
-                            {balanceRate: 12000000n, premiumRate: 1000000n},
-                            {balanceRate: 20000000n, premiumRate: 2500000n},
-                            {balanceRate: 28000000n, premiumRate: 4000000n},
-                            {balanceRate: 50000000n, premiumRate: 10000000n},
-                        ],
-                    },
-                },
-            },
-            {
-                name: "NEAR",
-                chainLinkPriceFeed: "0xBF5C3fB2633e924598A46B9D07a174a9DBcF57C0",
-                maxCumulativeDeltaDiff: 100000n,
-                marketCfg: {
-                    baseCfg: {
-                        minMarginPerLiquidityPosition: 10000000n,
-                        maxLeveragePerLiquidityPosition: 200n,
-                        liquidationFeeRatePerLiquidityPosition: 50000n,
-                        minMarginPerPosition: 10000000n,
-                        maxLeveragePerPosition: 10n,
-                        liquidationFeeRatePerPosition: 2500000n,
-                        maxPositionLiquidity: 900000000000n,
-                        maxPositionValueRate: 400000000n,
-                        maxSizeRatePerPosition: 5000000n,
-                        liquidationExecutionFee: 800000n,
-                    },
-                    feeRateCfg: {
-                        protocolFundingFeeRate: 16000n,
-                        fundingCoeff: 100000000n,
-                        protocolFundingCoeff: 75000000n,
-                        interestRate: 10000n,
-                        fundingBuffer: 50000n,
-                        liquidityFundingFeeRate: 25000000n,
-                        maxFundingRate: 4000000n,
-                    },
-                    priceCfg: {
-                        maxPriceImpactLiquidity: 900000000000n,
-                        liquidationVertexIndex: 7,
-                        dynamicDepthMode: 0,
-                        dynamicDepthLevel: 100000000n,
-                        vertices: [
-                            {balanceRate: 0, premiumRate: 0},
-                            {balanceRate: 1000000n, premiumRate: 50000n},
-                            {balanceRate: 3000000n, premiumRate: 100000n},
-                            {balanceRate: 5000000n, premiumRate: 150000n},
-                            {balanceRate: 6000000n, premiumRate: 200000n},
-                            {balanceRate: 9000000n, premiumRate: 600000n},
-                            {balanceRate: 12000000n, premiumRate: 1000000n},
-                            {balanceRate: 20000000n, premiumRate: 2500000n},
-                            {balanceRate: 28000000n, premiumRate: 4000000n},
-                            {balanceRate: 50000000n, premiumRate: 10000000n},
-                        ],
-                    },
-                },
-            },
-            {
-                name: "LDO",
-                chainLinkPriceFeed: "0xA43A34030088E6510FecCFb77E88ee5e7ed0fE64",
-                maxCumulativeDeltaDiff: 100000n,
-                marketCfg: {
-                    baseCfg: {
-                        minMarginPerLiquidityPosition: 10000000n,
-                        maxLeveragePerLiquidityPosition: 200n,
-                        liquidationFeeRatePerLiquidityPosition: 50000n,
-                        minMarginPerPosition: 10000000n,
-                        maxLeveragePerPosition: 10n,
-                        liquidationFeeRatePerPosition: 2500000n,
-                        maxPositionLiquidity: 800000000000n,
-                        maxPositionValueRate: 400000000n,
-                        maxSizeRatePerPosition: 5000000n,
-                        liquidationExecutionFee: 800000n,
-                    },
-                    feeRateCfg: {
-                        protocolFundingFeeRate: 16000n,
-                        fundingCoeff: 100000000n,
-                        protocolFundingCoeff: 75000000n,
-                        interestRate: 10000n,
-                        fundingBuffer: 50000n,
-                        liquidityFundingFeeRate: 25000000n,
-                        maxFundingRate: 4000000n,
-                    },
-                    priceCfg: {
-                        maxPriceImpactLiquidity: 800000000000n,
-                        liquidationVertexIndex: 7,
-                        dynamicDepthMode: 0,
-                        dynamicDepthLevel: 100000000n,
-                        vertices: [
-                            {balanceRate: 0, premiumRate: 0},
-                            {balanceRate: 1000000n, premiumRate: 50000n},
-                            {balanceRate: 3000000n, premiumRate: 100000n},
-                            {balanceRate: 5000000n, premiumRate: 150000n},
-                            {balanceRate: 6000000n, premiumRate: 200000n},
-                            {balanceRate: 9000000n, premiumRate: 600000n},
-                            {balanceRate: 12000000n, premiumRate: 1000000n},
-                            {balanceRate: 20000000n, premiumRate: 2500000n},
-                            {balanceRate: 28000000n, premiumRate: 4000000n},
-                            {balanceRate: 50000000n, premiumRate: 10000000n},
-                        ],
-                    },
-                },
-            },
-            {
-                name: "DYDX",
-                chainLinkPriceFeed: undefined,
-                maxCumulativeDeltaDiff: 100000n,
-                marketCfg: {
-                    baseCfg: {
-                        minMarginPerLiquidityPosition: 10000000n,
-                        maxLeveragePerLiquidityPosition: 200n,
-                        liquidationFeeRatePerLiquidityPosition: 50000n,
-                        minMarginPerPosition: 10000000n,
-                        maxLeveragePerPosition: 10n,
-                        liquidationFeeRatePerPosition: 2500000n,
-                        maxPositionLiquidity: 900000000000n,
-                        maxPositionValueRate: 400000000n,
-                        maxSizeRatePerPosition: 5000000n,
-                        liquidationExecutionFee: 800000n,
-                    },
-                    feeRateCfg: {
-                        protocolFundingFeeRate: 16000n,
-                        fundingCoeff: 100000000n,
-                        protocolFundingCoeff: 75000000n,
-                        interestRate: 10000n,
-                        fundingBuffer: 50000n,
-                        liquidityFundingFeeRate: 25000000n,
-                        maxFundingRate: 4000000n,
-                    },
-                    priceCfg: {
-                        maxPriceImpactLiquidity: 900000000000n,
-                        liquidationVertexIndex: 7,
-                        dynamicDepthMode: 0,
-                        dynamicDepthLevel: 100000000n,
-                        vertices: [
-                            {balanceRate: 0, premiumRate: 0},
-                            {balanceRate: 1000000n, premiumRate: 50000n},
-                            {balanceRate: 3000000n, premiumRate: 100000n},
-                            {balanceRate: 5000000n, premiumRate: 150000n},
-                            {balanceRate: 6000000n, premiumRate: 200000n},
-                            {balanceRate: 9000000n, premiumRate: 600000n},
-                            {balanceRate: 12000000n, premiumRate: 1000000n},
-                            {balanceRate: 20000000n, premiumRate: 2500000n},
-                            {balanceRate: 28000000n, premiumRate: 4000000n},
-                            {balanceRate: 50000000n, premiumRate: 10000000n},
-                        ],
-                    },
-                },
-            },
-            {
-                name: "MKR",
-                chainLinkPriceFeed: "0xdE9f0894670c4EFcacF370426F10C3AD2Cdf147e",
-                maxCumulativeDeltaDiff: 100000n,
-                marketCfg: {
-                    baseCfg: {
-                        minMarginPerLiquidityPosition: 10000000n,
-                        maxLeveragePerLiquidityPosition: 200n,
-                        liquidationFeeRatePerLiquidityPosition: 50000n,
-                        minMarginPerPosition: 10000000n,
-                        maxLeveragePerPosition: 10n,
-                        liquidationFeeRatePerPosition: 2500000n,
-                        maxPositionLiquidity: 900000000000n,
-                        maxPositionValueRate: 400000000n,
-                        maxSizeRatePerPosition: 5000000n,
-                        liquidationExecutionFee: 800000n,
-                    },
-                    feeRateCfg: {
-                        protocolFundingFeeRate: 16000n,
-                        fundingCoeff: 100000000n,
-                        protocolFundingCoeff: 75000000n,
-                        interestRate: 10000n,
-                        fundingBuffer: 50000n,
-                        liquidityFundingFeeRate: 25000000n,
-                        maxFundingRate: 4000000n,
-                    },
-                    priceCfg: {
-                        maxPriceImpactLiquidity: 900000000000n,
-                        liquidationVertexIndex: 7,
-                        dynamicDepthMode: 0,
-                        dynamicDepthLevel: 100000000n,
-                        vertices: [
-                            {balanceRate: 0, premiumRate: 0},
-                            {balanceRate: 1000000n, premiumRate: 50000n},
-                            {balanceRate: 3000000n, premiumRate: 100000n},
-                            {balanceRate: 5000000n, premiumRate: 150000n},
-                            {balanceRate: 6000000n, premiumRate: 200000n},
-                            {balanceRate: 9000000n, premiumRate: 600000n},
-                            {balanceRate: 12000000n, premiumRate: 1000000n},
-                            {balanceRate: 20000000n, premiumRate: 2500000n},
-                            {balanceRate: 28000000n, premiumRate: 4000000n},
-                            {balanceRate: 50000000n, premiumRate: 10000000n},
-                        ],
-                    },
-                },
-            },
-            {
-                name: "STX",
-                chainLinkPriceFeed: undefined,
-                maxCumulativeDeltaDiff: 100000n,
-                marketCfg: {
-                    baseCfg: {
-                        minMarginPerLiquidityPosition: 10000000n,
-                        maxLeveragePerLiquidityPosition: 200n,
-                        liquidationFeeRatePerLiquidityPosition: 50000n,
-                        minMarginPerPosition: 10000000n,
-                        maxLeveragePerPosition: 10n,
-                        liquidationFeeRatePerPosition: 2500000n,
-                        maxPositionLiquidity: 900000000000n,
-                        maxPositionValueRate: 400000000n,
-                        maxSizeRatePerPosition: 5000000n,
-                        liquidationExecutionFee: 800000n,
-                    },
-                    feeRateCfg: {
-                        protocolFundingFeeRate: 16000n,
-                        fundingCoeff: 100000000n,
-                        protocolFundingCoeff: 75000000n,
-                        interestRate: 10000n,
-                        fundingBuffer: 50000n,
-                        liquidityFundingFeeRate: 25000000n,
-                        maxFundingRate: 4000000n,
-                    },
-                    priceCfg: {
-                        maxPriceImpactLiquidity: 900000000000n,
-                        liquidationVertexIndex: 7,
-                        dynamicDepthMode: 0,
-                        dynamicDepthLevel: 100000000n,
-                        vertices: [
-                            {balanceRate: 0, premiumRate: 0},
-                            {balanceRate: 1000000n, premiumRate: 50000n},
-                            {balanceRate: 3000000n, premiumRate: 100000n},
-                            {balanceRate: 5000000n, premiumRate: 150000n},
-                            {balanceRate: 6000000n, premiumRate: 200000n},
-                            {balanceRate: 9000000n, premiumRate: 600000n},
-                            {balanceRate: 12000000n, premiumRate: 1000000n},
-                            {balanceRate: 20000000n, premiumRate: 2500000n},
-                            {balanceRate: 28000000n, premiumRate: 4000000n},
-                            {balanceRate: 50000000n, premiumRate: 10000000n},
-                        ],
-                    },
-                },
-            },
-            {
-                name: "FTM",
-                chainLinkPriceFeed: "0xFeaC1A3936514746e70170c0f539e70b23d36F19",
-                maxCumulativeDeltaDiff: 100000n,
-                marketCfg: {
-                    baseCfg: {
-                        minMarginPerLiquidityPosition: 10000000n,
-                        maxLeveragePerLiquidityPosition: 200n,
-                        liquidationFeeRatePerLiquidityPosition: 50000n,
-                        minMarginPerPosition: 10000000n,
-                        maxLeveragePerPosition: 10n,
-                        liquidationFeeRatePerPosition: 2500000n,
-                        maxPositionLiquidity: 900000000000n,
-                        maxPositionValueRate: 400000000n,
-                        maxSizeRatePerPosition: 5000000n,
-                        liquidationExecutionFee: 800000n,
-                    },
-                    feeRateCfg: {
-                        protocolFundingFeeRate: 16000n,
-                        fundingCoeff: 100000000n,
-                        protocolFundingCoeff: 75000000n,
-                        interestRate: 10000n,
-                        fundingBuffer: 50000n,
-                        liquidityFundingFeeRate: 25000000n,
-                        maxFundingRate: 4000000n,
-                    },
-                    priceCfg: {
-                        maxPriceImpactLiquidity: 900000000000n,
-                        liquidationVertexIndex: 7,
-                        dynamicDepthMode: 0,
-                        dynamicDepthLevel: 100000000n,
-                        vertices: [
-                            {balanceRate: 0, premiumRate: 0},
-                            {balanceRate: 1000000n, premiumRate: 50000n},
-                            {balanceRate: 3000000n, premiumRate: 100000n},
-                            {balanceRate: 5000000n, premiumRate: 150000n},
-                            {balanceRate: 6000000n, premiumRate: 200000n},
-                            {balanceRate: 9000000n, premiumRate: 600000n},
-                            {balanceRate: 12000000n, premiumRate: 1000000n},
-                            {balanceRate: 20000000n, premiumRate: 2500000n},
-                            {balanceRate: 28000000n, premiumRate: 4000000n},
-                            {balanceRate: 50000000n, premiumRate: 10000000n},
-                        ],
-                    },
-                },
-            },
-            {
-                name: "RUNE",
-                chainLinkPriceFeed: undefined,
-                maxCumulativeDeltaDiff: 100000n,
-                marketCfg: {
-                    baseCfg: {
-                        minMarginPerLiquidityPosition: 10000000n,
-                        maxLeveragePerLiquidityPosition: 200n,
-                        liquidationFeeRatePerLiquidityPosition: 50000n,
-                        minMarginPerPosition: 10000000n,
-                        maxLeveragePerPosition: 10n,
-                        liquidationFeeRatePerPosition: 2500000n,
-                        maxPositionLiquidity: 900000000000n,
-                        maxPositionValueRate: 400000000n,
-                        maxSizeRatePerPosition: 5000000n,
-                        liquidationExecutionFee: 800000n,
-                    },
-                    feeRateCfg: {
-                        protocolFundingFeeRate: 16000n,
-                        fundingCoeff: 100000000n,
-                        protocolFundingCoeff: 75000000n,
-                        interestRate: 10000n,
-                        fundingBuffer: 50000n,
-                        liquidityFundingFeeRate: 25000000n,
-                        maxFundingRate: 4000000n,
-                    },
-                    priceCfg: {
-                        maxPriceImpactLiquidity: 900000000000n,
-                        liquidationVertexIndex: 7,
-                        dynamicDepthMode: 0,
-                        dynamicDepthLevel: 100000000n,
-                        vertices: [
-                            {balanceRate: 0, premiumRate: 0},
-                            {balanceRate: 1000000n, premiumRate: 50000n},
-                            {balanceRate: 3000000n, premiumRate: 100000n},
-                            {balanceRate: 5000000n, premiumRate: 150000n},
-                            {balanceRate: 6000000n, premiumRate: 200000n},
-                            {balanceRate: 9000000n, premiumRate: 600000n},
-                            {balanceRate: 12000000n, premiumRate: 1000000n},
-                            {balanceRate: 20000000n, premiumRate: 2500000n},
-                            {balanceRate: 28000000n, premiumRate: 4000000n},
-                            {balanceRate: 50000000n, premiumRate: 10000000n},
-                        ],
-                    },
-                },
-            },
-            {
-                name: "UNI",
-                chainLinkPriceFeed: "0x9C917083fDb403ab5ADbEC26Ee294f6EcAda2720",
-                maxCumulativeDeltaDiff: 100000n,
-                marketCfg: {
-                    baseCfg: {
-                        minMarginPerLiquidityPosition: 10000000n,
-                        maxLeveragePerLiquidityPosition: 200n,
-                        liquidationFeeRatePerLiquidityPosition: 50000n,
-                        minMarginPerPosition: 10000000n,
-                        maxLeveragePerPosition: 10n,
-                        liquidationFeeRatePerPosition: 2500000n,
-                        maxPositionLiquidity: 900000000000n,
-                        maxPositionValueRate: 400000000n,
-                        maxSizeRatePerPosition: 5000000n,
-                        liquidationExecutionFee: 800000n,
-                    },
-                    feeRateCfg: {
-                        protocolFundingFeeRate: 16000n,
-                        fundingCoeff: 100000000n,
-                        protocolFundingCoeff: 75000000n,
-                        interestRate: 10000n,
-                        fundingBuffer: 50000n,
-                        liquidityFundingFeeRate: 25000000n,
-                        maxFundingRate: 4000000n,
-                    },
-                    priceCfg: {
-                        maxPriceImpactLiquidity: 900000000000n,
-                        liquidationVertexIndex: 7,
-                        dynamicDepthMode: 0,
-                        dynamicDepthLevel: 100000000n,
-                        vertices: [
-                            {balanceRate: 0, premiumRate: 0},
-                            {balanceRate: 1000000n, premiumRate: 50000n},
-                            {balanceRate: 3000000n, premiumRate: 100000n},
-                            {balanceRate: 5000000n, premiumRate: 150000n},
-                            {balanceRate: 6000000n, premiumRate: 200000n},
-                            {balanceRate: 9000000n, premiumRate: 600000n},
-                            {balanceRate: 12000000n, premiumRate: 1000000n},
-                            {balanceRate: 20000000n, premiumRate: 2500000n},
-                            {balanceRate: 28000000n, premiumRate: 4000000n},
-                            {balanceRate: 50000000n, premiumRate: 10000000n},
-                        ],
-                    },
-                },
-            },
-            {
-                name: "CRV",
-                chainLinkPriceFeed: "0xaebDA2c976cfd1eE1977Eac079B4382acb849325",
-                maxCumulativeDeltaDiff: 100000n,
-                marketCfg: {
-                    baseCfg: {
-                        minMarginPerLiquidityPosition: 10000000n,
-                        maxLeveragePerLiquidityPosition: 200n,
-                        liquidationFeeRatePerLiquidityPosition: 50000n,
-                        minMarginPerPosition: 10000000n,
-                        maxLeveragePerPosition: 10n,
-                        liquidationFeeRatePerPosition: 2500000n,
-                        maxPositionLiquidity: 800000000000n,
-                        maxPositionValueRate: 400000000n,
-                        maxSizeRatePerPosition: 5000000n,
-                        liquidationExecutionFee: 800000n,
-                    },
-                    feeRateCfg: {
-                        protocolFundingFeeRate: 16000n,
-                        fundingCoeff: 100000000n,
-                        protocolFundingCoeff: 75000000n,
-                        interestRate: 10000n,
-                        fundingBuffer: 50000n,
-                        liquidityFundingFeeRate: 25000000n,
-                        maxFundingRate: 4000000n,
-                    },
-                    priceCfg: {
-                        maxPriceImpactLiquidity: 800000000000n,
-                        liquidationVertexIndex: 7,
-                        dynamicDepthMode: 0,
-                        dynamicDepthLevel: 100000000n,
-                        vertices: [
-                            {balanceRate: 0, premiumRate: 0},
-                            {balanceRate: 1000000n, premiumRate: 50000n},
-                            {balanceRate: 3000000n, premiumRate: 100000n},
-                            {balanceRate: 5000000n, premiumRate: 150000n},
-                            {balanceRate: 6000000n, premiumRate: 200000n},
-                            {balanceRate: 9000000n, premiumRate: 600000n},
-                            {balanceRate: 12000000n, premiumRate: 1000000n},
-                            {balanceRate: 20000000n, premiumRate: 2500000n},
-                            {balanceRate: 28000000n, premiumRate: 4000000n},
-                            {balanceRate: 50000000n, premiumRate: 10000000n},
-                        ],
-                    },
-                },
-            },
-            {
-                name: "1000BONK",
-                chainLinkPriceFeed: undefined,
-                maxCumulativeDeltaDiff: 100000n,
-                marketCfg: {
-                    baseCfg: {
-                        minMarginPerLiquidityPosition: 10000000n,
-                        maxLeveragePerLiquidityPosition: 200n,
-                        liquidationFeeRatePerLiquidityPosition: 50000n,
-                        minMarginPerPosition: 10000000n,
-                        maxLeveragePerPosition: 10n,
-                        liquidationFeeRatePerPosition: 2500000n,
-                        maxPositionLiquidity: 1000000000000n,
-                        maxPositionValueRate: 400000000n,
-                        maxSizeRatePerPosition: 5000000n,
-                        liquidationExecutionFee: 800000n,
-                    },
-                    feeRateCfg: {
-                        protocolFundingFeeRate: 16000n,
-                        fundingCoeff: 100000000n,
-                        protocolFundingCoeff: 75000000n,
-                        interestRate: 10000n,
-                        fundingBuffer: 50000n,
-                        liquidityFundingFeeRate: 25000000n,
-                        maxFundingRate: 4000000n,
-                    },
-                    priceCfg: {
-                        maxPriceImpactLiquidity: 1000000000000n,
-                        liquidationVertexIndex: 7,
-                        dynamicDepthMode: 0,
-                        dynamicDepthLevel: 100000000n,
-                        vertices: [
-                            {balanceRate: 0, premiumRate: 0},
-                            {balanceRate: 1000000n, premiumRate: 50000n},
-                            {balanceRate: 3000000n, premiumRate: 100000n},
-                            {balanceRate: 5000000n, premiumRate: 150000n},
-                            {balanceRate: 6000000n, premiumRate: 200000n},
-                            {balanceRate: 9000000n, premiumRate: 600000n},
-                            {balanceRate: 12000000n, premiumRate: 1000000n},
-                            {balanceRate: 20000000n, premiumRate: 2500000n},
-                            {balanceRate: 28000000n, premiumRate: 4000000n},
-                            {balanceRate: 50000000n, premiumRate: 10000000n},
-                        ],
-                    },
-                },
-            },
-            {
-                name: "ENS",
-                chainLinkPriceFeed: undefined,
-                maxCumulativeDeltaDiff: 100000n,
-                marketCfg: {
-                    baseCfg: {
-                        minMarginPerLiquidityPosition: 10000000n,
-                        maxLeveragePerLiquidityPosition: 200n,
-                        liquidationFeeRatePerLiquidityPosition: 50000n,
-                        minMarginPerPosition: 10000000n,
-                        maxLeveragePerPosition: 10n,
-                        liquidationFeeRatePerPosition: 2500000n,
-                        maxPositionLiquidity: 700000000000n,
-                        maxPositionValueRate: 400000000n,
-                        maxSizeRatePerPosition: 5000000n,
-                        liquidationExecutionFee: 800000n,
-                    },
-                    feeRateCfg: {
-                        protocolFundingFeeRate: 16000n,
-                        fundingCoeff: 100000000n,
-                        protocolFundingCoeff: 75000000n,
-                        interestRate: 10000n,
-                        fundingBuffer: 50000n,
-                        liquidityFundingFeeRate: 25000000n,
-                        maxFundingRate: 4000000n,
-                    },
-                    priceCfg: {
-                        maxPriceImpactLiquidity: 700000000000n,
-                        liquidationVertexIndex: 7,
-                        dynamicDepthMode: 0,
-                        dynamicDepthLevel: 100000000n,
-                        vertices: [
-                            {balanceRate: 0, premiumRate: 0},
-                            {balanceRate: 1000000n, premiumRate: 50000n},
-                            {balanceRate: 3000000n, premiumRate: 100000n},
-                            {balanceRate: 5000000n, premiumRate: 150000n},
-                            {balanceRate: 6000000n, premiumRate: 200000n},
-                            {balanceRate: 9000000n, premiumRate: 600000n},
-                            {balanceRate: 12000000n, premiumRate: 1000000n},
-                            {balanceRate: 20000000n, premiumRate: 2500000n},
-                            {balanceRate: 28000000n, premiumRate: 4000000n},
-                            {balanceRate: 50000000n, premiumRate: 10000000n},
-                        ],
-                    },
-                },
-            },
-            {
-                name: "AAVE",
-                chainLinkPriceFeed: "0xaD1d5344AaDE45F43E596773Bcc4c423EAbdD034",
-                maxCumulativeDeltaDiff: 100000n,
-                marketCfg: {
-                    baseCfg: {
-                        minMarginPerLiquidityPosition: 10000000n,
-                        maxLeveragePerLiquidityPosition: 200n,
-                        liquidationFeeRatePerLiquidityPosition: 50000n,
-                        minMarginPerPosition: 10000000n,
-                        maxLeveragePerPosition: 10n,
-                        liquidationFeeRatePerPosition: 2500000n,
-                        maxPositionLiquidity: 800000000000n,
-                        maxPositionValueRate: 400000000n,
-                        maxSizeRatePerPosition: 5000000n,
-                        liquidationExecutionFee: 800000n,
-                    },
-                    feeRateCfg: {
-                        protocolFundingFeeRate: 16000n,
-                        fundingCoeff: 100000000n,
-                        protocolFundingCoeff: 75000000n,
-                        interestRate: 10000n,
-                        fundingBuffer: 50000n,
-                        liquidityFundingFeeRate: 25000000n,
-                        maxFundingRate: 4000000n,
-                    },
-                    priceCfg: {
-                        maxPriceImpactLiquidity: 800000000000n,
-                        liquidationVertexIndex: 7,
-                        dynamicDepthMode: 0,
-                        dynamicDepthLevel: 100000000n,
-                        vertices: [
-                            {balanceRate: 0, premiumRate: 0},
-                            {balanceRate: 1000000n, premiumRate: 50000n},
-                            {balanceRate: 3000000n, premiumRate: 100000n},
-                            {balanceRate: 5000000n, premiumRate: 150000n},
-                            {balanceRate: 6000000n, premiumRate: 200000n},
-                            {balanceRate: 9000000n, premiumRate: 600000n},
-                            {balanceRate: 12000000n, premiumRate: 1000000n},
-                            {balanceRate: 20000000n, premiumRate: 2500000n},
-                            {balanceRate: 28000000n, premiumRate: 4000000n},
-                            {balanceRate: 50000000n, premiumRate: 10000000n},
-                        ],
-                    },
-                },
-            },
-            {
-                name: "1000PEPE",
-                chainLinkPriceFeed: undefined,
-                maxCumulativeDeltaDiff: 100000n,
-                marketCfg: {
-                    baseCfg: {
-                        minMarginPerLiquidityPosition: 10000000n,
-                        maxLeveragePerLiquidityPosition: 200n,
-                        liquidationFeeRatePerLiquidityPosition: 50000n,
-                        minMarginPerPosition: 10000000n,
-                        maxLeveragePerPosition: 20n,
-                        liquidationFeeRatePerPosition: 1000000n,
-                        maxPositionLiquidity: 1500000000000n,
-                        maxPositionValueRate: 1000000000n,
-                        maxSizeRatePerPosition: 2000000n,
-                        liquidationExecutionFee: 800000n,
-                    },
-                    feeRateCfg: {
-                        protocolFundingFeeRate: 16000n,
-                        fundingCoeff: 100000000n,
-                        protocolFundingCoeff: 75000000n,
-                        interestRate: 10000n,
-                        fundingBuffer: 50000n,
-                        liquidityFundingFeeRate: 25000000n,
-                        maxFundingRate: 4000000n,
-                    },
-                    priceCfg: {
-                        maxPriceImpactLiquidity: 1500000000000n,
-                        liquidationVertexIndex: 6,
-                        dynamicDepthMode: 0,
-                        dynamicDepthLevel: 100000000n,
-                        vertices: [
-                            {balanceRate: 0, premiumRate: 0},
-                            {balanceRate: 1000000n, premiumRate: 50000n},
-                            {balanceRate: 3000000n, premiumRate: 100000n},
-                            {balanceRate: 5000000n, premiumRate: 150000n},
-                            {balanceRate: 6000000n, premiumRate: 200000n},
-                            {balanceRate: 9000000n, premiumRate: 600000n},
-                            {balanceRate: 12000000n, premiumRate: 1000000n},
-                            {balanceRate: 20000000n, premiumRate: 2500000n},
-                            {balanceRate: 28000000n, premiumRate: 4000000n},
-                            {balanceRate: 50000000n, premiumRate: 10000000n},
-                        ],
-                    },
-                },
-            },
-            {
-                name: "WLD",
-                chainLinkPriceFeed: undefined,
-                maxCumulativeDeltaDiff: 100000n,
-                marketCfg: {
-                    baseCfg: {
-                        minMarginPerLiquidityPosition: 10000000n,
-                        maxLeveragePerLiquidityPosition: 200n,
-                        liquidationFeeRatePerLiquidityPosition: 50000n,
-                        minMarginPerPosition: 10000000n,
-                        maxLeveragePerPosition: 20n,
-                        liquidationFeeRatePerPosition: 1000000n,
-                        maxPositionLiquidity: 1500000000000n,
-                        maxPositionValueRate: 1000000000n,
-                        maxSizeRatePerPosition: 2000000n,
-                        liquidationExecutionFee: 800000n,
-                    },
-                    feeRateCfg: {
-                        protocolFundingFeeRate: 16000n,
-                        fundingCoeff: 100000000n,
-                        protocolFundingCoeff: 75000000n,
-                        interestRate: 10000n,
-                        fundingBuffer: 50000n,
-                        liquidityFundingFeeRate: 25000000n,
-                        maxFundingRate: 4000000n,
-                    },
-                    priceCfg: {
-                        maxPriceImpactLiquidity: 1500000000000n,
-                        liquidationVertexIndex: 6,
-                        dynamicDepthMode: 0,
-                        dynamicDepthLevel: 100000000n,
-                        vertices: [
-                            {balanceRate: 0, premiumRate: 0},
-                            {balanceRate: 1000000n, premiumRate: 50000n},
-                            {balanceRate: 3000000n, premiumRate: 100000n},
-                            {balanceRate: 5000000n, premiumRate: 150000n},
-                            {balanceRate: 6000000n, premiumRate: 200000n},
-                            {balanceRate: 9000000n, premiumRate: 600000n},
-                            {balanceRate: 12000000n, premiumRate: 1000000n},
-                            {balanceRate: 20000000n, premiumRate: 2500000n},
-                            {balanceRate: 28000000n, premiumRate: 4000000n},
-                            {balanceRate: 50000000n, premiumRate: 10000000n},
-                        ],
-                    },
-                },
-            },
-            {
-                name: "MINA",
-                chainLinkPriceFeed: undefined,
-                maxCumulativeDeltaDiff: 100000n,
-                marketCfg: {
-                    baseCfg: {
-                        minMarginPerLiquidityPosition: 10000000n,
-                        maxLeveragePerLiquidityPosition: 200n,
-                        liquidationFeeRatePerLiquidityPosition: 50000n,
-                        minMarginPerPosition: 10000000n,
-                        maxLeveragePerPosition: 10n,
-                        liquidationFeeRatePerPosition: 2500000n,
-                        maxPositionLiquidity: 700000000000n,
-                        maxPositionValueRate: 400000000n,
-                        maxSizeRatePerPosition: 5000000n,
-                        liquidationExecutionFee: 800000n,
-                    },
-                    feeRateCfg: {
-                        protocolFundingFeeRate: 16000n,
-                        fundingCoeff: 100000000n,
-                        protocolFundingCoeff: 75000000n,
-                        interestRate: 10000n,
-                        fundingBuffer: 50000n,
-                        liquidityFundingFeeRate: 25000000n,
-                        maxFundingRate: 4000000n,
-                    },
-                    priceCfg: {
-                        maxPriceImpactLiquidity: 700000000000n,
-                        liquidationVertexIndex: 7,
-                        dynamicDepthMode: 0,
-                        dynamicDepthLevel: 100000000n,
-                        vertices: [
-                            {balanceRate: 0, premiumRate: 0},
-                            {balanceRate: 1000000n, premiumRate: 50000n},
-                            {balanceRate: 3000000n, premiumRate: 100000n},
-                            {balanceRate: 5000000n, premiumRate: 150000n},
-                            {balanceRate: 6000000n, premiumRate: 200000n},
-                            {balanceRate: 9000000n, premiumRate: 600000n},
-                            {balanceRate: 12000000n, premiumRate: 1000000n},
-                            {balanceRate: 20000000n, premiumRate: 2500000n},
-                            {balanceRate: 28000000n, premiumRate: 4000000n},
-                            {balanceRate: 50000000n, premiumRate: 10000000n},
-                        ],
-                    },
-                },
-            },
-            {
-                name: "JTO",
-                chainLinkPriceFeed: undefined,
-                maxCumulativeDeltaDiff: 100000n,
-                marketCfg: {
-                    baseCfg: {
-                        minMarginPerLiquidityPosition: 10000000n,
-                        maxLeveragePerLiquidityPosition: 200n,
-                        liquidationFeeRatePerLiquidityPosition: 50000n,
-                        minMarginPerPosition: 10000000n,
-                        maxLeveragePerPosition: 10n,
-                        liquidationFeeRatePerPosition: 2500000n,
-                        maxPositionLiquidity: 800000000000n,
-                        maxPositionValueRate: 400000000n,
-                        maxSizeRatePerPosition: 5000000n,
-                        liquidationExecutionFee: 800000n,
-                    },
-                    feeRateCfg: {
-                        protocolFundingFeeRate: 16000n,
-                        fundingCoeff: 100000000n,
-                        protocolFundingCoeff: 75000000n,
-                        interestRate: 10000n,
-                        fundingBuffer: 50000n,
-                        liquidityFundingFeeRate: 25000000n,
-                        maxFundingRate: 4000000n,
-                    },
-                    priceCfg: {
-                        maxPriceImpactLiquidity: 800000000000n,
-                        liquidationVertexIndex: 7,
-                        dynamicDepthMode: 0,
-                        dynamicDepthLevel: 100000000n,
-                        vertices: [
-                            {balanceRate: 0, premiumRate: 0},
-                            {balanceRate: 1000000n, premiumRate: 50000n},
-                            {balanceRate: 3000000n, premiumRate: 100000n},
-                            {balanceRate: 5000000n, premiumRate: 150000n},
-                            {balanceRate: 6000000n, premiumRate: 200000n},
-                            {balanceRate: 9000000n, premiumRate: 600000n},
-                            {balanceRate: 12000000n, premiumRate: 1000000n},
-                            {balanceRate: 20000000n, premiumRate: 2500000n},
-                            {balanceRate: 28000000n, premiumRate: 4000000n},
-                            {balanceRate: 50000000n, premiumRate: 10000000n},
-                        ],
-                    },
-                },
-            },
-            {
-                name: "RDNT",
-                chainLinkPriceFeed: "0x20d0Fcab0ECFD078B036b6CAf1FaC69A6453b352",
-                maxCumulativeDeltaDiff: 100000n,
-                marketCfg: {
-                    baseCfg: {
-                        minMarginPerLiquidityPosition: 10000000n,
-                        maxLeveragePerLiquidityPosition: 200n,
-                        liquidationFeeRatePerLiquidityPosition: 50000n,
-                        minMarginPerPosition: 10000000n,
-                        maxLeveragePerPosition: 10n,
-                        liquidationFeeRatePerPosition: 2500000n,
-                        maxPositionLiquidity: 700000000000n,
-                        maxPositionValueRate: 400000000n,
-                        maxSizeRatePerPosition: 5000000n,
-                        liquidationExecutionFee: 800000n,
-                    },
-                    feeRateCfg: {
-                        protocolFundingFeeRate: 16000n,
-                        fundingCoeff: 100000000n,
-                        protocolFundingCoeff: 75000000n,
-                        interestRate: 10000n,
-                        fundingBuffer: 50000n,
-                        liquidityFundingFeeRate: 25000000n,
-                        maxFundingRate: 4000000n,
-                    },
-                    priceCfg: {
-                        maxPriceImpactLiquidity: 700000000000n,
-                        liquidationVertexIndex: 7,
-                        dynamicDepthMode: 0,
-                        dynamicDepthLevel: 100000000n,
-                        vertices: [
-                            {balanceRate: 0, premiumRate: 0},
-                            {balanceRate: 1000000n, premiumRate: 50000n},
-                            {balanceRate: 3000000n, premiumRate: 100000n},
-                            {balanceRate: 5000000n, premiumRate: 150000n},
-                            {balanceRate: 6000000n, premiumRate: 200000n},
-                            {balanceRate: 9000000n, premiumRate: 600000n},
-                            {balanceRate: 12000000n, premiumRate: 1000000n},
-                            {balanceRate: 20000000n, premiumRate: 2500000n},
-                            {balanceRate: 28000000n, premiumRate: 4000000n},
-                            {balanceRate: 50000000n, premiumRate: 10000000n},
-                        ],
-                    },
-                },
-            },
-            {
-                name: "SUSHI",
-                chainLinkPriceFeed: "0xb2A8BA74cbca38508BA1632761b56C897060147C",
-                maxCumulativeDeltaDiff: 100000n,
-                marketCfg: {
-                    baseCfg: {
-                        minMarginPerLiquidityPosition: 10000000n,
-                        maxLeveragePerLiquidityPosition: 200n,
-                        liquidationFeeRatePerLiquidityPosition: 50000n,
-                        minMarginPerPosition: 10000000n,
-                        maxLeveragePerPosition: 10n,
-                        liquidationFeeRatePerPosition: 2500000n,
-                        maxPositionLiquidity: 700000000000n,
-                        maxPositionValueRate: 400000000n,
-                        maxSizeRatePerPosition: 5000000n,
-                        liquidationExecutionFee: 800000n,
-                    },
-                    feeRateCfg: {
-                        protocolFundingFeeRate: 16000n,
-                        fundingCoeff: 100000000n,
-                        protocolFundingCoeff: 75000000n,
-                        interestRate: 10000n,
-                        fundingBuffer: 50000n,
-                        liquidityFundingFeeRate: 25000000n,
-                        maxFundingRate: 4000000n,
-                    },
-                    priceCfg: {
-                        maxPriceImpactLiquidity: 700000000000n,
-                        liquidationVertexIndex: 7,
-                        dynamicDepthMode: 0,
-                        dynamicDepthLevel: 100000000n,
-                        vertices: [
-                            {balanceRate: 0, premiumRate: 0},
-                            {balanceRate: 1000000n, premiumRate: 50000n},
-                            {balanceRate: 3000000n, premiumRate: 100000n},
-                            {balanceRate: 5000000n, premiumRate: 150000n},
-                            {balanceRate: 6000000n, premiumRate: 200000n},
-                            {balanceRate: 9000000n, premiumRate: 600000n},
-                            {balanceRate: 12000000n, premiumRate: 1000000n},
-                            {balanceRate: 20000000n, premiumRate: 2500000n},
-                            {balanceRate: 28000000n, premiumRate: 4000000n},
-                            {balanceRate: 50000000n, premiumRate: 10000000n},
-                        ],
-                    },
-                },
-            },
-            {
-                name: "1INCH",
-                chainLinkPriceFeed: "0x4bC735Ef24bf286983024CAd5D03f0738865Aaef",
-                maxCumulativeDeltaDiff: 100000n,
-                marketCfg: {
-                    baseCfg: {
-                        minMarginPerLiquidityPosition: 10000000n,
-                        maxLeveragePerLiquidityPosition: 200n,
-                        liquidationFeeRatePerLiquidityPosition: 50000n,
-                        minMarginPerPosition: 10000000n,
-                        maxLeveragePerPosition: 10n,
-                        liquidationFeeRatePerPosition: 2500000n,
-                        maxPositionLiquidity: 700000000000n,
-                        maxPositionValueRate: 400000000n,
-                        maxSizeRatePerPosition: 5000000n,
-                        liquidationExecutionFee: 800000n,
-                    },
-                    feeRateCfg: {
-                        protocolFundingFeeRate: 16000n,
-                        fundingCoeff: 100000000n,
-                        protocolFundingCoeff: 75000000n,
-                        interestRate: 10000n,
-                        fundingBuffer: 50000n,
-                        liquidityFundingFeeRate: 25000000n,
-                        maxFundingRate: 4000000n,
-                    },
-                    priceCfg: {
-                        maxPriceImpactLiquidity: 700000000000n,
-                        liquidationVertexIndex: 7,
-                        dynamicDepthMode: 0,
-                        dynamicDepthLevel: 100000000n,
-                        vertices: [
-                            {balanceRate: 0, premiumRate: 0},
-                            {balanceRate: 1000000n, premiumRate: 50000n},
-                            {balanceRate: 3000000n, premiumRate: 100000n},
-                            {balanceRate: 5000000n, premiumRate: 150000n},
-                            {balanceRate: 6000000n, premiumRate: 200000n},
-                            {balanceRate: 9000000n, premiumRate: 600000n},
-                            {balanceRate: 12000000n, premiumRate: 1000000n},
-                            {balanceRate: 20000000n, premiumRate: 2500000n},
-                            {balanceRate: 28000000n, premiumRate: 4000000n},
-                            {balanceRate: 50000000n, premiumRate: 10000000n},
-                        ],
-                    },
-                },
-            },
-            {
-                name: "SNX",
-                chainLinkPriceFeed: "0x054296f0D036b95531B4E14aFB578B80CFb41252",
-                maxCumulativeDeltaDiff: 100000n,
-                marketCfg: {
-                    baseCfg: {
-                        minMarginPerLiquidityPosition: 10000000n,
-                        maxLeveragePerLiquidityPosition: 200n,
-                        liquidationFeeRatePerLiquidityPosition: 50000n,
-                        minMarginPerPosition: 10000000n,
-                        maxLeveragePerPosition: 10n,
-                        liquidationFeeRatePerPosition: 2500000n,
-                        maxPositionLiquidity: 700000000000n,
-                        maxPositionValueRate: 400000000n,
-                        maxSizeRatePerPosition: 5000000n,
-                        liquidationExecutionFee: 800000n,
-                    },
-                    feeRateCfg: {
-                        protocolFundingFeeRate: 16000n,
-                        fundingCoeff: 100000000n,
-                        protocolFundingCoeff: 75000000n,
-                        interestRate: 10000n,
-                        fundingBuffer: 50000n,
-                        liquidityFundingFeeRate: 25000000n,
-                        maxFundingRate: 4000000n,
-                    },
-                    priceCfg: {
-                        maxPriceImpactLiquidity: 700000000000n,
-                        liquidationVertexIndex: 7,
-                        dynamicDepthMode: 0,
-                        dynamicDepthLevel: 100000000n,
-                        vertices: [
-                            {balanceRate: 0, premiumRate: 0},
-                            {balanceRate: 1000000n, premiumRate: 50000n},
-                            {balanceRate: 3000000n, premiumRate: 100000n},
-                            {balanceRate: 5000000n, premiumRate: 150000n},
-                            {balanceRate: 6000000n, premiumRate: 200000n},
-                            {balanceRate: 9000000n, premiumRate: 600000n},
-                            {balanceRate: 12000000n, premiumRate: 1000000n},
-                            {balanceRate: 20000000n, premiumRate: 2500000n},
-                            {balanceRate: 28000000n, premiumRate: 4000000n},
-                            {balanceRate: 50000000n, premiumRate: 10000000n},
-                        ],
-                    },
-                },
-            },
-            {
-                name: "PENDLE",
-                chainLinkPriceFeed: "0x66853E19d73c0F9301fe099c324A1E9726953433",
-                maxCumulativeDeltaDiff: 100000n,
-                marketCfg: {
-                    baseCfg: {
-                        minMarginPerLiquidityPosition: 10000000n,
-                        maxLeveragePerLiquidityPosition: 200n,
-                        liquidationFeeRatePerLiquidityPosition: 50000n,
-                        minMarginPerPosition: 10000000n,
-                        maxLeveragePerPosition: 10n,
-                        liquidationFeeRatePerPosition: 2500000n,
-                        maxPositionLiquidity: 800000000000n,
-                        maxPositionValueRate: 400000000n,
-                        maxSizeRatePerPosition: 5000000n,
-                        liquidationExecutionFee: 800000n,
-                    },
-                    feeRateCfg: {
-                        protocolFundingFeeRate: 16000n,
-                        fundingCoeff: 100000000n,
-                        protocolFundingCoeff: 75000000n,
-                        interestRate: 10000n,
-                        fundingBuffer: 50000n,
-                        liquidityFundingFeeRate: 25000000n,
-                        maxFundingRate: 4000000n,
-                    },
-                    priceCfg: {
-                        maxPriceImpactLiquidity: 800000000000n,
-                        liquidationVertexIndex: 7,
-                        dynamicDepthMode: 0,
-                        dynamicDepthLevel: 100000000n,
-                        vertices: [
-                            {balanceRate: 0, premiumRate: 0},
-                            {balanceRate: 1000000n, premiumRate: 50000n},
-                            {balanceRate: 3000000n, premiumRate: 100000n},
-                            {balanceRate: 5000000n, premiumRate: 150000n},
-                            {balanceRate: 6000000n, premiumRate: 200000n},
-                            {balanceRate: 9000000n, premiumRate: 600000n},
-                            {balanceRate: 12000000n, premiumRate: 1000000n},
-                            {balanceRate: 20000000n, premiumRate: 2500000n},
-                            {balanceRate: 28000000n, premiumRate: 4000000n},
-                            {balanceRate: 50000000n, premiumRate: 10000000n},
-                        ],
-                    },
-                },
-            },
-            {
-                name: "NTRN",
-                chainLinkPriceFeed: undefined,
-                maxCumulativeDeltaDiff: 100000n,
-                marketCfg: {
-                    baseCfg: {
-                        minMarginPerLiquidityPosition: 10000000n,
-                        maxLeveragePerLiquidityPosition: 200n,
-                        liquidationFeeRatePerLiquidityPosition: 50000n,
-                        minMarginPerPosition: 10000000n,
-                        maxLeveragePerPosition: 10n,
-                        liquidationFeeRatePerPosition: 2500000n,
-                        maxPositionLiquidity: 700000000000n,
-                        maxPositionValueRate: 400000000n,
-                        maxSizeRatePerPosition: 5000000n,
-                        liquidationExecutionFee: 800000n,
-                    },
-                    feeRateCfg: {
-                        protocolFundingFeeRate: 16000n,
-                        fundingCoeff: 100000000n,
-                        protocolFundingCoeff: 75000000n,
-                        interestRate: 10000n,
-                        fundingBuffer: 50000n,
-                        liquidityFundingFeeRate: 25000000n,
-                        maxFundingRate: 4000000n,
-                    },
-                    priceCfg: {
-                        maxPriceImpactLiquidity: 700000000000n,
-                        liquidationVertexIndex: 7,
-                        dynamicDepthMode: 0,
-                        dynamicDepthLevel: 100000000n,
-                        vertices: [
-                            {balanceRate: 0, premiumRate: 0},
-                            {balanceRate: 1000000n, premiumRate: 50000n},
-                            {balanceRate: 3000000n, premiumRate: 100000n},
-                            {balanceRate: 5000000n, premiumRate: 150000n},
-                            {balanceRate: 6000000n, premiumRate: 200000n},
-                            {balanceRate: 9000000n, premiumRate: 600000n},
-                            {balanceRate: 12000000n, premiumRate: 1000000n},
-                            {balanceRate: 20000000n, premiumRate: 2500000n},
-                            {balanceRate: 28000000n, premiumRate: 4000000n},
-                            {balanceRate: 50000000n, premiumRate: 10000000n},
-                        ],
-                    },
-                },
-            },
-            {
-                name: "PYTH",
-                chainLinkPriceFeed: undefined,
-                maxCumulativeDeltaDiff: 100000n,
-                marketCfg: {
-                    baseCfg: {
-                        minMarginPerLiquidityPosition: 10000000n,
-                        maxLeveragePerLiquidityPosition: 200n,
-                        liquidationFeeRatePerLiquidityPosition: 50000n,
-                        minMarginPerPosition: 10000000n,
-                        maxLeveragePerPosition: 10n,
-                        liquidationFeeRatePerPosition: 2500000n,
-                        maxPositionLiquidity: 800000000000n,
-                        maxPositionValueRate: 400000000n,
-                        maxSizeRatePerPosition: 5000000n,
-                        liquidationExecutionFee: 800000n,
-                    },
-                    feeRateCfg: {
-                        protocolFundingFeeRate: 16000n,
-                        fundingCoeff: 100000000n,
-                        protocolFundingCoeff: 75000000n,
-                        interestRate: 10000n,
-                        fundingBuffer: 50000n,
-                        liquidityFundingFeeRate: 25000000n,
-                        maxFundingRate: 4000000n,
-                    },
-                    priceCfg: {
-                        maxPriceImpactLiquidity: 800000000000n,
-                        liquidationVertexIndex: 7,
-                        dynamicDepthMode: 0,
-                        dynamicDepthLevel: 100000000n,
-                        vertices: [
-                            {balanceRate: 0, premiumRate: 0},
-                            {balanceRate: 1000000n, premiumRate: 50000n},
-                            {balanceRate: 3000000n, premiumRate: 100000n},
-                            {balanceRate: 5000000n, premiumRate: 150000n},
-                            {balanceRate: 6000000n, premiumRate: 200000n},
-                            {balanceRate: 9000000n, premiumRate: 600000n},
-                            {balanceRate: 12000000n, premiumRate: 1000000n},
-                            {balanceRate: 20000000n, premiumRate: 2500000n},
-                            {balanceRate: 28000000n, premiumRate: 4000000n},
-                            {balanceRate: 50000000n, premiumRate: 10000000n},
-                        ],
-                    },
-                },
-            },
-            {
-                name: "GMX",
-                chainLinkPriceFeed: "0xDB98056FecFff59D032aB628337A4887110df3dB",
-                maxCumulativeDeltaDiff: 100000n,
-                marketCfg: {
-                    baseCfg: {
-                        minMarginPerLiquidityPosition: 10000000n,
-                        maxLeveragePerLiquidityPosition: 200n,
-                        liquidationFeeRatePerLiquidityPosition: 50000n,
-                        minMarginPerPosition: 10000000n,
-                        maxLeveragePerPosition: 10n,
-                        liquidationFeeRatePerPosition: 2500000n,
-                        maxPositionLiquidity: 700000000000n,
-                        maxPositionValueRate: 400000000n,
-                        maxSizeRatePerPosition: 5000000n,
-                        liquidationExecutionFee: 800000n,
-                    },
-                    feeRateCfg: {
-                        protocolFundingFeeRate: 16000n,
-                        fundingCoeff: 100000000n,
-                        protocolFundingCoeff: 75000000n,
-                        interestRate: 10000n,
-                        fundingBuffer: 50000n,
-                        liquidityFundingFeeRate: 25000000n,
-                        maxFundingRate: 4000000n,
-                    },
-                    priceCfg: {
-                        maxPriceImpactLiquidity: 700000000000n,
-                        liquidationVertexIndex: 7,
-                        dynamicDepthMode: 0,
-                        dynamicDepthLevel: 100000000n,
-                        vertices: [
-                            {balanceRate: 0, premiumRate: 0},
-                            {balanceRate: 1000000n, premiumRate: 50000n},
-                            {balanceRate: 3000000n, premiumRate: 100000n},
-                            {balanceRate: 5000000n, premiumRate: 150000n},
-                            {balanceRate: 6000000n, premiumRate: 200000n},
-                            {balanceRate: 9000000n, premiumRate: 600000n},
-                            {balanceRate: 12000000n, premiumRate: 1000000n},
-                            {balanceRate: 20000000n, premiumRate: 2500000n},
-                            {balanceRate: 28000000n, premiumRate: 4000000n},
-                            {balanceRate: 50000000n, premiumRate: 10000000n},
-                        ],
-                    },
-                },
-            },
-        ],
+        markets: loadMarketListings("arbitrum-mainnet"),
+        chainLinkReferenceData: "https://reference-data-directory.vercel.app/feeds-ethereum-mainnet-arbitrum-1.json",
         mixedExecutors: ["0x095A52eccB642AC82FF5Cb9059A82D5c4d2272df", "0x71324d35F7bCA2Db7D5afe3824531101C3e0Bf33"],
     },
 };
+
+export type Network = (typeof networks)[keyof typeof networks];
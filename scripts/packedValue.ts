@@ -0,0 +1,297 @@
+// This file was procedurally generated from scripts/generate/PackedValue.template.js, DO NOT MODIFY MANUALLY
+import {getAddress, toBeHex} from "ethers";
+
+// The bit layouts of contracts/types/PackedValue.sol over bigint, e.g. for the calldata of MixedExecutorUpgradeable
+export type PackedValue = bigint;
+
+const UINT256_MAX = (1n << 256n) - 1n;
+
+function checkUint(value: bigint, bits: number) {
+    if (value < 0n || value >> BigInt(bits) != 0n) {
+        throw new RangeError(`value ${value} does not fit in uint${bits}`);
+    }
+}
+
+function checkPosition(position: number) {
+    if (!Number.isInteger(position) || position < 0 || position > 255) {
+        throw new RangeError(`position ${position} does not fit in uint8`);
+    }
+}
+
+// the bits shifted beyond 256 bits are dropped, as the shift in Solidity does
+function pack(self: PackedValue, value: bigint, bits: number, position: number): PackedValue {
+    checkUint(self, 256);
+    checkUint(value, bits);
+    checkPosition(position);
+    return (self | (value << BigInt(position))) & UINT256_MAX;
+}
+
+function unpack(self: PackedValue, bits: number, position: number): bigint {
+    checkUint(self, 256);
+    checkPosition(position);
+    return (self >> BigInt(position)) & ((1n << BigInt(bits)) - 1n);
+}
+
+export function packBool(self: PackedValue, value: boolean, position: number): PackedValue {
+    return packUint8(self, value ? 1n : 0n, position);
+}
+
+export function unpackBool(self: PackedValue, position: number): boolean {
+    return unpack(self, 1, position) == 1n;
+}
+
+export function packAddress(self: PackedValue, value: string, position: number): PackedValue {
+    return packUint160(self, BigInt(getAddress(value)), position);
+}
+
+export function unpackAddress(self: PackedValue, position: number): string {
+    return getAddress(toBeHex(unpackUint160(self, position), 20));
+}
+
+export function packUint8(self: PackedValue, value: bigint, position: number): PackedValue {
+    return pack(self, value, 8, position);
+}
+
+export function unpackUint8(self: PackedValue, position: number): bigint {
+    return unpack(self, 8, position);
+}
+
+export function packUint16(self: PackedValue, value: bigint, position: number): PackedValue {
+    return pack(self, value, 16, position);
+}
+
+export function unpackUint16(self: PackedValue, position: number): bigint {
+    return unpack(self, 16, position);
+}
+
+export function packUint24(self: PackedValue, value: bigint, position: number): PackedValue {
+    return pack(self, value, 24, position);
+}
+
+export function unpackUint24(self: PackedValue, position: number): bigint {
+    return unpack(self, 24, position);
+}
+
+export function packUint32(self: PackedValue, value: bigint, position: number): PackedValue {
+    return pack(self, value, 32, position);
+}
+
+export function unpackUint32(self: PackedValue, position: number): bigint {
+    return unpack(self, 32, position);
+}
+
+export function packUint40(self: PackedValue, value: bigint, position: number): PackedValue {
+    return pack(self, value, 40, position);
+}
+
+export function unpackUint40(self: PackedValue, position: number): bigint {
+    return unpack(self, 40, position);
+}
+
+export function packUint48(self: PackedValue, value: bigint, position: number): PackedValue {
+    return pack(self, value, 48, position);
+}
+
+export function unpackUint48(self: PackedValue, position: number): bigint {
+    return unpack(self, 48, position);
+}
+
+export function packUint56(self: PackedValue, value: bigint, position: number): PackedValue {
+    return pack(self, value, 56, position);
+}
+
+export function unpackUint56(self: PackedValue, position: number): bigint {
+    return unpack(self, 56, position);
+}
+
+export function packUint64(self: PackedValue, value: bigint, position: number): PackedValue {
+    return pack(self, value, 64, position);
+}
+
+export function unpackUint64(self: PackedValue, position: number): bigint {
+    return unpack(self, 64, position);
+}
+
+export function packUint72(self: PackedValue, value: bigint, position: number): PackedValue {
+    return pack(self, value, 72, position);
+}
+
+export function unpackUint72(self: PackedValue, position: number): bigint {
+    return unpack(self, 72, position);
+}
+
+export function packUint80(self: PackedValue, value: bigint, position: number): PackedValue {
+    return pack(self, value, 80, position);
+}
+
+export function unpackUint80(self: PackedValue, position: number): bigint {
+    return unpack(self, 80, position);
+}
+
+export function packUint88(self: PackedValue, value: bigint, position: number): PackedValue {
+    return pack(self, value, 88, position);
+}
+
+export function unpackUint88(self: PackedValue, position: number): bigint {
+    return unpack(self, 88, position);
+}
+
+export function packUint96(self: PackedValue, value: bigint, position: number): PackedValue {
+    return pack(self, value, 96, position);
+}
+
+export function unpackUint96(self: PackedValue, position: number): bigint {
+    return unpack(self, 96, position);
+}
+
+export function packUint104(self: PackedValue, value: bigint, position: number): PackedValue {
+    return pack(self, value, 104, position);
+}
+
+export function unpackUint104(self: PackedValue, position: number): bigint {
+    return unpack(self, 104, position);
+}
+
+export function packUint112(self: PackedValue, value: bigint, position: number): PackedValue {
+    return pack(self, value, 112, position);
+}
+
+export function unpackUint112(self: PackedValue, position: number): bigint {
+    return unpack(self, 112, position);
+}
+
+export function packUint120(self: PackedValue, value: bigint, position: number): PackedValue {
+    return pack(self, value, 120, position);
+}
+
+export function unpackUint120(self: PackedValue, position: number): bigint {
+    return unpack(self, 120, position);
+}
+
+export function packUint128(self: PackedValue, value: bigint, position: number): PackedValue {
+    return pack(self, value, 128, position);
+}
+
+export function unpackUint128(self: PackedValue, position: number): bigint {
+    return unpack(self, 128, position);
+}
+
+export function packUint136(self: PackedValue, value: bigint, position: number): PackedValue {
+    return pack(self, value, 136, position);
+}
+
+export function unpackUint136(self: PackedValue, position: number): bigint {
+    return unpack(self, 136, position);
+}
+
+export function packUint144(self: PackedValue, value: bigint, position: number): PackedValue {
+    return pack(self, value, 144, position);
+}
+
+export function unpackUint144(self: PackedValue, position: number): bigint {
+    return unpack(self, 144, position);
+}
+
+export function packUint152(self: PackedValue, value: bigint, position: number): PackedValue {
+    return pack(self, value, 152, position);
+}
+
+export function unpackUint152(self: PackedValue, position: number): bigint {
+    return unpack(self, 152, position);
+}
+
+export function packUint160(self: PackedValue, value: bigint, position: number): PackedValue {
+    return pack(self, value, 160, position);
+}
+
+export function unpackUint160(self: PackedValue, position: number): bigint {
+    return unpack(self, 160, position);
+}
+
+export function packUint168(self: PackedValue, value: bigint, position: number): PackedValue {
+    return pack(self, value, 168, position);
+}
+
+export function unpackUint168(self: PackedValue, position: number): bigint {
+    return unpack(self, 168, position);
+}
+
+export function packUint176(self: PackedValue, value: bigint, position: number): PackedValue {
+    return pack(self, value, 176, position);
+}
+
+export function unpackUint176(self: PackedValue, position: number): bigint {
+    return unpack(self, 176, position);
+}
+
+export function packUint184(self: PackedValue, value: bigint, position: number): PackedValue {
+    return pack(self, value, 184, position);
+}
+
+export function unpackUint184(self: PackedValue, position: number): bigint {
+    return unpack(self, 184, position);
+}
+
+export function packUint192(self: PackedValue, value: bigint, position: number): PackedValue {
+    return pack(self, value, 192, position);
+}
+
+export function unpackUint192(self: PackedValue, position: number): bigint {
+    return unpack(self, 192, position);
+}
+
+export function packUint200(self: PackedValue, value: bigint, position: number): PackedValue {
+    return pack(self, value, 200, position);
+}
+
+export function unpackUint200(self: PackedValue, position: number): bigint {
+    return unpack(self, 200, position);
+}
+
+export function packUint208(self: PackedValue, value: bigint, position: number): PackedValue {
+    return pack(self, value, 208, position);
+}
+
+export function unpackUint208(self: PackedValue, position: number): bigint {
+    return unpack(self, 208, position);
+}
+
+export function packUint216(self: PackedValue, value: bigint, position: number): PackedValue {
+    return pack(self, value, 216, position);
+}
+
+export function unpackUint216(self: PackedValue, position: number): bigint {
+    return unpack(self, 216, position);
+}
+
+export function packUint224(self: PackedValue, value: bigint, position: number): PackedValue {
+    return pack(self, value, 224, position);
+}
+
+export function unpackUint224(self: PackedValue, position: number): bigint {
+    return unpack(self, 224, position);
+}
+
+export function packUint232(self: PackedValue, value: bigint, position: number): PackedValue {
+    return pack(self, value, 232, position);
+}
+
+export function unpackUint232(self: PackedValue, position: number): bigint {
+    return unpack(self, 232, position);
+}
+
+export function packUint240(self: PackedValue, value: bigint, position: number): PackedValue {
+    return pack(self, value, 240, position);
+}
+
+export function unpackUint240(self: PackedValue, position: number): bigint {
+    return unpack(self, 240, position);
+}
+
+export function packUint248(self: PackedValue, value: bigint, position: number): PackedValue {
+    return pack(self, value, 248, position);
+}
+
+export function unpackUint248(self: PackedValue, position: number): bigint {
+    return unpack(self, 248, position);
+}
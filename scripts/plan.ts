@@ -0,0 +1,66 @@
+export interface PlannedStep {
+    step: string;
+    status: "pending" | "confirmed";
+    from: string;
+    // contract name for deployments, contract address for calls
+    target: string;
+    call: string;
+    args: unknown[];
+    // predicted address of the deployed contract
+    address?: string;
+}
+
+export interface DeploymentPlan {
+    network: string;
+    chainId: string;
+    deployer: string;
+    nonce: number;
+    steps: PlannedStep[];
+    labels: Record<string, string>;
+}
+
+export function writePlan(plan: DeploymentPlan) {
+    const fs = require("fs");
+    if (!fs.existsSync("deployments")) {
+        fs.mkdirSync("deployments");
+    }
+    const json = JSON.stringify(plan, (_, value) => (typeof value === "bigint" ? value.toString() : value), 4);
+    fs.writeFileSync(`deployments/${plan.chainId}.plan.json`, json);
+    const markdown = formatPlan(plan);
+    fs.writeFileSync(`deployments/${plan.chainId}.plan.md`, markdown);
+    console.log(markdown);
+    console.log(`💾 deployment plan output to deployments/${plan.chainId}.plan.{json,md}`);
+}
+
+export function formatPlan(plan: DeploymentPlan) {
+    const label = (value: unknown): string => {
+        if (Array.isArray(value)) {
+            return `[${value.map(label).join(", ")}]`;
+        }
+        const str = String(value);
+        const name = plan.labels[str];
+        return name == undefined ? str : `${str} (${name})`;
+    };
+    const lines = [
+        `# Deployment plan for ${plan.network} (chain id ${plan.chainId})`,
+        "",
+        `Deployer: ${label(plan.deployer)}, starting nonce: ${plan.nonce}`,
+        "",
+        "| # | Status | Step | From | Target | Call | Arguments | Address |",
+        "| - | ------ | ---- | ---- | ------ | ---- | --------- | ------- |",
+    ];
+    plan.steps.forEach((step, i) => {
+        const cells = [
+            `${i + 1}`,
+            step.status,
+            step.step,
+            label(step.from),
+            label(step.target),
+            step.call,
+            step.args.map(label).join("<br>"),
+            step.address ?? "",
+        ];
+        lines.push(`| ${cells.join(" | ")} |`);
+    });
+    return lines.join("\n") + "\n";
+}
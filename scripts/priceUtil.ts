@@ -0,0 +1,606 @@
+import {MarketPriceConfig, VERTEX_NUM, LATEST_VERTEX, BASIS_POINTS_DIVISOR} from "./marketConfig";
+import {flip, isLong, requireValidSide, Side} from "./side";
+import {mulDiv, Q96} from "./units";
+import type {IMarketLiquidityPosition, IMarketManager} from "../typechain-types";
+
+// Mirrors PriceUtil.updatePriceState and the price vertex updates of MarketManager.changePriceVertex, so that the trade
+// price and the price state after a trade can be computed from a snapshot of the market without a node. The arithmetic
+// is exact on bigint, and the checks that revert on chain throw a PriceUtilError.
+
+const Q152 = 1n << 152n;
+
+export interface PriceVertex {
+    size: bigint;
+    premiumRateX96: bigint;
+}
+
+export interface PriceState {
+    premiumRateX96: bigint;
+    pendingVertexIndex: number;
+    currentVertexIndex: number;
+    basisIndexPriceX96: bigint;
+    priceVertices: PriceVertex[];
+    liquidationBufferNetSizes: bigint[];
+}
+
+export interface GlobalLiquidityPosition {
+    netSize: bigint;
+    liquidationBufferNetSize: bigint;
+    // 0 until the first trade of the market
+    side: Side | 0;
+    liquidity: bigint;
+}
+
+export interface UpdatePriceStateParameter {
+    side: Side;
+    sizeDelta: bigint;
+    indexPriceX96: bigint;
+    liquidationVertexIndex: number;
+    liquidation: boolean;
+    dynamicDepthMode: number;
+    dynamicDepthLevel: bigint;
+}
+
+// What MarketManager.changePriceVertex reads to recalculate the vertices when the net position of LPs decreases: the
+// price config of the market and the max index price of the price feed
+export interface PriceVertexContext {
+    priceCfg: MarketPriceConfig;
+    maxPriceX96: bigint;
+}
+
+export interface SimulateMoveStep {
+    side: Side;
+    sizeLeft: bigint;
+    indexPriceX96: bigint;
+    basisIndexPriceX96: bigint;
+    improveBalance: boolean;
+    from: PriceVertex;
+    current: PriceVertex;
+    to: PriceVertex;
+}
+
+export interface PriceStateUpdate {
+    tradePriceX96: bigint;
+    premiumRateAfterX96: bigint;
+    currentVertexIndexBefore: number;
+    currentVertexIndexAfter: number;
+    // the (startExclusive, endInclusive] range of the vertices passed to changePriceVertex, if any. Without a
+    // PriceVertexContext, the vertices in the range are left unchanged in `priceState`.
+    changedVertices?: {startExclusive: number; endInclusive: number};
+    globalLiquidityPosition: GlobalLiquidityPosition;
+    priceState: PriceState;
+}
+
+// The custom error, or the panic, the contracts revert with
+export class PriceUtilError extends Error {
+    constructor(readonly reason: string) {
+        super(`PriceUtil reverts with ${reason}`);
+        this.name = "PriceUtilError";
+    }
+}
+
+function toUint(value: bigint, bits: number) {
+    if (value < 0n) {
+        throw new PriceUtilError(`SafeCastOverflowedIntToUint(${value})`);
+    }
+    if (value >> BigInt(bits) != 0n) {
+        throw new PriceUtilError(`SafeCastOverflowedUintDowncast(${bits}, ${value})`);
+    }
+    return value;
+}
+
+function toInt(value: bigint, bits: number) {
+    const limit = 1n << BigInt(bits - 1);
+    if (value < -limit || value >= limit) {
+        throw new PriceUtilError(
+            bits == 256 ? `SafeCastOverflowedUintToInt(${value})` : `SafeCastOverflowedIntDowncast(${bits}, ${value})`,
+        );
+    }
+    return value;
+}
+
+// the checked arithmetic of Solidity on uint128
+function checkedUint128(value: bigint) {
+    if (value < 0n || value >> 128n != 0n) {
+        throw new PriceUtilError("Panic(0x11)");
+    }
+    return value;
+}
+
+function ceilDiv(a: bigint, b: bigint) {
+    if (b == 0n) {
+        throw new PriceUtilError("Panic(0x12)");
+    }
+    return a == 0n ? 0n : (a - 1n) / b + 1n;
+}
+
+function div(a: bigint, b: bigint) {
+    if (b == 0n) {
+        throw new PriceUtilError("Panic(0x12)");
+    }
+    return a / b;
+}
+
+function mulDivChecked(x: bigint, y: bigint, denominator: bigint, up: boolean) {
+    try {
+        return mulDiv(x, y, denominator, up ? "up" : "down");
+    } catch (e) {
+        throw new PriceUtilError(denominator == 0n ? "Panic(0x12)" : "MathOverflowedMulDiv()");
+    }
+}
+
+// uint256(x) of a negative int256 wraps, which the following SafeCast then rejects
+function asUint256(value: bigint) {
+    return value < 0n ? value + (1n << 256n) : value;
+}
+
+function copyPriceState(state: PriceState): PriceState {
+    return {
+        ...state,
+        priceVertices: state.priceVertices.map((vertex) => ({...vertex})),
+        liquidationBufferNetSizes: [...state.liquidationBufferNetSizes],
+    };
+}
+
+// Calculates the trade price of `parameter` and the price state after it, leaving the inputs unchanged
+export function updatePriceState(
+    globalPosition: GlobalLiquidityPosition,
+    priceState: PriceState,
+    parameter: UpdatePriceStateParameter,
+    vertexContext?: PriceVertexContext,
+): PriceStateUpdate {
+    if (parameter.sizeDelta == 0n) {
+        throw new PriceUtilError("ZeroSizeDelta()");
+    }
+    const state = copyPriceState(priceState);
+    const globalPositionCache = {...globalPosition};
+    const priceStateCache = {
+        premiumRateX96: state.premiumRateX96,
+        pendingVertexIndex: state.pendingVertexIndex,
+        liquidationVertexIndex: parameter.liquidationVertexIndex,
+        currentVertexIndex: state.currentVertexIndex,
+        basisIndexPriceX96: state.basisIndexPriceX96,
+    };
+    let changedVertices: PriceStateUpdate["changedVertices"];
+
+    let balanced = (globalPositionCache.netSize | globalPositionCache.liquidationBufferNetSize) == 0n;
+    if (balanced) {
+        priceStateCache.basisIndexPriceX96 = parameter.indexPriceX96;
+    }
+
+    const improveBalance = parameter.side === globalPositionCache.side && !balanced;
+    let {tradePriceX96TimesSizeTotal, sizeLeft, totalBufferUsed} = _updatePriceState(
+        globalPositionCache,
+        state,
+        priceStateCache,
+        parameter,
+        improveBalance,
+    );
+
+    if (!improveBalance) {
+        globalPositionCache.side = flip(parameter.side);
+        globalPositionCache.netSize = checkedUint128(
+            globalPositionCache.netSize + checkedUint128(parameter.sizeDelta - totalBufferUsed),
+        );
+        globalPositionCache.liquidationBufferNetSize = checkedUint128(
+            globalPositionCache.liquidationBufferNetSize + totalBufferUsed,
+        );
+    } else {
+        // When the net position of LP decreases and reaches or crosses the vertex,
+        // at least the vertex represented by (current, pending] needs to be updated
+        if (priceStateCache.pendingVertexIndex > priceStateCache.currentVertexIndex) {
+            changedVertices = changePriceVertex(
+                globalPositionCache,
+                state,
+                priceStateCache.currentVertexIndex,
+                priceStateCache.pendingVertexIndex,
+                vertexContext,
+            );
+            state.pendingVertexIndex = priceStateCache.currentVertexIndex;
+        }
+
+        const improveBalanceTotalSizeUsed = checkedUint128(parameter.sizeDelta - sizeLeft);
+        globalPositionCache.netSize = checkedUint128(
+            globalPositionCache.netSize - checkedUint128(improveBalanceTotalSizeUsed - totalBufferUsed),
+        );
+        globalPositionCache.liquidationBufferNetSize = checkedUint128(
+            globalPositionCache.liquidationBufferNetSize - totalBufferUsed,
+        );
+
+        const meanPriceX96 = toUint(
+            isLong(parameter.side)
+                ? ceilDiv(asUint256(tradePriceX96TimesSizeTotal), improveBalanceTotalSizeUsed)
+                : div(asUint256(tradePriceX96TimesSizeTotal), improveBalanceTotalSizeUsed),
+            160,
+        );
+
+        const dynamicDepthPriceX96 =
+            parameter.dynamicDepthMode == 0
+                ? calculateMarketPriceX96(
+                      globalPositionCache.side as Side,
+                      parameter.side,
+                      parameter.indexPriceX96,
+                      priceStateCache.basisIndexPriceX96,
+                      priceStateCache.premiumRateX96,
+                  )
+                : parameter.indexPriceX96;
+
+        // unchecked, with the subtraction on uint32
+        const improveBalanceTradePriceBeforeX96 =
+            (parameter.dynamicDepthLevel * dynamicDepthPriceX96 +
+                ((BASIS_POINTS_DIVISOR - parameter.dynamicDepthLevel) & 0xffffffffn) * meanPriceX96) &
+            ((1n << 256n) - 1n);
+        const improveBalanceTradePriceAfterX96 = toUint(
+            isLong(parameter.side)
+                ? ceilDiv(improveBalanceTradePriceBeforeX96, BASIS_POINTS_DIVISOR)
+                : improveBalanceTradePriceBeforeX96 / BASIS_POINTS_DIVISOR,
+            160,
+        );
+
+        tradePriceX96TimesSizeTotal = toInt(improveBalanceTradePriceAfterX96 * improveBalanceTotalSizeUsed, 256);
+    }
+
+    if (sizeLeft > 0n) {
+        if ((globalPositionCache.netSize | globalPositionCache.liquidationBufferNetSize) != 0n) {
+            throw new PriceUtilError("Panic(0x01)");
+        }
+        globalPositionCache.side = flip(globalPositionCache.side as Side);
+
+        balanced = true;
+        priceStateCache.basisIndexPriceX96 = parameter.indexPriceX96;
+
+        const second = _updatePriceState(
+            globalPositionCache,
+            state,
+            priceStateCache,
+            {...parameter, sizeDelta: sizeLeft},
+            false,
+        );
+
+        tradePriceX96TimesSizeTotal += second.tradePriceX96TimesSizeTotal;
+
+        globalPositionCache.netSize = checkedUint128(sizeLeft - second.totalBufferUsed);
+        globalPositionCache.liquidationBufferNetSize = second.totalBufferUsed;
+    }
+
+    if (tradePriceX96TimesSizeTotal < 0n) {
+        throw new PriceUtilError(`InvalidTradePrice(${tradePriceX96TimesSizeTotal})`);
+    }
+
+    const tradePriceX96 = toUint(
+        isLong(parameter.side)
+            ? ceilDiv(tradePriceX96TimesSizeTotal, parameter.sizeDelta)
+            : tradePriceX96TimesSizeTotal / parameter.sizeDelta,
+        160,
+    );
+
+    if (balanced) {
+        state.basisIndexPriceX96 = priceStateCache.basisIndexPriceX96;
+    }
+    state.currentVertexIndex = priceStateCache.currentVertexIndex;
+    state.premiumRateX96 = priceStateCache.premiumRateX96;
+    return {
+        tradePriceX96,
+        premiumRateAfterX96: state.premiumRateX96,
+        currentVertexIndexBefore: priceState.currentVertexIndex,
+        currentVertexIndexAfter: state.currentVertexIndex,
+        changedVertices,
+        globalLiquidityPosition: globalPositionCache,
+        priceState: state,
+    };
+}
+
+function _updatePriceState(
+    globalPositionCache: GlobalLiquidityPosition,
+    priceState: PriceState,
+    priceStateCache: {
+        premiumRateX96: bigint;
+        liquidationVertexIndex: number;
+        currentVertexIndex: number;
+        basisIndexPriceX96: bigint;
+    },
+    parameter: UpdatePriceStateParameter,
+    improveBalance: boolean,
+) {
+    let tradePriceX96TimesSizeTotal = 0n;
+    let sizeLeft = 0n;
+    let totalBufferUsed = 0n;
+    const step: SimulateMoveStep = {
+        side: parameter.side,
+        sizeLeft: parameter.sizeDelta,
+        indexPriceX96: parameter.indexPriceX96,
+        basisIndexPriceX96: priceStateCache.basisIndexPriceX96,
+        improveBalance: improveBalance,
+        from: {size: 0n, premiumRateX96: 0n},
+        current: {size: globalPositionCache.netSize, premiumRateX96: priceStateCache.premiumRateX96},
+        to: {size: 0n, premiumRateX96: 0n},
+    };
+    const vertex = (index: number) => ({...priceState.priceVertices[index]});
+    if (!step.improveBalance) {
+        // Balance rate got worse
+        if (priceStateCache.currentVertexIndex == 0) {
+            priceStateCache.currentVertexIndex = 1;
+        }
+        const end = parameter.liquidation ? priceStateCache.liquidationVertexIndex + 1 : VERTEX_NUM;
+        for (let i = priceStateCache.currentVertexIndex; i < end && step.sizeLeft > 0n; ++i) {
+            [step.from, step.to] = [vertex(i - 1), vertex(i)];
+            const {tradePriceX96, sizeUsed, premiumRateAfterX96} = simulateMove(step);
+
+            if (sizeUsed < step.sizeLeft && !(parameter.liquidation && i == priceStateCache.liquidationVertexIndex)) {
+                // Crossed
+                priceStateCache.currentVertexIndex = i + 1;
+                step.current = step.to;
+            }
+
+            step.sizeLeft -= sizeUsed;
+            tradePriceX96TimesSizeTotal += tradePriceX96 * sizeUsed;
+            priceStateCache.premiumRateX96 = premiumRateAfterX96;
+        }
+
+        if (step.sizeLeft > 0n) {
+            if (!parameter.liquidation) {
+                throw new PriceUtilError("MaxPremiumRateExceeded()");
+            }
+
+            step.current = step.from = step.to = vertex(priceStateCache.liquidationVertexIndex);
+            const {tradePriceX96} = simulateMove(step);
+            tradePriceX96TimesSizeTotal += tradePriceX96 * step.sizeLeft;
+
+            totalBufferUsed += step.sizeLeft;
+
+            const liquidationVertexIndex = priceStateCache.liquidationVertexIndex;
+            priceState.liquidationBufferNetSizes[liquidationVertexIndex] = checkedUint128(
+                priceState.liquidationBufferNetSizes[liquidationVertexIndex] + step.sizeLeft,
+            );
+        }
+    } else {
+        // Balance rate got better, note that when `i` == 0, loop continues to use liquidation buffer in (0, 0)
+        for (let i = priceStateCache.currentVertexIndex; step.sizeLeft > 0n; --i) {
+            // Use liquidation buffer in `from`
+            let bufferSizeAfter = priceState.liquidationBufferNetSizes[i];
+            if (bufferSizeAfter > 0n) {
+                step.from = step.to = vertex(i);
+                const {tradePriceX96} = simulateMove(step);
+                const sizeUsed = bufferSizeAfter < step.sizeLeft ? bufferSizeAfter : step.sizeLeft;
+                bufferSizeAfter -= sizeUsed;
+                priceState.liquidationBufferNetSizes[i] = bufferSizeAfter;
+                totalBufferUsed += sizeUsed;
+
+                step.sizeLeft -= sizeUsed;
+                tradePriceX96TimesSizeTotal += tradePriceX96 * sizeUsed;
+            }
+            if (i == 0) {
+                break;
+            }
+            if (step.sizeLeft > 0n) {
+                step.from = vertex(i);
+                step.to = vertex(i - 1);
+                const {tradePriceX96, sizeUsed, reached, premiumRateAfterX96} = simulateMove(step);
+                if (reached) {
+                    // Reached or crossed
+                    priceStateCache.currentVertexIndex = i - 1;
+                    step.current = step.to;
+                }
+                step.sizeLeft -= sizeUsed;
+                tradePriceX96TimesSizeTotal += tradePriceX96 * sizeUsed;
+                priceStateCache.premiumRateX96 = premiumRateAfterX96;
+            }
+        }
+        sizeLeft = step.sizeLeft;
+    }
+    return {tradePriceX96TimesSizeTotal, sizeLeft, totalBufferUsed};
+}
+
+// Recalculates the vertices in (startExclusive, endInclusive] as MarketManager.changePriceVertex does, and returns the
+// range after its extensions
+function changePriceVertex(
+    globalPosition: GlobalLiquidityPosition,
+    priceState: PriceState,
+    startExclusive: number,
+    endInclusive: number,
+    vertexContext: PriceVertexContext | undefined,
+) {
+    const vertices = priceState.priceVertices;
+    // If the vertex represented by end is the same as the vertex represented by end + 1,
+    // then the vertices in the range (start, LATEST_VERTEX] need to be updated
+    if (endInclusive < LATEST_VERTEX) {
+        const previous = vertices[endInclusive];
+        const next = vertices[endInclusive + 1];
+        if (previous.size >= next.size || previous.premiumRateX96 >= next.premiumRateX96) {
+            endInclusive = LATEST_VERTEX;
+        }
+    }
+    if (vertexContext == undefined) {
+        return {startExclusive, endInclusive};
+    }
+
+    const maxPriceImpactLiquidity = BigInt(vertexContext.priceCfg.maxPriceImpactLiquidity);
+    const liquidity =
+        globalPosition.liquidity < maxPriceImpactLiquidity ? globalPosition.liquidity : maxPriceImpactLiquidity;
+    for (let index = startExclusive + 1; index <= endInclusive; ++index) {
+        let {size: sizeAfter, premiumRateX96: premiumRateAfterX96} = calculatePriceVertex(
+            vertexContext.priceCfg.vertices[index],
+            liquidity,
+            vertexContext.maxPriceX96,
+        );
+        if (index > 1) {
+            const previous = vertices[index - 1];
+            if (previous.size >= sizeAfter || previous.premiumRateX96 >= premiumRateAfterX96) {
+                [sizeAfter, premiumRateAfterX96] = [previous.size, previous.premiumRateX96];
+            }
+        }
+
+        vertices[index] = {size: sizeAfter, premiumRateX96: premiumRateAfterX96};
+
+        // If the vertex represented by end is the same as the vertex represented by end + 1,
+        // then the vertices in range (start, LATEST_VERTEX] need to be updated
+        if (index == endInclusive && endInclusive < LATEST_VERTEX) {
+            const next = vertices[index + 1];
+            if (sizeAfter >= next.size || premiumRateAfterX96 >= next.premiumRateX96) {
+                endInclusive = LATEST_VERTEX;
+            }
+        }
+    }
+    return {startExclusive, endInclusive};
+}
+
+// Mirrors MarketUtil._calculatePriceVertex
+export function calculatePriceVertex(
+    vertexCfg: {balanceRate: bigint | number; premiumRate: bigint | number},
+    liquidity: bigint,
+    indexPriceX96: bigint,
+): PriceVertex {
+    const balanceRateX96 = (Q96 * BigInt(vertexCfg.balanceRate)) / BASIS_POINTS_DIVISOR;
+    return {
+        size: toUint(mulDivChecked(balanceRateX96, liquidity, indexPriceX96, false), 128),
+        // unchecked downcast
+        premiumRateX96: ((Q96 * BigInt(vertexCfg.premiumRate)) / BASIS_POINTS_DIVISOR) & ((1n << 128n) - 1n),
+    };
+}
+
+export function calculateAX248AndBX96(globalSide: Side, from: PriceVertex, to: PriceVertex) {
+    if (from.size > to.size) {
+        [from, to] = [to, from];
+    }
+    if (to.premiumRateX96 < from.premiumRateX96) {
+        throw new PriceUtilError("Panic(0x01)");
+    }
+
+    const sizeDelta = to.size - from.size;
+    const aX248 = mulDivChecked(to.premiumRateX96 - from.premiumRateX96, Q152, sizeDelta, true);
+
+    const numeratorPart1X96 = from.premiumRateX96 * to.size;
+    const numeratorPart2X96 = to.premiumRateX96 * from.size;
+    let bX96: bigint;
+    if (!isLong(globalSide)) {
+        if (numeratorPart1X96 >= numeratorPart2X96)
+            bX96 = toInt(div(numeratorPart1X96 - numeratorPart2X96, sizeDelta), 256);
+        else bX96 = -toInt(div(numeratorPart2X96 - numeratorPart1X96, sizeDelta), 256);
+    } else {
+        if (numeratorPart2X96 >= numeratorPart1X96)
+            bX96 = toInt(div(numeratorPart2X96 - numeratorPart1X96, sizeDelta), 256);
+        else bX96 = -toInt(div(numeratorPart1X96 - numeratorPart2X96, sizeDelta), 256);
+    }
+    return {aX248, bX96};
+}
+
+export function simulateMove(step: SimulateMoveStep) {
+    const {reached, sizeUsed} = calculateReachedAndSizeUsed(step);
+    const premiumRateAfterX96 = calculatePremiumRateAfterX96(step, reached, sizeUsed);
+    const premiumRateBeforeX96 = step.current.premiumRateX96;
+    const priceDeltaX96Down = mulDivChecked(
+        step.basisIndexPriceX96,
+        premiumRateBeforeX96 + premiumRateAfterX96,
+        Q96 << 1n,
+        false,
+    );
+    const priceDeltaX96Up = mulDivChecked(
+        step.basisIndexPriceX96,
+        premiumRateBeforeX96 + premiumRateAfterX96,
+        Q96 << 1n,
+        true,
+    );
+
+    let tradePriceX96: bigint;
+    if (isLong(step.side))
+        tradePriceX96 = step.improveBalance
+            ? toInt(step.indexPriceX96 - priceDeltaX96Down, 160)
+            : toInt(toInt(step.indexPriceX96 + priceDeltaX96Up, 256), 160);
+    else
+        tradePriceX96 = step.improveBalance
+            ? toInt(toInt(step.indexPriceX96 + priceDeltaX96Down, 256), 160)
+            : toInt(step.indexPriceX96 - priceDeltaX96Up, 160);
+    return {tradePriceX96, sizeUsed, reached, premiumRateAfterX96};
+}
+
+export function calculateReachedAndSizeUsed(step: SimulateMoveStep) {
+    const sizeCost = checkedUint128(
+        step.improveBalance ? step.current.size - step.to.size : step.to.size - step.current.size,
+    );
+    const reached = step.sizeLeft >= sizeCost;
+    const sizeUsed = reached ? sizeCost : step.sizeLeft;
+    return {reached, sizeUsed};
+}
+
+export function calculatePremiumRateAfterX96(step: SimulateMoveStep, reached: boolean, sizeUsed: bigint) {
+    if (reached) {
+        return step.to.premiumRateX96;
+    }
+    const globalSide = step.improveBalance ? step.side : flip(step.side);
+    let {aX248, bX96} = calculateAX248AndBX96(globalSide, step.from, step.to);
+    const sizeAfter = step.improveBalance
+        ? checkedUint128(step.current.size - sizeUsed)
+        : checkedUint128(step.current.size + sizeUsed);
+    if (isLong(globalSide)) {
+        bX96 = -bX96;
+    }
+    return toUint(toUint(toInt(mulDivChecked(aX248, sizeAfter, Q152, true), 256) + bX96, 256), 128);
+}
+
+export function calculateMarketPriceX96(
+    globalSide: Side,
+    side: Side,
+    indexPriceX96: bigint,
+    basisIndexPriceX96: bigint,
+    premiumRateX96: bigint,
+) {
+    const priceDeltaX96Down = mulDivChecked(basisIndexPriceX96, premiumRateX96, Q96, false);
+    const priceDeltaX96Up = mulDivChecked(basisIndexPriceX96, premiumRateX96, Q96, true);
+    if (isLong(globalSide)) {
+        if (isLong(side)) {
+            return toUint(indexPriceX96 > priceDeltaX96Down ? indexPriceX96 - priceDeltaX96Down : 0n, 160);
+        }
+        return toUint(indexPriceX96 > priceDeltaX96Up ? indexPriceX96 - priceDeltaX96Up : 0n, 160);
+    }
+    return toUint(isLong(side) ? indexPriceX96 + priceDeltaX96Up : indexPriceX96 + priceDeltaX96Down, 160);
+}
+
+// Builds the parameter PositionUtil passes for a trade of `side`, where a decrease of a position is a trade of the
+// opposite side
+export function priceStateParameter(
+    priceCfg: MarketPriceConfig,
+    side: Side,
+    sizeDelta: bigint,
+    indexPriceX96: bigint,
+    liquidation: boolean = false,
+): UpdatePriceStateParameter {
+    return {
+        side,
+        sizeDelta,
+        indexPriceX96,
+        liquidationVertexIndex: Number(priceCfg.liquidationVertexIndex),
+        liquidation,
+        dynamicDepthMode: Number(priceCfg.dynamicDepthMode),
+        dynamicDepthLevel: BigInt(priceCfg.dynamicDepthLevel),
+    };
+}
+
+// Converts the results of `marketManager.priceStates` and `marketManager.globalLiquidityPositions`
+export function toPriceState(result: IMarketManager.PriceStateStructOutput): PriceState {
+    return {
+        premiumRateX96: BigInt(result.premiumRateX96),
+        pendingVertexIndex: Number(result.pendingVertexIndex),
+        currentVertexIndex: Number(result.currentVertexIndex),
+        basisIndexPriceX96: BigInt(result.basisIndexPriceX96),
+        priceVertices: result.priceVertices.map((vertex) => ({
+            size: BigInt(vertex.size),
+            premiumRateX96: BigInt(vertex.premiumRateX96),
+        })),
+        liquidationBufferNetSizes: result.liquidationBufferNetSizes.map(BigInt),
+    };
+}
+
+export function toGlobalLiquidityPosition(
+    result: IMarketLiquidityPosition.GlobalLiquidityPositionStructOutput,
+): GlobalLiquidityPosition {
+    const side = Number(result.side);
+    if (side != 0) {
+        requireValidSide(side);
+    }
+    return {
+        netSize: BigInt(result.netSize),
+        liquidationBufferNetSize: BigInt(result.liquidationBufferNetSize),
+        side: side as Side | 0,
+        liquidity: BigInt(result.liquidity),
+    };
+}
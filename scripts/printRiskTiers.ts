@@ -0,0 +1,31 @@
+import {hardhatArguments} from "hardhat";
+import {networks} from "./networks";
+import {tierDeviations} from "./riskTiers";
+
+// Prints the risk tier of every market and the fields that deviate from it
+export async function printRiskTiers() {
+    const network = networks[hardhatArguments.network as keyof typeof networks];
+    if (network == undefined) {
+        throw new Error(`network ${hardhatArguments.network} is not defined`);
+    }
+    for (const market of network.markets) {
+        const deviations = tierDeviations(market.tier, market.marketCfg);
+        console.log(
+            `${market.name}: ${market.tier}${deviations.length == 0 ? "" : `, ${deviations.length} override(s)`}`,
+        );
+        for (const deviation of deviations) {
+            console.log(`    ${deviation.field}: ${deviation.actual} (tier ${deviation.tier})`);
+        }
+    }
+}
+
+async function main() {
+    await printRiskTiers();
+}
+
+main()
+    .then(() => process.exit(0))
+    .catch((error) => {
+        console.error(error);
+        process.exit(1);
+    });
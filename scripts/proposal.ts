@@ -0,0 +1,133 @@
+import {ethers} from "hardhat";
+import {BaseContract, id} from "ethers";
+
+export interface ProposalTransaction {
+    to: string;
+    value: string;
+    data: string;
+    description: string;
+}
+
+export interface Proposal {
+    name: string;
+    chainId: string;
+    // the account the transactions must be sent from, a multisig or a timelock controller
+    executor: string;
+    transactions: ProposalTransaction[];
+}
+
+const timelockAbi = [
+    "function getMinDelay() view returns (uint256)",
+    "function scheduleBatch(address[] targets, uint256[] values, bytes[] payloads, bytes32 predecessor, bytes32 salt, uint256 delay)",
+    "function executeBatch(address[] targets, uint256[] values, bytes[] payloads, bytes32 predecessor, bytes32 salt) payable",
+];
+
+export async function proposalTransaction(
+    contract: BaseContract,
+    method: string,
+    args: unknown[],
+    description: string,
+): Promise<ProposalTransaction> {
+    return {
+        to: await contract.getAddress(),
+        value: "0",
+        data: contract.interface.encodeFunctionData(method, args),
+        description: description,
+    };
+}
+
+// Writes the proposal as Safe Transaction Builder batch files. When the executor is a timelock controller, the
+// transactions are wrapped into a scheduleBatch batch and a matching executeBatch batch, to be imported after the delay.
+export async function writeProposal(proposal: Proposal) {
+    if (proposal.transactions.length == 0) {
+        console.log(`nothing to propose for ${proposal.name}`);
+        return;
+    }
+    const controller = new ethers.Contract(proposal.executor, timelockAbi, ethers.provider);
+    let delay: bigint;
+    try {
+        delay = await controller.getMinDelay();
+    } catch {
+        writeBatch(proposal, "", proposal.executor);
+        return;
+    }
+
+    const targets = proposal.transactions.map((tx) => tx.to);
+    const values = proposal.transactions.map((tx) => tx.value);
+    const payloads = proposal.transactions.map((tx) => tx.data);
+    const salt = id(proposal.name);
+    const descriptions = proposal.transactions.map((tx) => tx.description).join("; ");
+    writeBatch(
+        {
+            ...proposal,
+            transactions: [
+                await proposalTransaction(
+                    controller,
+                    "scheduleBatch",
+                    [targets, values, payloads, ethers.ZeroHash, salt, delay],
+                    `schedule with a delay of ${delay} seconds: ${descriptions}`,
+                ),
+            ],
+        },
+        ".schedule",
+    );
+    writeBatch(
+        {
+            ...proposal,
+            transactions: [
+                await proposalTransaction(
+                    controller,
+                    "executeBatch",
+                    [targets, values, payloads, ethers.ZeroHash, salt],
+                    `execute: ${descriptions}`,
+                ),
+            ],
+        },
+        ".execute",
+    );
+}
+
+function writeBatch(proposal: Proposal, suffix: string, safe?: string) {
+    const fs = require("fs");
+    if (!fs.existsSync("deployments")) {
+        fs.mkdirSync("deployments");
+    }
+    const path = `deployments/${proposal.chainId}.${proposal.name}${suffix}.proposal`;
+    const batch = {
+        version: "1.0",
+        chainId: proposal.chainId,
+        createdAt: Date.now(),
+        meta: {
+            name: `${proposal.name}${suffix}`,
+            description: proposal.transactions.map((tx) => tx.description).join("\n"),
+            createdFromSafeAddress: safe ?? "",
+        },
+        transactions: proposal.transactions.map((tx) => ({
+            to: tx.to,
+            value: tx.value,
+            data: tx.data,
+            contractMethod: null,
+            contractInputsValues: null,
+        })),
+    };
+    fs.writeFileSync(`${path}.json`, JSON.stringify(batch, null, 4) + "\n");
+    const markdown = formatBatch(proposal, suffix, safe);
+    fs.writeFileSync(`${path}.md`, markdown);
+    console.log(markdown);
+    console.log(`💾 proposal output to ${path}.{json,md}`);
+}
+
+function formatBatch(proposal: Proposal, suffix: string, safe?: string) {
+    const lines = [
+        `# Proposal ${proposal.name}${suffix} (chain id ${proposal.chainId})`,
+        "",
+        `Executor: ${safe ?? `a proposer of timelock ${proposal.executor}`}`,
+        "",
+        "| # | Target | Value | Description | Calldata |",
+        "| - | ------ | ----- | ----------- | -------- |",
+    ];
+    proposal.transactions.forEach((tx, i) => {
+        lines.push(`| ${i + 1} | ${tx.to} | ${tx.value} | ${tx.description} | \`${tx.data}\` |`);
+    });
+    return lines.join("\n") + "\n";
+}
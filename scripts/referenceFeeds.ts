@@ -0,0 +1,119 @@
+import {ethers} from "hardhat";
+import {networks} from "./networks";
+import {MarketListing} from "./marketListings";
+
+// an entry of the Chainlink reference data directory, e.g. feeds-ethereum-mainnet-arbitrum-1.json
+export interface ReferenceFeed {
+    name: string;
+    proxyAddress?: string;
+    decimals?: number;
+    docs?: {baseAsset?: string; quoteAsset?: string};
+}
+
+export interface FeedProblem {
+    market: string;
+    message: string;
+}
+
+const aggregatorAbi = ["function decimals() view returns (uint8)", "function description() view returns (string)"];
+
+// Reads a snapshot of the reference data saved by scripts/validateMarkets.ts
+export function readReferenceData(path: string): ReferenceFeed[] {
+    const fs = require("fs");
+    const referenceData = JSON.parse(fs.readFileSync(path, "utf8"));
+    if (!Array.isArray(referenceData)) {
+        throw new Error(`reference data ${path} is not an array of feeds`);
+    }
+    return referenceData;
+}
+
+// Maps the base asset of every USD feed in the reference data to the feed
+export function usdReferenceFeeds(referenceData: ReferenceFeed[]) {
+    const feeds = new Map<string, ReferenceFeed>();
+    for (const item of referenceData) {
+        if (item.docs?.quoteAsset !== "USD" || !item.proxyAddress || !item.docs.baseAsset) {
+            continue;
+        }
+        if (item.name !== `${item.docs.baseAsset} / ${item.docs.quoteAsset}`) {
+            continue;
+        }
+        feeds.set(item.docs.baseAsset, item);
+    }
+    return feeds;
+}
+
+// Validates the Chainlink price feeds of the markets against the reference data. A configured feed missing from the
+// reference data is a problem, since it cannot be told apart from a mistyped one. With `provider`, the decimals and
+// description of every configured feed are also checked on chain.
+export async function validatePriceFeeds(
+    markets: Pick<MarketListing, "name" | "chainLinkPriceFeed">[],
+    referenceData: ReferenceFeed[],
+    provider?: typeof ethers.provider,
+): Promise<FeedProblem[]> {
+    const feeds = usdReferenceFeeds(referenceData);
+    const problems: FeedProblem[] = [];
+    for (const market of markets) {
+        const reference = feeds.get(market.name);
+        if (market.chainLinkPriceFeed == undefined) {
+            if (reference != undefined) {
+                console.warn(
+                    `👿👿${market.name} has no chainLinkPriceFeed, ${reference.proxyAddress} is available👿👿`,
+                );
+            }
+            continue;
+        }
+        if (reference == undefined) {
+            problems.push({
+                market: market.name,
+                message: `chainLinkPriceFeed ${market.chainLinkPriceFeed} is not in the reference data`,
+            });
+            continue;
+        }
+        if (reference.proxyAddress!.toLowerCase() !== market.chainLinkPriceFeed.toLowerCase()) {
+            problems.push({
+                market: market.name,
+                message: `chainLinkPriceFeed ${market.chainLinkPriceFeed} is not the reference proxy ${reference.proxyAddress}`,
+            });
+            continue;
+        }
+        if (provider == undefined) {
+            continue;
+        }
+
+        const aggregator = new ethers.Contract(market.chainLinkPriceFeed, aggregatorAbi, provider);
+        try {
+            const [decimals, description] = await Promise.all([aggregator.decimals(), aggregator.description()]);
+            if (description !== reference.name) {
+                problems.push({
+                    market: market.name,
+                    message: `feed description ${description} is not ${reference.name}`,
+                });
+            }
+            if (reference.decimals != undefined && Number(decimals) !== reference.decimals) {
+                problems.push({
+                    market: market.name,
+                    message: `feed decimals ${decimals} are not the reference decimals ${reference.decimals}`,
+                });
+            }
+        } catch (e) {
+            problems.push({
+                market: market.name,
+                message: `feed ${market.chainLinkPriceFeed} is not a Chainlink aggregator: ${(e as Error).message}`,
+            });
+        }
+    }
+    return problems;
+}
+
+// Validates the Chainlink price feeds of the markets listed in a network
+export async function validateMarkets(
+    networkName: string,
+    referenceData: ReferenceFeed[],
+    provider?: typeof ethers.provider,
+): Promise<FeedProblem[]> {
+    const network = networks[networkName as keyof typeof networks];
+    if (network == undefined) {
+        throw new Error(`network ${networkName} is not defined`);
+    }
+    return validatePriceFeeds(network.markets, referenceData, provider);
+}
@@ -1,58 +1,113 @@
 import {ethers, hardhatArguments} from "hardhat";
+import {ContractTransactionResponse} from "ethers";
 import {networks} from "./networks";
-import {getCreate2Address} from "@ethersproject/address";
-import {keccak256} from "@ethersproject/keccak256";
-import {encodePacked} from "web3-utils";
+import {assertValidMarketConfigs} from "./marketConfig";
+import {loadManifest, marketAddress, writeManifest} from "./manifest";
 import {AddressZero} from "@ethersproject/constants";
 
+// Onboards every market of the network: deploys its descriptor, enables it with its config, assigns its index, and
+// configures its reference price feed, heartbeat duration, maximum cumulative delta difference and minimum profit
+// duration. Each step checks the existing state first, so that a rerun only sends what is still missing.
 export async function registerMarkets(chainId: bigint) {
     const network = networks[hardhatArguments.network as keyof typeof networks];
     if (network == undefined) {
         throw new Error(`network ${hardhatArguments.network} is not defined`);
     }
-    const document = require(`../deployments/${chainId}.json`);
+    const document = loadManifest(chainId);
+    assertValidMarketConfigs(network.markets);
 
-    const marketManager = await ethers.getContractAt("IMarketManager", document.deployments.MarketManagerUpgradeable);
+    const marketManager = await ethers.getContractAt(
+        "MarketManagerUpgradeable",
+        document.deployments.MarketManagerUpgradeable,
+    );
     const marketIndexer = await ethers.getContractAt("MarketIndexer", document.deployments.MarketIndexer);
+    const priceFeed = await ethers.getContractAt("PriceFeedUpgradeable", document.deployments.PriceFeedUpgradeable);
     const deployer = await ethers.getContractAt(
         "MarketDescriptorDeployer",
         document.deployments.MarketDescriptorDeployer,
     );
-    console.log("markets count: ", network.markets.length);
-    for (let item of network.markets) {
-        const marketAddr = getCreate2Address(
-            document.deployments.MarketDescriptorDeployer,
-            keccak256(encodePacked(item.name)!),
-            document.marketDescriptorInitCodeHash,
-        );
-        const deployedMarketAddr = await deployer.descriptors(item.name);
-        if (deployedMarketAddr === AddressZero) {
-            await deployer.deploy(item.name);
+
+    let sent = 0;
+    const ensure = async (description: string, done: boolean, send: () => Promise<ContractTransactionResponse>) => {
+        if (done) {
+            return;
         }
+        const tx = await send();
+        await tx.wait();
+        sent++;
+        console.log(`✅ ${description} (${tx.hash})`);
+    };
 
-        if (!(await marketManager.isEnabledMarket(marketAddr))) {
-            await marketManager.enableMarket(marketAddr, {
+    console.log("markets count: ", network.markets.length);
+    for (const item of network.markets) {
+        const marketAddr = marketAddress(document, item.name);
+        const sentBefore = sent;
+
+        await ensure(
+            `${item.name} descriptor deployed at ${marketAddr}`,
+            (await deployer.descriptors(item.name)) !== AddressZero,
+            () => deployer.deploy(item.name),
+        );
+        await ensure(`${item.name} enabled`, await marketManager.isEnabledMarket(marketAddr), () =>
+            marketManager.enableMarket(marketAddr, {
                 baseConfig: item.marketCfg.baseCfg,
                 feeRateConfig: item.marketCfg.feeRateCfg,
                 priceConfig: item.marketCfg.priceCfg,
-            });
-            console.log(`registering market ${item.name} at ${marketAddr}`);
+            }),
+        );
+        await ensure(`${item.name} index assigned`, (await marketIndexer.marketIndexes(marketAddr)) !== 0n, () =>
+            marketIndexer.assignMarketIndex(marketAddr),
+        );
+        // also records the markets indexed by a run that failed before writing the manifest
+        if (!document.deployments.registerMarkets?.some((market) => market.address === marketAddr)) {
+            document.deployments.registerMarkets = [
+                ...(document.deployments.registerMarkets ?? []),
+                {
+                    name: item.name,
+                    index: Number(await marketIndexer.marketIndexes(marketAddr)),
+                    address: marketAddr,
+                },
+            ];
+        }
+
+        const priceFeedCfg = await priceFeed.marketConfig(marketAddr);
+        const {chainLinkPriceFeed, refHeartbeatDuration, minProfitDuration} = item;
+        if (chainLinkPriceFeed == undefined) {
+            console.warn(`👿👿${item.name} chainLinkPriceFeed is not set👿👿`);
+        } else {
+            await ensure(
+                `${item.name} reference price feed set to ${chainLinkPriceFeed}`,
+                priceFeedCfg.refPriceFeed === chainLinkPriceFeed,
+                () => priceFeed.setRefPriceFeed(marketAddr, chainLinkPriceFeed),
+            );
+        }
+        if (refHeartbeatDuration != undefined) {
+            await ensure(
+                `${item.name} reference heartbeat duration set to ${refHeartbeatDuration}s`,
+                Number(priceFeedCfg.refHeartbeatDuration) === refHeartbeatDuration,
+                () => priceFeed.setRefHeartbeatDuration(marketAddr, refHeartbeatDuration),
+            );
         }
-        if ((await marketIndexer.marketIndexes(marketAddr)) === 0n) {
-            await marketIndexer.assignMarketIndex(marketAddr);
-            if (document.deployments.registerMarkets === undefined) {
-                document.deployments.registerMarkets = [];
-            }
-            document.deployments.registerMarkets.push({
-                name: item.name,
-                index: parseInt((await marketIndexer.marketIndexes(marketAddr)).toString()),
-                address: marketAddr,
-            });
+        await ensure(
+            `${item.name} max cumulative delta diff set to ${item.maxCumulativeDeltaDiff}`,
+            priceFeedCfg.maxCumulativeDeltaDiff === item.maxCumulativeDeltaDiff,
+            () => priceFeed.setMaxCumulativeDeltaDiffs(marketAddr, item.maxCumulativeDeltaDiff),
+        );
+        if (minProfitDuration != undefined) {
+            await ensure(
+                `${item.name} min profit duration set to ${minProfitDuration}s`,
+                Number(await marketManager.marketMinProfitDuration(marketAddr)) === minProfitDuration,
+                () => marketManager.updateMarketMinProfitDuration(marketAddr, minProfitDuration),
+            );
+        }
+
+        if (sent === sentBefore) {
+            console.log(`⏭️ ${item.name} already onboarded`);
         }
     }
 
-    const fs = require("fs");
-    fs.writeFileSync(`deployments/${chainId}.json`, JSON.stringify(document, null, 4));
+    writeManifest(chainId, document);
+    console.log(`${sent} transaction(s) sent`);
 }
 
 async function main() {
@@ -0,0 +1,49 @@
+import {ethers, network as hardhatNetwork} from "hardhat";
+import {HardhatNetworkConfig} from "hardhat/types";
+import {HardhatEthersSigner} from "@nomicfoundation/hardhat-ethers/signers";
+import {setBalance} from "@nomicfoundation/hardhat-network-helpers";
+import {Network} from "./networks";
+
+// Prepares the in-process Hardhat network for a deployment rehearsal. When the network forks a live chain
+// (FORK_URL is set), the governor of Equation Contracts V1 is impersonated. Otherwise, stand-ins for the
+// Equation Contracts V1 contracts called by the deployment script are deployed and replace them in the config.
+export async function prepareRehearsal(
+    network: Network,
+): Promise<{network: Network; contractsV1Gov: HardhatEthersSigner}> {
+    if (hardhatNetwork.name !== "hardhat") {
+        throw new Error(`rehearsal must run on the hardhat network, not on ${hardhatNetwork.name}`);
+    }
+
+    if ((hardhatNetwork.config as HardhatNetworkConfig).forking?.enabled) {
+        const govs = new Set<string>();
+        for (const address of [network.equ, network.routerV1, network.farmRewardDistributorV2]) {
+            govs.add(await (await ethers.getContractAt("GovernableUpgradeable", address)).gov());
+        }
+        if (govs.size != 1) {
+            throw new Error(`Equation Contracts V1 contracts are governed by different accounts: ${[...govs]}`);
+        }
+        const [gov] = govs;
+        await setBalance(gov, ethers.parseEther("100"));
+        console.log(`🎭 impersonating Equation Contracts V1 gov ${gov}`);
+        return {network: network, contractsV1Gov: await ethers.getImpersonatedSigner(gov)};
+    }
+
+    const [deployer, contractsV1Gov] = await ethers.getSigners();
+    const MultiMinterToken = await ethers.getContractFactory("MockMultiMinterToken", contractsV1Gov);
+    const equ = await MultiMinterToken.deploy("Equation", "EQU");
+    const RouterV1 = await ethers.getContractFactory("MockRouterV1", contractsV1Gov);
+    const routerV1 = await RouterV1.deploy();
+    const FarmRewardDistributorV2 = await ethers.getContractFactory("MockFarmRewardDistributorV2", contractsV1Gov);
+    const farmRewardDistributorV2 = await FarmRewardDistributorV2.deploy(network.efc, deployer.address);
+    await Promise.all([equ, routerV1, farmRewardDistributorV2].map((contract) => contract.waitForDeployment()));
+    console.log(`🎭 Equation Contracts V1 stand-ins deployed by ${contractsV1Gov.address}`);
+    return {
+        network: {
+            ...network,
+            equ: await equ.getAddress(),
+            routerV1: await routerV1.getAddress(),
+            farmRewardDistributorV2: await farmRewardDistributorV2.getAddress(),
+        },
+        contractsV1Gov: contractsV1Gov,
+    };
+}
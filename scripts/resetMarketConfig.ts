@@ -1,44 +1,121 @@
 import {ethers, hardhatArguments} from "hardhat";
 import {networks} from "./networks";
-import {getCreate2Address} from "@ethersproject/address";
-import {keccak256} from "@ethersproject/keccak256";
-import {encodePacked} from "web3-utils";
+import {assertValidMarketConfigs, diffMarketConfigs, readMarketConfig} from "./marketConfig";
+import {loadManifest, marketAddress} from "./manifest";
+import {ProposalTransaction, proposalTransaction, writeProposal} from "./proposal";
+import {confirm, decodeRevert} from "./util";
 
-export async function resetMarketConfig(chainId: bigint) {
+const updates = [
+    {method: "updateMarketBaseConfig", key: "baseCfg"},
+    {method: "updateMarketFeeRateConfig", key: "feeRateCfg"},
+    {method: "updateMarketPriceConfig", key: "priceCfg"},
+] as const;
+
+interface PendingUpdate {
+    market: string;
+    address: string;
+    method: (typeof updates)[number]["method"];
+    cfg: unknown;
+}
+
+// Resets the config of the enabled markets to the network config, sending only the updates of the structs that differ
+// from the live configs. `names` filters the markets to reset. When the market manager is not governed by the signer,
+// a proposal with the updates is written for the governor instead.
+export async function resetMarketConfig(chainId: bigint, names?: string[], assumeYes: boolean = false) {
     const network = networks[hardhatArguments.network as keyof typeof networks];
     if (network == undefined) {
         throw new Error(`network ${hardhatArguments.network} is not defined`);
     }
-    const document = require(`../deployments/${chainId}.json`);
+    const document = loadManifest(chainId);
+    const unknown = names?.filter((name) => !network.markets.some((item) => item.name === name)) ?? [];
+    if (unknown.length > 0) {
+        throw new Error(`markets ${unknown.join(", ")} are not defined in network ${hardhatArguments.network}`);
+    }
+    const markets = network.markets.filter((item) => names == undefined || names.includes(item.name));
+    assertValidMarketConfigs(markets);
 
     const marketManager = await ethers.getContractAt(
         "MarketManagerUpgradeable",
         document.deployments.MarketManagerUpgradeable,
     );
-    for (let item of network.markets) {
-        const marketAddr = getCreate2Address(
-            document.deployments.MarketDescriptorDeployer,
-            keccak256(encodePacked(item.name)!),
-            document.marketDescriptorInitCodeHash,
-        );
+    const pending: PendingUpdate[] = [];
+    let skipped = 0;
+    for (const item of markets) {
+        const marketAddr = marketAddress(document, item.name);
         if (!(await marketManager.isEnabledMarket(marketAddr))) {
+            console.log(`⏭️ ${item.name} is not enabled`);
             continue;
         }
+        const diffs = diffMarketConfigs(await readMarketConfig(marketManager, marketAddr), item.marketCfg);
+        for (const {method, key} of updates) {
+            const fields = diffs.filter((diff) => diff.field.startsWith(`${key}.`));
+            if (fields.length == 0) {
+                skipped++;
+                continue;
+            }
+            console.log(`${item.name} ${method}:`);
+            for (const field of fields) {
+                console.log(`    ${field.field}: ${field.fromText} -> ${field.toText}`);
+            }
+            pending.push({market: item.name, address: marketAddr, method: method, cfg: item.marketCfg[key]});
+        }
+    }
+    console.log(`${pending.length} update(s) to apply, ${skipped} skipped as unchanged`);
+    if (pending.length == 0) {
+        return;
+    }
 
+    const [signer] = await ethers.getSigners();
+    const gov: string = await marketManager.gov();
+    if (gov !== signer.address) {
+        const transactions: ProposalTransaction[] = [];
+        for (const update of pending) {
+            transactions.push(
+                await proposalTransaction(
+                    marketManager,
+                    update.method,
+                    [update.address, update.cfg],
+                    `${update.method} of ${update.market}`,
+                ),
+            );
+        }
+        await writeProposal({
+            name: `reset-market-config-${Date.now()}`,
+            chainId: chainId.toString(),
+            executor: gov,
+            transactions: transactions,
+        });
+        return;
+    }
+
+    if (!(await confirm(`apply ${pending.length} update(s)?`, assumeYes))) {
+        console.log("aborted");
+        return;
+    }
+    const failures: string[] = [];
+    for (const update of pending) {
         try {
-            await marketManager.updateMarketBaseConfig(marketAddr, item.marketCfg.baseCfg);
-            await marketManager.updateMarketFeeRateConfig(marketAddr, item.marketCfg.feeRateCfg);
-            await marketManager.updateMarketPriceConfig(marketAddr, item.marketCfg.priceCfg);
-            console.log(`reset market config ${item.name} finished`);
+            const tx = await marketManager.getFunction(update.method)(update.address, update.cfg);
+            await tx.wait();
+            console.log(`✅ ${update.market} ${update.method}`);
         } catch (e) {
-            console.log(`reset market config ${item.name} failed`);
-            console.log(e);
+            const reason = decodeRevert(marketManager, e);
+            failures.push(`${update.market} ${update.method}: ${reason}`);
+            console.error(`❌ ${update.market} ${update.method}: ${reason}`);
         }
     }
+    console.log(`${pending.length - failures.length} applied, ${skipped} skipped, ${failures.length} failed`);
+    if (failures.length > 0) {
+        throw new Error(`failed updates:\n  - ${failures.join("\n  - ")}`);
+    }
 }
 
 async function main() {
-    await resetMarketConfig((await ethers.provider.getNetwork()).chainId);
+    await resetMarketConfig(
+        (await ethers.provider.getNetwork()).chainId,
+        process.env.RESET_MARKETS?.split(","),
+        process.env.RESET_CONFIRM === "yes",
+    );
 }
 
 main()
@@ -0,0 +1,246 @@
+import {parsePercent} from "./util";
+import {
+    ConfigFieldName,
+    formatConfigValue,
+    MarketBaseConfig,
+    MarketConfig,
+    MarketFeeRateConfig,
+    MarketPriceConfig,
+    Numeric,
+} from "./marketConfig";
+
+const defaultBaseCfg = {
+    minMarginPerLiquidityPosition: 10n * 10n ** 6n,
+    maxLeveragePerLiquidityPosition: 100n,
+    liquidationFeeRatePerLiquidityPosition: parsePercent("0.05%"),
+    minMarginPerPosition: 10n * 10n ** 6n,
+    maxLeveragePerPosition: 200n,
+    liquidationFeeRatePerPosition: parsePercent("0.5%"),
+    maxPositionLiquidity: 10_000_000n * 10n ** 6n,
+    maxPositionValueRate: parsePercent("100%"),
+    maxSizeRatePerPosition: parsePercent("20%"),
+    liquidationExecutionFee: 800_000n, // 0.8 USD
+};
+
+const defaultFeeRateCfg = {
+    protocolFundingFeeRate: parsePercent("0.016%"),
+    fundingCoeff: parsePercent("100%"),
+    protocolFundingCoeff: parsePercent("75%"),
+    interestRate: parsePercent("0.01%"),
+    fundingBuffer: parsePercent("0.05%"),
+    liquidityFundingFeeRate: parsePercent("25%"),
+    maxFundingRate: parsePercent("4%"),
+};
+
+const defaultPriceCfg = {
+    maxPriceImpactLiquidity: (1n << 128n) - 1n,
+    liquidationVertexIndex: 6,
+    dynamicDepthMode: 0,
+    dynamicDepthLevel: parsePercent("100%"),
+    vertices: [
+        {balanceRate: 0, premiumRate: 0},
+        {balanceRate: parsePercent("0.5%"), premiumRate: parsePercent("0.05%")},
+        {balanceRate: parsePercent("2.5%"), premiumRate: parsePercent("0.1%")},
+        {balanceRate: parsePercent("5%"), premiumRate: parsePercent("0.15%")},
+        {balanceRate: parsePercent("6%"), premiumRate: parsePercent("0.2%")},
+        {balanceRate: parsePercent("7%"), premiumRate: parsePercent("0.3%")},
+        {balanceRate: parsePercent("8%"), premiumRate: parsePercent("0.4%")},
+        {balanceRate: parsePercent("9%"), premiumRate: parsePercent("0.5%")},
+        {balanceRate: parsePercent("10%"), premiumRate: parsePercent("0.6%")},
+        {balanceRate: parsePercent("50%"), premiumRate: parsePercent("10%")},
+    ],
+};
+
+const _100xCfg = {
+    baseCfg: {
+        ...defaultBaseCfg,
+        maxLeveragePerLiquidityPosition: 200n,
+        maxLeveragePerPosition: 100n,
+        liquidationFeeRatePerPosition: parsePercent("0.4%"),
+        maxPositionLiquidity: 30_000_000n * 10n ** 6n,
+        maxPositionValueRate: parsePercent("3000%"),
+        maxSizeRatePerPosition: parsePercent("0.667%"),
+    },
+    feeRateCfg: {
+        ...defaultFeeRateCfg,
+        maxFundingRate: parsePercent("1%"),
+    },
+    priceCfg: {
+        ...defaultPriceCfg,
+        liquidationVertexIndex: 6,
+        maxPriceImpactLiquidity: 30_000_000n * 10n ** 6n,
+        dynamicDepthLevel: parsePercent("100%"),
+    },
+};
+
+const _20xCfg = {
+    baseCfg: {
+        ...defaultBaseCfg,
+        maxLeveragePerLiquidityPosition: 200n,
+        maxLeveragePerPosition: 20n,
+        liquidationFeeRatePerPosition: parsePercent("1%"),
+        maxPositionLiquidity: 1_500_000n * 10n ** 6n,
+        maxPositionValueRate: parsePercent("1000%"),
+        maxSizeRatePerPosition: parsePercent("2%"),
+    },
+    feeRateCfg: {
+        ...defaultFeeRateCfg,
+    },
+    priceCfg: {
+        ...defaultPriceCfg,
+        maxPriceImpactLiquidity: 1_500_000n * 10n ** 6n,
+        liquidationVertexIndex: 6,
+        dynamicDepthLevel: parsePercent("100%"),
+        vertices: [
+            {balanceRate: 0, premiumRate: 0},
+            {balanceRate: parsePercent("1%"), premiumRate: parsePercent("0.05%")},
+            {balanceRate: parsePercent("3%"), premiumRate: parsePercent("0.1%")},
+            {balanceRate: parsePercent("5%"), premiumRate: parsePercent("0.15%")},
+            {balanceRate: parsePercent("6%"), premiumRate: parsePercent("0.2%")},
+            {balanceRate: parsePercent("9%"), premiumRate: parsePercent("0.6%")},
+            {balanceRate: parsePercent("12%"), premiumRate: parsePercent("1%")},
+            {balanceRate: parsePercent("20%"), premiumRate: parsePercent("2.5%")},
+            {balanceRate: parsePercent("28%"), premiumRate: parsePercent("4%")},
+            {balanceRate: parsePercent("50%"), premiumRate: parsePercent("10%")},
+        ],
+    },
+};
+
+const _10xCfg = {
+    baseCfg: {
+        ...defaultBaseCfg,
+        maxLeveragePerLiquidityPosition: 200n,
+        maxLeveragePerPosition: 10n,
+        liquidationFeeRatePerPosition: parsePercent("2.5%"),
+        maxPositionLiquidity: 1_000_000n * 10n ** 6n,
+        maxPositionValueRate: parsePercent("400%"),
+        maxSizeRatePerPosition: parsePercent("5%"),
+    },
+    feeRateCfg: {
+        ...defaultFeeRateCfg,
+    },
+    priceCfg: {
+        ...defaultPriceCfg,
+        liquidationVertexIndex: 7,
+        maxPriceImpactLiquidity: 1_000_000n * 10n ** 6n,
+        dynamicDepthLevel: parsePercent("100%"),
+        vertices: [
+            {balanceRate: 0, premiumRate: 0},
+            {balanceRate: parsePercent("1%"), premiumRate: parsePercent("0.05%")},
+            {balanceRate: parsePercent("3%"), premiumRate: parsePercent("0.1%")},
+            {balanceRate: parsePercent("5%"), premiumRate: parsePercent("0.15%")},
+            {balanceRate: parsePercent("6%"), premiumRate: parsePercent("0.2%")},
+            {balanceRate: parsePercent("9%"), premiumRate: parsePercent("0.6%")},
+            {balanceRate: parsePercent("12%"), premiumRate: parsePercent("1%")},
+            {balanceRate: parsePercent("20%"), premiumRate: parsePercent("2.5%")},
+            {balanceRate: parsePercent("28%"), premiumRate: parsePercent("4%")},
+            {balanceRate: parsePercent("50%"), premiumRate: parsePercent("10%")},
+        ],
+    },
+};
+
+export const riskTiers = {
+    "100x": _100xCfg,
+    "20x": _20xCfg,
+    "10x": _10xCfg,
+} satisfies Record<string, MarketConfig>;
+
+export type RiskTierName = keyof typeof riskTiers;
+
+export interface MarketConfigOverrides {
+    baseCfg?: Partial<MarketBaseConfig>;
+    feeRateCfg?: Partial<MarketFeeRateConfig>;
+    // vertices are overridden as a whole
+    priceCfg?: Partial<MarketPriceConfig>;
+}
+
+// Declares the risk tier of a market and the fields overriding it, and derives the market config from both
+export function riskTier(tier: RiskTierName, overrides: MarketConfigOverrides = {}) {
+    const cfg: MarketConfig = riskTiers[tier];
+    return {
+        tier: tier,
+        overrides: overrides,
+        marketCfg: {
+            baseCfg: {...cfg.baseCfg, ...overrides.baseCfg},
+            feeRateCfg: {...cfg.feeRateCfg, ...overrides.feeRateCfg},
+            priceCfg: {...cfg.priceCfg, ...overrides.priceCfg},
+        },
+    };
+}
+
+export interface TierDeviation {
+    // the path of the field, e.g. `priceCfg.vertices[3].premiumRate`
+    field: string;
+    tier: string;
+    actual: string;
+}
+
+// Lists the fields of the market config that deviate from the risk tier, in human units
+export function tierDeviations(tier: RiskTierName, cfg: MarketConfig): TierDeviation[] {
+    const deviations: TierDeviation[] = [];
+    const compare = <K extends ConfigFieldName>(
+        path: string,
+        expected: Record<K, Numeric>,
+        actual: Partial<Record<K, Numeric>>,
+    ) => {
+        for (const name of Object.keys(expected) as K[]) {
+            const value = actual[name];
+            if (value == undefined || BigInt(expected[name]) !== BigInt(value)) {
+                deviations.push({
+                    field: `${path}.${name}`,
+                    tier: formatConfigValue(name, expected[name]),
+                    actual: value == undefined ? "missing" : formatConfigValue(name, value),
+                });
+            }
+        }
+    };
+    const expected: MarketConfig = riskTiers[tier];
+    compare("baseCfg", expected.baseCfg, cfg.baseCfg);
+    compare("feeRateCfg", expected.feeRateCfg, cfg.feeRateCfg);
+    const {vertices, ...priceCfg} = expected.priceCfg;
+    const {vertices: actualVertices, ...actualPriceCfg} = cfg.priceCfg;
+    compare("priceCfg", priceCfg, actualPriceCfg);
+    vertices.forEach((vertex, i) => compare(`priceCfg.vertices[${i}]`, vertex, actualVertices[i] ?? {}));
+    return deviations;
+}
+
+// Finds the risk tier the market config deviates least from, and the overrides reproducing the config from it
+export function closestRiskTier(cfg: MarketConfig): {tier: RiskTierName; overrides: MarketConfigOverrides} {
+    let tier = Object.keys(riskTiers)[0] as RiskTierName;
+    for (const name of Object.keys(riskTiers) as RiskTierName[]) {
+        if (tierDeviations(name, cfg).length < tierDeviations(tier, cfg).length) {
+            tier = name;
+        }
+    }
+    return {tier, overrides: tierOverrides(tier, cfg)};
+}
+
+// Lists the overrides reproducing the market config from the risk tier. Vertices are overridden as a whole if any of
+// them deviates.
+export function tierOverrides(tier: RiskTierName, cfg: MarketConfig): MarketConfigOverrides {
+    // the struct and field of every deviation, e.g. `priceCfg.vertices` for `priceCfg.vertices[3].premiumRate`
+    const fields = new Set(tierDeviations(tier, cfg).map((deviation) => deviation.field.replace(/\[\d+\]\.\w+$/, "")));
+    const pick = <T extends object>(struct: keyof MarketConfig, values: T) => {
+        const picked: Partial<T> = {};
+        for (const name of Object.keys(values) as (keyof T & string)[]) {
+            if (fields.has(`${struct}.${name}`)) {
+                picked[name] = values[name];
+            }
+        }
+        return Object.keys(picked).length == 0 ? undefined : picked;
+    };
+    const overrides: MarketConfigOverrides = {};
+    const baseCfg = pick("baseCfg", cfg.baseCfg);
+    if (baseCfg != undefined) {
+        overrides.baseCfg = baseCfg;
+    }
+    const feeRateCfg = pick("feeRateCfg", cfg.feeRateCfg);
+    if (feeRateCfg != undefined) {
+        overrides.feeRateCfg = feeRateCfg;
+    }
+    const priceCfg = pick("priceCfg", cfg.priceCfg);
+    if (priceCfg != undefined) {
+        overrides.priceCfg = priceCfg;
+    }
+    return overrides;
+}
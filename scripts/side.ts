@@ -0,0 +1,19 @@
+// Mirrors contracts/types/Side.sol
+
+export const LONG = 1;
+export const SHORT = 2;
+export type Side = typeof LONG | typeof SHORT;
+
+export function isLong(side: Side) {
+    return side === LONG;
+}
+
+export function flip(side: Side): Side {
+    return side === LONG ? SHORT : LONG;
+}
+
+export function requireValidSide(side: number): asserts side is Side {
+    if (side !== LONG && side !== SHORT) {
+        throw new RangeError(`invalid side ${side}`);
+    }
+}
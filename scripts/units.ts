@@ -0,0 +1,155 @@
+import {BASIS_POINTS_DIVISOR} from "./marketConfig";
+
+// Converts between the units of the contracts and human units. Prices are `priceX96`, the USD price with the decimals
+// of the USD token per smallest unit of the market, times 2^96. Sizes have the decimals of the market descriptor, and
+// USD amounts such as margins and liquidity the decimals of the USD token. All conversions are exact on bigint, and
+// rounded as `Math.mulDiv` (down) or `Math.mulDivUp` (up) where they cannot be exact.
+
+export const Q96 = 1n << 96n;
+export const USD_DECIMALS = 6;
+// the decimals of MarketDescriptor
+export const MARKET_DECIMALS = 18;
+
+const UINT160_MAX = (1n << 160n) - 1n;
+const UINT256_MAX = (1n << 256n) - 1n;
+
+export type Rounding = "down" | "up";
+
+// Calculates `x * y / denominator` as `Math.mulDiv` and `Math.mulDivUp` do, including their reverts
+export function mulDiv(x: bigint, y: bigint, denominator: bigint, rounding: Rounding = "down") {
+    for (const value of [x, y, denominator]) {
+        if (value < 0n || value > UINT256_MAX) {
+            throw new RangeError(`${value} is not a uint256`);
+        }
+    }
+    if (denominator == 0n) {
+        throw new RangeError("division by zero");
+    }
+    const product = x * y;
+    let result = product / denominator;
+    if (rounding == "up" && product % denominator != 0n) {
+        result += 1n;
+    }
+    if (result > UINT256_MAX) {
+        throw new RangeError(`${x} * ${y} / ${denominator} overflows uint256`);
+    }
+    return result;
+}
+
+// Formats a fixed-point value with `decimals` decimals, without trailing zeros, e.g. `1234.5`
+export function formatFixed(value: bigint, decimals: number) {
+    const sign = value < 0n ? "-" : "";
+    const abs = value < 0n ? -value : value;
+    const base = 10n ** BigInt(decimals);
+    const fraction = (abs % base).toString().padStart(decimals, "0").replace(/0+$/, "");
+    return `${sign}${abs / base}${fraction.length > 0 ? `.${fraction}` : ""}`;
+}
+
+// Parses a non-negative decimal number to the exact fraction `numerator / denominator`
+function parseDecimal(value: string) {
+    const match = /^(\d+)(?:\.(\d+))?$/.exec(value.trim());
+    if (match == null) {
+        throw new Error(`${value} is not a non-negative decimal number`);
+    }
+    const fraction = match[2] ?? "";
+    return {numerator: BigInt(match[1] + fraction), denominator: 10n ** BigInt(fraction.length)};
+}
+
+// Parses a non-negative decimal number to a fixed-point value with `decimals` decimals. Without `rounding`, digits
+// beyond the decimals are rejected.
+export function parseFixed(value: string, decimals: number, rounding?: Rounding) {
+    const {numerator, denominator} = parseDecimal(value);
+    const scale = 10n ** BigInt(decimals);
+    if (rounding == undefined && (numerator * scale) % denominator != 0n) {
+        throw new Error(`${value} has more than ${decimals} decimals`);
+    }
+    return mulDiv(numerator, scale, denominator, rounding);
+}
+
+// Converts a human price, e.g. `3521.42` or `3521.42 USD per ETH`, to `priceX96` for a market with `decimals` decimals
+export function priceToX96(price: string, decimals: number = MARKET_DECIMALS, rounding: Rounding = "down") {
+    const amount = /^\s*([\d.]+)(?:\s*USD(?:\s+per\s+\S+)?)?\s*$/.exec(price)?.[1];
+    if (amount == undefined) {
+        throw new Error(`price ${price} is not a USD price, e.g. \`3521.42 USD per ETH\``);
+    }
+    const {numerator, denominator} = parseDecimal(amount);
+    const priceX96 = mulDiv(
+        numerator * 10n ** BigInt(USD_DECIMALS),
+        Q96,
+        denominator * 10n ** BigInt(decimals),
+        rounding,
+    );
+    if (priceX96 > UINT160_MAX) {
+        throw new RangeError(`price ${price} overflows uint160`);
+    }
+    return priceX96;
+}
+
+// Converts `priceX96` of a market with `decimals` decimals to a human price with at most `fractionDigits` digits
+export function priceFromX96(
+    priceX96: bigint,
+    decimals: number = MARKET_DECIMALS,
+    fractionDigits: number = 8,
+    rounding: Rounding = "down",
+) {
+    const scaled = mulDiv(
+        priceX96 * 10n ** BigInt(decimals),
+        10n ** BigInt(fractionDigits),
+        10n ** BigInt(USD_DECIMALS) * Q96,
+        rounding,
+    );
+    return formatFixed(scaled, fractionDigits);
+}
+
+// Formats a USD amount with the decimals of the USD token, e.g. `1234.5 USD`
+export function formatUsd(amount: bigint) {
+    return `${formatFixed(amount, USD_DECIMALS)} USD`;
+}
+
+export function parseUsd(amount: string, rounding?: Rounding) {
+    return parseFixed(amount.replace(/\s*USD$/, ""), USD_DECIMALS, rounding);
+}
+
+// Formats a margin, which is a USD amount
+export const formatMargin = formatUsd;
+
+// Formats a size with the decimals of its market, e.g. `1.5 ETH`
+export function formatSize(size: bigint, symbol?: string, decimals: number = MARKET_DECIMALS) {
+    return `${formatFixed(size, decimals)}${symbol == undefined ? "" : ` ${symbol}`}`;
+}
+
+export function parseSize(size: string, decimals: number = MARKET_DECIMALS, rounding?: Rounding) {
+    return parseFixed(size.replace(/\s+\S+$/, ""), decimals, rounding);
+}
+
+// Formats a rate in units of 1e-8, where 1e8 is 100%, e.g. `0.05%`
+export function formatRate(rate: bigint) {
+    return `${formatFixed(rate * 100n, 8)}%`;
+}
+
+// Converts a rate in units of 1e-8 to X96 as the price vertices of MarketUtil do, rounding down
+export function rateToX96(rate: bigint) {
+    return (Q96 * rate) / BASIS_POINTS_DIVISOR;
+}
+
+// Formats a premium rate in X96 as a percent with at most `fractionDigits` digits, e.g. `0.25%`
+export function formatPremiumRateX96(premiumRateX96: bigint, fractionDigits: number = 8, rounding: Rounding = "down") {
+    return `${formatFixed(
+        mulDiv(premiumRateX96, 100n * 10n ** BigInt(fractionDigits), Q96, rounding),
+        fractionDigits,
+    )}%`;
+}
+
+// Binds the conversions to the decimals of a market descriptor
+export async function marketUnits(descriptor: {symbol(): Promise<string>; decimals(): Promise<bigint>}) {
+    const [symbol, decimals] = await Promise.all([descriptor.symbol(), descriptor.decimals().then(Number)]);
+    return {
+        symbol,
+        decimals,
+        priceToX96: (price: string, rounding: Rounding = "down") => priceToX96(price, decimals, rounding),
+        priceFromX96: (priceX96: bigint, fractionDigits?: number, rounding?: Rounding) =>
+            priceFromX96(priceX96, decimals, fractionDigits, rounding),
+        formatSize: (size: bigint) => formatSize(size, symbol, decimals),
+        parseSize: (size: string, rounding?: Rounding) => parseSize(size, decimals, rounding),
+    };
+}
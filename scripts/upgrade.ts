@@ -0,0 +1,190 @@
+import {ethers, hardhatArguments, upgrades} from "hardhat";
+import {networks} from "./networks";
+import {LibraryName, loadManifest, Manifest, ProxyName, proxyNames, UpgradeRecord, writeManifest} from "./manifest";
+import {changedLibraries, compareDeployedCode, linkedLibraries} from "./bytecode";
+import {ProposalTransaction, proposalTransaction, writeProposal} from "./proposal";
+import {logBlockRange, queryFilterInRanges} from "./util";
+
+// The ProxyAdmin of OpenZeppelin Contracts 5, which owns every proxy deployed by the deployment script
+const proxyAdminAbi = [
+    "function owner() view returns (address)",
+    "function upgradeAndCall(address proxy, address implementation, bytes data) payable",
+];
+
+const upgradedAbi = ["event Upgraded(address indexed implementation)"];
+
+// Upgrades the proxies of `names`, redeploying the libraries they link against whose bytecode changed. When their
+// ProxyAdmin is not owned by the deployer, the new implementations are deployed only, and a proposal to upgrade them
+// is written for the owner instead.
+export async function upgrade(chainId: bigint, names: ProxyName[]) {
+    const network = networks[hardhatArguments.network as keyof typeof networks];
+    if (network == undefined) {
+        throw new Error(`network ${hardhatArguments.network} is not defined`);
+    }
+    const document = loadManifest(chainId);
+    const [deployer] = await ethers.getSigners();
+
+    const linked = new Set<string>();
+    for (const name of names) {
+        const libraries = await linkedLibraries(name, document.deployments);
+        const factory = await ethers.getContractFactory(name, {libraries});
+        await upgrades.validateUpgrade(document.deployments[name], factory);
+        console.log(`${name} upgrade validated`);
+        Object.keys(libraries).forEach((library) => linked.add(library));
+    }
+
+    // libraries are not upgradeable, the ones whose bytecode changed are redeployed and relinked. They stay pending in
+    // the manifest until an upgrade linking them is executed, and a pending redeployment is reused by the next run.
+    const redeploying = (await changedLibraries(document.deployments)).filter((name) => linked.has(name));
+    const linking = {...document.deployments};
+    for (const name of redeploying) {
+        const pending = document.pendingLibraries?.[name];
+        if (pending != undefined && (await compareDeployedCode(name, pending)).ok) {
+            linking[name] = pending;
+            console.log(`${name} is already redeployed to ${pending}, pending an upgrade`);
+            continue;
+        }
+        const Library = await ethers.getContractFactory(name);
+        const library = await Library.deploy();
+        await library.waitForDeployment();
+        linking[name] = await library.getAddress();
+        document.pendingLibraries = {...document.pendingLibraries, [name]: linking[name]};
+        console.log(`${name} redeployed to ${linking[name]}, pending an upgrade`);
+        writeManifest(chainId, document);
+    }
+
+    const proposals = new Map<string, ProposalTransaction[]>();
+    for (const name of names) {
+        const libraries = await linkedLibraries(name, linking);
+        const factory = await ethers.getContractFactory(name, {libraries});
+        const proxy = document.deployments[name];
+        const admin = new ethers.Contract(await upgrades.erc1967.getAdminAddress(proxy), proxyAdminAbi, deployer);
+        const owner: string = await admin.owner();
+
+        const previousImplementation = await upgrades.erc1967.getImplementationAddress(proxy);
+        const implementation = (await upgrades.prepareUpgrade(proxy, factory)) as string;
+        if (implementation === previousImplementation) {
+            console.log(`${name} is already up to date at implementation ${implementation}`);
+            await recordExecutedUpgrade(document, name, libraries);
+            continue;
+        }
+        console.log(`${name} implementation deployed to: ${implementation}`);
+
+        if (owner !== deployer.address) {
+            const description = `upgrade ${name} ${proxy} from ${previousImplementation} to ${implementation}`;
+            const transactions = proposals.get(owner) ?? [];
+            transactions.push(
+                await proposalTransaction(admin, "upgradeAndCall", [proxy, implementation, "0x"], description),
+            );
+            proposals.set(owner, transactions);
+            continue;
+        }
+
+        const tx = await admin.upgradeAndCall(proxy, implementation, "0x");
+        const receipt = await tx.wait();
+        console.log(`${name} upgraded from ${previousImplementation} to ${implementation} in tx ${tx.hash}`);
+        recordLibraries(document, libraries);
+        pushUpgrade(document, {
+            contract: name,
+            previousImplementation: previousImplementation,
+            implementation: implementation,
+            libraries: libraries,
+            txHash: tx.hash,
+            block: receipt.blockNumber,
+        });
+    }
+    writeManifest(chainId, document);
+
+    const timestamp = Date.now();
+    for (const [owner, transactions] of proposals) {
+        await writeProposal({
+            name: proposals.size > 1 ? `upgrade-${timestamp}-${owner}` : `upgrade-${timestamp}`,
+            chainId: chainId.toString(),
+            executor: owner,
+            transactions: transactions,
+        });
+        console.log("rerun the upgrade once the proposal is executed to record it in the manifest");
+    }
+    if (Object.keys(document.pendingLibraries ?? {}).length > 0) {
+        console.log(`libraries pending an upgrade: ${Object.keys(document.pendingLibraries!).join(", ")}`);
+    }
+}
+
+// Records an upgrade executed through a proposal, found by the Upgraded event of the proxy
+async function recordExecutedUpgrade(document: Manifest, name: ProxyName, libraries: Record<string, string>) {
+    const proxy = new ethers.Contract(document.deployments[name], upgradedAbi, ethers.provider);
+    const implementation = await upgrades.erc1967.getImplementationAddress(document.deployments[name]);
+    recordLibraries(document, libraries);
+    const previousImplementation = document.implementations?.[name];
+    if (previousImplementation == undefined || previousImplementation === implementation) {
+        document.implementations = {...document.implementations, [name]: implementation};
+        return;
+    }
+    const events = await queryFilterInRanges(
+        proxy,
+        proxy.filters.Upgraded(implementation),
+        document.block,
+        logBlockRange(),
+    );
+    if (events.length == 0) {
+        throw new Error(`no Upgraded event of ${name} to ${implementation} found`);
+    }
+    const event = events[events.length - 1];
+    pushUpgrade(document, {
+        contract: name,
+        previousImplementation: previousImplementation,
+        implementation: implementation,
+        libraries: libraries,
+        txHash: event.transactionHash,
+        block: event.blockNumber,
+    });
+}
+
+// Moves the pending libraries linked by an executed upgrade into the deployments
+function recordLibraries(document: Manifest, libraries: Record<string, string>) {
+    for (const [name, address] of Object.entries(libraries)) {
+        const library = name as LibraryName;
+        if (document.pendingLibraries?.[library] !== address) {
+            continue;
+        }
+        const previous = document.deployments[library];
+        document.deployments[library] = address;
+        document.previousLibraries = {
+            ...document.previousLibraries,
+            [library]: [...(document.previousLibraries?.[library] ?? []), previous],
+        };
+        delete document.pendingLibraries[library];
+        console.log(`${library} moved from ${previous} to ${address}`);
+    }
+    if (Object.keys(document.pendingLibraries ?? {}).length == 0) {
+        delete document.pendingLibraries;
+    }
+}
+
+function pushUpgrade(document: Manifest, record: UpgradeRecord) {
+    if (Object.keys(record.libraries ?? {}).length == 0) {
+        delete record.libraries;
+    }
+    document.implementations = {...document.implementations, [record.contract]: record.implementation};
+    document.upgrades = [...(document.upgrades ?? []), record];
+}
+
+async function main() {
+    const names = (process.env.UPGRADE_CONTRACT ?? "").split(",").filter((name) => name.length > 0);
+    for (const name of names) {
+        if (!(proxyNames as readonly string[]).includes(name)) {
+            throw new Error(`${name} is not one of ${proxyNames.join(", ")}`);
+        }
+    }
+    if (names.length == 0) {
+        throw new Error(`UPGRADE_CONTRACT must list some of ${proxyNames.join(", ")}`);
+    }
+    await upgrade((await ethers.provider.getNetwork()).chainId, names as ProxyName[]);
+}
+
+main()
+    .then(() => process.exit(0))
+    .catch((error) => {
+        console.error(error);
+        process.exit(1);
+    });
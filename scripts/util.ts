@@ -1,4 +1,5 @@
 import Decimal from "decimal.js";
+import {BaseContract, ContractEventName, EventLog, Interface, isCallException} from "ethers";
 
 export function parsePercent(val: string): bigint {
     if (!val.endsWith("%")) {
@@ -7,3 +8,77 @@ export function parsePercent(val: string): bigint {
     val = val.slice(0, -1);
     return BigInt(new Decimal(val).mul(new Decimal(1e6)).toFixed(0));
 }
+
+// Narrows a parsed JSON value to an object, excluding arrays
+export function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value != null && !Array.isArray(value);
+}
+
+// Decodes the revert reason of a failed contract call, including the custom errors of the contract
+export function decodeRevert(contract: {interface: Interface}, error: unknown): string {
+    if (typeof error !== "object" || error == null) {
+        return String(error);
+    }
+    if (isCallException(error) && error.revert != null) {
+        return `${error.revert.name}(${error.revert.args.join(", ")})`;
+    }
+    if ("data" in error && typeof error.data === "string" && error.data !== "0x") {
+        const parsed = contract.interface.parseError(error.data);
+        if (parsed != null) {
+            return `${parsed.name}(${parsed.args.join(", ")})`;
+        }
+    }
+    if ("shortMessage" in error && typeof error.shortMessage === "string") {
+        return error.shortMessage;
+    }
+    return String("message" in error ? error.message : error).split("\n")[0];
+}
+
+// Asks for confirmation on the terminal, unless `assumeYes` is set for non-interactive runs
+export async function confirm(question: string, assumeYes: boolean = false) {
+    if (assumeYes) {
+        return true;
+    }
+    const readline = require("readline/promises");
+    const rl = readline.createInterface({input: process.stdin, output: process.stdout});
+    try {
+        const answer: string = await rl.question(`${question} [y/N] `);
+        return answer.trim().toLowerCase() === "y";
+    } finally {
+        rl.close();
+    }
+}
+
+// Queries the events of a filter from `fromBlock` to the latest block, in ranges of `blockRange` blocks for the RPC
+// providers that limit the range of a log query. The whole range is queried at once by default.
+export async function queryFilterInRanges(
+    contract: BaseContract,
+    filter: ContractEventName,
+    fromBlock: number,
+    blockRange?: number,
+): Promise<EventLog[]> {
+    if (blockRange != undefined && !(Number.isSafeInteger(blockRange) && blockRange > 0)) {
+        throw new Error(`invalid block range ${blockRange}, should be a positive integer`);
+    }
+    const latest = await contract.runner!.provider!.getBlockNumber();
+    const events: EventLog[] = [];
+    const step = blockRange ?? latest - fromBlock + 1;
+    for (let start = fromBlock; start <= latest; start += step) {
+        const logs = await contract.queryFilter(filter, start, Math.min(start + step - 1, latest));
+        events.push(...logs.filter((log): log is EventLog => "args" in log));
+    }
+    return events;
+}
+
+// The block range of each log query, from `LOG_BLOCK_RANGE`
+export function logBlockRange() {
+    const value = process.env.LOG_BLOCK_RANGE;
+    if (value == undefined) {
+        return undefined;
+    }
+    const blockRange = Number(value);
+    if (!/^[0-9]+$/.test(value) || !Number.isSafeInteger(blockRange) || blockRange <= 0) {
+        throw new Error(`invalid LOG_BLOCK_RANGE ${value}, should be a positive integer`);
+    }
+    return blockRange;
+}
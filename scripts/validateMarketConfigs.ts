@@ -0,0 +1,31 @@
+import {networks} from "./networks";
+import {validateMarketConfig} from "./marketConfig";
+
+// Validates the market configs of every network offline, reporting every violation per market
+export function validateMarketConfigs() {
+    let violations = 0;
+    for (const [name, network] of Object.entries(networks)) {
+        for (const market of network.markets) {
+            for (const violation of validateMarketConfig(market.marketCfg)) {
+                violations++;
+                console.error(`❌ ${name} ${market.name} ${violation.field}: ${violation.error}, ${violation.message}`);
+            }
+        }
+        console.log(`${name}: ${network.markets.length} markets validated`);
+    }
+    return violations;
+}
+
+async function main() {
+    const violations = validateMarketConfigs();
+    if (violations > 0) {
+        throw new Error(`${violations} market config violation(s) found`);
+    }
+}
+
+main()
+    .then(() => process.exit(0))
+    .catch((error) => {
+        console.error(error);
+        process.exit(1);
+    });
@@ -1,102 +1,53 @@
-import {hardhatArguments} from "hardhat";
+import {ethers, hardhatArguments} from "hardhat";
 import {networks} from "./networks";
+import {readReferenceData, ReferenceFeed, validateMarkets} from "./referenceFeeds";
 
-export async function validateMarkets() {
-    const network = networks["arbitrum-mainnet"];
-    if (network == undefined) {
-        throw new Error(`network ${hardhatArguments.network} is not defined`);
+// Loads the reference data from the REFERENCE_DATA snapshot file if set, or fetches it from the reference data
+// directory of the network, saving it to REFERENCE_DATA_SAVE if set
+async function loadReferenceData(networkName: string): Promise<ReferenceFeed[]> {
+    const fs = require("fs");
+    const snapshot = process.env.REFERENCE_DATA;
+    if (snapshot != undefined) {
+        console.log(`reference data loaded from ${snapshot}`);
+        return readReferenceData(snapshot);
     }
-    const markets = [
-        "eth",
-        "btc",
-        "sol",
-        "arb",
-        "op",
-        "matic",
-        "avax",
-        "link",
-        "ordi",
-        "doge",
-        "xrp",
-        "ada",
-        "bnb",
-        "ltc",
-        "etc",
-        "fil",
-        "sui",
-        "tia",
-        "dot",
-        "blur",
-        "inj",
-        "sei",
-        "trb",
-        "atom",
-        "apt",
-        "near",
-        "ldo",
-        "dydx",
-        "mkr",
-        "stx",
-        "ftm",
-        "rune",
-        "uni",
-        "crv",
-        "1000bonk",
-        "ens",
-        "aave",
-        "1000pepe",
-        "mina",
-        "jto",
-        "rdnt",
-        "sushi",
-        "1inch",
-        "snx",
-        "pendle",
-        "ntrn",
-        "pyth",
-        "gmx",
-    ];
-    if (markets.length != network.markets.length) {
-        throw new Error(`network ${hardhatArguments.network} markets length is not equal to ${markets.length}`);
-    }
-    const marketToProxy = await fetch(
-        "https://reference-data-directory.vercel.app/feeds-ethereum-mainnet-arbitrum-1.json",
-    )
-        .then((resp) => resp.json())
-        .then((json) => {
-            const marketToProxy = new Map<string, string>();
-            for (let item of json) {
-                if (item.docs.quoteAsset !== "USD") {
-                    continue;
-                }
-                if (!item.proxyAddress || !item.docs.baseAsset) {
-                    continue;
-                }
-                if (item.name !== `${item.docs.baseAsset} / ${item.docs.quoteAsset}`) {
-                    continue;
-                }
-                marketToProxy.set(item.docs.baseAsset, item.proxyAddress);
-            }
-            return marketToProxy;
-        });
-    for (let index in network.markets) {
-        if (network.markets[index].name !== markets[index].toUpperCase()) {
-            throw new Error(
-                `network ${hardhatArguments.network} markets[${index}] name is not equal to ${markets[index]}`,
-            );
-        }
-        if (!marketToProxy.has(network.markets[index].name)) {
-            continue;
-        }
-        const proxy = marketToProxy.get(network.markets[index].name);
-        if (proxy !== network.markets[index].chainLinkPriceFeed) {
-            console.error(`network ${hardhatArguments.network} markets[${index}] proxy is not equal to ${proxy}`);
-        }
+    const network = networks[networkName as keyof typeof networks];
+    const referenceData = await fetch(network.chainLinkReferenceData).then((resp) => resp.json());
+    const save = process.env.REFERENCE_DATA_SAVE;
+    if (save != undefined) {
+        fs.writeFileSync(save, JSON.stringify(referenceData, null, 4) + "\n");
+        console.log(`💾 reference data output to ${save}`);
     }
+    return referenceData;
 }
 
 async function main() {
-    await validateMarkets();
+    const networkName = process.env.VALIDATE_NETWORK ?? hardhatArguments.network;
+    if (networkName == undefined || networks[networkName as keyof typeof networks] == undefined) {
+        throw new Error(`network ${networkName} is not defined`);
+    }
+    const referenceData = await loadReferenceData(networkName);
+
+    // the feeds are checked on chain only when the RPC of the network is reachable
+    let provider: typeof ethers.provider | undefined;
+    if (hardhatArguments.network === networkName) {
+        provider = await ethers.provider
+            .getBlockNumber()
+            .then(() => ethers.provider)
+            .catch(() => undefined);
+    }
+    if (provider == undefined) {
+        console.log(`⏭️ feeds of ${networkName} are not checked on chain, the RPC is not available`);
+    }
+
+    const problems = await validateMarkets(networkName, referenceData, provider);
+    for (const problem of problems) {
+        console.error(`❌ ${problem.market}: ${problem.message}`);
+    }
+    if (problems.length > 0) {
+        throw new Error(`${problems.length} price feed problem(s) found in ${networkName}`);
+    }
+    console.log(`✅ price feeds of ${networkName} validated`);
 }
 
 main()
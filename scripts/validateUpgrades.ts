@@ -0,0 +1,125 @@
+import {artifacts, ethers, hardhatArguments, upgrades} from "hardhat";
+import {networks} from "./networks";
+import {LibraryName, loadManifest, proxyNames} from "./manifest";
+import {changedLibraries, compareDeployedCode, linkedLibraries} from "./bytecode";
+
+export interface UpgradeRequirement {
+    contract: string;
+    // the ERC-7201 namespaced storage structs the storage layout validation covered
+    namespaces: string[];
+    // undefined if the storage layout is compatible
+    layoutError?: string;
+    implementationChanged: boolean;
+    librariesToRedeploy: LibraryName[];
+}
+
+// Validates the upgrade of every proxy in the manifest to the local artifacts, and reports which libraries must be
+// redeployed because their bytecode changed
+export async function validateUpgrades(chainId: bigint) {
+    const network = networks[hardhatArguments.network as keyof typeof networks];
+    if (network == undefined) {
+        throw new Error(`network ${hardhatArguments.network} is not defined`);
+    }
+    const document = loadManifest(chainId);
+
+    const changed = await changedLibraries(document.deployments);
+
+    const requirements: UpgradeRequirement[] = [];
+    for (const name of proxyNames) {
+        const proxy = document.deployments[name];
+        const libraries = await linkedLibraries(name, document.deployments);
+        const factory = await ethers.getContractFactory(name, {libraries});
+        let layoutError: string | undefined;
+        try {
+            await upgrades.validateUpgrade(proxy, factory);
+        } catch (e) {
+            layoutError = (e as Error).message;
+        }
+        const implementation = await upgrades.erc1967.getImplementationAddress(proxy);
+        const res = await compareDeployedCode(name, implementation, libraries);
+        requirements.push({
+            contract: name,
+            namespaces: await storageNamespaces(name),
+            layoutError: layoutError,
+            implementationChanged: !res.ok,
+            librariesToRedeploy: changed.filter((library) => libraries[library] != undefined),
+        });
+    }
+    return {changedLibraries: changed, requirements};
+}
+
+// The parts of the solc AST the storage namespaces are read from
+interface AstNode {
+    id: number;
+    nodeType: string;
+    name?: string;
+    nodes?: AstNode[];
+    linearizedBaseContracts?: number[];
+    documentation?: {text?: string};
+}
+
+// Finds the ERC-7201 namespaced storage structs declared by the contract and the contracts it inherits from
+async function storageNamespaces(contractName: string) {
+    const artifact = await artifacts.readArtifact(contractName);
+    const buildInfo = await artifacts.getBuildInfo(`${artifact.sourceName}:${artifact.contractName}`);
+    if (buildInfo == undefined) {
+        return [];
+    }
+    const definitions = new Map<number, AstNode>();
+    for (const source of Object.values(buildInfo.output.sources)) {
+        const ast: AstNode = source.ast;
+        for (const node of ast.nodes ?? []) {
+            if (node.nodeType === "ContractDefinition") {
+                definitions.set(node.id, node);
+            }
+        }
+    }
+    const sourceAst: AstNode = buildInfo.output.sources[artifact.sourceName].ast;
+    const contract = sourceAst.nodes?.find(
+        (node) => node.nodeType === "ContractDefinition" && node.name === artifact.contractName,
+    );
+    const namespaces: string[] = [];
+    for (const id of contract?.linearizedBaseContracts ?? []) {
+        for (const node of definitions.get(id)?.nodes ?? []) {
+            const location = /@custom:storage-location\s+(erc7201:\S+)/.exec(node.documentation?.text ?? "");
+            if (node.nodeType === "StructDefinition" && location != null) {
+                namespaces.push(`${node.name} (${location[1]})`);
+            }
+        }
+    }
+    return namespaces;
+}
+
+async function main() {
+    const {changedLibraries, requirements} = await validateUpgrades((await ethers.provider.getNetwork()).chainId);
+    if (changedLibraries.length > 0) {
+        console.log(`📚 libraries with changed bytecode: ${changedLibraries.join(", ")}`);
+    }
+    let incompatible = 0;
+    for (const item of requirements) {
+        console.log(`${item.layoutError == undefined ? "✅" : "❌"} ${item.contract}`);
+        console.log(`    namespaces: ${item.namespaces.join(", ") || "none"}`);
+        if (item.layoutError != undefined) {
+            incompatible++;
+            console.error(`    storage layout is incompatible: ${item.layoutError}`);
+            continue;
+        }
+        if (item.librariesToRedeploy.length > 0) {
+            console.log(`    requires: redeploy ${item.librariesToRedeploy.join(", ")}, then upgrade`);
+        } else if (item.implementationChanged) {
+            console.log("    requires: upgrade");
+        } else {
+            console.log("    requires: nothing, the implementation is up to date");
+        }
+    }
+    if (incompatible > 0) {
+        throw new Error(`${incompatible} proxy(s) cannot be upgraded`);
+    }
+}
+
+main()
+    .then(() => process.exit(0))
+    .catch((error) => {
+        console.error(error);
+        process.exit(1);
+    });
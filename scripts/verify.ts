@@ -0,0 +1,216 @@
+import {artifacts, ethers, hardhatArguments, run, upgrades} from "hardhat";
+import {BuildInfo} from "hardhat/types";
+import {AbiCoder, Interface, InterfaceAbi} from "ethers";
+import {networks} from "./networks";
+import {ContractName, contractNames, Deployments, loadManifest, proxyNames} from "./manifest";
+import {linkedLibraries} from "./bytecode";
+import {logBlockRange, queryFilterInRanges} from "./util";
+
+export interface VerificationRecord {
+    address: string;
+    // the implementation verified behind a proxy
+    implementation?: string;
+    status: "verified" | "failed" | "bundled";
+    message?: string;
+}
+
+export type VerificationStatus = Record<string, VerificationRecord>;
+
+interface VerificationTarget {
+    name: string;
+    address: string;
+    implementation?: string;
+    contractName: string;
+    constructorArguments: unknown[];
+    libraries: Record<string, string>;
+    // the ABI and build info of a contract compiled outside of the project
+    external?: {abi: InterfaceAbi; buildInfo: BuildInfo};
+}
+
+// TransparentUpgradeableProxy of OpenZeppelin Contracts 5, as compiled and deployed by the OpenZeppelin upgrades plugin
+const proxyArtifact = require("@openzeppelin/upgrades-core/artifacts/@openzeppelin/contracts-v5/proxy/transparent/TransparentUpgradeableProxy.sol/TransparentUpgradeableProxy.json");
+const proxyBuildInfo: BuildInfo = require("@openzeppelin/upgrades-core/artifacts/build-info-v5.json");
+
+const upgradedAbi = ["event Upgraded(address indexed implementation)"];
+
+// constructor arguments of the contracts that are not deployed behind a proxy, the other contracts take none
+const constructorArguments: Partial<Record<ContractName, (deployments: Deployments) => unknown[]>> = {
+    MarketIndexer: (deployments) => [deployments.MarketManagerUpgradeable],
+    ExecutorAssistant: (deployments) => [deployments.PositionRouterUpgradeable],
+};
+
+function verificationStatusPath(chainId: bigint) {
+    return `deployments/${chainId}.verification.json`;
+}
+
+function loadVerificationStatus(chainId: bigint): VerificationStatus {
+    const fs = require("fs");
+    const path = verificationStatusPath(chainId);
+    return fs.existsSync(path) ? JSON.parse(fs.readFileSync(path, "utf8")) : {};
+}
+
+function saveVerificationStatus(chainId: bigint, status: VerificationStatus) {
+    const fs = require("fs");
+    fs.writeFileSync(verificationStatusPath(chainId), JSON.stringify(status, null, 4) + "\n");
+}
+
+// Verifies every contract in the manifest on the block explorer, or writes a standard JSON input bundle for each of
+// them when `bundling`. Contracts already verified at the same address are skipped.
+export async function verify(chainId: bigint, bundling: boolean) {
+    const network = networks[hardhatArguments.network as keyof typeof networks];
+    if (network == undefined) {
+        throw new Error(`network ${hardhatArguments.network} is not defined`);
+    }
+    const document = loadManifest(chainId);
+    const status = loadVerificationStatus(chainId);
+
+    const targets: VerificationTarget[] = [];
+    for (const name of contractNames) {
+        const artifact = await artifacts.readArtifact(name);
+        targets.push({
+            name: name,
+            address: document.deployments[name],
+            implementation: (proxyNames as readonly string[]).includes(name)
+                ? await upgrades.erc1967.getImplementationAddress(document.deployments[name])
+                : undefined,
+            contractName: `${artifact.sourceName}:${artifact.contractName}`,
+            constructorArguments: constructorArguments[name]?.(document.deployments) ?? [],
+            libraries: await linkedLibraries(name, document.deployments),
+        });
+    }
+    // the upgrades plugin verifies the proxies along with their implementations, a bundle is written for each of them
+    if (bundling) {
+        for (const name of proxyNames) {
+            targets.push({
+                name: `TransparentUpgradeableProxy(${name})`,
+                address: document.deployments[name],
+                contractName: `${proxyArtifact.sourceName}:${proxyArtifact.contractName}`,
+                constructorArguments: await proxyConstructorArguments(document.deployments[name], document.block),
+                libraries: {},
+                external: {abi: proxyArtifact.abi, buildInfo: proxyBuildInfo},
+            });
+        }
+    }
+    for (const market of document.deployments.registerMarkets ?? []) {
+        targets.push({
+            name: `MarketDescriptor(${market.name})`,
+            address: market.address,
+            contractName: "contracts/core/MarketDescriptor.sol:MarketDescriptor",
+            constructorArguments: [],
+            libraries: {},
+        });
+    }
+
+    for (const target of targets) {
+        const record = status[target.name];
+        if (
+            record?.status === "verified" &&
+            record.address === target.address &&
+            record.implementation === target.implementation
+        ) {
+            console.log(`⏭️ ${target.name} already verified`);
+            continue;
+        }
+        if (bundling) {
+            await writeBundle(chainId, target);
+            status[target.name] = {address: target.address, implementation: target.implementation, status: "bundled"};
+        } else {
+            try {
+                // the OpenZeppelin upgrades plugin verifies the implementation and the proxy given the proxy address
+                await run("verify:verify", {
+                    address: target.address,
+                    contract: target.implementation == undefined ? target.contractName : undefined,
+                    constructorArguments: target.constructorArguments,
+                    libraries: target.libraries,
+                });
+                status[target.name] = {
+                    address: target.address,
+                    implementation: target.implementation,
+                    status: "verified",
+                };
+                console.log(`✅ ${target.name} verified`);
+            } catch (e) {
+                const message = (e as Error).message.split("\n")[0];
+                status[target.name] = {
+                    address: target.address,
+                    implementation: target.implementation,
+                    status: "failed",
+                    message: message,
+                };
+                console.error(`❌ ${target.name} verification failed: ${message}`);
+            }
+        }
+        saveVerificationStatus(chainId, status);
+    }
+    return status;
+}
+
+// Decodes the constructor arguments of a proxy, the initial implementation, the initial owner of its ProxyAdmin and the
+// initializer calldata, from its creation transaction, which emitted the first Upgraded event of the proxy
+async function proxyConstructorArguments(proxy: string, fromBlock: number) {
+    const contract = new ethers.Contract(proxy, upgradedAbi, ethers.provider);
+    const events = await queryFilterInRanges(contract, contract.filters.Upgraded(), fromBlock, logBlockRange());
+    const tx = events.length == 0 ? null : await ethers.provider.getTransaction(events[0].transactionHash);
+    if (tx == null || tx.to != null || !tx.data.startsWith(proxyArtifact.bytecode)) {
+        throw new Error(`the creation transaction of the proxy ${proxy} is not found`);
+    }
+    const [implementation, initialOwner, data] = AbiCoder.defaultAbiCoder().decode(
+        ["address", "address", "bytes"],
+        "0x" + tx.data.slice(proxyArtifact.bytecode.length),
+    );
+    return [implementation as string, initialOwner as string, data as string];
+}
+
+// Writes the standard JSON input of the target, with its libraries linked, for offline submission. The bundle of a
+// proxy name is the one of its current implementation, the proxy itself is bundled as
+// `TransparentUpgradeableProxy(<name>)`.
+async function writeBundle(chainId: bigint, target: VerificationTarget) {
+    const fs = require("fs");
+    const [sourceName, contractName] = target.contractName.split(":");
+    const buildInfo = target.external?.buildInfo ?? (await artifacts.getBuildInfo(target.contractName));
+    if (buildInfo == undefined) {
+        throw new Error(`build info of ${target.contractName} is not found, compile the contracts first`);
+    }
+    const input = structuredClone(buildInfo.input);
+    const linkReferences = buildInfo.output.contracts[sourceName][contractName].evm.bytecode.linkReferences;
+    for (const [librarySourceName, libraries] of Object.entries(linkReferences)) {
+        for (const libraryName of Object.keys(libraries)) {
+            input.settings.libraries = {
+                ...input.settings.libraries,
+                [librarySourceName]: {
+                    ...input.settings.libraries?.[librarySourceName],
+                    [libraryName]: target.libraries[libraryName],
+                },
+            };
+        }
+    }
+    const abi = target.external?.abi ?? (await artifacts.readArtifact(target.contractName)).abi;
+    const bundle = {
+        address: target.implementation ?? target.address,
+        contractName: target.contractName,
+        compilerVersion: `v${buildInfo.solcLongVersion}`,
+        constructorArguments: new Interface(abi).encodeDeploy(target.constructorArguments).slice(2),
+        input: input,
+    };
+    const dir = `deployments/${chainId}.verification`;
+    if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir);
+    }
+    fs.writeFileSync(`${dir}/${target.name}.json`, JSON.stringify(bundle, null, 4) + "\n");
+    console.log(`💾 ${target.name} standard JSON input output to ${dir}/${target.name}.json`);
+}
+
+async function main() {
+    const status = await verify((await ethers.provider.getNetwork()).chainId, process.env.VERIFY_MODE === "bundle");
+    const failed = Object.entries(status).filter(([, record]) => record.status === "failed");
+    if (failed.length > 0) {
+        throw new Error(`verification of ${failed.map(([name]) => name).join(", ")} failed`);
+    }
+}
+
+main()
+    .then(() => process.exit(0))
+    .catch((error) => {
+        console.error(error);
+        process.exit(1);
+    });
@@ -1,5 +0,0 @@
-import "dotenv/config";
-
-const document = require(`../../deployments/${process.env.CHAIN_ID}.json`);
-
-module.exports = [`${document.deployments.MarketManagerUpgradeable}`];
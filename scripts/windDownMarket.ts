@@ -0,0 +1,317 @@
+import {ethers, hardhatArguments} from "hardhat";
+import {ContractEventName} from "ethers";
+import {networks} from "./networks";
+import {assertValidMarketConfigs, diffMarketConfigs, MarketBaseConfig, readMarketConfig} from "./marketConfig";
+import {marketListingsPath, writeMarketListings} from "./marketListings";
+import {loadManifest, marketAddress} from "./manifest";
+import {encodeMarketIndexes} from "./mixedExecutor";
+import {proposalTransaction, writeProposal} from "./proposal";
+import {riskTier, riskTiers} from "./riskTiers";
+import {LONG, SHORT} from "./side";
+import {formatSize, formatUsd} from "./units";
+import {confirm, decodeRevert, logBlockRange, queryFilterInRanges} from "./util";
+
+// The wind-down stages, each capping the position fields of the market at a fraction of its risk tier. The last stage
+// leaves 1x leverage and no room for new positions, so that the market can only be exited.
+const windDownStages: ((tier: MarketBaseConfig) => Partial<Record<keyof MarketBaseConfig, bigint>>)[] = [
+    (tier) => ({
+        maxLeveragePerPosition: BigInt(tier.maxLeveragePerPosition) / 2n,
+        maxPositionValueRate: BigInt(tier.maxPositionValueRate) / 2n,
+        maxSizeRatePerPosition: BigInt(tier.maxSizeRatePerPosition) / 2n,
+    }),
+    (tier) => ({
+        maxLeveragePerPosition: BigInt(tier.maxLeveragePerPosition) / 5n,
+        maxPositionValueRate: BigInt(tier.maxPositionValueRate) / 5n,
+        maxSizeRatePerPosition: BigInt(tier.maxSizeRatePerPosition) / 5n,
+    }),
+    () => ({
+        maxLeveragePerPosition: 1n,
+        maxPositionValueRate: 1n,
+        maxSizeRatePerPosition: 0n,
+    }),
+];
+
+export interface WindDownCheck {
+    item: string;
+    done: boolean;
+    detail?: string;
+}
+
+// Winds a market down by one stage: tightens its listed config and applies it on chain, settles its funding fee and
+// collects its protocol fee, then reports the positions remaining from the event history as a checklist of what
+// still blocks removing the market from the listings. `stage` defaults to the stage after the listed one, once the
+// listed one is applied on chain.
+export async function windDownMarket(chainId: bigint, name: string, stage?: number, assumeYes: boolean = false) {
+    const networkName = hardhatArguments.network!;
+    const network = networks[networkName as keyof typeof networks];
+    if (network == undefined) {
+        throw new Error(`network ${networkName} is not defined`);
+    }
+    const listing = network.markets.find((item) => item.name === name);
+    if (listing == undefined) {
+        throw new Error(`market ${name} is not listed in network ${networkName}`);
+    }
+    const document = loadManifest(chainId);
+    const marketAddr = marketAddress(document, name);
+    const marketManager = await ethers.getContractAt(
+        "MarketManagerUpgradeable",
+        document.deployments.MarketManagerUpgradeable,
+    );
+    if (!(await marketManager.isEnabledMarket(marketAddr))) {
+        throw new Error(`market ${name} is not enabled`);
+    }
+
+    // a rerun stays at the listed stage until it is applied on chain, e.g. after its proposal is executed
+    const live = await readMarketConfig(marketManager, marketAddr);
+    const listedApplied = !diffMarketConfigs(live, listing.marketCfg).some((diff) => diff.field.startsWith("baseCfg."));
+    stage =
+        stage ??
+        (listing.windDown != undefined && !listedApplied
+            ? listing.windDown
+            : Math.min((listing.windDown ?? 0) + 1, windDownStages.length));
+    if (!Number.isInteger(stage) || stage < 1 || stage > windDownStages.length) {
+        throw new Error(`wind-down stage ${stage} is not between 1 and ${windDownStages.length}`);
+    }
+    if (stage < (listing.windDown ?? 0)) {
+        throw new Error(`market ${name} is already wound down to stage ${listing.windDown}`);
+    }
+
+    // tighten the listing, never loosening a field that is already tighter than the stage
+    const caps = windDownStages[stage - 1](riskTiers[listing.tier].baseCfg);
+    const baseCfg: Record<string, bigint> = {};
+    for (const [field, cap] of Object.entries(caps)) {
+        const listed = BigInt(listing.marketCfg.baseCfg[field as keyof MarketBaseConfig]);
+        baseCfg[field] = listed < cap ? listed : cap;
+    }
+    if (baseCfg.maxLeveragePerPosition == 0n) {
+        baseCfg.maxLeveragePerPosition = 1n;
+    }
+    const overrides = {...listing.overrides, baseCfg: {...listing.overrides.baseCfg, ...baseCfg}};
+    const tightened = {...listing, windDown: stage, ...riskTier(listing.tier, overrides)};
+    assertValidMarketConfigs([tightened]);
+    console.log(`${name} wind-down stage ${stage} of ${windDownStages.length}:`);
+    for (const diff of diffMarketConfigs(listing.marketCfg, tightened.marketCfg)) {
+        console.log(`    ${diff.field}: ${diff.fromText} -> ${diff.toText}`);
+    }
+    const checklist: WindDownCheck[] = [];
+    const [signer] = await ethers.getSigners();
+
+    // apply the tightened config
+    const changed = diffMarketConfigs(live, tightened.marketCfg).filter((diff) => diff.field.startsWith("baseCfg."));
+    let applied = changed.length == 0;
+    let proposed = false;
+    const gov: string = await marketManager.gov();
+    if (!applied && gov !== signer.address) {
+        await writeProposal({
+            name: `wind-down-${name}-${stage}-${Date.now()}`,
+            chainId: chainId.toString(),
+            executor: gov,
+            transactions: [
+                await proposalTransaction(
+                    marketManager,
+                    "updateMarketBaseConfig",
+                    [marketAddr, tightened.marketCfg.baseCfg],
+                    `updateMarketBaseConfig of ${name}, wind-down stage ${stage}`,
+                ),
+            ],
+        });
+        proposed = true;
+    } else if (!applied && (await confirm(`apply wind-down stage ${stage} to ${name}?`, assumeYes))) {
+        try {
+            await (await marketManager.updateMarketBaseConfig(marketAddr, tightened.marketCfg.baseCfg)).wait();
+            applied = true;
+            console.log(`✅ ${name} updateMarketBaseConfig`);
+        } catch (e) {
+            console.error(`❌ ${name} updateMarketBaseConfig: ${decodeRevert(marketManager, e)}`);
+        }
+    }
+    // the listings record the stage only once it is applied or proposed, so an aborted run leaves them unchanged
+    if (applied || proposed) {
+        await writeMarketListings(
+            networkName,
+            network.markets.map((item) => (item.name === name ? tightened : item)),
+        );
+    } else {
+        console.log(`wind-down stage ${stage} of ${name} not applied, the listings are left unchanged`);
+    }
+    checklist.push({
+        item: `config tightened to wind-down stage ${stage} on chain`,
+        done: applied,
+        detail: applied ? undefined : `${changed.length} field(s) pending`,
+    });
+    checklist.push({
+        item: `final wind-down stage ${windDownStages.length} reached`,
+        done: stage == windDownStages.length,
+    });
+
+    // settle the funding fee through the mixed executor, which settles the markets given their packed indexes
+    const mixedExecutor = await ethers.getContractAt(
+        "MixedExecutorUpgradeable",
+        document.deployments.MixedExecutorUpgradeable,
+    );
+    const marketIndexer = await ethers.getContractAt("MarketIndexer", document.deployments.MarketIndexer);
+    const index: bigint = await marketIndexer.marketIndexes(marketAddr);
+    let settled = false;
+    if (await mixedExecutor.executors(signer.address)) {
+        try {
+            await (await mixedExecutor.settleFundingFeeBatch(encodeMarketIndexes([Number(index)]))).wait();
+            settled = true;
+            console.log(`✅ ${name} funding fee settled`);
+        } catch (e) {
+            console.error(`❌ ${name} funding fee settlement: ${decodeRevert(mixedExecutor, e)}`);
+        }
+    }
+    checklist.push({
+        item: "funding fee settled",
+        done: settled,
+        detail: settled ? undefined : "settle it through MixedExecutor.settleFundingFeeBatch as an executor",
+    });
+
+    // collecting the protocol fee is permissionless, it is sent to the protocol fee distributor
+    if ((await marketManager.protocolFees(marketAddr)) > 0n) {
+        try {
+            await (await marketManager.collectProtocolFee(marketAddr)).wait();
+            console.log(`✅ ${name} protocol fee collected`);
+        } catch (e) {
+            console.error(`❌ ${name} protocol fee collection: ${decodeRevert(marketManager, e)}`);
+        }
+    }
+    const protocolFee: bigint = await marketManager.protocolFees(marketAddr);
+    checklist.push({
+        item: "protocol fee collected",
+        done: protocolFee == 0n,
+        detail: `${formatUsd(protocolFee)} remaining`,
+    });
+
+    // every position starts with an increase, so the accounts that ever held one are found in the increase events
+    const blockRange = logBlockRange();
+    const accounts = async (filter: ContractEventName) =>
+        [
+            ...new Set(
+                (await queryFilterInRanges(marketManager, filter, document.block, blockRange)).map(
+                    (event) => event.args.account as string,
+                ),
+            ),
+        ].sort();
+
+    const positions: string[] = [];
+    for (const account of await accounts(marketManager.filters.PositionIncreased(marketAddr))) {
+        for (const side of [LONG, SHORT]) {
+            const position = await marketManager.positions(marketAddr, account, side);
+            if (position.size > 0n) {
+                positions.push(`${account} ${side == LONG ? "long" : "short"} size ${formatSize(position.size, name)}`);
+            }
+        }
+    }
+    const globalPosition = await marketManager.globalPositions(marketAddr);
+    checklist.push({
+        item: "no open positions",
+        done: positions.length == 0 && globalPosition.longSize == 0n && globalPosition.shortSize == 0n,
+        detail: `${positions.length} position(s), long size ${formatSize(
+            globalPosition.longSize,
+            name,
+        )}, short size ${formatSize(globalPosition.shortSize, name)}`,
+    });
+
+    const liquidityPositions: string[] = [];
+    for (const account of await accounts(marketManager.filters.LiquidityPositionIncreased(marketAddr))) {
+        const position = await marketManager.liquidityPositions(marketAddr, account);
+        if (position.liquidity > 0n) {
+            liquidityPositions.push(`${account} liquidity ${formatUsd(position.liquidity)}`);
+        }
+    }
+    const globalLiquidityPosition = await marketManager.globalLiquidityPositions(marketAddr);
+    checklist.push({
+        item: "no liquidity positions",
+        done: liquidityPositions.length == 0 && globalLiquidityPosition.liquidity == 0n,
+        detail: `${liquidityPositions.length} position(s), global liquidity ${formatUsd(
+            globalLiquidityPosition.liquidity,
+        )}`,
+    });
+
+    const liquidationFundPositions: string[] = [];
+    for (const account of await accounts(marketManager.filters.LiquidationFundPositionIncreased(marketAddr))) {
+        const liquidity: bigint = await marketManager.liquidationFundPositions(marketAddr, account);
+        if (liquidity > 0n) {
+            liquidationFundPositions.push(`${account} liquidity ${formatUsd(liquidity)}`);
+        }
+    }
+    const globalLiquidationFund = await marketManager.globalLiquidationFunds(marketAddr);
+    checklist.push({
+        item: "no liquidation fund positions",
+        done: liquidationFundPositions.length == 0 && globalLiquidationFund.liquidity == 0n,
+        detail: `${liquidationFundPositions.length} position(s), liquidation fund ${formatUsd(
+            globalLiquidationFund.liquidationFund,
+        )}`,
+    });
+
+    const usdBalance: bigint = await marketManager.usdBalances(marketAddr);
+    checklist.push({item: "USD balance drained", done: usdBalance == 0n, detail: `${formatUsd(usdBalance)} remaining`});
+
+    const blocked = checklist.some((check) => !check.done);
+    checklist.push({
+        item: `${name} removed from ${marketListingsPath(networkName)}`,
+        done: false,
+        detail: blocked
+            ? "blocked by the items above"
+            : `the market stays enabled on chain and keeps its market index ${index}, which later markets do not reuse`,
+    });
+
+    printChecklist(name, checklist, [...positions, ...liquidityPositions, ...liquidationFundPositions]);
+    writeChecklist(chainId, name, stage, checklist, {positions, liquidityPositions, liquidationFundPositions});
+    return checklist;
+}
+
+function printChecklist(name: string, checklist: WindDownCheck[], remaining: string[]) {
+    console.log(`${name} wind-down checklist:`);
+    for (const check of checklist) {
+        console.log(`${check.done ? "✅" : "❌"} ${check.item}${check.detail == undefined ? "" : `: ${check.detail}`}`);
+    }
+    for (const position of remaining) {
+        console.log(`    ${position}`);
+    }
+}
+
+function writeChecklist(
+    chainId: bigint,
+    name: string,
+    stage: number,
+    checklist: WindDownCheck[],
+    remaining: Record<string, string[]>,
+) {
+    const fs = require("fs");
+    const path = `deployments/${chainId}.wind-down-${name}.md`;
+    const lines = [`# ${name} wind-down, stage ${stage}`, ""];
+    for (const check of checklist) {
+        lines.push(
+            `- [${check.done ? "x" : " "}] ${check.item}${check.detail == undefined ? "" : `: ${check.detail}`}`,
+        );
+    }
+    for (const [kind, positions] of Object.entries(remaining)) {
+        if (positions.length > 0) {
+            lines.push("", `## Remaining ${kind}`, "", ...positions.map((position) => `- ${position}`));
+        }
+    }
+    fs.writeFileSync(path, lines.join("\n") + "\n");
+    console.log(`💾 checklist output to ${path}`);
+}
+
+async function main() {
+    const name = process.env.WIND_DOWN_MARKET;
+    if (name == undefined) {
+        throw new Error("WIND_DOWN_MARKET is not set");
+    }
+    await windDownMarket(
+        (await ethers.provider.getNetwork()).chainId,
+        name,
+        process.env.WIND_DOWN_STAGE == undefined ? undefined : Number(process.env.WIND_DOWN_STAGE),
+        process.env.WIND_DOWN_CONFIRM === "yes",
+    );
+}
+
+main()
+    .then(() => process.exit(0))
+    .catch((error) => {
+        console.error(error);
+        process.exit(1);
+    });
@@ -0,0 +1,245 @@
+import {ethers} from "hardhat";
+import {Network} from "./networks";
+import {Deployments} from "./manifest";
+import {queryFilterInRanges} from "./util";
+
+export interface Check {
+    name: string;
+    ok: boolean;
+    actual: string;
+    expected: string;
+}
+
+// Checks that the cross-references between the deployed contracts are wired as the deployment script intended
+export async function checkWiring(
+    network: Network,
+    deployments: Deployments,
+    fromBlock: number = 0,
+    blockRange?: number,
+) {
+    const checks: Check[] = [];
+    const expectEq = async (name: string, actualPromise: Promise<unknown>, expected: unknown) => {
+        let actual: string;
+        try {
+            actual = String(await actualPromise);
+        } catch (e) {
+            actual = `call failed: ${(e as Error).message.split("\n")[0]}`;
+        }
+        // addresses are compared case-insensitively, as the network config is not always checksummed
+        const ok = actual.toLowerCase() === String(expected).toLowerCase();
+        checks.push({name: name, ok: ok, actual: actual, expected: String(expected)});
+    };
+
+    const router = await ethers.getContractAt("RouterUpgradeable", deployments.RouterUpgradeable);
+    const orderBook = await ethers.getContractAt("OrderBookUpgradeable", deployments.OrderBookUpgradeable);
+    const positionRouter = await ethers.getContractAt(
+        "PositionRouterUpgradeable",
+        deployments.PositionRouterUpgradeable,
+    );
+    const priceFeed = await ethers.getContractAt("PriceFeedUpgradeable", deployments.PriceFeedUpgradeable);
+    const marketManager = await ethers.getContractAt("MarketManagerUpgradeable", deployments.MarketManagerUpgradeable);
+    const marketIndexer = await ethers.getContractAt("MarketIndexer", deployments.MarketIndexer);
+    const mixedExecutor = await ethers.getContractAt("MixedExecutorUpgradeable", deployments.MixedExecutorUpgradeable);
+    const executorAssistant = await ethers.getContractAt("ExecutorAssistant", deployments.ExecutorAssistant);
+    const liquidator = await ethers.getContractAt("LiquidatorUpgradeable", deployments.LiquidatorUpgradeable);
+    const farmRewardDistributor = await ethers.getContractAt(
+        "FarmRewardDistributorUpgradeable",
+        deployments.FarmRewardDistributorUpgradeable,
+    );
+    const protocolFeeDistributor = await ethers.getContractAt(
+        "ProtocolFeeDistributorUpgradeable",
+        deployments.ProtocolFeeDistributorUpgradeable,
+    );
+    const rewardCollector = await ethers.getContractAt(
+        "RewardCollectorUpgradeable",
+        deployments.RewardCollectorUpgradeable,
+    );
+
+    // market manager
+    await expectEq("MarketManager.router()", marketManager.router(), deployments.RouterUpgradeable);
+    await expectEq("MarketManager.priceFeed()", marketManager.priceFeed(), deployments.PriceFeedUpgradeable);
+    await expectEq("MarketManager.USD()", marketManager.USD(), network.usd);
+    await expectEq(
+        "MarketIndexer.marketManager()",
+        marketIndexer.marketManager(),
+        deployments.MarketManagerUpgradeable,
+    );
+
+    // plugins
+    await expectEq(
+        "Router.isRegisteredLiquidator(LiquidatorUpgradeable)",
+        router.isRegisteredLiquidator(deployments.LiquidatorUpgradeable),
+        true,
+    );
+    for (const name of [
+        "LiquidatorUpgradeable",
+        "OrderBookUpgradeable",
+        "PositionRouterUpgradeable",
+        "RewardCollectorUpgradeable",
+        "MixedExecutorUpgradeable",
+    ] as const) {
+        await expectEq(`Router.registeredPlugins(${name})`, router.registeredPlugins(deployments[name]), true);
+    }
+    await expectEq("OrderBook.router()", orderBook.router(), deployments.RouterUpgradeable);
+    await expectEq("OrderBook.marketManager()", orderBook.marketManager(), deployments.MarketManagerUpgradeable);
+    await expectEq(
+        "OrderBook.orderExecutors(MixedExecutorUpgradeable)",
+        orderBook.orderExecutors(deployments.MixedExecutorUpgradeable),
+        true,
+    );
+    await expectEq("PositionRouter.router()", positionRouter.router(), deployments.RouterUpgradeable);
+    await expectEq(
+        "PositionRouter.marketManager()",
+        positionRouter.marketManager(),
+        deployments.MarketManagerUpgradeable,
+    );
+    await expectEq(
+        "PositionRouter.positionExecutors(MixedExecutorUpgradeable)",
+        positionRouter.positionExecutors(deployments.MixedExecutorUpgradeable),
+        true,
+    );
+    await expectEq("Liquidator.router()", liquidator.router(), deployments.RouterUpgradeable);
+    await expectEq("Liquidator.marketManager()", liquidator.marketManager(), deployments.MarketManagerUpgradeable);
+    await expectEq("Liquidator.priceFeed()", liquidator.priceFeed(), deployments.PriceFeedUpgradeable);
+    await expectEq(
+        "Liquidator.executors(MixedExecutorUpgradeable)",
+        liquidator.executors(deployments.MixedExecutorUpgradeable),
+        true,
+    );
+
+    // price feed
+    await expectEq(
+        "PriceFeed.isUpdater(MixedExecutorUpgradeable)",
+        priceFeed.isUpdater(deployments.MixedExecutorUpgradeable),
+        true,
+    );
+    await expectEq(
+        "PriceFeed.stableMarketPriceFeed()",
+        priceFeed.stableMarketPriceFeed(),
+        network.usdChainLinkPriceFeed,
+    );
+    if (network.sequencerUptimeFeed != undefined) {
+        await expectEq("PriceFeed.sequencerUptimeFeed()", priceFeed.sequencerUptimeFeed(), network.sequencerUptimeFeed);
+    }
+
+    // mixed executor
+    await expectEq("MixedExecutor.router()", mixedExecutor.router(), deployments.RouterUpgradeable);
+    await expectEq("MixedExecutor.marketIndexer()", mixedExecutor.marketIndexer(), deployments.MarketIndexer);
+    await expectEq("MixedExecutor.liquidator()", mixedExecutor.liquidator(), deployments.LiquidatorUpgradeable);
+    await expectEq(
+        "MixedExecutor.positionRouter()",
+        mixedExecutor.positionRouter(),
+        deployments.PositionRouterUpgradeable,
+    );
+    await expectEq("MixedExecutor.priceFeed()", mixedExecutor.priceFeed(), deployments.PriceFeedUpgradeable);
+    await expectEq("MixedExecutor.orderBook()", mixedExecutor.orderBook(), deployments.OrderBookUpgradeable);
+    await expectEq(
+        "MixedExecutor.marketManager()",
+        mixedExecutor.marketManager(),
+        deployments.MarketManagerUpgradeable,
+    );
+    for (const item of network.mixedExecutors) {
+        await expectEq(`MixedExecutor.executors(${item})`, mixedExecutor.executors(item), true);
+    }
+    await expectEq(
+        "ExecutorAssistant.positionRouter()",
+        executorAssistant.positionRouter(),
+        deployments.PositionRouterUpgradeable,
+    );
+
+    // distributors
+    await expectEq(
+        "FarmRewardDistributor.collectors(RewardCollectorUpgradeable)",
+        farmRewardDistributor.collectors(deployments.RewardCollectorUpgradeable),
+        true,
+    );
+    await expectEq(
+        "FarmRewardDistributor.distributorV2()",
+        farmRewardDistributor.distributorV2(),
+        network.farmRewardDistributorV2,
+    );
+    await expectEq(
+        "ProtocolFeeDistributor.collectors(RewardCollectorUpgradeable)",
+        protocolFeeDistributor.collectors(deployments.RewardCollectorUpgradeable),
+        true,
+    );
+    await expectEq(
+        "ProtocolFeeDistributor.campaignRate()",
+        protocolFeeDistributor.campaignRate(),
+        network.campaignRate,
+    );
+    await expectEq(
+        "RewardCollector.farmRewardDistributor()",
+        rewardCollector.farmRewardDistributor(),
+        deployments.FarmRewardDistributorUpgradeable,
+    );
+    await expectEq(
+        "RewardCollector.protocolFeeDistributor()",
+        rewardCollector.protocolFeeDistributor(),
+        deployments.ProtocolFeeDistributorUpgradeable,
+    );
+
+    // Equation Contracts V1
+    const multiMinter = await ethers.getContractAt("IMultiMinter", network.equ);
+    await expectEq(
+        "MultiMinter.minters(FarmRewardDistributorUpgradeable)",
+        multiMinter.minters(deployments.FarmRewardDistributorUpgradeable),
+        true,
+    );
+    const routerV1 = await ethers.getContractAt("IPluginManager", network.routerV1);
+    await expectEq(
+        "RouterV1.registeredPlugins(RewardCollectorUpgradeable)",
+        routerV1.registeredPlugins(deployments.RewardCollectorUpgradeable),
+        true,
+    );
+    const farmRewardDistributorV2 = await ethers.getContractAt(
+        "IFarmRewardDistributorV2",
+        network.farmRewardDistributorV2,
+    );
+    for (const [rewardType, description] of [
+        [21, "LiquidityV3"],
+        [22, "ProfitMarginV3"],
+        [23, "ReferralProfitMarginV3"],
+    ] as const) {
+        await expectEq(
+            `FarmRewardDistributorV2.rewardTypesDescriptions(${rewardType})`,
+            farmRewardDistributorV2.rewardTypesDescriptions(rewardType),
+            description,
+        );
+    }
+    await expectEq(
+        "FarmRewardDistributorV2.CollectorUpdated(RewardCollectorUpgradeable)",
+        isCollectorV2(network, deployments.RewardCollectorUpgradeable, fromBlock, blockRange),
+        true,
+    );
+
+    return checks;
+}
+
+// IFarmRewardDistributorV2 has no collectors getter, the last CollectorUpdated event of the collector is checked instead
+export async function isCollectorV2(network: Network, collector: string, fromBlock: number, blockRange?: number) {
+    const farmRewardDistributorV2 = await ethers.getContractAt(
+        "IFarmRewardDistributorV2",
+        network.farmRewardDistributorV2,
+    );
+    const events = await queryFilterInRanges(
+        farmRewardDistributorV2,
+        farmRewardDistributorV2.filters.CollectorUpdated(collector),
+        fromBlock,
+        blockRange,
+    );
+    return events.length > 0 ? events[events.length - 1].args.enabled : false;
+}
+
+export function printChecks(checks: Check[]) {
+    for (const check of checks) {
+        if (check.ok) {
+            console.log(`✅ ${check.name}`);
+        } else {
+            console.error(`❌ ${check.name}: expected ${check.expected}, actual ${check.actual}`);
+        }
+    }
+    const failed = checks.filter((check) => !check.ok).length;
+    console.log(`${checks.length - failed} passed, ${failed} failed`);
+    return failed;
+}
@@ -0,0 +1,156 @@
+import {ethers} from "hardhat";
+import {expect} from "chai";
+import {time} from "@nomicfoundation/hardhat-network-helpers";
+import {
+    calculateBaseRateX96,
+    calculateFundingRateX96,
+    FundingRateUtilError,
+    projectFunding,
+    settleFundingFee,
+    toFundingState,
+} from "../scripts/fundingRateUtil";
+import {MarketFeeRateConfig} from "../scripts/marketConfig";
+import {parsePercent} from "../scripts/util";
+import {parseSize, parseUsd, priceToX96, rateToX96} from "../scripts/units";
+import {FundingRateUtilHarness} from "../typechain-types";
+import {seededRandom} from "./shared/random";
+import {tierCases} from "./shared/tierCases";
+
+// Compares the funding rate calculator of scripts/fundingRateUtil.ts with FundingRateUtil on the Hardhat network, over
+// random sequences of positions, premium rates and settlement times generated from a fixed seed
+describe("FundingRateUtil calculator", () => {
+    const {random, between} = seededRandom(0x9e3779b97f4a7c15n);
+
+    const basePriceX96 = priceToX96("3521.42 USD per ETH");
+    const cases = tierCases((cfg): [string, MarketFeeRateConfig][] => [
+        ["", cfg.feeRateCfg],
+        [
+            " with a low max funding rate",
+            {...cfg.feeRateCfg, protocolFundingCoeff: 0n, maxFundingRate: parsePercent("0.005%")},
+        ],
+    ]);
+
+    const deployHarness = async (feeRateCfg: MarketFeeRateConfig) => {
+        const library = await ethers.deployContract("FundingRateUtil");
+        const harness = await ethers.deployContract("FundingRateUtilHarness", {
+            libraries: {FundingRateUtil: await library.getAddress()},
+        });
+        await harness.setFeeRateConfig(feeRateCfg);
+        // start the funding fee settlements of the market
+        await harness.settleFundingFee();
+        return harness;
+    };
+    const fundingState = async (harness: FundingRateUtilHarness) =>
+        toFundingState(
+            await harness.globalPosition(),
+            await harness.globalLiquidityPosition(),
+            await harness.priceState(),
+            await harness.protocolFee(),
+        );
+
+    for (const {name, value: feeRateCfg} of cases) {
+        it(`matches the rates of the library with the ${name}`, async () => {
+            const harness = await deployHarness(feeRateCfg);
+            for (let i = 0; i < 20; i++) {
+                const timeDelta = between(1n, 30n * 86400n);
+                const rates = await harness.calculateFundingRateX96(feeRateCfg, timeDelta);
+                expect(calculateFundingRateX96(feeRateCfg, timeDelta)).to.deep.equal({
+                    longFundingRateX96: rates.longFundingRateX96,
+                    shortFundingRateX96: rates.shortFundingRateX96,
+                });
+
+                const longSize = between(0n, parseSize("100000"));
+                const shortSize = between(0n, parseSize("100000"));
+                const premiumRateX96 =
+                    random() % 4n == 0n ? between(0n, 1n << 127n) : between(0n, rateToX96(parsePercent("2%")));
+                let expected: bigint;
+                try {
+                    expected = calculateBaseRateX96(feeRateCfg, longSize, shortSize, premiumRateX96, timeDelta);
+                } catch (e) {
+                    if (!(e instanceof FundingRateUtilError)) {
+                        throw e;
+                    }
+                    await expect(
+                        harness.calculateBaseRateX96(feeRateCfg, longSize, shortSize, premiumRateX96, timeDelta),
+                    ).to.be.reverted;
+                    continue;
+                }
+                expect(
+                    await harness.calculateBaseRateX96(feeRateCfg, longSize, shortSize, premiumRateX96, timeDelta),
+                ).to.equal(expected);
+            }
+        });
+
+        it(`matches the settlements of the library with the ${name}`, async () => {
+            const harness = await deployHarness(feeRateCfg);
+            let indexPriceX96 = basePriceX96;
+            for (let i = 0; i < 30; i++) {
+                const step = random() % 4n;
+                if (i == 0 || step == 0n) {
+                    await harness.setGlobalPosition(
+                        random() % 8n == 0n ? 0n : between(0n, parseSize("100000")),
+                        random() % 8n == 0n ? 0n : between(0n, parseSize("100000")),
+                        random() % 16n == 0n ? 0n : between(parseUsd("1000"), parseUsd("50000000")),
+                    );
+                }
+                if (i == 0 || step == 1n) {
+                    indexPriceX96 = between((basePriceX96 * 98n) / 100n, (basePriceX96 * 102n) / 100n);
+                    await harness.setPrices(
+                        between(0n, rateToX96(parsePercent("1%"))),
+                        between((basePriceX96 * 98n) / 100n, (basePriceX96 * 102n) / 100n),
+                        indexPriceX96,
+                    );
+                }
+
+                const state = await fundingState(harness);
+                const timestamp = BigInt(await time.latest()) + between(1n, 3n * 86400n);
+                const expected = settleFundingFee(state, feeRateCfg, indexPriceX96, timestamp);
+
+                await time.setNextBlockTimestamp(timestamp);
+                await harness.settleFundingFee();
+                expect(await fundingState(harness)).to.deep.equal(expected.state);
+                expect(expected.longFundingFee + expected.shortFundingFee).to.be.lte(0n);
+            }
+        });
+
+        it(`projects the settlements of the library with the ${name}`, async () => {
+            const harness = await deployHarness(feeRateCfg);
+            const indexPriceX96 = basePriceX96;
+            await harness.setGlobalPosition(parseSize("30000"), parseSize("12000"), parseUsd("20000000"));
+            await harness.setPrices(rateToX96(parsePercent("0.2%")), basePriceX96, indexPriceX96);
+
+            const state = await fundingState(harness);
+            const start = state.lastFundingFeeSettleTime;
+            const projection = projectFunding(state, feeRateCfg, {
+                indexPriceX96,
+                horizon: 2n * 86400n,
+                interval: 3600n,
+                premiumRates: [
+                    {timestamp: start + 5400n, premiumRateX96: rateToX96(parsePercent("0.5%"))},
+                    {timestamp: start + 86400n, premiumRateX96: 0n, basisIndexPriceX96: (basePriceX96 * 99n) / 100n},
+                ],
+            });
+            expect(projection.settlements).to.have.length(49);
+            expect(projection.state.lastFundingFeeSettleTime).to.equal(start + 2n * 86400n);
+
+            for (const settlement of projection.settlements) {
+                const {premiumRateX96, basisIndexPriceX96} = await fundingState(harness);
+                // the premium rate a settlement is calculated with is the one of its state
+                if (
+                    premiumRateX96 != settlement.state.premiumRateX96 ||
+                    basisIndexPriceX96 != settlement.state.basisIndexPriceX96
+                ) {
+                    await harness.setPrices(
+                        settlement.state.premiumRateX96,
+                        settlement.state.basisIndexPriceX96,
+                        indexPriceX96,
+                    );
+                }
+                await time.setNextBlockTimestamp(settlement.state.lastFundingFeeSettleTime);
+                await harness.settleFundingFee();
+                expect(await fundingState(harness)).to.deep.equal(settlement.state);
+            }
+            expect(projection.state.protocolFee - state.protocolFee).to.equal(projection.protocolFundingFee);
+        });
+    }
+});
@@ -0,0 +1,236 @@
+import {ethers, upgrades} from "hardhat";
+import {expect} from "chai";
+import {getAddress, TransactionReceipt, Wallet} from "ethers";
+import {HardhatEthersSigner} from "@nomicfoundation/hardhat-ethers/signers";
+import {loadManifest, Manifest, marketAddress} from "../scripts/manifest";
+import {loadMarketListings} from "../scripts/marketListings";
+import {
+    decodeExecutorCall,
+    decodeLiquidityPositionLiquidation,
+    decodeMarketIndexes,
+    decodeMarketPrice,
+    decodeOrderExecution,
+    decodePositionLiquidation,
+    encodeLiquidityPositionLiquidation,
+    encodeMarketIndexes,
+    encodeMarketPrice,
+    encodeOrderExecution,
+    encodePositionLiquidation,
+    ExecutorCall,
+    MAX_BATCH_MARKETS,
+    mixedExecutorClient,
+} from "../scripts/mixedExecutor";
+import {LONG, SHORT} from "../scripts/side";
+import {MarketIndexer, MixedExecutorUpgradeable, MockMixedExecutorTargets} from "../typechain-types";
+
+const UINT24_MAX = (1n << 24n) - 1n;
+const UINT160_MAX = (1n << 160n) - 1n;
+const UINT248_MAX = (1n << 248n) - 1n;
+
+describe("MixedExecutor packed values", () => {
+    const account = getAddress("0xffffffffffffffffffffffffffffffffffff0001");
+
+    it("round-trips the market prices", () => {
+        for (const price of [
+            {marketIndex: 1, priceX96: 1n},
+            {marketIndex: Number(UINT24_MAX), priceX96: UINT160_MAX},
+        ]) {
+            expect(decodeMarketPrice(encodeMarketPrice(price))).to.deep.equal(price);
+        }
+        expect(encodeMarketPrice({marketIndex: 1, priceX96: 1n})).to.equal(1n | (1n << 24n));
+    });
+
+    it("round-trips the market indexes of a batch", () => {
+        const marketIndexes = Array.from({length: MAX_BATCH_MARKETS}, (_, i) => Number(UINT24_MAX) - i);
+        expect(decodeMarketIndexes(encodeMarketIndexes(marketIndexes))).to.deep.equal(marketIndexes);
+        expect(decodeMarketIndexes(encodeMarketIndexes([]))).to.deep.equal([]);
+        expect(encodeMarketIndexes([1, 2])).to.equal(1n | (2n << 24n) | (2n << 240n));
+    });
+
+    it("rejects batches of more than the batch limit", () => {
+        expect(() => encodeMarketIndexes(Array(MAX_BATCH_MARKETS + 1).fill(1))).to.throw(RangeError);
+        expect(() => decodeMarketIndexes(BigInt(MAX_BATCH_MARKETS + 1) << 240n)).to.throw(RangeError);
+    });
+
+    it("round-trips the order executions", () => {
+        for (const execution of [
+            {orderIndex: 0n, requireSuccess: true},
+            {orderIndex: UINT248_MAX, requireSuccess: false},
+            {orderIndex: UINT248_MAX, requireSuccess: true},
+        ]) {
+            expect(decodeOrderExecution(encodeOrderExecution(execution))).to.deep.equal(execution);
+        }
+    });
+
+    it("round-trips the liquidations", () => {
+        for (const requireSuccess of [false, true]) {
+            const liquidation = {marketIndex: Number(UINT24_MAX), account, requireSuccess};
+            expect(decodeLiquidityPositionLiquidation(encodeLiquidityPositionLiquidation(liquidation))).to.deep.equal(
+                liquidation,
+            );
+            for (const side of [LONG, SHORT] as const) {
+                const positionLiquidation = {...liquidation, side};
+                expect(decodePositionLiquidation(encodePositionLiquidation(positionLiquidation))).to.deep.equal(
+                    positionLiquidation,
+                );
+            }
+        }
+    });
+});
+
+// Sends the calls built by scripts/mixedExecutor.ts to MixedExecutorUpgradeable on the Hardhat network, and checks the
+// arguments the contract decoded them to against the ones they were built from
+describe("MixedExecutor client", () => {
+    const markets = loadMarketListings("arbitrum-mainnet")
+        .slice(0, 2 * MAX_BATCH_MARKETS + 5)
+        .map((market) => market.name);
+
+    let executorSigner: HardhatEthersSigner;
+    let targets: MockMixedExecutorTargets;
+    let marketIndexer: MarketIndexer;
+    let executor: MixedExecutorUpgradeable;
+    let document: Manifest;
+
+    before(async () => {
+        [executorSigner] = await ethers.getSigners();
+        targets = await ethers.deployContract("MockMixedExecutorTargets");
+        marketIndexer = await ethers.deployContract("MarketIndexer", [targets]);
+        const target = await targets.getAddress();
+        const proxy = await upgrades.deployProxy(await ethers.getContractFactory("MixedExecutorUpgradeable"), [
+            target,
+            await marketIndexer.getAddress(),
+            target,
+            target,
+            target,
+            target,
+            target,
+        ]);
+        executor = await ethers.getContractAt("MixedExecutorUpgradeable", await proxy.getAddress());
+        await executor.setExecutor(executorSigner.address, true);
+
+        const live = loadManifest(42161n);
+        document = {
+            ...live,
+            deployments: {
+                ...live.deployments,
+                MixedExecutorUpgradeable: await executor.getAddress(),
+                MarketIndexer: await marketIndexer.getAddress(),
+            },
+        };
+        for (const market of markets) {
+            await marketIndexer.assignMarketIndex(marketAddress(document, market));
+        }
+    });
+
+    const send = async (call: ExecutorCall) => (await (await executorSigner.sendTransaction(call)).wait())!;
+    const emitted = (receipt: TransactionReceipt, name: string) =>
+        receipt.logs
+            .map((log) => targets.interface.parseLog({topics: [...log.topics], data: log.data}))
+            .filter((log) => log?.name === name)
+            .map((log) => log!.args);
+
+    it("splits the batch calls into chunks of the batch limit", async () => {
+        const client = await mixedExecutorClient(31337n, document);
+        // duplicates are settled once
+        const calls = await client.settleFundingFeeBatch([...markets, markets[0]]);
+        expect(calls.map((call) => decodeExecutorCall(executor.interface, call.data))).to.deep.equal([
+            {method: "settleFundingFeeBatch", marketIndexes: [1, 2, 3, 4, 5, 6, 7, 8, 9, 10]},
+            {method: "settleFundingFeeBatch", marketIndexes: [11, 12, 13, 14, 15, 16, 17, 18, 19, 20]},
+            {method: "settleFundingFeeBatch", marketIndexes: [21, 22, 23, 24, 25]},
+        ]);
+
+        const settled: string[] = [];
+        for (const call of calls) {
+            settled.push(...emitted(await send(call), "FundingFeeSettled").map((args) => args.market));
+        }
+        expect(settled).to.deep.equal(markets.map((market) => marketAddress(document, market)));
+
+        const collected: string[] = [];
+        for (const call of await client.collectProtocolFeeBatch(markets.slice(0, MAX_BATCH_MARKETS + 1))) {
+            collected.push(...emitted(await send(call), "ProtocolFeeCollected").map((args) => args.market));
+        }
+        expect(collected).to.deep.equal(
+            markets.slice(0, MAX_BATCH_MARKETS + 1).map((market) => marketAddress(document, market)),
+        );
+    });
+
+    it("sets the prices the contract decodes", async () => {
+        const client = await mixedExecutorClient(31337n, document);
+        const prices = [
+            {market: markets[0], priceX96: UINT160_MAX},
+            {market: marketAddress(document, markets[24]), priceX96: 1n},
+        ];
+        const call = await client.setPriceX96s(prices, 1_700_000_000n);
+        expect(decodeExecutorCall(executor.interface, call.data)).to.deep.equal({
+            method: "setPriceX96s",
+            prices: [
+                {marketIndex: 1, priceX96: UINT160_MAX},
+                {marketIndex: 25, priceX96: 1n},
+            ],
+            timestamp: 1_700_000_000n,
+        });
+
+        const [args] = emitted(await send(call), "PriceX96sSet");
+        expect(args.timestamp).to.equal(1_700_000_000n);
+        expect(
+            args.marketPrices.map((price: {market: string; priceX96: bigint}) => [price.market, price.priceX96]),
+        ).to.deep.equal([
+            [marketAddress(document, markets[0]), UINT160_MAX],
+            [marketAddress(document, markets[24]), 1n],
+        ]);
+    });
+
+    it("executes the orders the contract decodes", async () => {
+        const client = await mixedExecutorClient(31337n, document);
+        const [increased] = emitted(await send(client.executeIncreaseOrder(UINT248_MAX)), "IncreaseOrderExecuted");
+        expect(increased.orderIndex).to.equal(UINT248_MAX);
+        expect(increased.feeReceiver).to.equal(executorSigner.address);
+        const [decreased] = emitted(await send(client.executeDecreaseOrder(42n, true)), "DecreaseOrderExecuted");
+        expect(decreased.orderIndex).to.equal(42n);
+    });
+
+    it("liquidates the positions the contract decodes", async () => {
+        const client = await mixedExecutorClient(31337n, document);
+        const account = Wallet.createRandom().address;
+        const [liquidity] = emitted(
+            await send(await client.liquidateLiquidityPosition(markets[7], account)),
+            "LiquidityPositionLiquidated",
+        );
+        expect([liquidity.market, liquidity.account]).to.deep.equal([marketAddress(document, markets[7]), account]);
+        const [position] = emitted(
+            await send(await client.liquidatePosition(markets[24], account, SHORT)),
+            "PositionLiquidated",
+        );
+        expect([position.market, position.account, position.side]).to.deep.equal([
+            marketAddress(document, markets[24]),
+            account,
+            BigInt(SHORT),
+        ]);
+    });
+
+    it("reverts only the calls that require success", async () => {
+        const client = await mixedExecutorClient(31337n, document);
+        const account = Wallet.createRandom().address;
+        const failed = targets.interface.getError("Failed")!.selector;
+        await targets.setFailing(true);
+        try {
+            await expect(
+                executorSigner.sendTransaction(await client.liquidatePosition(markets[3], account, LONG, true)),
+            ).to.be.revertedWithCustomError(executor, "ExecutionFailed");
+            await expect(executorSigner.sendTransaction(await client.liquidatePosition(markets[3], account, LONG)))
+                .to.emit(executor, "LiquidatePositionFailed")
+                .withArgs(marketAddress(document, markets[3]), account, LONG, failed);
+            await expect(
+                executorSigner.sendTransaction(await client.liquidateLiquidityPosition(markets[3], account, true)),
+            ).to.be.revertedWithCustomError(executor, "ExecutionFailed");
+            await expect(
+                executorSigner.sendTransaction(client.executeIncreaseOrder(7n, true)),
+            ).to.be.revertedWithCustomError(executor, "ExecutionFailed");
+            await expect(executorSigner.sendTransaction(client.executeIncreaseOrder(7n)))
+                .to.emit(executor, "IncreaseOrderCancelFailed")
+                .withArgs(7n, failed, failed);
+        } finally {
+            await targets.setFailing(false);
+        }
+    });
+});
@@ -0,0 +1,86 @@
+import {ethers} from "hardhat";
+import {expect} from "chai";
+import {ZeroAddress} from "ethers";
+import {MarketPriceConfig} from "../scripts/marketConfig";
+import {
+    PriceStateUpdate,
+    PriceUtilError,
+    toGlobalLiquidityPosition,
+    toPriceState,
+    updatePriceState,
+    UpdatePriceStateParameter,
+} from "../scripts/priceUtil";
+import {LONG, SHORT} from "../scripts/side";
+import {parseUsd, priceToX96} from "../scripts/units";
+import {seededRandom} from "./shared/random";
+import {tierCases} from "./shared/tierCases";
+
+// Compares the price simulation of scripts/priceUtil.ts with PriceUtil.updatePriceState on the Hardhat network, over
+// random sequences of trades, liquidations and liquidity changes generated from a fixed seed
+describe("PriceUtil simulation", () => {
+    const {random, between} = seededRandom(0x2545f4914f6cdd1dn);
+
+    const basePriceX96 = priceToX96("3521.42 USD per ETH");
+    const cases = tierCases((cfg) => {
+        const variants: [string, MarketPriceConfig][] = [];
+        for (const dynamicDepthMode of [0, 1]) {
+            for (const dynamicDepthLevel of [100_000_000n, 50_000_000n]) {
+                variants.push([
+                    `, dynamic depth mode ${dynamicDepthMode} at ${dynamicDepthLevel}`,
+                    {...cfg.priceCfg, dynamicDepthMode, dynamicDepthLevel},
+                ]);
+            }
+        }
+        return variants;
+    });
+
+    for (const {name, value: priceCfg} of cases) {
+        it(`matches the library with the ${name}`, async () => {
+            const harness = await ethers.deployContract("PriceUtilHarness");
+            await harness.setPriceConfig(priceCfg, basePriceX96);
+            await harness.setLiquidity(parseUsd("5000000"));
+
+            for (let i = 0; i < 40; i++) {
+                if (random() % 10n == 0n) {
+                    await harness.setLiquidity(between(parseUsd("100000"), parseUsd("50000000")));
+                    continue;
+                }
+                const globalPosition = toGlobalLiquidityPosition(await harness.globalLiquidityPosition());
+                const priceState = toPriceState(await harness.priceState());
+                const maxSize = priceState.priceVertices[priceState.priceVertices.length - 1].size;
+                const parameter: UpdatePriceStateParameter = {
+                    side: random() % 2n == 0n ? LONG : SHORT,
+                    sizeDelta: between(1n, (maxSize * 6n) / 10n + 1n),
+                    indexPriceX96: between((basePriceX96 * 98n) / 100n, (basePriceX96 * 102n) / 100n),
+                    liquidationVertexIndex: Number(priceCfg.liquidationVertexIndex),
+                    liquidation: random() % 8n == 0n,
+                    dynamicDepthMode: Number(priceCfg.dynamicDepthMode),
+                    dynamicDepthLevel: BigInt(priceCfg.dynamicDepthLevel),
+                };
+
+                let expected: PriceStateUpdate;
+                try {
+                    expected = updatePriceState(globalPosition, priceState, parameter, {
+                        priceCfg,
+                        maxPriceX96: basePriceX96,
+                    });
+                } catch (e) {
+                    if (!(e instanceof PriceUtilError)) {
+                        throw e;
+                    }
+                    await expect(harness.updatePriceState({market: ZeroAddress, ...parameter})).to.be.reverted;
+                    continue;
+                }
+
+                expect(await harness.updatePriceState.staticCall({market: ZeroAddress, ...parameter})).to.equal(
+                    expected.tradePriceX96,
+                );
+                await harness.updatePriceState({market: ZeroAddress, ...parameter});
+                expect(toPriceState(await harness.priceState())).to.deep.equal(expected.priceState);
+                expect(toGlobalLiquidityPosition(await harness.globalLiquidityPosition())).to.deep.equal(
+                    expected.globalLiquidityPosition,
+                );
+            }
+        });
+    }
+});
@@ -0,0 +1,51 @@
+import {expect} from "chai";
+import {readReferenceData, usdReferenceFeeds, validatePriceFeeds} from "../scripts/referenceFeeds";
+
+// Validates listed price feeds against a checked-in snapshot of the Chainlink reference data of Arbitrum One
+describe("Reference feeds", () => {
+    const referenceData = readReferenceData(`${__dirname}/fixtures/feeds-arbitrum-mainnet.json`);
+
+    it("maps the USD feeds of the reference data by base asset", () => {
+        const feeds = usdReferenceFeeds(referenceData);
+        expect([...feeds.keys()]).to.deep.equal(["ETH", "BTC", "SOL"]);
+        expect(feeds.get("ETH")!.proxyAddress).to.equal("0x639Fe6ab55C921f74e7fac1ee960C0B6293ba612");
+    });
+
+    it("accepts the reference proxies", async () => {
+        const problems = await validatePriceFeeds(
+            [
+                {name: "ETH", chainLinkPriceFeed: "0x639fe6ab55c921f74e7fac1ee960c0b6293ba612"},
+                {name: "BTC", chainLinkPriceFeed: "0x6ce185860a4963106506C203335A2910413708e9"},
+                {name: "PEPE", chainLinkPriceFeed: undefined},
+            ],
+            referenceData,
+        );
+        expect(problems).to.deep.equal([]);
+    });
+
+    it("reports a proxy that is not the reference proxy", async () => {
+        const problems = await validatePriceFeeds(
+            [
+                {name: "ETH", chainLinkPriceFeed: "0x639Fe6ab55C921f74e7fac1ee960C0B6293ba612"},
+                {name: "BTC", chainLinkPriceFeed: "0x24ceA4b8ce57cdA5058b924B9B9987992450590c"},
+            ],
+            referenceData,
+        );
+        expect(problems).to.have.length(1);
+        expect(problems[0].market).to.equal("BTC");
+        expect(problems[0].message).to.contain("is not the reference proxy");
+    });
+
+    it("reports a feed missing from the reference data", async () => {
+        const problems = await validatePriceFeeds(
+            [{name: "ARB", chainLinkPriceFeed: "0xb2A824043730FE05F3DA2efaFa1CBbe83fa548D6"}],
+            referenceData,
+        );
+        expect(problems).to.deep.equal([
+            {
+                market: "ARB",
+                message: "chainLinkPriceFeed 0xb2A824043730FE05F3DA2efaFa1CBbe83fa548D6 is not in the reference data",
+            },
+        ]);
+    });
+});
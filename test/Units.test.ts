@@ -0,0 +1,84 @@
+import {expect} from "chai";
+import {mulDiv, parseFixed, priceFromX96, priceToX96, Q96} from "../scripts/units";
+
+describe("Units", () => {
+    const UINT256_MAX = (1n << 256n) - 1n;
+
+    describe("mulDiv", () => {
+        it("rounds down by default and up on request", () => {
+            expect(mulDiv(7n, 3n, 2n)).to.equal(10n);
+            expect(mulDiv(7n, 3n, 2n, "down")).to.equal(10n);
+            expect(mulDiv(7n, 3n, 2n, "up")).to.equal(11n);
+        });
+
+        it("does not round an exact result up", () => {
+            expect(mulDiv(6n, 3n, 2n, "up")).to.equal(9n);
+            expect(mulDiv(0n, 3n, 2n, "up")).to.equal(0n);
+        });
+
+        it("keeps the full precision of the intermediate product", () => {
+            expect(mulDiv(UINT256_MAX, UINT256_MAX, UINT256_MAX)).to.equal(UINT256_MAX);
+            expect(mulDiv(UINT256_MAX, 2n, 4n, "up")).to.equal(1n << 255n);
+        });
+
+        it("reverts as Math.mulDiv does", () => {
+            expect(() => mulDiv(1n, 1n, 0n)).to.throw(RangeError, "division by zero");
+            expect(() => mulDiv(-1n, 1n, 1n)).to.throw(RangeError, "is not a uint256");
+            expect(() => mulDiv(UINT256_MAX + 1n, 1n, 1n)).to.throw(RangeError, "is not a uint256");
+            expect(() => mulDiv(UINT256_MAX, 2n, 1n)).to.throw(RangeError, "overflows uint256");
+            expect(() => mulDiv(UINT256_MAX, 1n, 1n, "up")).to.not.throw();
+        });
+    });
+
+    describe("parseFixed", () => {
+        it("rejects digits beyond the decimals unless rounding", () => {
+            expect(parseFixed("1.5", 6)).to.equal(1_500_000n);
+            expect(() => parseFixed("1.0000005", 6)).to.throw("has more than 6 decimals");
+            expect(parseFixed("1.0000005", 6, "down")).to.equal(1_000_000n);
+            expect(parseFixed("1.0000005", 6, "up")).to.equal(1_000_001n);
+        });
+    });
+
+    describe("priceToX96", () => {
+        it("scales the USD price by the decimals of the USD token and of the market", () => {
+            // with as many decimals as the USD token, a price of 1 is exactly 2^96
+            expect(priceToX96("1", 6)).to.equal(Q96);
+            expect(priceToX96("2.5 USD", 6)).to.equal((5n * Q96) / 2n);
+            expect(priceToX96("1 USD per ETH", 18)).to.equal(Q96 / 10n ** 12n);
+            expect(priceToX96("3521.42 USD per ETH")).to.equal((352142n * 10n ** 6n * Q96) / (100n * 10n ** 18n));
+        });
+
+        it("rounds a price that is not exact in X96", () => {
+            const down = priceToX96("3521.42 USD per ETH");
+            expect(priceToX96("3521.42 USD per ETH", 18, "up")).to.equal(down + 1n);
+            expect(priceToX96("1", 6, "up")).to.equal(Q96);
+        });
+
+        it("rejects a price that overflows uint160", () => {
+            // 2^64 / 10^6 is the largest price of a market with no decimals
+            expect(priceToX96("18446744073709", 0)).to.equal(18446744073709n * 10n ** 6n * Q96);
+            expect(() => priceToX96("18446744073710", 0)).to.throw(RangeError, "overflows uint160");
+        });
+
+        it("rejects a price that is not in USD", () => {
+            expect(() => priceToX96("3521.42 EUR")).to.throw("is not a USD price");
+            expect(() => priceToX96("-1")).to.throw("is not a USD price");
+        });
+    });
+
+    describe("priceFromX96", () => {
+        it("scales priceX96 back to the USD price", () => {
+            expect(priceFromX96(Q96, 6)).to.equal("1");
+            expect(priceFromX96(Q96, 18)).to.equal("1000000000000");
+            expect(priceFromX96((5n * Q96) / 2n, 6, 2)).to.equal("2.5");
+        });
+
+        it("rounds to the fraction digits", () => {
+            const priceX96 = priceToX96("3521.42 USD per ETH");
+            expect(priceFromX96(priceX96)).to.equal("3521.41999999");
+            expect(priceFromX96(priceX96, 18, 8, "up")).to.equal("3521.42");
+            expect(priceFromX96(priceToX96("3521.42 USD per ETH", 18, "up"))).to.equal("3521.42");
+            expect(priceFromX96(priceX96, 18, 0)).to.equal("3521");
+        });
+    });
+});
@@ -0,0 +1,1450 @@
+// This file was procedurally generated from scripts/generate/PackedValueDifferential.g.t.template.ts, DO NOT MODIFY MANUALLY
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.21;
+
+import "forge-std/Test.sol";
+import "../../contracts/types/PackedValue.sol";
+
+contract PackedValueDifferentialTest_Generated is Test {
+    function test_uint8() public {
+        PackedValue packed;
+
+        packed = PackedValue.wrap(0x53cb9f0c747ea2ea2c829abe1f4532e1c584133ac916ab3c3ee5789041c98a00).packUint8(255, 0);
+        assertEq(PackedValue.unwrap(packed), 0x53cb9f0c747ea2ea2c829abe1f4532e1c584133ac916ab3c3ee5789041c98aff);
+        assertEq(uint256(packed.unpackUint8(0)), 255);
+
+        packed = PackedValue.wrap(0xf3b8488c368cb0a6657eecdd3cb13d09c2d326e0055bdef68621a03fe0bbdb7b).packUint8(47, 73);
+        assertEq(PackedValue.unwrap(packed), 0xf3b8488c368cb0a6657eecdd3cb13d09c2d326e0055bdef68621a03fe0bbdb7b);
+        assertEq(uint256(packed.unpackUint8(73)), 239);
+
+        packed = PackedValue.wrap(0xb54e0f1600cc4d1984bb3f97971d80ab0029825c75521255c3cf17102b7f7f86).packUint8(
+            100,
+            120
+        );
+        assertEq(PackedValue.unwrap(packed), 0xb54e0f1600cc4d1984bb3f97971d80ab6429825c75521255c3cf17102b7f7f86);
+        assertEq(uint256(packed.unpackUint8(120)), 100);
+
+        packed = PackedValue.wrap(0xd81a8d2b5a4485acdb016000100b9ed7a9038a921825f10dedf5f1d90dca2f6a).packUint8(
+            76,
+            160
+        );
+        assertEq(PackedValue.unwrap(packed), 0xd81a8d2b5a4485acdb01604c100b9ed7a9038a921825f10dedf5f1d90dca2f6a);
+        assertEq(uint256(packed.unpackUint8(160)), 76);
+
+        packed = PackedValue.wrap(0x007c01d4f5407269935e82f1db4c4f7b69b82ebc9223330040d29eb57de1d510).packUint8(
+            22,
+            248
+        );
+        assertEq(PackedValue.unwrap(packed), 0x167c01d4f5407269935e82f1db4c4f7b69b82ebc9223330040d29eb57de1d510);
+        assertEq(uint256(packed.unpackUint8(248)), 22);
+
+        packed = PackedValue.wrap(0x06521d7a0f4d3872f16952ee72f3454f377d35dea8e402250c7de8064963bab0).packUint8(
+            41,
+            251
+        );
+        assertEq(PackedValue.unwrap(packed), 0x4e521d7a0f4d3872f16952ee72f3454f377d35dea8e402250c7de8064963bab0);
+        assertEq(uint256(packed.unpackUint8(251)), 9);
+    }
+
+    function test_uint16() public {
+        PackedValue packed;
+
+        packed = PackedValue.wrap(0x6e19905dcbe531df4fa9fa732485172984eb4454a792922a134f709691810000).packUint16(
+            65535,
+            0
+        );
+        assertEq(PackedValue.unwrap(packed), 0x6e19905dcbe531df4fa9fa732485172984eb4454a792922a134f70969181ffff);
+        assertEq(uint256(packed.unpackUint16(0)), 65535);
+
+        packed = PackedValue.wrap(0x07dc930b302278a812c015a97019e937cc06c31652ebf438ecee65630a691e37).packUint16(
+            31149,
+            24
+        );
+        assertEq(PackedValue.unwrap(packed), 0x07dc930b302278a812c015a97019e937cc06c31652ebf438ecee657baf691e37);
+        assertEq(uint256(packed.unpackUint16(24)), 31663);
+
+        packed = PackedValue.wrap(0x690ed476743aae497746150000a1f2e122b353f04f4f52dae3ddd86ba71a5eb1).packUint16(
+            13142,
+            152
+        );
+        assertEq(PackedValue.unwrap(packed), 0x690ed476743aae497746153356a1f2e122b353f04f4f52dae3ddd86ba71a5eb1);
+        assertEq(uint256(packed.unpackUint16(152)), 13142);
+
+        packed = PackedValue.wrap(0x2098eb73d400007703d6845323ce3c71c952c5620043c7149b196bca844f1705).packUint16(
+            3777,
+            199
+        );
+        assertEq(PackedValue.unwrap(packed), 0x2098eb73d40760f703d6845323ce3c71c952c5620043c7149b196bca844f1705);
+        assertEq(uint256(packed.unpackUint16(199)), 3777);
+
+        packed = PackedValue.wrap(0x00008a5882bb9698f4a578dccbc87656bfdeaed9a17b3c8fed79402d1d5c5d7b).packUint16(
+            61808,
+            240
+        );
+        assertEq(PackedValue.unwrap(packed), 0xf1708a5882bb9698f4a578dccbc87656bfdeaed9a17b3c8fed79402d1d5c5d7b);
+        assertEq(uint256(packed.unpackUint16(240)), 61808);
+
+        packed = PackedValue.wrap(0x1e00a34929a88f1de255b237b8bb18fb2a7b67af6c6ad50e466d5e7f3e46f143).packUint16(
+            64626,
+            253
+        );
+        assertEq(PackedValue.unwrap(packed), 0x5e00a34929a88f1de255b237b8bb18fb2a7b67af6c6ad50e466d5e7f3e46f143);
+        assertEq(uint256(packed.unpackUint16(253)), 2);
+    }
+
+    function test_uint24() public {
+        PackedValue packed;
+
+        packed = PackedValue.wrap(0xdb0215941d86a66f5ccde78203c367a8f1bcbc6a1ec11786ef054fceee000000).packUint24(
+            16777215,
+            0
+        );
+        assertEq(PackedValue.unwrap(packed), 0xdb0215941d86a66f5ccde78203c367a8f1bcbc6a1ec11786ef054fceeeffffff);
+        assertEq(uint256(packed.unpackUint24(0)), 16777215);
+
+        packed = PackedValue.wrap(0xdf82012d0555c6df292566ff72403c08c4dd302a1bfa1137d85f219db5c554e1).packUint24(
+            4308178,
+            24
+        );
+        assertEq(PackedValue.unwrap(packed), 0xdf82012d0555c6df292566ff72403c08c4dd302a1bfa1137d85f61bdf7c554e1);
+        assertEq(uint256(packed.unpackUint24(24)), 6405623);
+
+        packed = PackedValue.wrap(0x96a573e9b48216e846a9fdac40bf000000002464a0ee15b4451e521296a7eea1).packUint24(
+            16294141,
+            112
+        );
+        assertEq(PackedValue.unwrap(packed), 0x96a573e9b48216e846a9fdac40bf00f8a0fd2464a0ee15b4451e521296a7eea1);
+        assertEq(uint256(packed.unpackUint24(112)), 16294141);
+
+        packed = PackedValue.wrap(0x400000160e3335a7c679ee0bebcb1cca928d6f2d7453424e1b38994205234c6d).packUint24(
+            15906152,
+            230
+        );
+        assertEq(PackedValue.unwrap(packed), 0x7cad5a160e3335a7c679ee0bebcb1cca928d6f2d7453424e1b38994205234c6d);
+        assertEq(uint256(packed.unpackUint24(230)), 15906152);
+
+        packed = PackedValue.wrap(0x0000006639ac2c65d9dccac414d23c6f91cd642057e0023577fc607dc6589373).packUint24(
+            13872871,
+            232
+        );
+        assertEq(PackedValue.unwrap(packed), 0xd3aee76639ac2c65d9dccac414d23c6f91cd642057e0023577fc607dc6589373);
+        assertEq(uint256(packed.unpackUint24(232)), 13872871);
+
+        packed = PackedValue.wrap(0x00f6436ac376cc6664952424897b2307ee8c2baf6343e5c3dc4c613d9eba2304).packUint24(
+            13739270,
+            249
+        );
+        assertEq(PackedValue.unwrap(packed), 0x0cf6436ac376cc6664952424897b2307ee8c2baf6343e5c3dc4c613d9eba2304);
+        assertEq(uint256(packed.unpackUint24(249)), 6);
+    }
+
+    function test_uint32() public {
+        PackedValue packed;
+
+        packed = PackedValue.wrap(0xa85e1f38bb2dc74956759a968493cd8cf3a9bce7336bd182365b150100000000).packUint32(
+            4294967295,
+            0
+        );
+        assertEq(PackedValue.unwrap(packed), 0xa85e1f38bb2dc74956759a968493cd8cf3a9bce7336bd182365b1501ffffffff);
+        assertEq(uint256(packed.unpackUint32(0)), 4294967295);
+
+        packed = PackedValue.wrap(0x1f7a44a6b109ac943521d628813cb1776a77afab0f7c9370179642d8cde95015).packUint32(
+            4214572129,
+            61
+        );
+        assertEq(PackedValue.unwrap(packed), 0x1f7a44a6b109ac943521d628813cb1776a77afab1f7ebbfc379642d8cde95015);
+        assertEq(uint256(packed.unpackUint32(61)), 4227194849);
+
+        packed = PackedValue.wrap(0xf51c504764000000008427f041ce6808fad8fc45c9643c37cf8682f9a70fa9c0).packUint32(
+            2751485737,
+            184
+        );
+        assertEq(PackedValue.unwrap(packed), 0xf51c504764a40057298427f041ce6808fad8fc45c9643c37cf8682f9a70fa9c0);
+        assertEq(uint256(packed.unpackUint32(184)), 2751485737);
+
+        packed = PackedValue.wrap(0x992dd867000000007fbd5db142f6791f370595aacab4adaeb1392dbdc5ab61d6).packUint32(
+            2043957977,
+            192
+        );
+        assertEq(PackedValue.unwrap(packed), 0x992dd86779d452d97fbd5db142f6791f370595aacab4adaeb1392dbdc5ab61d6);
+        assertEq(uint256(packed.unpackUint32(192)), 2043957977);
+
+        packed = PackedValue.wrap(0x000000000085641ca192afe3157c85d0c847729f4e08f3a36f1384a306c41fc2).packUint32(
+            1168350233,
+            224
+        );
+        assertEq(PackedValue.unwrap(packed), 0x45a39c190085641ca192afe3157c85d0c847729f4e08f3a36f1384a306c41fc2);
+        assertEq(uint256(packed.unpackUint32(224)), 1168350233);
+
+        packed = PackedValue.wrap(0x0001202fd20f0841e9c7191857e774b84eead809af5b0cc3e809acafa23864a4).packUint32(
+            2714826685,
+            241
+        );
+        assertEq(PackedValue.unwrap(packed), 0xef7b202fd20f0841e9c7191857e774b84eead809af5b0cc3e809acafa23864a4);
+        assertEq(uint256(packed.unpackUint32(241)), 30653);
+    }
+
+    function test_uint40() public {
+        PackedValue packed;
+
+        packed = PackedValue.wrap(0xbfe4b2ab46980cadc5fc89075299106c37b2fa361adea7cd7d75d80000000000).packUint40(
+            1099511627775,
+            0
+        );
+        assertEq(PackedValue.unwrap(packed), 0xbfe4b2ab46980cadc5fc89075299106c37b2fa361adea7cd7d75d8ffffffffff);
+        assertEq(uint256(packed.unpackUint40(0)), 1099511627775);
+
+        packed = PackedValue.wrap(0x702f5b393f62c0e00a3fc775f4ecf37fe4b23787a352437ff83fa245c34d6363).packUint40(
+            17306144592,
+            64
+        );
+        assertEq(PackedValue.unwrap(packed), 0x702f5b393f62c0e00a3fc775f4ecf37fe4b23787a7d6cf7ff83fa245c34d6363);
+        assertEq(uint256(packed.unpackUint40(64)), 582636457855);
+
+        packed = PackedValue.wrap(0x38b6ea0a0e6c9d8a093fdc76776e37e00000000001a7eee8442cdcfee9660c62).packUint40(
+            227925515787,
+            89
+        );
+        assertEq(PackedValue.unwrap(packed), 0x38b6ea0a0e6c9d8a093fdc76776e37e06a22d6bc17a7eee8442cdcfee9660c62);
+        assertEq(uint256(packed.unpackUint40(89)), 227925515787);
+
+        packed = PackedValue.wrap(0x87d4a5180f6a3645589fb2000000000091d031cad319aec0abecf76a553d320b).packUint40(
+            769996697039,
+            128
+        );
+        assertEq(PackedValue.unwrap(packed), 0x87d4a5180f6a3645589fb2b347612dcf91d031cad319aec0abecf76a553d320b);
+        assertEq(uint256(packed.unpackUint40(128)), 769996697039);
+
+        packed = PackedValue.wrap(0x00000000000a77f5ac318214381ec4376eb7f0fca24494aecf42861dcdc895a9).packUint40(
+            692973304465,
+            216
+        );
+        assertEq(PackedValue.unwrap(packed), 0xa1586d7a910a77f5ac318214381ec4376eb7f0fca24494aecf42861dcdc895a9);
+        assertEq(uint256(packed.unpackUint40(216)), 692973304465);
+
+        packed = PackedValue.wrap(0x0000000dc2f49745d49474dc2acbd1f0b1d4873747c1c8e15434dc8c7d015bf6).packUint40(
+            173762786985,
+            230
+        );
+        assertEq(PackedValue.unwrap(packed), 0x446daa4dc2f49745d49474dc2acbd1f0b1d4873747c1c8e15434dc8c7d015bf6);
+        assertEq(uint256(packed.unpackUint40(230)), 17938089);
+    }
+
+    function test_uint48() public {
+        PackedValue packed;
+
+        packed = PackedValue.wrap(0x0dc51ced17a43c528bcbcde81355ef2d2412af73fdee7cfcc8d5000000000000).packUint48(
+            281474976710655,
+            0
+        );
+        assertEq(PackedValue.unwrap(packed), 0x0dc51ced17a43c528bcbcde81355ef2d2412af73fdee7cfcc8d5ffffffffffff);
+        assertEq(uint256(packed.unpackUint48(0)), 281474976710655);
+
+        packed = PackedValue.wrap(0x23390e8664517f89251ade58e8a6849df8555dbd2e8f9cb0cb417c3eef54f7c3).packUint48(
+            273648116279577,
+            64
+        );
+        assertEq(PackedValue.unwrap(packed), 0x23390e8664517f89251ade58e8a6849df855fdfdaecfbdb9cb417c3eef54f7c3);
+        assertEq(uint256(packed.unpackUint48(64)), 279266001403321);
+
+        packed = PackedValue.wrap(0x10e31052acf748a02d886c0000000000002974d90df9faeebc1b7b38796893ba).packUint48(
+            260872562861650,
+            120
+        );
+        assertEq(PackedValue.unwrap(packed), 0x10e31052acf748a02d886ced432070e6522974d90df9faeebc1b7b38796893ba);
+        assertEq(uint256(packed.unpackUint48(120)), 260872562861650);
+
+        packed = PackedValue.wrap(0xca5f297197a12d000000000000704f28418010a570a924fb9828e2941bfc419c).packUint48(
+            225603134970911,
+            152
+        );
+        assertEq(PackedValue.unwrap(packed), 0xca5f297197a12dcd2f52b85c1f704f28418010a570a924fb9828e2941bfc419c);
+        assertEq(uint256(packed.unpackUint48(152)), 225603134970911);
+
+        packed = PackedValue.wrap(0x000000000000cc6723c8dfdd1db57ff032f81801a1a8e90126884eac5ada36da).packUint48(
+            52345789364180,
+            208
+        );
+        assertEq(PackedValue.unwrap(packed), 0x2f9bb42e37d4cc6723c8dfdd1db57ff032f81801a1a8e90126884eac5ada36da);
+        assertEq(uint256(packed.unpackUint48(208)), 52345789364180);
+
+        packed = PackedValue.wrap(0x00011a7491d6a7d15aa0243aa357f38eb31d917809e447f03f9c197225215be0).packUint48(
+            54263123525781,
+            241
+        );
+        assertEq(PackedValue.unwrap(packed), 0x812b1a7491d6a7d15aa0243aa357f38eb31d917809e447f03f9c197225215be0);
+        assertEq(uint256(packed.unpackUint48(241)), 16533);
+    }
+
+    function test_uint56() public {
+        PackedValue packed;
+
+        packed = PackedValue.wrap(0x0237d2123a8a8d6cbf636e9aa7cbf6bdd7bd4284c4e2a6a7da00000000000000).packUint56(
+            72057594037927935,
+            0
+        );
+        assertEq(PackedValue.unwrap(packed), 0x0237d2123a8a8d6cbf636e9aa7cbf6bdd7bd4284c4e2a6a7daffffffffffffff);
+        assertEq(uint256(packed.unpackUint56(0)), 72057594037927935);
+
+        packed = PackedValue.wrap(0x90ba1c11b539087d44993d31552b4f5732c2d6f80a8a8898450583ed7fb54b19).packUint56(
+            12115561124131823,
+            112
+        );
+        assertEq(PackedValue.unwrap(packed), 0x90ba1c11b539087d44993d3b5f2bef5ff3efd6f80a8a8898450583ed7fb54b19);
+        assertEq(uint256(packed.unpackUint56(112)), 16711665930204143);
+
+        packed = PackedValue.wrap(0xd918a0b6e2efd65c00000000000000727d1a6118f2b0f37a9e2e3cc13b343439).packUint56(
+            60847047052244968,
+            136
+        );
+        assertEq(PackedValue.unwrap(packed), 0xd918a0b6e2efd65cd82c11212e37e8727d1a6118f2b0f37a9e2e3cc13b343439);
+        assertEq(uint256(packed.unpackUint56(136)), 60847047052244968);
+
+        packed = PackedValue.wrap(0xaf89c00000000000000c16bb9697108e6c4701fa5db69bee9237338441daf445).packUint56(
+            39670942682686972,
+            180
+        );
+        assertEq(PackedValue.unwrap(packed), 0xaf89c8cf0831e81a5fcc16bb9697108e6c4701fa5db69bee9237338441daf445);
+        assertEq(uint256(packed.unpackUint56(180)), 39670942682686972);
+
+        packed = PackedValue.wrap(0x0000000000000073520970c25e06513a657329cb02987caba9b0b3366a4e55a8).packUint56(
+            58666242283326932,
+            200
+        );
+        assertEq(PackedValue.unwrap(packed), 0xd06ca2f39acdd473520970c25e06513a657329cb02987caba9b0b3366a4e55a8);
+        assertEq(uint256(packed.unpackUint56(200)), 58666242283326932);
+
+        packed = PackedValue.wrap(0x000000168170cde15f1e44e77e1854c96883d452d55df89905c5bd62f1067032).packUint56(
+            36229474238397104,
+            229
+        );
+        assertEq(PackedValue.unwrap(packed), 0xcc1f56168170cde15f1e44e77e1854c96883d452d55df89905c5bd62f1067032);
+        assertEq(uint256(packed.unpackUint56(229)), 107018928);
+    }
+
+    function test_uint64() public {
+        PackedValue packed;
+
+        packed = PackedValue.wrap(0xc14c3c771d9048276addcee2bd9cdee5e24eed137ffbb6130000000000000000).packUint64(
+            18446744073709551615,
+            0
+        );
+        assertEq(PackedValue.unwrap(packed), 0xc14c3c771d9048276addcee2bd9cdee5e24eed137ffbb613ffffffffffffffff);
+        assertEq(uint256(packed.unpackUint64(0)), 18446744073709551615);
+
+        packed = PackedValue.wrap(0xfdb83ecf6cc249207a1d0057c57169fb339200f4feb62d07d33f4d4ac88469f4).packUint64(
+            9378449583065923300,
+            10
+        );
+        assertEq(PackedValue.unwrap(packed), 0xfdb83ecf6cc249207a1d0057c57169fb339200f4feb62f0fdbffdfdafffff9f4);
+        assertEq(uint256(packed.unpackUint64(10)), 14120755122128551934);
+
+        packed = PackedValue.wrap(0x320def4f2a1055367786f3b13aefc159b2822500000000000000000376cc6044).packUint64(
+            413487931071425206,
+            40
+        );
+        assertEq(PackedValue.unwrap(packed), 0x320def4f2a1055367786f3b13aefc159b2822505bd0115226c6ab60376cc6044);
+        assertEq(uint256(packed.unpackUint64(40)), 413487931071425206);
+
+        packed = PackedValue.wrap(0xd302230200000000000000008e0d29339e79a397ba00b9cc89df84a5f0003ee8).packUint64(
+            80788758552623550,
+            160
+        );
+        assertEq(PackedValue.unwrap(packed), 0xd3022302011f04f2a75fb9be8e0d29339e79a397ba00b9cc89df84a5f0003ee8);
+        assertEq(uint256(packed.unpackUint64(160)), 80788758552623550);
+
+        packed = PackedValue.wrap(0x0000000000000000cbdc6d34b7c7534d28a0d62b36f7e21156c4553d5d0b9393).packUint64(
+            7577010756027538418,
+            192
+        );
+        assertEq(PackedValue.unwrap(packed), 0x6926f3234c55dbf2cbdc6d34b7c7534d28a0d62b36f7e21156c4553d5d0b9393);
+        assertEq(uint256(packed.unpackUint64(192)), 7577010756027538418);
+
+        packed = PackedValue.wrap(0x0000000d281831ab788fde493e59653d984456f3129d0de575fef0b6764f4cba).packUint64(
+            4401424970731325993,
+            228
+        );
+        assertEq(PackedValue.unwrap(packed), 0xdf98a29d281831ab788fde493e59653d984456f3129d0de575fef0b6764f4cba);
+        assertEq(uint256(packed.unpackUint64(228)), 234457641);
+    }
+
+    function test_uint72() public {
+        PackedValue packed;
+
+        packed = PackedValue.wrap(0x8379ec73f35176f472076caedab9cd77933d40d047d5c2000000000000000000).packUint72(
+            4722366482869645213695,
+            0
+        );
+        assertEq(PackedValue.unwrap(packed), 0x8379ec73f35176f472076caedab9cd77933d40d047d5c2ffffffffffffffffff);
+        assertEq(uint256(packed.unpackUint72(0)), 4722366482869645213695);
+
+        packed = PackedValue.wrap(0x4972307f6da2e8966381fc65071e876de5eba2b5b975969af9819878b6052e93).packUint72(
+            3244961808369509709671,
+            56
+        );
+        assertEq(PackedValue.unwrap(packed), 0x4972307f6da2e8966381fc65071e876defebe6b5bbf5dfbfff819878b6052e93);
+        assertEq(uint256(packed.unpackUint72(56)), 4425770307279027945471);
+
+        packed = PackedValue.wrap(0x6eb46bd2bd74a7664dca29000000000000000000c3cb338d7c0dddf3352b6dbd).packUint72(
+            2363685848829501982261,
+            96
+        );
+        assertEq(PackedValue.unwrap(packed), 0x6eb46bd2bd74a7664dca298022bb0c2a84214635c3cb338d7c0dddf3352b6dbd);
+        assertEq(uint256(packed.unpackUint72(96)), 2363685848829501982261);
+
+        packed = PackedValue.wrap(0x00000000000000000034826569f1a12707c801c0f8fe99e777335155fdf6900b).packUint72(
+            3128314019593890621519,
+            184
+        );
+        assertEq(PackedValue.unwrap(packed), 0xa99614024d783ce84f34826569f1a12707c801c0f8fe99e777335155fdf6900b);
+        assertEq(uint256(packed.unpackUint72(184)), 3128314019593890621519);
+
+        packed = PackedValue.wrap(0x000001c5ec9c7b140c5857e188e1c6933c6250408655f23d1d94501ac76ca8cf).packUint72(
+            1370531726879968465012,
+            233
+        );
+        assertEq(PackedValue.unwrap(packed), 0x6820e9c5ec9c7b140c5857e188e1c6933c6250408655f23d1d94501ac76ca8cf);
+        assertEq(uint256(packed.unpackUint72(233)), 3412084);
+    }
+
+    function test_uint80() public {
+        PackedValue packed;
+
+        packed = PackedValue.wrap(0x45ab1a6a22d6bc17476cf802330034e508b65c623f0800000000000000000000).packUint80(
+            1208925819614629174706175,
+            0
+        );
+        assertEq(PackedValue.unwrap(packed), 0x45ab1a6a22d6bc17476cf802330034e508b65c623f08ffffffffffffffffffff);
+        assertEq(uint256(packed.unpackUint80(0)), 1208925819614629174706175);
+
+        packed = PackedValue.wrap(0xad6fed10cbda8dcdedb0d0d28761fcc023a06397a6335d812649be21534f387f).packUint80(
+            347600198764756817101529,
+            19
+        );
+        assertEq(PackedValue.unwrap(packed), 0xad6fed10cbda8dcdedb0d0d28761fcc023a06397eefbdfe73e5bffbb57cf387f);
+        assertEq(uint256(packed.unpackUint80(19)), 1198881278365079476595449);
+
+        packed = PackedValue.wrap(0xd6f316c5c285c4deb73a83eeec718600000000000000000000da1024dc5ea567).packUint80(
+            505950863427716231194657,
+            56
+        );
+        assertEq(PackedValue.unwrap(packed), 0xd6f316c5c285c4deb73a83eeec71866b23a6b94cf241e7e821da1024dc5ea567);
+        assertEq(uint256(packed.unpackUint80(56)), 505950863427716231194657);
+
+        packed = PackedValue.wrap(0x0c1dee540000000000000000000076fa032cd31b757b30bb3ccd39a590b78295).packUint80(
+            28022883523459922058097,
+            144
+        );
+        assertEq(PackedValue.unwrap(packed), 0x0c1dee5405ef1fa19cfc9778db7176fa032cd31b757b30bb3ccd39a590b78295);
+        assertEq(uint256(packed.unpackUint80(144)), 28022883523459922058097);
+
+        packed = PackedValue.wrap(0x00000000000000000000de04733d0a152b181597907baf2ecece4d103307428b).packUint80(
+            688327304913828229584364,
+            176
+        );
+        assertEq(PackedValue.unwrap(packed), 0x91c24c47a8c4017695ecde04733d0a152b181597907baf2ecece4d103307428b);
+        assertEq(uint256(packed.unpackUint80(176)), 688327304913828229584364);
+
+        packed = PackedValue.wrap(0x000000000000001bcbd065fd2210273763fa700bfc399149e23b1de2babad561).packUint80(
+            317128623970236152410101,
+            197
+        );
+        assertEq(PackedValue.unwrap(packed), 0x780a2f024cfdfebbcbd065fd2210273763fa700bfc399149e23b1de2babad561);
+        assertEq(uint256(packed.unpackUint80(197)), 270305553788956661);
+    }
+
+    function test_uint88() public {
+        PackedValue packed;
+
+        packed = PackedValue.wrap(0x616308740e528066861731f13c2721133c6caec2ab0000000000000000000000).packUint88(
+            309485009821345068724781055,
+            0
+        );
+        assertEq(PackedValue.unwrap(packed), 0x616308740e528066861731f13c2721133c6caec2abffffffffffffffffffffff);
+        assertEq(uint256(packed.unpackUint88(0)), 309485009821345068724781055);
+
+        packed = PackedValue.wrap(0xac67e58c447a30f3717d1b34d0f226b55068123375a5b3c665955f41cfd0e893).packUint88(
+            107310914366821590611055256,
+            38
+        );
+        assertEq(PackedValue.unwrap(packed), 0xac67e58c447a30f3717d1b34d0f226b55678fe37f7e7bbe667b5ff41cfd0e893);
+        assertEq(uint256(packed.unpackUint88(38)), 108670966061630828157261821);
+
+        packed = PackedValue.wrap(0x4164000000000000000000000043ad87eda8fa6a8a59bc0ea6b3a6712afcd38a).packUint88(
+            170964206590898745336647345,
+            152
+        );
+        assertEq(PackedValue.unwrap(packed), 0x41648d6b1435ccc2bf24fbceb143ad87eda8fa6a8a59bc0ea6b3a6712afcd38a);
+        assertEq(uint256(packed.unpackUint88(152)), 170964206590898745336647345);
+
+        packed = PackedValue.wrap(0x0000000000000000000000e2b151be7478779a725ea2d9fecc4ec68084cc7e95).packUint88(
+            231156104581898929331177994,
+            168
+        );
+        assertEq(PackedValue.unwrap(packed), 0xbf353589de59fa33170a0ae2b151be7478779a725ea2d9fecc4ec68084cc7e95);
+        assertEq(uint256(packed.unpackUint88(168)), 231156104581898929331177994);
+
+        packed = PackedValue.wrap(0x000000000000000000013b32aa806aacae2e7ecc4c8e0da99c6973b1cd7c1a97).packUint88(
+            87721296332778323376094666,
+            177
+        );
+        assertEq(PackedValue.unwrap(packed), 0x1f6a017725c4fa107b953b32aa806aacae2e7ecc4c8e0da99c6973b1cd7c1a97);
+        assertEq(uint256(packed.unpackUint88(177)), 74174410717708209896906);
+    }
+
+    function test_uint96() public {
+        PackedValue packed;
+
+        packed = PackedValue.wrap(0x1cce0bba630053b2eabd508b9df52a4985232b4a000000000000000000000000).packUint96(
+            79228162514264337593543950335,
+            0
+        );
+        assertEq(PackedValue.unwrap(packed), 0x1cce0bba630053b2eabd508b9df52a4985232b4affffffffffffffffffffffff);
+        assertEq(uint256(packed.unpackUint96(0)), 79228162514264337593543950335);
+
+        packed = PackedValue.wrap(0x5a63530cfad0b243ab1a732b3f586b99adeae4869d4467b32a4176cc70fa8c52).packUint96(
+            69746487181236413333452071496,
+            8
+        );
+        assertEq(PackedValue.unwrap(packed), 0x5a63530cfad0b243ab1a732b3f586b99adeae4e7ddf567f3ae65feeef7facc52);
+        assertEq(uint256(packed.unpackUint96(8)), 71759368772227570720965130956);
+
+        packed = PackedValue.wrap(0xe6855668819e60000000000000000000000006ce76c2479190746e60ef10929c).packUint96(
+            59839666824000339150625804965,
+            107
+        );
+        assertEq(PackedValue.unwrap(packed), 0xe6855668819e660ad1b2b48e544285ed9c952ece76c2479190746e60ef10929c);
+        assertEq(uint256(packed.unpackUint96(107)), 59839666824000339150625804965);
+
+        packed = PackedValue.wrap(0x000000000000000000000000613ba6a739f0f2e09ba26805e10e043370f4ce5f).packUint96(
+            41296622878566621888943155191,
+            160
+        );
+        assertEq(PackedValue.unwrap(packed), 0x856fc40c10155b096e22e7f7613ba6a739f0f2e09ba26805e10e043370f4ce5f);
+        assertEq(uint256(packed.unpackUint96(160)), 41296622878566621888943155191);
+
+        packed = PackedValue.wrap(0x00000010d3afe2d398dabb1c64aa2138662426bd0482cb44d49604a4e3af5c6a).packUint96(
+            23590072903187617179528587292,
+            229
+        );
+        assertEq(PackedValue.unwrap(packed), 0x097d0390d3afe2d398dabb1c64aa2138662426bd0482cb44d49604a4e3af5c6a);
+        assertEq(uint256(packed.unpackUint96(229)), 4974620);
+    }
+
+    function test_uint104() public {
+        PackedValue packed;
+
+        packed = PackedValue.wrap(0x1810596a0c2284f955ea875e6ee39c26fda91f00000000000000000000000000).packUint104(
+            20282409603651670423947251286015,
+            0
+        );
+        assertEq(PackedValue.unwrap(packed), 0x1810596a0c2284f955ea875e6ee39c26fda91fffffffffffffffffffffffffff);
+        assertEq(uint256(packed.unpackUint104(0)), 20282409603651670423947251286015);
+
+        packed = PackedValue.wrap(0x4850117266c0d41f4c84fdeeb5b713365b65923ac30ec1f4001fce785e79eacc).packUint104(
+            13764195956836817323850141941668,
+            40
+        );
+        assertEq(PackedValue.unwrap(packed), 0x4850117266c0d41f4c84fdeeb5b7bfbedf6ffbffc72efbfd3a3fee785e79eacc);
+        assertEq(uint256(packed.unpackUint104(40)), 15191651311379561218422135734254);
+
+        packed = PackedValue.wrap(0x91cf003dc64d20476a6ba000000000000000000000000018c3a32910d5aeaa2d).packUint104(
+            146313269477301416553029748559,
+            69
+        );
+        assertEq(PackedValue.unwrap(packed), 0x91cf003dc64d20476a6ba03b186ffef13211f64126d8e9f8c3a32910d5aeaa2d);
+        assertEq(uint256(packed.unpackUint104(69)), 146313269477301416553029748559);
+
+        packed = PackedValue.wrap(0x30300000000000000000000000000012b5af6d95d72949ea9217fa5ec037abe8).packUint104(
+            715301997315209735122746653792,
+            136
+        );
+        assertEq(PackedValue.unwrap(packed), 0x3030090743f1bd9e58d128e268bc6012b5af6d95d72949ea9217fa5ec037abe8);
+        assertEq(uint256(packed.unpackUint104(136)), 715301997315209735122746653792);
+
+        packed = PackedValue.wrap(0x000000000000000000000000008757d7f1eedce334401c5e10448c3a57ddd877).packUint104(
+            6495226976873641474902659012134,
+            152
+        );
+        assertEq(PackedValue.unwrap(packed), 0x51fb35d453a492fa17495596268757d7f1eedce334401c5e10448c3a57ddd877);
+        assertEq(uint256(packed.unpackUint104(152)), 6495226976873641474902659012134);
+
+        packed = PackedValue.wrap(0x006c742d1cc888f84ee6be96e6483c3bd8c4cbbb86af34bdc23fe6e086e66126).packUint104(
+            1375827499679995749405808440594,
+            248
+        );
+        assertEq(PackedValue.unwrap(packed), 0x126c742d1cc888f84ee6be96e6483c3bd8c4cbbb86af34bdc23fe6e086e66126);
+        assertEq(uint256(packed.unpackUint104(248)), 18);
+    }
+
+    function test_uint112() public {
+        PackedValue packed;
+
+        packed = PackedValue.wrap(0x657c7edd5a6a2d1174f7dfc8ad75e5beb93b0000000000000000000000000000).packUint112(
+            5192296858534827628530496329220095,
+            0
+        );
+        assertEq(PackedValue.unwrap(packed), 0x657c7edd5a6a2d1174f7dfc8ad75e5beb93bffffffffffffffffffffffffffff);
+        assertEq(uint256(packed.unpackUint112(0)), 5192296858534827628530496329220095);
+
+        packed = PackedValue.wrap(0x3a7c844c5ed8c333c6a32156c0e52c52811e01f4016f91f75fd205755dc324cf).packUint112(
+            2205224182818813039583385081237284,
+            133
+        );
+        assertEq(PackedValue.unwrap(packed), 0x3a7d977efedbcbffc7a7b376d3edecd2811e01f4016f91f75fd205755dc324cf);
+        assertEq(uint256(packed.unpackUint112(133)), 4801541074095275268362957871869798);
+
+        packed = PackedValue.wrap(0x00000000000000000000000000008c3f89a0d947e7359ba99ac235af1b306ee2).packUint112(
+            5109440961823595359316842584407403,
+            144
+        );
+        assertEq(PackedValue.unwrap(packed), 0xfbea36289ad25ede9c17dedafd6b8c3f89a0d947e7359ba99ac235af1b306ee2);
+        assertEq(uint256(packed.unpackUint112(144)), 5109440961823595359316842584407403);
+
+        packed = PackedValue.wrap(0x0000000000000000a4b32cc50529ec8a3729e60466e76c72bc1b968695dfd347).packUint112(
+            2750602895353581024137156733296378,
+            192
+        );
+        assertEq(PackedValue.unwrap(packed), 0x8eccc08b8c8ddefaa4b32cc50529ec8a3729e60466e76c72bc1b968695dfd347);
+        assertEq(uint256(packed.unpackUint112(192)), 10289810954225835770);
+    }
+
+    function test_uint120() public {
+        PackedValue packed;
+
+        packed = PackedValue.wrap(0x214619698f00fb1a7065de8fd672197931000000000000000000000000000000).packUint120(
+            1329227995784915872903807060280344575,
+            0
+        );
+        assertEq(PackedValue.unwrap(packed), 0x214619698f00fb1a7065de8fd672197931ffffffffffffffffffffffffffffff);
+        assertEq(uint256(packed.unpackUint120(0)), 1329227995784915872903807060280344575);
+
+        packed = PackedValue.wrap(0xf1cae3b64977eec56ff929d26a842420e8bab64cef650d0ea0fff83df2901695).packUint120(
+            904207429252182367471264453628969535,
+            8
+        );
+        assertEq(PackedValue.unwrap(packed), 0xf1cae3b64977eec56ff929d26a842420eebefe4eeff59fbee0fffc7ffed23f95);
+        assertEq(uint256(packed.unpackUint120(8)), 1239640458539185379640254102379614783);
+
+        packed = PackedValue.wrap(0x6d8046b801af0000000000000000000000000000005b5707242ae4893b70b22e).packUint120(
+            812448343555131953157011607183271650,
+            88
+        );
+        assertEq(PackedValue.unwrap(packed), 0x6d8046b801af9c78cbc599a070ed8916b381e9a6e25b5707242ae4893b70b22e);
+        assertEq(uint256(packed.unpackUint120(88)), 812448343555131953157011607183271650);
+
+        packed = PackedValue.wrap(0x37695a55e040000000000000000000000000000009a8274e24e864649fafa6c7).packUint120(
+            548613413789860788312015175382532054,
+            93
+        );
+        assertEq(PackedValue.unwrap(packed), 0x37695a55e04d3517593330266525767a7f709ffac9a8274e24e864649fafa6c7);
+        assertEq(uint256(packed.unpackUint120(93)), 548613413789860788312015175382532054);
+
+        packed = PackedValue.wrap(0x000000000000000000000000000000cef8ec28585e907988955d78582b84939b).packUint120(
+            739229028629550402506100770417345017,
+            136
+        );
+        assertEq(PackedValue.unwrap(packed), 0x8e5ece174ec5690bde70207d0f01f9cef8ec28585e907988955d78582b84939b);
+        assertEq(uint256(packed.unpackUint120(136)), 739229028629550402506100770417345017);
+
+        packed = PackedValue.wrap(0x00000000000000001ca61d38ace08dea73acebd3d49d7857f4721387d67a23c1).packUint120(
+            42531837068015936220653806649794829,
+            189
+        );
+        assertEq(PackedValue.unwrap(packed), 0xe86c27b67e165c21bca61d38ace08dea73acebd3d49d7857f4721387d67a23c1);
+        assertEq(uint256(packed.unpackUint120(189)), 133982438232295661837);
+    }
+
+    function test_uint128() public {
+        PackedValue packed;
+
+        packed = PackedValue.wrap(0xd1c390e9829e2e7d62c7bae420fe77b500000000000000000000000000000000).packUint128(
+            340282366920938463463374607431768211455,
+            0
+        );
+        assertEq(PackedValue.unwrap(packed), 0xd1c390e9829e2e7d62c7bae420fe77b5ffffffffffffffffffffffffffffffff);
+        assertEq(uint256(packed.unpackUint128(0)), 340282366920938463463374607431768211455);
+
+        packed = PackedValue.wrap(0x47b0f2e81ea86cf06b4b89c9cc0875b74980af326a4b65d883fcc71fa8833aa3).packUint128(
+            67120465184319457774293042296816203873,
+            24
+        );
+        assertEq(PackedValue.unwrap(packed), 0x47b0f2e81ea86cf06b4b89c9cc3a7fff6fc9ffbb6e4ffffe93fcdfffe9833aa3);
+        assertEq(uint256(packed.unpackUint128(24)), 77759826327849662172074601907077775337);
+
+        packed = PackedValue.wrap(0x4c3433717af5c89a00000000000000000000000000000000156e1ab391b34d79).packUint128(
+            221498929288121365703969323731216873685,
+            62
+        );
+        assertEq(PackedValue.unwrap(packed), 0x4c3433717af5c89a29a8c9177470ff94ea0907dbeb916e35556e1ab391b34d79);
+        assertEq(uint256(packed.unpackUint128(62)), 221498929288121365703969323731216873685);
+
+        packed = PackedValue.wrap(0xc100000000000000000000000000000000c2ccc9159d054f4a6881df0c028b9b).packUint128(
+            92575893449331118422426714658310380481,
+            120
+        );
+        assertEq(PackedValue.unwrap(packed), 0xc145a577f1bab58960a1bdb57c6ca2dbc1c2ccc9159d054f4a6881df0c028b9b);
+        assertEq(uint256(packed.unpackUint128(120)), 92575893449331118422426714658310380481);
+
+        packed = PackedValue.wrap(0x0000000000000000000000000000000071e606409319727bdc0d879ed0bbe640).packUint128(
+            88495613885812955908660004791148314233,
+            128
+        );
+        assertEq(PackedValue.unwrap(packed), 0x4293a2a13fb2fb89af24d14180037e7971e606409319727bdc0d879ed0bbe640);
+        assertEq(uint256(packed.unpackUint128(128)), 88495613885812955908660004791148314233);
+
+        packed = PackedValue.wrap(0x03be5793563e006c157786cbc486d2a0b0752c30eaa58544bb61ee342e9a8210).packUint128(
+            132077619773920997930508131431694663093,
+            250
+        );
+        assertEq(PackedValue.unwrap(packed), 0xd7be5793563e006c157786cbc486d2a0b0752c30eaa58544bb61ee342e9a8210);
+        assertEq(uint256(packed.unpackUint128(250)), 53);
+    }
+
+    function test_uint136() public {
+        PackedValue packed;
+
+        packed = PackedValue.wrap(0x0251b77b538e03fc802e57a14bf8210000000000000000000000000000000000).packUint136(
+            87112285931760246646623899502532662132735,
+            0
+        );
+        assertEq(PackedValue.unwrap(packed), 0x0251b77b538e03fc802e57a14bf821ffffffffffffffffffffffffffffffffff);
+        assertEq(uint256(packed.unpackUint136(0)), 87112285931760246646623899502532662132735);
+
+        packed = PackedValue.wrap(0x22abaa84fd19e2708f34cbb275b951ecdf92f91b1cb7a033157f0e4ccdb056a8).packUint136(
+            5063696818032825457056374116275096534274,
+            50
+        );
+        assertEq(PackedValue.unwrap(packed), 0x22abaa84fd19e2708f3fcfb275f9d7eefff6fb3f3ff7b17bf57f0e4ccdb056a8);
+        assertEq(uint256(packed.unpackUint136(50)), 70762680932026181056646659708254116838751);
+
+        packed = PackedValue.wrap(0x3cb6b80000000000000000000000000000000000596742b3c24e3101c5ab7a66).packUint136(
+            56515132785569017084089595446174706053231,
+            96
+        );
+        assertEq(PackedValue.unwrap(packed), 0x3cb6b8a61542a77e8df4cc9f70450553f57c306f596742b3c24e3101c5ab7a66);
+        assertEq(uint256(packed.unpackUint136(96)), 56515132785569017084089595446174706053231);
+
+        packed = PackedValue.wrap(0x650000000000000000000000000000000000ec0b2dd720c366623fbeb6a18744).packUint136(
+            23481086748339318075957597630909677888549,
+            112
+        );
+        assertEq(PackedValue.unwrap(packed), 0x65450134cf3de391eae93934dcea8dd8e425ec0b2dd720c366623fbeb6a18744);
+        assertEq(uint256(packed.unpackUint136(112)), 23481086748339318075957597630909677888549);
+
+        packed = PackedValue.wrap(0x00000000000000000000000000000000005f9512ff9a97f312a9fea1d634c54e).packUint136(
+            57252148232359776151522958488651473060324,
+            120
+        );
+        assertEq(PackedValue.unwrap(packed), 0xa83fbaaa86d4844270e179606eaa9381e45f9512ff9a97f312a9fea1d634c54e);
+        assertEq(uint256(packed.unpackUint136(120)), 57252148232359776151522958488651473060324);
+
+        packed = PackedValue.wrap(0x00000000000000000000000001c88d2b685f1f2fc2e6b27afd8563efde1f4398).packUint136(
+            85213895677460807069643584777428330284027,
+            154
+        );
+        assertEq(PackedValue.unwrap(packed), 0x61f54e5d4f40e8ed50825c0fedc88d2b685f1f2fc2e6b27afd8563efde1f4398);
+        assertEq(uint256(packed.unpackUint136(154)), 1940262582036463291832521393147);
+    }
+
+    function test_uint144() public {
+        PackedValue packed;
+
+        packed = PackedValue.wrap(0xb000cbf3ce21b869d2e9983a7214000000000000000000000000000000000000).packUint144(
+            22300745198530623141535718272648361505980415,
+            0
+        );
+        assertEq(PackedValue.unwrap(packed), 0xb000cbf3ce21b869d2e9983a7214ffffffffffffffffffffffffffffffffffff);
+        assertEq(uint256(packed.unpackUint144(0)), 22300745198530623141535718272648361505980415);
+
+        packed = PackedValue.wrap(0x78da7cb7c466fbfdd5e3634444e34975344e8d54603a36430b8d292730b546d0).packUint144(
+            3805703361934844617221697931450948074194570,
+            24
+        );
+        assertEq(PackedValue.unwrap(packed), 0x78da7cb7c466fbfdd5e3636feff7ff7fbd5efd5d77bef6735f9f2de7bab546d0);
+        assertEq(uint256(packed.unpackUint144(24)), 9751120870061019011414154569926107793844154);
+
+        packed = PackedValue.wrap(0x8d9d060000000000000000000000000000000000002efcf505cf9a10ae33fd6e).packUint144(
+            14210122474184827563212184433339896818524650,
+            88
+        );
+        assertEq(PackedValue.unwrap(packed), 0x8d9d06a31fcbf6a4ee314863825c088030503f61ea2efcf505cf9a10ae33fd6e);
+        assertEq(uint256(packed.unpackUint144(88)), 14210122474184827563212184433339896818524650);
+
+        packed = PackedValue.wrap(0x370000000000000000000000000000000000007fabc27df7873450e33f8ec632).packUint144(
+            5100709352040341191157315231688750720202231,
+            103
+        );
+        assertEq(PackedValue.unwrap(packed), 0x371d46d19bef7e97d22c09636b2b97ce26dafbffabc27df7873450e33f8ec632);
+        assertEq(uint256(packed.unpackUint144(103)), 5100709352040341191157315231688750720202231);
+
+        packed = PackedValue.wrap(0x0000000000000000000000000000000000005f8710af973e9b6f7d1586d5c2a8).packUint144(
+            6420426265788479597913000378427156737672288,
+            112
+        );
+        assertEq(PackedValue.unwrap(packed), 0x49b3efe019ea91a1cdb30f308d530055c4605f8710af973e9b6f7d1586d5c2a8);
+        assertEq(uint256(packed.unpackUint144(112)), 6420426265788479597913000378427156737672288);
+
+        packed = PackedValue.wrap(0x0000000000000000005cd3103ac8afb28956d2c6a1c2a1733c6a03f08df43eca).packUint144(
+            11093836686874002403087507926231389181115407,
+            185
+        );
+        assertEq(PackedValue.unwrap(packed), 0x795a2600dce4c1f81e5cd3103ac8afb28956d2c6a1c2a1733c6a03f08df43eca);
+        assertEq(uint256(packed.unpackUint144(185)), 1119275956690057493519);
+    }
+
+    function test_uint152() public {
+        PackedValue packed;
+
+        packed = PackedValue.wrap(0x1e65dbab69f02d4f647b114c4300000000000000000000000000000000000000).packUint152(
+            5708990770823839524233143877797980545530986495,
+            0
+        );
+        assertEq(PackedValue.unwrap(packed), 0x1e65dbab69f02d4f647b114c43ffffffffffffffffffffffffffffffffffffff);
+        assertEq(uint256(packed.unpackUint152(0)), 5708990770823839524233143877797980545530986495);
+
+        packed = PackedValue.wrap(0xbb980258f543d9bdd0867d4a799351277faa29c4257de9277c47efc4dc9daeb3).packUint152(
+            4786866612042507882892292215943518072284300872,
+            40
+        );
+        assertEq(PackedValue.unwrap(packed), 0xbb980258f543d9bdd6a6fdeef993fb2fffbfedfe377fe9a77ec7efc4dc9daeb3);
+        assertEq(uint256(packed.unpackUint152(40)), 4786906521041202880583895125750853071601059823);
+
+        packed = PackedValue.wrap(0x0e4d6fee00000000000000000000000000000000000000dffa6ed441e6468e9e).packUint152(
+            5703468327774831221397885164169005117498333893,
+            72
+        );
+        assertEq(PackedValue.unwrap(packed), 0x0e4d6feeffc09aff9c92fd3654a582d33fcd8cd9e61ac5dffa6ed441e6468e9e);
+        assertEq(uint256(packed.unpackUint152(72)), 5703468327774831221397885164169005117498333893);
+
+        packed = PackedValue.wrap(0x00000000000000000000000000000000000000b3524699c74cb261d764240af1).packUint152(
+            4481075089615286157791127114461181716313736327,
+            104
+        );
+        assertEq(PackedValue.unwrap(packed), 0xc8f0382235c793c6b2ec94326ce3de14b10487b3524699c74cb261d764240af1);
+        assertEq(uint256(packed.unpackUint152(104)), 4481075089615286157791127114461181716313736327);
+
+        packed = PackedValue.wrap(0x0d26c935d601635cfb023c83c005f89b7a7abfe47cf11a74326d14295729a098).packUint152(
+            5071864332419880868672093792976449412833376385,
+            252
+        );
+        assertEq(PackedValue.unwrap(packed), 0x1d26c935d601635cfb023c83c005f89b7a7abfe47cf11a74326d14295729a098);
+        assertEq(uint256(packed.unpackUint152(252)), 1);
+    }
+
+    function test_uint160() public {
+        PackedValue packed;
+
+        packed = PackedValue.wrap(0x8e833aefb26a18641ba3adee0000000000000000000000000000000000000000).packUint160(
+            1461501637330902918203684832716283019655932542975,
+            0
+        );
+        assertEq(PackedValue.unwrap(packed), 0x8e833aefb26a18641ba3adeeffffffffffffffffffffffffffffffffffffffff);
+        assertEq(uint256(packed.unpackUint160(0)), 1461501637330902918203684832716283019655932542975);
+
+        packed = PackedValue.wrap(0xc15e6593e972512acac8e49bb608b4da8d2dda6d5c05dbe761059bbb11e53600).packUint160(
+            534198778275293848117897633893439669544104078382,
+            14
+        );
+        assertEq(PackedValue.unwrap(packed), 0xc15e6593e972512acac8f7ffb74efcdaafaffb6fffddffeff3879fff7befb600);
+        assertEq(uint256(packed.unpackUint160(14)), 1278788603389550214838542446873462149093967916990);
+
+        packed = PackedValue.wrap(0x6e000000000000000000000000000000000000000096db95c2c610e81ca500cd).packUint160(
+            1124382817722299362985040468640296486306103999978,
+            88
+        );
+        assertEq(PackedValue.unwrap(packed), 0x6ec4f311bdfc4b27eaf1ce13b0b82b569d4298bdea96db95c2c610e81ca500cd);
+        assertEq(uint256(packed.unpackUint160(88)), 1124382817722299362985040468640296486306103999978);
+
+        packed = PackedValue.wrap(0x00000000000000000000000000000000000000008bc7f5b5449c532e01903840).packUint160(
+            499799092468025501726031798303302917859456894506,
+            96
+        );
+        assertEq(PackedValue.unwrap(packed), 0x578bc4345b0d87c9fca26014491c73c8f628c62a8bc7f5b5449c532e01903840);
+        assertEq(uint256(packed.unpackUint160(96)), 499799092468025501726031798303302917859456894506);
+
+        packed = PackedValue.wrap(0x00000000000000000cff6b3d3e6c15b81d6b458f2c076c70c61d459c911f3537).packUint160(
+            1133005939577745688595443971812450972504304782212,
+            190
+        );
+        assertEq(PackedValue.unwrap(packed), 0x29824b5be7e782e10cff6b3d3e6c15b81d6b458f2c076c70c61d459c911f3537);
+        assertEq(uint256(packed.unpackUint160(190)), 11964143842528988036);
+    }
+
+    function test_uint168() public {
+        PackedValue packed;
+
+        packed = PackedValue.wrap(0xc7ce4b9b132824842b8896000000000000000000000000000000000000000000).packUint168(
+            374144419156711147060143317175368453031918731001855,
+            0
+        );
+        assertEq(PackedValue.unwrap(packed), 0xc7ce4b9b132824842b8896ffffffffffffffffffffffffffffffffffffffffff);
+        assertEq(uint256(packed.unpackUint168(0)), 374144419156711147060143317175368453031918731001855);
+
+        packed = PackedValue.wrap(0xe7450f8101bd21d5aa94a8216c7141a706316d1c8dd41b5cfe600c367a8aa52b).packUint168(
+            44690917050594227017333874128238677760186552186923,
+            24
+        );
+        assertEq(PackedValue.unwrap(packed), 0xe7450f8101bd21d5be94aa27ef7b77a7fe7fefde9fdddfdeff7b5c7e7b8aa52b);
+        assertEq(uint256(packed.unpackUint168(24)), 278534036332507986281108258534332480764489913630331);
+
+        packed = PackedValue.wrap(0x4e6e17000000000000000000000000000000000000000000f0ef34e4bd45b3fc).packUint168(
+            253823191556075100989856857017445703140740730626587,
+            64
+        );
+        assertEq(PackedValue.unwrap(packed), 0x4e6e17adac418d9e9fc338c00035d21b17dda7edf8cea21bf0ef34e4bd45b3fc);
+        assertEq(uint256(packed.unpackUint168(64)), 253823191556075100989856857017445703140740730626587);
+
+        packed = PackedValue.wrap(0x9800000000000000000000000000000000000000000105411f6bf9fcbd650853).packUint168(
+            285177398614959849903126251241920042709559353453200,
+            82
+        );
+        assertEq(PackedValue.unwrap(packed), 0x9b0c81534b6ccf35cdf06f522ef2fdf6057c831aaa4105411f6bf9fcbd650853);
+        assertEq(uint256(packed.unpackUint168(82)), 285177398614959849903126251241920042709559353453200);
+
+        packed = PackedValue.wrap(0x000000000000000000000000000000000000000000404e939322250b5159a644).packUint168(
+            5350336488059816707582550381458912711503685320099,
+            88
+        );
+        assertEq(PackedValue.unwrap(packed), 0x03a92d62bfc81c284dd319fe2f6c99b2aac29b7da3404e939322250b5159a644);
+        assertEq(uint256(packed.unpackUint168(88)), 5350336488059816707582550381458912711503685320099);
+
+        packed = PackedValue.wrap(0x00000000000193197fac22d4a36c1cdb031c79fc0e5d0ba86786f2a8b25df1e6).packUint168(
+            137018145989596817049585378021975111959620971856513,
+            209
+        );
+        assertEq(PackedValue.unwrap(packed), 0xe5651066050393197fac22d4a36c1cdb031c79fc0e5d0ba86786f2a8b25df1e6);
+        assertEq(uint256(packed.unpackUint168(209)), 126111114789505);
+    }
+
+    function test_uint176() public {
+        PackedValue packed;
+
+        packed = PackedValue.wrap(0xf48ef92917693662c76800000000000000000000000000000000000000000000).packUint176(
+            95780971304118053647396689196894323976171195136475135,
+            0
+        );
+        assertEq(PackedValue.unwrap(packed), 0xf48ef92917693662c768ffffffffffffffffffffffffffffffffffffffffffff);
+        assertEq(uint256(packed.unpackUint176(0)), 95780971304118053647396689196894323976171195136475135);
+
+        packed = PackedValue.wrap(0x89ceaa06806a3ab211266d2e4dc768e472e16539c447b502fa65940fded7d4c1).packUint176(
+            88898943969624246506060464636619221518211647601839897,
+            8
+        );
+        assertEq(PackedValue.unwrap(packed), 0x89ceaa06806a3ab211efff2e7dc77ced77f5ef3ded57fd77fe6d97bfffdfddc1);
+        assertEq(uint256(packed.unpackUint176(8)), 89793464514519807668287157545944964020516391785324509);
+
+        packed = PackedValue.wrap(0xf690c8970c88d47a00000000000000000000000000000000000000000000f9bf).packUint176(
+            42004524328688163567418745953393527357343895462695943,
+            16
+        );
+        assertEq(PackedValue.unwrap(packed), 0xf690c8970c88d47a7044a96df7afafe25963a3014e075b92f7a78b315407f9bf);
+        assertEq(uint256(packed.unpackUint176(16)), 42004524328688163567418745953393527357343895462695943);
+
+        packed = PackedValue.wrap(0x00000000000000000000000000000000000000000000255bb96ac0ee3219851f).packUint176(
+            40844125335128148944955667387090433176348677957209164,
+            80
+        );
+        assertEq(PackedValue.unwrap(packed), 0x6d2aaf437b55862caf81e41a1a191c787a8631a3cc4c255bb96ac0ee3219851f);
+        assertEq(uint256(packed.unpackUint176(80)), 40844125335128148944955667387090433176348677957209164);
+
+        packed = PackedValue.wrap(0x0000000000000000001ff1ac37cd37605b1c44f240a786dfdd2e5d6f2b4b30d5).packUint176(
+            78353289670945980479442625274724564180205927766794179,
+            181
+        );
+        assertEq(PackedValue.unwrap(packed), 0xbd51274915b8b8b3f87ff1ac37cd37605b1c44f240a786dfdd2e5d6f2b4b30d5);
+        assertEq(uint256(packed.unpackUint176(181)), 27938258823439291097027);
+    }
+
+    function test_uint184() public {
+        PackedValue packed;
+
+        packed = PackedValue.wrap(0xcc5d77cdfdf2f1390f0000000000000000000000000000000000000000000000).packUint184(
+            24519928653854221733733552434404946937899825954937634815,
+            0
+        );
+        assertEq(PackedValue.unwrap(packed), 0xcc5d77cdfdf2f1390fffffffffffffffffffffffffffffffffffffffffffffff);
+        assertEq(uint256(packed.unpackUint184(0)), 24519928653854221733733552434404946937899825954937634815);
+
+        packed = PackedValue.wrap(0x7e2ea1f8378a6b05f7030484c2112723c9270af5de5dd83117b0c92492db0be6).packUint184(
+            22948647093697660525634240189625081804053390310331792523,
+            3
+        );
+        assertEq(PackedValue.unwrap(packed), 0x7e2ea1f8378a6b05f77fc6acfabb2faff97f7ef5fffffeb19ff0fbb69bfbeffe);
+        assertEq(uint256(packed.unpackUint184(3)), 22984752167162410111043995648278101494775380462438153727);
+
+        packed = PackedValue.wrap(0x71954433620000000000000000000000000000000000000000000000f8c61f54).packUint184(
+            2753190731328586270292313558298481244247837970078141506,
+            32
+        );
+        assertEq(PackedValue.unwrap(packed), 0x71954433621cbea18af9baecbfc582141f1f84481f2db364484c8c42f8c61f54);
+        assertEq(uint256(packed.unpackUint184(32)), 2753190731328586270292313558298481244247837970078141506);
+
+        packed = PackedValue.wrap(0x00000000000000000000000000000000000000000000006f81487f13496e7b8a).packUint184(
+            18966086253695539823310127116385499074610513450418658059,
+            72
+        );
+        assertEq(PackedValue.unwrap(packed), 0xc603e2d2b1c755b5be0c9a1bb00e12982fad98f4955b0b6f81487f13496e7b8a);
+        assertEq(uint256(packed.unpackUint184(72)), 18966086253695539823310127116385499074610513450418658059);
+
+        packed = PackedValue.wrap(0x00000000003c2891d61f8c52a46143c39be3190d6b9b942e6e8e1898868eb0a2).packUint184(
+            6081910567445170425370063180587333127925008239201435599,
+            217
+        );
+        assertEq(PackedValue.unwrap(packed), 0xeec74a7f9e3c2891d61f8c52a46143c39be3190d6b9b942e6e8e1898868eb0a2);
+        assertEq(uint256(packed.unpackUint184(217)), 512772882383);
+    }
+
+    function test_uint192() public {
+        PackedValue packed;
+
+        packed = PackedValue.wrap(0x3ff81d2834cb6d60000000000000000000000000000000000000000000000000).packUint192(
+            6277101735386680763835789423207666416102355444464034512895,
+            0
+        );
+        assertEq(PackedValue.unwrap(packed), 0x3ff81d2834cb6d60ffffffffffffffffffffffffffffffffffffffffffffffff);
+        assertEq(uint256(packed.unpackUint192(0)), 6277101735386680763835789423207666416102355444464034512895);
+
+        packed = PackedValue.wrap(0x219142e8b65466f4003f9cf0bcf3d5994615e70816e98019533b11bf7e56aad2).packUint192(
+            303184676656326279711539209029685042335645544230486532531,
+            6
+        );
+        assertEq(PackedValue.unwrap(packed), 0x219142e8b65466f7177fdffbfeffdf9df73def3f1feffb7bdfffb5ff7ffeeed2);
+        assertEq(uint256(packed.unpackUint192(6)), 5403387527986873200717305501215135077964262351384447286203);
+
+        packed = PackedValue.wrap(0x999051b19b00000000000000000000000000000000000000000000000061d503).packUint192(
+            2967662578377420243441963689546407738520647779661875659564,
+            24
+        );
+        assertEq(PackedValue.unwrap(packed), 0x999051b19b7907d7cf9a5031b084ed151ff847e34a15be59597232432c61d503);
+        assertEq(uint256(packed.unpackUint192(24)), 2967662578377420243441963689546407738520647779661875659564);
+
+        packed = PackedValue.wrap(0xfb00000000000000000000000000000000000000000000000095b6d500d6ae15).packUint192(
+            6247046770544910789999153733211172945679228898097478698629,
+            56
+        );
+        assertEq(PackedValue.unwrap(packed), 0xfbfec636268e3c861408ada769154f454bc2500e05c8d7068595b6d500d6ae15);
+        assertEq(uint256(packed.unpackUint192(56)), 6247046770544910789999153733211172945679228898097478698629);
+
+        packed = PackedValue.wrap(0x0000000000000000000000000000000000000000000000009d47ceec316ed9a1).packUint192(
+            2031897938113301771562075142646741559556047553253407944251,
+            64
+        );
+        assertEq(PackedValue.unwrap(packed), 0x52de011a7eddd2acbc4b86a9c00b5e45ded704b13adb6e3b9d47ceec316ed9a1);
+        assertEq(uint256(packed.unpackUint192(64)), 2031897938113301771562075142646741559556047553253407944251);
+
+        packed = PackedValue.wrap(0x00000000000000000000000000000000000006edbb8a95ea663ebff1a5e39994).packUint192(
+            4305831208685490272738547244939740286068265077892279117356,
+            107
+        );
+        assertEq(PackedValue.unwrap(packed), 0xd934a2299abe3588982d8ac2f36e3683593166edbb8a95ea663ebff1a5e39994);
+        assertEq(uint256(packed.unpackUint192(107)), 605480840999357173644638852292489445454325292);
+    }
+
+    function test_uint200() public {
+        PackedValue packed;
+
+        packed = PackedValue.wrap(0x18aa1c1eeb83b100000000000000000000000000000000000000000000000000).packUint200(
+            1606938044258990275541962092341162602522202993782792835301375,
+            0
+        );
+        assertEq(PackedValue.unwrap(packed), 0x18aa1c1eeb83b1ffffffffffffffffffffffffffffffffffffffffffffffffff);
+        assertEq(uint256(packed.unpackUint200(0)), 1606938044258990275541962092341162602522202993782792835301375);
+
+        packed = PackedValue.wrap(0x36c56baa2207c4f9e0e958c0f377a8210f75ce694dc1214bcf159796fca24ac2).packUint200(
+            214012965112868609352229921671778432063956219230839315501791,
+            40
+        );
+        assertEq(PackedValue.unwrap(packed), 0x36c56bba3f9fe7ffedff5de9fb77ab2daff7dffb4def61dbcf17df96fca24ac2);
+        assertEq(uint256(packed.unpackUint200(40)), 676216686445214510719556971070850101704740599980093908916191);
+
+        packed = PackedValue.wrap(0x4700000000000000000000000000000000000000000000000000d499fb7e07c9).packUint200(
+            1110694089070085623382494973212730963919053036896436187397382,
+            48
+        );
+        assertEq(PackedValue.unwrap(packed), 0x47b0f19b5cf97a5256d27e4abe7c23759694e011541207817d06d499fb7e07c9);
+        assertEq(uint256(packed.unpackUint200(48)), 1110694089070085623382494973212730963919053036896436187397382);
+
+        packed = PackedValue.wrap(0x000000000000000000000000000000000000000000000000002326a69245104a).packUint200(
+            214952599488798574702908881476574420604644482068007213129770,
+            56
+        );
+        assertEq(PackedValue.unwrap(packed), 0x223e71da41991cdaa4ebc84d9fe6e487fb4fc6043c1494e02a2326a69245104a);
+        assertEq(uint256(packed.unpackUint200(56)), 214952599488798574702908881476574420604644482068007213129770);
+
+        packed = PackedValue.wrap(0x0000000000000000000000000000000000000008adc7a05b0cc782382665902b).packUint200(
+            1142682306418065511024033751548821916440909576356489112678361,
+            104
+        );
+        assertEq(PackedValue.unwrap(packed), 0xe86413bbf44f08d99f71f0be9d439b72a16fd908adc7a05b0cc782382665902b);
+        assertEq(uint256(packed.unpackUint200(104)), 5182490829851410748128514008690724982883446745);
+    }
+
+    function test_uint208() public {
+        PackedValue packed;
+
+        packed = PackedValue.wrap(0x120f608cb0b00000000000000000000000000000000000000000000000000000).packUint208(
+            411376139330301510538742295639337626245683966408394965837152255,
+            0
+        );
+        assertEq(PackedValue.unwrap(packed), 0x120f608cb0b0ffffffffffffffffffffffffffffffffffffffffffffffffffff);
+        assertEq(uint256(packed.unpackUint208(0)), 411376139330301510538742295639337626245683966408394965837152255);
+
+        packed = PackedValue.wrap(0x5b4a1d2d79cf30d4451a1d408b25a91c20d510415336f591f865610091f9a8de).packUint208(
+            241726932428188475975979663631768253488663864101761672897385187,
+            16
+        );
+        assertEq(PackedValue.unwrap(packed), 0x5b4a1d2dffef72f7cdff3ffaff7fe93cbfdff761d77efdf3f8ff7facd3fba8de);
+        assertEq(uint256(packed.unpackUint208(16)), 411272247607639042572701169475870317591602242539790013498708987);
+
+        packed = PackedValue.wrap(0x3d41000000000000000000000000000000000000000000000000000008355295).packUint208(
+            227889098187011269853374419002034684694248168744378335230284828,
+            32
+        );
+        assertEq(PackedValue.unwrap(packed), 0x3d418dd0d3f0f8faa55212a9ed3d984cb6644d818be8d60b4485d41c08355295);
+        assertEq(uint256(packed.unpackUint208(32)), 227889098187011269853374419002034684694248168744378335230284828);
+
+        packed = PackedValue.wrap(0x800000000000000000000000000000000000000000000000000036c07ed816ff).packUint208(
+            114929103355942415707358475216638683026086497294410456039323771,
+            47
+        );
+        assertEq(PackedValue.unwrap(packed), 0xa3c2a1994e2694f1e7fdfb4bcfa445388623bf3e6f46c7a33c3db6c07ed816ff);
+        assertEq(uint256(packed.unpackUint208(47)), 114929103355942415707358475216638683026086497294410456039323771);
+
+        packed = PackedValue.wrap(0x0000000000000000000000000000000000000000000000000000e55dd2dd39c5).packUint208(
+            124689505390045225055433026329346312640317622069402793217388768,
+            48
+        );
+        assertEq(PackedValue.unwrap(packed), 0x4d982f2a9d5d0dd5a55c796214cffd60a8807ec3e4e0253c70e0e55dd2dd39c5);
+        assertEq(uint256(packed.unpackUint208(48)), 124689505390045225055433026329346312640317622069402793217388768);
+
+        packed = PackedValue.wrap(0x0000000000000000000000001ef373e145f9eab44163f5749c3c605e8d5b2b11).packUint208(
+            28356418798430960326681588958250345005421731396153673317685296,
+            157
+        );
+        assertEq(PackedValue.unwrap(packed), 0xf0cdb3f8d68211270467a3061ef373e145f9eab44163f5749c3c605e8d5b2b11);
+        assertEq(uint256(packed.unpackUint208(157)), 596200656351949721212708263984);
+    }
+
+    function test_uint216() public {
+        PackedValue packed;
+
+        packed = PackedValue.wrap(0xade45225fd000000000000000000000000000000000000000000000000000000).packUint216(
+            105312291668557186697918027683670432318895095400549111254310977535,
+            0
+        );
+        assertEq(PackedValue.unwrap(packed), 0xade45225fdffffffffffffffffffffffffffffffffffffffffffffffffffffff);
+        assertEq(uint256(packed.unpackUint216(0)), 105312291668557186697918027683670432318895095400549111254310977535);
+
+        packed = PackedValue.wrap(0x56fe1d479716ba2f9813381202146af8e55ccd6690bffa901704394c3eb89798).packUint216(
+            82962900536795594295563523269170702666400119666458211619592996709,
+            8
+        );
+        assertEq(PackedValue.unwrap(packed), 0x56fe1d47dfbffabfb9773b9e833f7ffbf5ffef77d7fffe903f557dec7ebff798);
+        assertEq(uint256(packed.unpackUint216(8)), 92045378213615013559800918888176475145918647063112548821652914167);
+
+        packed = PackedValue.wrap(0xec9a46000000000000000000000000000000000000000000000000000001c7e7).packUint216(
+            7462213124886106046183399312484422758273658073679230451072540915,
+            17
+        );
+        assertEq(PackedValue.unwrap(packed), 0xec9a4624477e460fecc7f8d2b0904a19486a5e5e7eb2560da43a612541e7c7e7);
+        assertEq(uint256(packed.unpackUint216(17)), 7462213124886106046183399312484422758273658073679230451072540915);
+
+        packed = PackedValue.wrap(0xc762000000000000000000000000000000000000000000000000000000cf6f7e).packUint216(
+            85512567577571729711564000490090082535402583834479708957162121495,
+            24
+        );
+        assertEq(PackedValue.unwrap(packed), 0xc762cfde99f88653cb07cb44aaf4568323204bfc5644b25f42bf60a917cf6f7e);
+        assertEq(uint256(packed.unpackUint216(24)), 85512567577571729711564000490090082535402583834479708957162121495);
+
+        packed = PackedValue.wrap(0x000000000000000000000000000000000000000000000000000000de2d8ccb63).packUint216(
+            15099932425558349664154941812652772762509881344844068152204353704,
+            40
+        );
+        assertEq(PackedValue.unwrap(packed), 0x24b4b60544c135018be211c2871c3da105747cbc6263c3ea5c60a8de2d8ccb63);
+        assertEq(uint256(packed.unpackUint216(40)), 15099932425558349664154941812652772762509881344844068152204353704);
+
+        packed = PackedValue.wrap(0x00000001c295713ff27ed05a79ae9faf9c6f22e716537e6d01aa054d293d992d).packUint216(
+            35242929435323796921909958767292250658768107509808500036076670182,
+            231
+        );
+        assertEq(PackedValue.unwrap(packed), 0xf8c67301c295713ff27ed05a79ae9faf9c6f22e716537e6d01aa054d293d992d);
+        assertEq(uint256(packed.unpackUint216(231)), 32607462);
+    }
+
+    function test_uint224() public {
+        PackedValue packed;
+
+        packed = PackedValue.wrap(0x371732bc00000000000000000000000000000000000000000000000000000000).packUint224(
+            26959946667150639794667015087019630673637144422540572481103610249215,
+            0
+        );
+        assertEq(PackedValue.unwrap(packed), 0x371732bcffffffffffffffffffffffffffffffffffffffffffffffffffffffff);
+        assertEq(
+            uint256(packed.unpackUint224(0)),
+            26959946667150639794667015087019630673637144422540572481103610249215
+        );
+
+        packed = PackedValue.wrap(0x14e0abb2bfcf7c3e2cfa2f23425329e1dcad513c211f942d7b9b825c35c18b75).packUint224(
+            20234206365892588333762484385455702931580235956958818579060268251325,
+            13
+        );
+        assertEq(PackedValue.unwrap(packed), 0x14e0bbb6ffff7f3ebeff7fa7cf5f2bffddfdd9ffbbffb62f7f9f8fdeb7d7ab75);
+        assertEq(
+            uint256(packed.unpackUint224(13)),
+            23349709643131426415979029717640613324958728101967260339843540303549
+        );
+
+        packed = PackedValue.wrap(0x96000000000000000000000000000000000000000000000000000000001fe0d3).packUint224(
+            20280688603757339837460167318709931062799948661176564046468734189679,
+            24
+        );
+        assertEq(PackedValue.unwrap(packed), 0x96c0939f80af273e82d37541bcf43d8225366812aa7dc7392b1197006f1fe0d3);
+        assertEq(
+            uint256(packed.unpackUint224(24)),
+            20280688603757339837460167318709931062799948661176564046468734189679
+        );
+
+        packed = PackedValue.wrap(0x00000000000000000000000000000000000000000000000000000000169dda78).packUint224(
+            11997480793999788189516707053866049645447701305170641402192865502125,
+            32
+        );
+        assertEq(PackedValue.unwrap(packed), 0x71ec42a0b055491d413a1636b350348997b6ecdbf69029b901efa3ad169dda78);
+        assertEq(
+            uint256(packed.unpackUint224(32)),
+            11997480793999788189516707053866049645447701305170641402192865502125
+        );
+
+        packed = PackedValue.wrap(0x0000000000000000000000000776d98602ec155877fe51979acb73c63488b544).packUint224(
+            13458653632284194005047185751221163152707701699221053994771018175076,
+            156
+        );
+        assertEq(PackedValue.unwrap(packed), 0xe05228a933f85c7fe3f785264776d98602ec155877fe51979acb73c63488b544);
+        assertEq(uint256(packed.unpackUint224(156)), 1110783458129497648382615245412);
+    }
+
+    function test_uint232() public {
+        PackedValue packed;
+
+        packed = PackedValue.wrap(0xbd7ae60000000000000000000000000000000000000000000000000000000000).packUint232(
+            6901746346790563787434755862277025452451108972170386555162524223799295,
+            0
+        );
+        assertEq(PackedValue.unwrap(packed), 0xbd7ae6ffffffffffffffffffffffffffffffffffffffffffffffffffffffffff);
+        assertEq(
+            uint256(packed.unpackUint232(0)),
+            6901746346790563787434755862277025452451108972170386555162524223799295
+        );
+
+        packed = PackedValue.wrap(0xe7240b58f7437b66e668587f1d4a037f06ae1c54dd761a39ca07d06bee139491).packUint232(
+            158166628094426677413249353469358735859529161479003042295905935916271,
+            8
+        );
+        assertEq(PackedValue.unwrap(packed), 0xe7240fddf7c77ff7e77ddc7f9fdae3ff57ae1ed5fdf6fb39eb0ff5efef7fff91);
+        assertEq(
+            uint256(packed.unpackUint232(8)),
+            427775146956366642458706075182769968092453120667821693356473762938879
+        );
+
+        packed = PackedValue.wrap(0xdc0000000000000000000000000000000000000000000000000000000001e8b3).packUint232(
+            6132273478949387637365071697578934016205661107685191961887195774360578,
+            17
+        );
+        assertEq(PackedValue.unwrap(packed), 0xddc6ead62581443049ec784b136aab6c4338b722779e0ed6b1f025b93805e8b3);
+        assertEq(
+            uint256(packed.unpackUint232(17)),
+            6132273478949387637365071697578934016205661107685191961887195774360578
+        );
+
+        packed = PackedValue.wrap(0x000000000000000000000000000000000000000000000000000000000071c9d3).packUint232(
+            4441689404304227919089424871639427243141629428556912308163338961094633,
+            24
+        );
+        assertEq(PackedValue.unwrap(packed), 0xa4c05cd63ffa853e863bfe9035b30d96588269c85466c73752db5307e971c9d3);
+        assertEq(
+            uint256(packed.unpackUint232(24)),
+            4441689404304227919089424871639427243141629428556912308163338961094633
+        );
+
+        packed = PackedValue.wrap(0x000000000000000000000000000000000000000034420633d3211ad946f6ed88).packUint232(
+            6107816522305659513012913213797536913439546643737039727473045774662643,
+            97
+        );
+        assertEq(PackedValue.unwrap(packed), 0x8504ee77dd37ae5058477b1502f05a0bb5dbf7e634420633d3211ad946f6ed88);
+        assertEq(uint256(packed.unpackUint232(97)), 379702874506033350323242141524567498251614157811);
+    }
+
+    function test_uint240() public {
+        PackedValue packed;
+
+        packed = PackedValue.wrap(0xc054000000000000000000000000000000000000000000000000000000000000).packUint240(
+            1766847064778384329583297500742918515827483896875618958121606201292619775,
+            0
+        );
+        assertEq(PackedValue.unwrap(packed), 0xc054ffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff);
+        assertEq(
+            uint256(packed.unpackUint240(0)),
+            1766847064778384329583297500742918515827483896875618958121606201292619775
+        );
+
+        packed = PackedValue.wrap(0x4a0f35afad1087c43b6d91c19ff13e0590d5ce60b4758cb90da5582499eadb64).packUint240(
+            576851548065167445222818255460365938982148023333857719502228029748462874,
+            2
+        );
+        assertEq(PackedValue.unwrap(packed), 0x4a0f7fffffd0cff4bbedb5c7bffdff8dbcd5cff5bf7d9effbffddce4ffebdf6c);
+        assertEq(
+            uint256(packed.unpackUint240(2)),
+            1545991176828115715416718657118592704165192955404894477277848930638034907
+        );
+
+        packed = PackedValue.wrap(0x000000000000000000000000000000000000000000000000000000000000d623).packUint240(
+            1503975745074609484184342769657156508807872908885920243708595717555386361,
+            16
+        );
+        assertEq(PackedValue.unwrap(packed), 0xd9e98f93493058e7241018095feb69872186b327d60fafc825616a2c77f9d623);
+        assertEq(
+            uint256(packed.unpackUint240(16)),
+            1503975745074609484184342769657156508807872908885920243708595717555386361
+        );
+
+        packed = PackedValue.wrap(0x07a822b5ad17358a5367bdeb91b31f7bb0632057a55fce363ab2a323be2f67ef).packUint240(
+            1750895661648467919252952475335948339924910920378955909322835010224468684,
+            251
+        );
+        assertEq(PackedValue.unwrap(packed), 0x67a822b5ad17358a5367bdeb91b31f7bb0632057a55fce363ab2a323be2f67ef);
+        assertEq(uint256(packed.unpackUint240(251)), 12);
+    }
+
+    function test_uint248() public {
+        PackedValue packed;
+
+        packed = PackedValue.wrap(0xa400000000000000000000000000000000000000000000000000000000000000).packUint248(
+            452312848583266388373324160190187140051835877600158453279131187530910662655,
+            0
+        );
+        assertEq(PackedValue.unwrap(packed), 0xa4ffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff);
+        assertEq(
+            uint256(packed.unpackUint248(0)),
+            452312848583266388373324160190187140051835877600158453279131187530910662655
+        );
+
+        packed = PackedValue.wrap(0xd0b26ed700ec27d5a9bd6ef9e36493f57b27c09b5bbe8c3de36f563c43a8493f).packUint248(
+            50168850406857335008796135568731788317883216537524472318837916033362853664,
+            7
+        );
+        assertEq(PackedValue.unwrap(packed), 0xdeb2efdfe1fe2ff7ebbdfff9fb66d3f57f37ed9f5fbe8f3feb7f76fcf7bfd93f);
+        assertEq(
+            uint256(packed.unpackUint248(7)),
+            334637203887518866283000180809179985052725974360012677310541296172459327410
+        );
+
+        packed = PackedValue.wrap(0x00000000000000000000000000000000000000000000000000000000000000f5).packUint248(
+            131629375754196811884050277384648171216842006705234727729048760150041027380,
+            8
+        );
+        assertEq(PackedValue.unwrap(packed), 0x4a7fe4e6ce592b95f073d53e712572a1d242d8569d06313fda95ed9487e334f5);
+        assertEq(
+            uint256(packed.unpackUint248(8)),
+            131629375754196811884050277384648171216842006705234727729048760150041027380
+        );
+
+        packed = PackedValue.wrap(0x000464abdf0eabdee4889f33c5d28d214302de9e756e99716677cf580bab3119).packUint248(
+            91159074780284866296990638750165419282043155782394702832677248893107624388,
+            243
+        );
+        assertEq(PackedValue.unwrap(packed), 0xce2464abdf0eabdee4889f33c5d28d214302de9e756e99716677cf580bab3119);
+        assertEq(uint256(packed.unpackUint248(243)), 6596);
+    }
+
+    function test_bool() public {
+        PackedValue packed;
+
+        packed = PackedValue.wrap(0xeef2f3c81e8010898be156b9ceaac0480e9b281d7fc45fa47f0fb9369be8cc00).packBool(
+            false,
+            0
+        );
+        assertEq(PackedValue.unwrap(packed), 0xeef2f3c81e8010898be156b9ceaac0480e9b281d7fc45fa47f0fb9369be8cc00);
+        assertEq(packed.unpackBool(0), false);
+
+        packed = PackedValue.wrap(0x8be73169eb130dc424d4c95b71922201fcb6ba3b42f2608e4f08f8bf20c0b719).packBool(
+            true,
+            56
+        );
+        assertEq(PackedValue.unwrap(packed), 0x8be73169eb130dc424d4c95b71922201fcb6ba3b42f2608e4f08f8bf20c0b719);
+        assertEq(packed.unpackBool(56), true);
+
+        packed = PackedValue.wrap(0x531c1a6d384dfd73fbd3d1fc3547c01b21d2c515fae99e5478bade4dc251da96).packBool(
+            true,
+            133
+        );
+        assertEq(PackedValue.unwrap(packed), 0x531c1a6d384dfd73fbd3d1fc3547c03b21d2c515fae99e5478bade4dc251da96);
+        assertEq(packed.unpackBool(133), true);
+
+        packed = PackedValue.wrap(0xde7a0041230e8fd120ffec8840928fc48dc4f179ff72adf38acd4c30aa899185).packBool(
+            false,
+            232
+        );
+        assertEq(PackedValue.unwrap(packed), 0xde7a0041230e8fd120ffec8840928fc48dc4f179ff72adf38acd4c30aa899185);
+        assertEq(packed.unpackBool(232), false);
+
+        packed = PackedValue.wrap(0x005f6cdb84226bfd48505fd1fe9b161f38fbbf941cc0dae30c26405afa8658ad).packBool(
+            false,
+            248
+        );
+        assertEq(PackedValue.unwrap(packed), 0x005f6cdb84226bfd48505fd1fe9b161f38fbbf941cc0dae30c26405afa8658ad);
+        assertEq(packed.unpackBool(248), false);
+
+        packed = PackedValue.wrap(0x0071885d7c6652197d6f81adc84bdc43b9c22394bf215af7dc196e74cc1abc84).packBool(
+            true,
+            250
+        );
+        assertEq(PackedValue.unwrap(packed), 0x0471885d7c6652197d6f81adc84bdc43b9c22394bf215af7dc196e74cc1abc84);
+        assertEq(packed.unpackBool(250), true);
+    }
+
+    function test_address() public {
+        PackedValue packed;
+
+        packed = PackedValue.wrap(0x882c2edbcf3d1f3679449f0e0000000000000000000000000000000000000000).packAddress(
+            0x5b125da95cb5970a34a66ed8f053243D0DBc1c5F,
+            0
+        );
+        assertEq(PackedValue.unwrap(packed), 0x882c2edbcf3d1f3679449f0e5b125da95cb5970a34a66ed8f053243d0dbc1c5f);
+        assertEq(packed.unpackAddress(0), 0x5b125da95cb5970a34a66ed8f053243D0DBc1c5F);
+
+        packed = PackedValue.wrap(0xd9cf3749fb2712718685432873df914325ef3698ae5df247febd7bc251d6e9fb).packAddress(
+            0x3cf09DE2689d1aA8C0746c861985ddEFdED2eCB9,
+            33
+        );
+        assertEq(PackedValue.unwrap(packed), 0xd9cf3749fb271271ffe57becf3ffb553a5efff9cbf5ffbdfffbdfbf251d6e9fb);
+        assertEq(packed.unpackAddress(33), 0xffF2bDF679fFdaa9D2f7fFcE5FaFFDefFfDEFDf9);
+
+        packed = PackedValue.wrap(0x120cd969469689000000000000000000000000000000000000000072303ba0db).packAddress(
+            0xCF17696e86102570c93819D1C4E5e4c6Eb121F41,
+            40
+        );
+        assertEq(PackedValue.unwrap(packed), 0x120cd969469689cf17696e86102570c93819d1c4e5e4c6eb121f4172303ba0db);
+        assertEq(packed.unpackAddress(40), 0xCF17696e86102570c93819D1C4E5e4c6Eb121F41);
+
+        packed = PackedValue.wrap(0x16cf1bf200000000000000000000000000000000000000003748a5db370f5956).packAddress(
+            0xB3619b13FE8f4975cf8327e68e8a1E610CDDe378,
+            64
+        );
+        assertEq(PackedValue.unwrap(packed), 0x16cf1bf2b3619b13fe8f4975cf8327e68e8a1e610cdde3783748a5db370f5956);
+        assertEq(packed.unpackAddress(64), 0xB3619b13FE8f4975cf8327e68e8a1E610CDDe378);
+
+        packed = PackedValue.wrap(0x000000000000000000000000000000000000000070cf463f4f54f683e066e9a3).packAddress(
+            0xB8dfDAA786E03F9C549Dabe31e333dc1EC3AB895,
+            96
+        );
+        assertEq(PackedValue.unwrap(packed), 0xb8dfdaa786e03f9c549dabe31e333dc1ec3ab89570cf463f4f54f683e066e9a3);
+        assertEq(packed.unpackAddress(96), 0xB8dfDAA786E03F9C549Dabe31e333dc1EC3AB895);
+
+        packed = PackedValue.wrap(0x000000000000000000000000000079d955bb29400502e35032d4cf5128efcdea).packAddress(
+            0x0FED6A357BB502199e5b1bCf6367de97925b8111,
+            143
+        );
+        assertEq(PackedValue.unwrap(packed), 0x810ccf2d8de7b1b3ef4bc92dc088f9d955bb29400502e35032d4cf5128efcdea);
+        assertEq(packed.unpackAddress(143), 0x00000000000102199E5B1BCf6367de97925b8111);
+    }
+}
@@ -0,0 +1,14 @@
+// A xorshift64 generator, so that the random sequences of a differential test are the same on every run
+export function seededRandom(seed: bigint) {
+    const random = () => {
+        seed ^= seed << 13n;
+        seed &= (1n << 64n) - 1n;
+        seed ^= seed >> 7n;
+        seed ^= seed << 17n;
+        seed &= (1n << 64n) - 1n;
+        return seed;
+    };
+    // a random bigint in [min, max]
+    const between = (min: bigint, max: bigint) => min + (random() % (max - min + 1n));
+    return {random, between};
+}
@@ -0,0 +1,13 @@
+import {MarketConfig} from "../../scripts/marketConfig";
+import {riskTiers} from "../../scripts/riskTiers";
+
+// Lists the cases of a test for every risk tier, each variant of a tier named by the suffix of its name
+export function tierCases<T>(variants: (cfg: MarketConfig) => [suffix: string, value: T][]) {
+    const cases: {name: string; value: T}[] = [];
+    for (const [tier, cfg] of Object.entries(riskTiers)) {
+        for (const [suffix, value] of variants(cfg)) {
+            cases.push({name: `${tier} tier${suffix}`, value});
+        }
+    }
+    return cases;
+}